@@ -3,7 +3,7 @@
  * Uses ts-morph to parse TypeScript AST and extract prompt argument mappings
  */
 
-import { Project, SyntaxKind } from 'ts-morph'
+import { type Node, type ObjectLiteralExpression, Project, SyntaxKind } from 'ts-morph'
 
 /**
  * Metadata for a single argument extracted from prompt calls
@@ -23,6 +23,10 @@ export interface ArgMeta {
   choices?: string[] | null
   /** Prompt message */
   message?: string
+  /** Whether the argument must be given (declared arguments only) */
+  required?: boolean
+  /** Value used when the argument is missing (declared arguments only) */
+  defaultValue?: string | number | boolean
 }
 
 /**
@@ -37,9 +41,130 @@ export interface ActionArgsMeta {
   args: ArgMeta[]
 }
 
+const PROMPT_TYPES: ArgMeta['type'][] = [
+  'text',
+  'number',
+  'select',
+  'confirm',
+  'multiSelect',
+  'password',
+]
+
+/**
+ * Get the value of a string literal property
+ */
+function getStringProperty(obj: ObjectLiteralExpression, name: string): string | undefined {
+  const initializer = obj.getProperty(name)?.asKind(SyntaxKind.PropertyAssignment)?.getInitializer()
+  if (initializer?.getKind() === SyntaxKind.StringLiteral) {
+    return initializer.getText().slice(1, -1) // Remove quotes
+  }
+  return undefined
+}
+
+/**
+ * Extract static choices (null if they are not all string literals)
+ */
+function getChoices(choices: Node | undefined): string[] | null {
+  const arrayExpr = choices?.asKind(SyntaxKind.ArrayLiteralExpression)
+  if (!arrayExpr) {
+    // Dynamic choices (variable reference)
+    return null
+  }
+  const values: string[] = []
+  for (const element of arrayExpr.getElements()) {
+    if (element.getKind() !== SyntaxKind.StringLiteral) {
+      // Non-string element, mark as dynamic
+      return null
+    }
+    values.push(element.getText().slice(1, -1))
+  }
+  return values
+}
+
+/**
+ * Extract the argument mapping from prompt options or a form field
+ *
+ * @returns Argument metadata, or null if the options have no arg mapping
+ */
+function extractArgMeta(
+  optionsObj: ObjectLiteralExpression,
+  type: ArgMeta['type'],
+  message: string | undefined,
+): ArgMeta | null {
+  // Check if arg mapping exists
+  const argIndexProp = optionsObj.getProperty('argIndex')
+  if (!optionsObj.getProperty('arg') && !optionsObj.getProperty('argShort') && !argIndexProp) {
+    return null
+  }
+
+  const argMeta: ArgMeta = { type, message }
+
+  const name = getStringProperty(optionsObj, 'arg')
+  if (name !== undefined) {
+    argMeta.name = name
+  }
+
+  const short = getStringProperty(optionsObj, 'argShort')
+  if (short !== undefined) {
+    argMeta.short = short
+  }
+
+  if (argIndexProp) {
+    const initializer = argIndexProp.asKind(SyntaxKind.PropertyAssignment)?.getInitializer()
+    if (initializer?.getKind() === SyntaxKind.NumericLiteral) {
+      argMeta.index = Number(initializer.getText())
+    }
+  }
+
+  const description = getStringProperty(optionsObj, 'description')
+  if (description !== undefined) {
+    argMeta.description = description
+  }
+
+  return argMeta
+}
+
+/**
+ * Extract arguments of the fields of a form page (`{ fields: { ... } }`)
+ */
+function extractFormFieldArgs(page: Node): ArgMeta[] {
+  const fields = page
+    .asKind(SyntaxKind.ObjectLiteralExpression)
+    ?.getProperty('fields')
+    ?.asKind(SyntaxKind.PropertyAssignment)
+    ?.getInitializerIfKind(SyntaxKind.ObjectLiteralExpression)
+  if (!fields) return []
+
+  const args: ArgMeta[] = []
+  for (const property of fields.getProperties()) {
+    const field = property
+      .asKind(SyntaxKind.PropertyAssignment)
+      ?.getInitializerIfKind(SyntaxKind.ObjectLiteralExpression)
+    if (!field) continue
+
+    const type = getStringProperty(field, 'type') as ArgMeta['type'] | undefined
+    if (!type || !PROMPT_TYPES.includes(type)) continue
+
+    const argMeta = extractArgMeta(field, type, getStringProperty(field, 'message'))
+    if (!argMeta) continue
+
+    if (type === 'select' || type === 'multiSelect') {
+      argMeta.choices = getChoices(
+        field.getProperty('choices')?.asKind(SyntaxKind.PropertyAssignment)?.getInitializer(),
+      )
+    }
+
+    args.push(argMeta)
+  }
+  return args
+}
+
 /**
  * Analyze an action file and extract argument metadata
  *
+ * Covers the shorthand prompt methods (`tui.prompt.text(...)`, ...) and the
+ * fields of form / step-form prompts (`tui.prompt({ fields })`, `tui.prompt([...])`).
+ *
  * @param filePath - Path to the action TypeScript file
  * @returns Extracted metadata or null if parsing fails
  *
@@ -65,6 +190,20 @@ export function analyzeActionArgs(filePath: string): ActionArgsMeta | null {
 
     for (const call of callExpressions) {
       const expression = call.getExpression().getText()
+      const callArgs = call.getArguments()
+
+      if (callArgs.length === 0) continue
+
+      // Form / step-form prompt: tui.prompt({ fields }) or prompt([{ fields }, ...])
+      if (/(?:^|\.)prompt$/.test(expression)) {
+        const pages = callArgs[0].asKind(SyntaxKind.ArrayLiteralExpression)?.getElements() ?? [
+          callArgs[0],
+        ]
+        for (const page of pages) {
+          args.push(...extractFormFieldArgs(page))
+        }
+        continue
+      }
 
       // Check if it's a prompt call (supports both tui.prompt.* and destructured prompt.*)
       // Examples:
@@ -76,9 +215,6 @@ export function analyzeActionArgs(filePath: string): ActionArgsMeta | null {
       if (!promptMatch) continue
 
       const promptType = promptMatch[1] as ArgMeta['type']
-      const callArgs = call.getArguments()
-
-      if (callArgs.length === 0) continue
 
       // Extract message (first argument)
       const messageArg = callArgs[0]
@@ -90,82 +226,15 @@ export function analyzeActionArgs(filePath: string): ActionArgsMeta | null {
           : undefined
 
       // Extract options (last argument if it's an object)
-      const lastArg = callArgs[callArgs.length - 1]
-      if (lastArg.getKind() !== SyntaxKind.ObjectLiteralExpression) continue
-
-      const optionsObj = lastArg.asKind(SyntaxKind.ObjectLiteralExpression)
+      const optionsObj = callArgs[callArgs.length - 1].asKind(SyntaxKind.ObjectLiteralExpression)
       if (!optionsObj) continue
 
-      // Check if arg mapping exists
-      const argProp = optionsObj.getProperty('arg')
-      const argShortProp = optionsObj.getProperty('argShort')
-      const argIndexProp = optionsObj.getProperty('argIndex')
-
-      if (!argProp && !argShortProp && argIndexProp === undefined) continue
-
-      // Extract arg values
-      const argMeta: ArgMeta = {
-        type: promptType,
-        message,
-      }
-
-      // Extract arg name
-      if (argProp) {
-        const initializer = argProp.asKind(SyntaxKind.PropertyAssignment)?.getInitializer()
-        if (initializer?.getKind() === SyntaxKind.StringLiteral) {
-          argMeta.name = initializer.getText().slice(1, -1)
-        }
-      }
-
-      // Extract argShort
-      if (argShortProp) {
-        const initializer = argShortProp.asKind(SyntaxKind.PropertyAssignment)?.getInitializer()
-        if (initializer?.getKind() === SyntaxKind.StringLiteral) {
-          argMeta.short = initializer.getText().slice(1, -1)
-        }
-      }
-
-      // Extract argIndex
-      if (argIndexProp) {
-        const initializer = argIndexProp.asKind(SyntaxKind.PropertyAssignment)?.getInitializer()
-        if (initializer?.getKind() === SyntaxKind.NumericLiteral) {
-          argMeta.index = Number(initializer.getText())
-        }
-      }
-
-      // Extract description
-      const descProp = optionsObj.getProperty('description')
-      if (descProp) {
-        const initializer = descProp.asKind(SyntaxKind.PropertyAssignment)?.getInitializer()
-        if (initializer?.getKind() === SyntaxKind.StringLiteral) {
-          argMeta.description = initializer.getText().slice(1, -1)
-        }
-      }
+      const argMeta = extractArgMeta(optionsObj, promptType, message)
+      if (!argMeta) continue
 
-      // Extract choices for select/multiSelect
+      // Extract choices for select/multiSelect (second argument)
       if (promptType === 'select' || promptType === 'multiSelect') {
-        const choicesArg = callArgs[1] // Second argument is choices
-        if (choicesArg?.getKind() === SyntaxKind.ArrayLiteralExpression) {
-          const arrayExpr = choicesArg.asKind(SyntaxKind.ArrayLiteralExpression)
-          if (arrayExpr) {
-            const choices: string[] = []
-            for (const element of arrayExpr.getElements()) {
-              if (element.getKind() === SyntaxKind.StringLiteral) {
-                choices.push(element.getText().slice(1, -1))
-              } else {
-                // Non-string element, mark as dynamic
-                argMeta.choices = null
-                break
-              }
-            }
-            if (argMeta.choices !== null) {
-              argMeta.choices = choices
-            }
-          }
-        } else {
-          // Dynamic choices (variable reference)
-          argMeta.choices = null
-        }
+        argMeta.choices = getChoices(callArgs[1])
       }
 
       args.push(argMeta)
@@ -214,6 +283,62 @@ export function analyzeActionArgs(filePath: string): ActionArgsMeta | null {
   }
 }
 
+/**
+ * Format an argument as an option string
+ *
+ * @param arg - Argument metadata
+ * @returns Option string (e.g. `-e, --env <dev|prod>`)
+ */
+export function formatArgOption(arg: ArgMeta): string {
+  const parts: string[] = []
+
+  // Build option string
+  if (arg.short) {
+    parts.push(`-${arg.short}`)
+  }
+  if (arg.name) {
+    parts.push(`--${arg.name}`)
+  }
+  if (arg.index !== undefined) {
+    parts.push(`[position ${arg.index}]`)
+  }
+
+  // Add type hint
+  let typeHint = ''
+  if (arg.type === 'confirm') {
+    typeHint = '' // Flags don't need type hint
+  } else if (arg.choices) {
+    typeHint = ` <${arg.choices.join('|')}>`
+  } else if (arg.choices === null) {
+    typeHint = ' <value>' // Dynamic choices
+  } else if (arg.type === 'number') {
+    typeHint = ' <number>'
+  } else if (arg.type === 'multiSelect') {
+    typeHint = ' <value,...>'
+  } else {
+    typeHint = ' <value>'
+  }
+
+  return `${parts.join(', ')}${typeHint}`
+}
+
+/**
+ * Format the description column of an argument (with required/default hints)
+ *
+ * @param arg - Argument metadata
+ * @returns Description text (empty if there is nothing to show)
+ */
+export function formatArgDescription(arg: ArgMeta): string {
+  const parts = [arg.description || arg.message || '']
+  if (arg.required) {
+    parts.push('(required)')
+  }
+  if (arg.defaultValue !== undefined) {
+    parts.push(`(default: ${arg.defaultValue})`)
+  }
+  return parts.filter(Boolean).join(' ')
+}
+
 /**
  * Format argument metadata as help text
  *
@@ -239,39 +364,10 @@ export function formatArgsHelp(meta: ActionArgsMeta): string {
   lines.push('Options:')
 
   for (const arg of meta.args) {
-    const parts: string[] = []
-
-    // Build option string
-    if (arg.short) {
-      parts.push(`-${arg.short}`)
-    }
-    if (arg.name) {
-      parts.push(`--${arg.name}`)
-    }
-    if (arg.index !== undefined) {
-      parts.push(`[position ${arg.index}]`)
-    }
-
-    // Add type hint
-    let typeHint = ''
-    if (arg.type === 'confirm') {
-      typeHint = '' // Flags don't need type hint
-    } else if (arg.choices) {
-      typeHint = ` <${arg.choices.join('|')}>`
-    } else if (arg.choices === null) {
-      typeHint = ' <value>' // Dynamic choices
-    } else if (arg.type === 'number') {
-      typeHint = ' <number>'
-    } else if (arg.type === 'multiSelect') {
-      typeHint = ' <value,...>'
-    } else {
-      typeHint = ' <value>'
-    }
-
-    const optionStr = `  ${parts.join(', ')}${typeHint}`
+    const optionStr = `  ${formatArgOption(arg)}`
 
     // Add description
-    const desc = arg.description || arg.message || ''
+    const desc = formatArgDescription(arg)
     if (desc) {
       lines.push(`${optionStr.padEnd(40)} ${desc}`)
     } else {
@@ -0,0 +1,168 @@
+/**
+ * Pre-recorded prompt answers (`--answers`, `ARERE_ARG_<NAME>`) and answer recording
+ */
+
+import { readFile, writeFile } from 'node:fs/promises'
+import { extname } from 'node:path'
+import type { SelectChoice } from '@/action/types'
+import { parseYAML } from 'confbox'
+
+/**
+ * Answers keyed by prompt `arg` name or form field key
+ */
+export type Answers = Record<string, unknown>
+
+/**
+ * Look up the raw (string) answer for a prompt
+ *
+ * @param names - Names to try in order (arg name, form field key)
+ * @returns Raw value, or undefined if no answer is available
+ */
+export type AnswerLookup = (names: string[]) => string | undefined
+
+/**
+ * Prefix of environment variables answering prompts
+ */
+export const ANSWER_ENV_PREFIX = 'ARERE_ARG_'
+
+/**
+ * Get the environment variable name for a prompt name (`dry-run` → `ARERE_ARG_DRY_RUN`)
+ */
+export function getAnswerEnvName(name: string): string {
+  return `${ANSWER_ENV_PREFIX}${name.replace(/[^a-zA-Z0-9]/g, '_').toUpperCase()}`
+}
+
+/**
+ * Convert an answer to the raw string form used by CLI arguments
+ * (arrays become comma-separated lists)
+ */
+function toRawAnswer(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+  if (Array.isArray(value)) {
+    return value.map(String).join(',')
+  }
+  return String(value)
+}
+
+/**
+ * Create a lookup over an answers file and `ARERE_ARG_<NAME>` environment variables
+ *
+ * The answers file takes precedence over the environment.
+ *
+ * @param answers - Answers loaded with `loadAnswersFile`
+ * @param env - Environment variables (default: process.env)
+ *
+ * @example
+ * ```typescript
+ * const lookup = createAnswerLookup({ port: 8080 }, { ARERE_ARG_ENV: 'prod' })
+ * lookup(['port']) // '8080'
+ * lookup(['env']) // 'prod'
+ * ```
+ */
+export function createAnswerLookup(
+  answers: Answers = {},
+  env: Record<string, string | undefined> = process.env,
+): AnswerLookup {
+  return (names) => {
+    for (const name of names) {
+      const value = toRawAnswer(Object.hasOwn(answers, name) ? answers[name] : undefined)
+      if (value !== undefined) {
+        return value
+      }
+    }
+    for (const name of names) {
+      const value = env[getAnswerEnvName(name)]
+      if (value !== undefined) {
+        return value
+      }
+    }
+    return undefined
+  }
+}
+
+/**
+ * Load an answers file (JSON, or YAML for `.yaml`/`.yml`)
+ *
+ * @param filePath - Path to the answers file
+ * @returns Answers keyed by arg name or form field key
+ * @throws Error if the file cannot be read or does not contain an object
+ */
+export async function loadAnswersFile(filePath: string): Promise<Answers> {
+  let content: string
+  try {
+    content = await readFile(filePath, 'utf-8')
+  } catch (error) {
+    throw new Error(`Cannot read answers file ${filePath}: ${(error as Error).message}`)
+  }
+
+  let answers: unknown
+  try {
+    const extension = extname(filePath).toLowerCase()
+    answers =
+      extension === '.yaml' || extension === '.yml' ? parseYAML(content) : JSON.parse(content)
+  } catch (error) {
+    throw new Error(`Invalid answers file ${filePath}: ${(error as Error).message}`)
+  }
+
+  if (typeof answers !== 'object' || answers === null || Array.isArray(answers)) {
+    throw new Error(`Invalid answers file ${filePath}: expected an object of answers`)
+  }
+
+  return answers as Answers
+}
+
+/**
+ * Collects answers entered interactively (`--record-answers`)
+ *
+ * Select answers are stored by choice label so that they can be converted
+ * back like CLI arguments. Password answers are never recorded.
+ */
+export class AnswerRecorder {
+  private answers: Answers = {}
+
+  /**
+   * Record an answer
+   *
+   * @param name - Arg name or form field key
+   * @param value - Value returned by the prompt
+   * @param choices - Choices of select/multiSelect prompts
+   */
+  record(name: string, value: unknown, choices?: unknown[] | SelectChoice<unknown>[]): void {
+    this.answers[name] = choices ? toChoiceLabels(value, choices) : value
+  }
+
+  /**
+   * Get the recorded answers
+   */
+  getAnswers(): Answers {
+    return { ...this.answers }
+  }
+
+  /**
+   * Write the recorded answers as JSON
+   */
+  async save(filePath: string): Promise<void> {
+    await writeFile(filePath, `${JSON.stringify(this.answers, null, 2)}\n`, 'utf-8')
+  }
+}
+
+/**
+ * Map select values back to their choice labels
+ */
+function toChoiceLabels(value: unknown, choices: unknown[] | SelectChoice<unknown>[]): unknown {
+  const labelOf = (item: unknown): unknown => {
+    for (const choice of choices) {
+      if (typeof choice === 'object' && choice !== null && 'value' in choice) {
+        if ((choice as SelectChoice<unknown>).value === item) {
+          return (choice as SelectChoice<unknown>).label
+        }
+      } else if (choice === item) {
+        return String(choice)
+      }
+    }
+    return item
+  }
+  return Array.isArray(value) ? value.map(labelOf) : labelOf(value)
+}
@@ -0,0 +1,224 @@
+/**
+ * Declared action arguments (`defineAction({ args })`) and `ctx.argv`
+ *
+ * Declared arguments reuse the prompt machinery: each one maps to a prompt
+ * (`string` → text, `number` → number, `boolean` → confirm, `enum` → select)
+ * with an `arg`/`argShort`/`argIndex` mapping, so CLI arguments, `--answers`
+ * and `ARERE_ARG_<NAME>` are resolved and validated exactly like prompts.
+ */
+
+import type { ActionContext, ArgDefinition, ArgsSchema } from '@/action/types'
+import type { FormField, FormFields } from '@/ui/prompts/form/types'
+import type { ArgMeta } from './analyzer'
+import { createAnswerLookup } from './answers'
+import { type ParsedArgs, parseArgs } from './parser'
+import type { PromptArgsOptions } from './prompt-wrapper'
+import { type ArgPrompt, createMissingArgError, resolveArgValue } from './resolver'
+
+/**
+ * How declared arguments are asked for in interactive mode
+ *
+ * - `'missing'`: only missing required arguments (headless `arere run`)
+ * - `'all'`: every argument, as a form before the action runs (TUI)
+ */
+export type ArgvPromptMode = 'missing' | 'all'
+
+const ARG_TYPES = ['string', 'number', 'boolean', 'enum']
+
+/**
+ * Check that a value is a valid arguments schema
+ *
+ * @throws Error describing the first invalid argument
+ */
+export function assertArgsSchema(schema: unknown): asserts schema is ArgsSchema {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    throw new Error('Action args must be an object of argument definitions')
+  }
+
+  for (const [name, definition] of Object.entries(schema)) {
+    if (!/^[a-zA-Z0-9][a-zA-Z0-9_-]*$/.test(name)) {
+      throw new Error(
+        `Invalid argument name "${name}": use alphanumeric characters, dashes, and underscores`,
+      )
+    }
+    const def = definition as Partial<ArgDefinition> | null
+    if (!def || !ARG_TYPES.includes(def.type as string)) {
+      throw new Error(`Argument "${name}" must have a type (${ARG_TYPES.join(', ')})`)
+    }
+    if (
+      def.type === 'enum' &&
+      (!Array.isArray(def.values) ||
+        def.values.length === 0 ||
+        def.values.some((value) => typeof value !== 'string'))
+    ) {
+      throw new Error(`Argument "${name}" must have a non-empty list of string values`)
+    }
+    if (def.short !== undefined && !/^[a-zA-Z0-9]$/.test(def.short)) {
+      throw new Error(`Short name of argument "${name}" must be a single character`)
+    }
+  }
+}
+
+/**
+ * Convert a declared argument to a form field (with its argument mapping)
+ */
+export function argDefinitionToField(name: string, def: ArgDefinition): FormField {
+  const base = {
+    message: name,
+    description: def.description,
+    arg: name,
+    argShort: def.short,
+    argIndex: def.index,
+    required: def.required === true,
+  }
+
+  switch (def.type) {
+    case 'string':
+      return {
+        ...base,
+        type: 'text',
+        defaultValue: def.default,
+        minLength: def.minLength,
+        maxLength: def.maxLength,
+      }
+    case 'number':
+      return { ...base, type: 'number', defaultValue: def.default, min: def.min, max: def.max }
+    case 'boolean':
+      return { ...base, type: 'confirm', defaultValue: def.default ?? false }
+    case 'enum':
+      return { ...base, type: 'select', choices: [...def.values], defaultValue: def.default }
+  }
+}
+
+/**
+ * Convert declared arguments to form fields
+ *
+ * @param schema - Declared arguments
+ * @param names - Arguments to include (default: all)
+ */
+export function argsSchemaToFields(
+  schema: ArgsSchema,
+  names: string[] = Object.keys(schema),
+): FormFields {
+  return Object.fromEntries(names.map((name) => [name, argDefinitionToField(name, schema[name])]))
+}
+
+/**
+ * Convert declared arguments to help metadata (`--help`, completion, `arere info`)
+ */
+export function argsSchemaToArgMeta(schema: ArgsSchema): ArgMeta[] {
+  return Object.entries(schema).map(([name, def]) => ({
+    name,
+    short: def.short,
+    index: def.index,
+    type: argDefinitionToField(name, def).type,
+    description: def.description,
+    ...(def.type === 'enum' && { choices: [...def.values] }),
+    ...(def.required && { required: true }),
+    ...(def.default !== undefined && { defaultValue: def.default }),
+  }))
+}
+
+/**
+ * Parse declared arguments without prompting
+ *
+ * Missing arguments get their default (`false` for boolean flags, undefined
+ * when optional); missing required arguments are reported in `missing`.
+ *
+ * @param schema - Declared arguments
+ * @param parsedArgs - Parsed CLI arguments
+ * @param promptAnswers - Answers file and environment consulted after CLI arguments
+ * @throws {ArgValidationError} If a value is invalid for its argument
+ */
+export function parseArgv(
+  schema: ArgsSchema,
+  parsedArgs: ParsedArgs,
+  promptAnswers: PromptArgsOptions = {},
+): { values: Record<string, unknown>; missing: string[] } {
+  const lookup = createAnswerLookup(promptAnswers.answers, promptAnswers.env)
+  const values: Record<string, unknown> = {}
+  const missing: string[] = []
+
+  for (const [name, def] of Object.entries(schema)) {
+    const resolved = resolveArgValue(
+      parsedArgs,
+      argDefinitionToField(name, def) as ArgPrompt,
+      lookup,
+    )
+    if (resolved) {
+      values[name] = resolved.value
+    } else if (def.default !== undefined) {
+      values[name] = def.default
+    } else if (def.type === 'boolean') {
+      values[name] = false
+    } else if (def.required) {
+      missing.push(name)
+    } else {
+      values[name] = undefined
+    }
+  }
+
+  return { values, missing }
+}
+
+/**
+ * Convert form values back to argument values (empty optional answers become undefined)
+ */
+function fromFormValues(
+  schema: ArgsSchema,
+  entered: Record<string, unknown>,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(entered).map(([name, value]) => [
+      name,
+      !schema[name].required && (value === '' || value === null) ? undefined : value,
+    ]),
+  )
+}
+
+/**
+ * Resolve `ctx.argv` for an action run
+ *
+ * @param schema - Declared arguments (an empty object is returned without a schema)
+ * @param context - Context of the run (provides `args`, the prompt API and interactivity)
+ * @param options - Prompt mode, title of the argument form and prompt answers
+ * @returns Argument values
+ * @throws {ArgValidationError} If a value is invalid for its argument
+ * @throws Error if a required argument is missing in non-interactive mode
+ */
+export async function resolveArgv(
+  schema: ArgsSchema | undefined,
+  context: Pick<ActionContext, 'args' | 'tui'>,
+  options: { mode?: ArgvPromptMode; title?: string; promptAnswers?: PromptArgsOptions } = {},
+): Promise<Record<string, unknown>> {
+  if (!schema || Object.keys(schema).length === 0) {
+    return {}
+  }
+
+  const { mode = 'missing', title, promptAnswers } = options
+  const { values, missing } = parseArgv(schema, parseArgs(context.args), promptAnswers)
+  const interactive = context.tui.control.isInteractive()
+
+  // Argument form before the run: the prompt API skips the fields given on the command line
+  if (interactive && mode === 'all') {
+    const entered = await context.tui.prompt({ title, fields: argsSchemaToFields(schema) })
+    return fromFormValues(schema, entered)
+  }
+
+  if (missing.length === 0) {
+    return values
+  }
+
+  if (!interactive) {
+    const def = schema[missing[0]]
+    throw createMissingArgError({ arg: missing[0], argShort: def.short, argIndex: def.index })
+  }
+
+  const entered = fromFormValues(
+    schema,
+    await context.tui.prompt({ title, fields: argsSchemaToFields(schema, missing) }),
+  )
+  return Object.fromEntries(
+    Object.keys(schema).map((name) => [name, name in entered ? entered[name] : values[name]]),
+  )
+}
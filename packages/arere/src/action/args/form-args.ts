@@ -0,0 +1,198 @@
+/**
+ * CLI argument resolution for form and step-form prompts
+ *
+ * Each `FormField` can carry an `arg`/`argShort`/`argIndex` mapping like the
+ * shorthand prompts. Fields answered by arguments are removed from the pages
+ * that are shown; pages left without fields are skipped entirely.
+ */
+
+import type { FormField, FormFields, FormPage, StepFormOptions } from '@/ui/prompts/form/types'
+import { getFieldDefaultValue, getFieldEntries, isEmptyFieldValue } from '@/ui/prompts/form/values'
+import type { AnswerLookup } from './answers'
+import { type ParsedArgs, hasArgMapping } from './parser'
+import { createMissingArgError, getArgName, resolveArgValue } from './resolver'
+import { ArgValidationError } from './validator'
+
+/**
+ * Form pages after applying CLI arguments
+ */
+export interface FormArgsResolution {
+  /** Values answered by arguments (or defaults in non-interactive mode) */
+  values: Record<string, unknown>
+  /**
+   * Pages that still need input, containing only unanswered fields
+   * (validators see the answered values too)
+   */
+  pages: FormPage<FormFields>[]
+}
+
+/**
+ * Check a validator result, throwing for anything but `true`
+ */
+function checkValidation(
+  result: boolean | string,
+  fallback: string,
+  toError: (reason: string) => Error,
+): void {
+  if (result !== true) {
+    throw toError(typeof result === 'string' ? result : fallback)
+  }
+}
+
+/**
+ * Resolve form fields from CLI arguments
+ *
+ * In non-interactive mode, unanswered fields fall back to their default value
+ * (or their empty value when `required: false`). A required field with an
+ * argument mapping and no default raises the same "missing argument" error as
+ * the shorthand prompts. Fields without a mapping are left to the prompt.
+ *
+ * @param parsedArgs - Parsed CLI arguments
+ * @param pages - Form pages (a single form is one page)
+ * @param interactive - Whether the terminal is interactive
+ * @param lookup - Optional answer lookup (`--answers`, `ARERE_ARG_<NAME>`) by arg name or field key
+ * @returns Answered values and the pages still to show
+ * @throws {ArgValidationError} If an argument is invalid or fails field validation
+ * @throws Error if a required mapped argument is missing in non-interactive mode
+ */
+export function resolveFormArgs(
+  parsedArgs: ParsedArgs,
+  pages: FormPage<FormFields>[],
+  interactive: boolean,
+  lookup?: AnswerLookup,
+): FormArgsResolution {
+  const values: Record<string, unknown> = {}
+  const raws = new Map<string, string>()
+
+  for (const page of pages) {
+    for (const [key, field] of getFieldEntries(page.fields)) {
+      const resolved = resolveArgValue(parsedArgs, field, lookup, key)
+      if (resolved) {
+        values[key] = resolved.value
+        raws.set(key, resolved.raw)
+        continue
+      }
+      if (interactive) {
+        continue
+      }
+      if (
+        ('defaultValue' in field && field.defaultValue !== undefined) ||
+        field.required === false
+      ) {
+        values[key] = getFieldDefaultValue(field)
+      } else if (hasArgMapping(field)) {
+        throw createMissingArgError(field)
+      }
+    }
+  }
+
+  // Nothing answered: show the pages unchanged
+  if (Object.keys(values).length === 0) {
+    return { values, pages }
+  }
+
+  // Validate answered fields as the form would on submit
+  for (const page of pages) {
+    for (const [key, field] of getFieldEntries(page.fields)) {
+      if (!(key in values)) {
+        continue
+      }
+      const value = values[key]
+      const argName = hasArgMapping(field) ? getArgName(field) : key
+      const raw = raws.get(key) ?? String(value)
+      const toError = (reason: string) => new ArgValidationError(argName, raw, reason)
+      if (field.required !== false && isEmptyFieldValue(value)) {
+        throw toError(`${field.message} is required.`)
+      }
+      if (field.validate) {
+        checkValidation(field.validate(value as never, { values }), 'Invalid value.', toError)
+      }
+    }
+  }
+
+  const remaining: FormPage<FormFields>[] = []
+  for (const page of pages) {
+    const entries = getFieldEntries(page.fields)
+    const pageValues = Object.fromEntries(
+      entries.filter(([key]) => key in values).map(([key]) => [key, values[key]]),
+    )
+    const open = entries.filter(([key]) => !(key in values))
+
+    if (open.length === 0) {
+      // Fully answered page: only its form-level validation is left
+      if (page.validate) {
+        checkValidation(
+          page.validate(pageValues as never),
+          'Validation failed',
+          (reason) => new Error(`Invalid arguments: ${reason}`),
+        )
+      }
+      continue
+    }
+
+    remaining.push({
+      ...page,
+      fields: Object.fromEntries(
+        open.map(([key, field]) => [key, withAnsweredValues(field, values)]),
+      ),
+      validate:
+        page.validate &&
+        ((pageInput) => page.validate?.({ ...pageValues, ...pageInput } as never) ?? true),
+    })
+  }
+
+  return { values, pages: remaining }
+}
+
+/**
+ * Let a field validator see the values answered by arguments
+ */
+function withAnsweredValues(field: FormField, answered: Record<string, unknown>): FormField {
+  const { validate } = field
+  if (!validate) {
+    return field
+  }
+  return {
+    ...field,
+    validate: (value: never, ctx: { values: Record<string, unknown> }) =>
+      validate(value, { values: { ...answered, ...ctx.values } }),
+  } as FormField
+}
+
+/**
+ * Wrap step-form options so cross-step validation sees the answered values
+ */
+export function withAnsweredStepOptions(
+  options: StepFormOptions<FormFields[]> | undefined,
+  answered: Record<string, unknown>,
+): StepFormOptions<FormFields[]> | undefined {
+  const validate = options?.validate
+  if (!validate) {
+    return options
+  }
+  return {
+    ...options,
+    validate: (values) => validate({ ...answered, ...values } as never),
+  }
+}
+
+/**
+ * Merge answered and entered values in field definition order
+ *
+ * @param pages - Original form pages
+ * @param answered - Values answered by arguments
+ * @param entered - Values returned by the prompt (if it was shown)
+ */
+export function mergeFormValues(
+  pages: FormPage<FormFields>[],
+  answered: Record<string, unknown>,
+  entered: Record<string, unknown>,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const page of pages) {
+    for (const key of Object.keys(page.fields)) {
+      result[key] = key in answered ? answered[key] : entered[key]
+    }
+  }
+  return result
+}
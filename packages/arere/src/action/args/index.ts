@@ -19,10 +19,46 @@ export {
   validateTextValue,
 } from './validator'
 
-export { createPromptAPIWithArgs } from './prompt-wrapper'
+export {
+  resolveArgValue,
+  createMissingArgError,
+  type ArgPrompt,
+  type ResolvedArg,
+} from './resolver'
+
+export {
+  resolveFormArgs,
+  mergeFormValues,
+  withAnsweredStepOptions,
+  type FormArgsResolution,
+} from './form-args'
+
+export {
+  AnswerRecorder,
+  ANSWER_ENV_PREFIX,
+  createAnswerLookup,
+  getAnswerEnvName,
+  loadAnswersFile,
+  type AnswerLookup,
+  type Answers,
+} from './answers'
+
+export {
+  assertArgsSchema,
+  argDefinitionToField,
+  argsSchemaToFields,
+  argsSchemaToArgMeta,
+  parseArgv,
+  resolveArgv,
+  type ArgvPromptMode,
+} from './argv'
+
+export { createPromptAPIWithArgs, type PromptArgsOptions } from './prompt-wrapper'
 
 export {
   analyzeActionArgs,
+  formatArgDescription,
+  formatArgOption,
   formatArgsHelp,
   type ArgMeta,
   type ActionArgsMeta,
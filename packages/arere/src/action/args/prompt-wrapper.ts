@@ -14,188 +14,199 @@ import type {
 } from '@/action/types'
 import { confirm } from '@/ui/prompts/confirm'
 import { form } from '@/ui/prompts/form'
+import type { FormFields, FormPage, StepFormOptions } from '@/ui/prompts/form/types'
+import { getFieldEntries } from '@/ui/prompts/form/values'
 import { multiSelect } from '@/ui/prompts/multiSelect'
 import { number } from '@/ui/prompts/number'
 import { password } from '@/ui/prompts/password'
 import { select } from '@/ui/prompts/select'
 import { text } from '@/ui/prompts/text'
-import { type ParsedArgs, getArgValue, getFlagValue, hasArgMapping, parseArgs } from './parser'
-import {
-  convertToBoolean,
-  convertToMultiSelectValue,
-  convertToNumber,
-  convertToSelectValue,
-  validateTextValue,
-} from './validator'
+import { type AnswerRecorder, type Answers, createAnswerLookup } from './answers'
+import { mergeFormValues, resolveFormArgs, withAnsweredStepOptions } from './form-args'
+import { hasArgMapping, parseArgs } from './parser'
+import { type ArgPrompt, createMissingArgError, resolveArgValue } from './resolver'
+
+/**
+ * Options for answering prompts without CLI arguments
+ */
+export interface PromptArgsOptions {
+  /** Answers from `--answers` (keyed by arg name or form field key) */
+  answers?: Answers
+  /** Environment for `ARERE_ARG_<NAME>` fallbacks (default: process.env) */
+  env?: Record<string, string | undefined>
+  /** Records answers entered interactively (`--record-answers`) */
+  recorder?: AnswerRecorder
+}
 
 /**
  * Create a prompt API with argument resolution support
  *
- * When arguments are provided and match the ArgMapping in options,
- * the value is resolved from arguments instead of showing the prompt.
+ * When arguments are provided and match the ArgMapping in options (or in the
+ * fields of a form), the value is resolved from arguments instead of showing
+ * the prompt. Without a matching argument, the `--answers` file and
+ * `ARERE_ARG_<NAME>` environment variables are consulted before prompting.
  *
  * @param args - CLI arguments passed to the action
  * @param isInteractive - Whether the terminal is interactive
+ * @param answerOptions - Answers file, environment and answer recorder
  * @returns PromptAPI with argument resolution
  */
-export function createPromptAPIWithArgs(args: string[], isInteractiveFn: () => boolean): PromptAPI {
+export function createPromptAPIWithArgs(
+  args: string[],
+  isInteractiveFn: () => boolean,
+  answerOptions: PromptArgsOptions = {},
+): PromptAPI {
   const parsedArgs = parseArgs(args)
+  const lookup = createAnswerLookup(answerOptions.answers, answerOptions.env)
+  const { recorder } = answerOptions
 
-  // Helper to format arg name for error messages
-  const formatArgForError = (options: {
-    arg?: string
-    argShort?: string
-    argIndex?: number
-  }): string => {
-    if (options.arg) return `--${options.arg}`
-    if (options.argShort) return `-${options.argShort}`
-    if (options.argIndex !== undefined) return `argument at position ${options.argIndex}`
-    return 'argument'
-  }
-
-  // Helper to get raw arg name for validator (without prefix)
-  const getArgName = (options: { arg?: string; argShort?: string; argIndex?: number }): string =>
-    options.arg || options.argShort || `position ${options.argIndex}`
-
-  // Wrap text prompt
-  const wrappedText = async (message: string, options?: TextOptions): Promise<string> => {
-    if (options && hasArgMapping(options)) {
-      const argValue = getArgValue(parsedArgs, options)
-      if (argValue !== undefined) {
-        return validateTextValue(argValue, getArgName(options), {
-          minLength: options.minLength,
-          maxLength: options.maxLength,
-          pattern: options.pattern,
-        })
-      }
-      // In non-interactive mode, throw error if required
-      if (!isInteractiveFn()) {
-        throw new Error(
-          `Required argument ${formatArgForError(options)} is missing (non-interactive mode)`,
-        )
+  /**
+   * Resolve a shorthand prompt from arguments
+   *
+   * @param useDefault - Fall back to `defaultValue` in non-interactive mode
+   * @returns The value, or undefined if the prompt should be shown
+   */
+  const resolveShorthand = (
+    prompt: ArgPrompt,
+    useDefault: boolean,
+  ): { value: unknown } | undefined => {
+    if (!hasArgMapping(prompt)) {
+      return undefined
+    }
+    const resolved = resolveArgValue(parsedArgs, prompt, lookup)
+    if (resolved) {
+      return resolved
+    }
+    // In non-interactive mode, throw error if required
+    if (!isInteractiveFn()) {
+      if (useDefault && 'defaultValue' in prompt && prompt.defaultValue !== undefined) {
+        return { value: prompt.defaultValue }
       }
+      throw createMissingArgError(prompt)
     }
-    return text(message, options)
+    return undefined
   }
 
-  // Wrap number prompt
-  const wrappedNumber = async (message: string, options?: NumberOptions): Promise<number> => {
-    if (options && hasArgMapping(options)) {
-      const argValue = getArgValue(parsedArgs, options)
-      if (argValue !== undefined) {
-        return convertToNumber(argValue, getArgName(options), {
-          min: options.min,
-          max: options.max,
-        })
-      }
-      if (!isInteractiveFn()) {
-        if (options.defaultValue !== undefined) {
-          return options.defaultValue
-        }
-        throw new Error(
-          `Required argument ${formatArgForError(options)} is missing (non-interactive mode)`,
-        )
-      }
+  /**
+   * Record an answer entered interactively (passwords are never recorded)
+   */
+  const record = <T>(prompt: ArgPrompt, name: string | undefined, value: T): T => {
+    if (recorder && name && prompt.type !== 'password') {
+      recorder.record(name, value, 'choices' in prompt ? prompt.choices : undefined)
     }
-    return number(message, options)
+    return value
   }
 
-  // Wrap password prompt
-  const wrappedPassword = async (message: string, options?: PasswordOptions): Promise<string> => {
-    if (options && hasArgMapping(options)) {
-      const argValue = getArgValue(parsedArgs, options)
-      if (argValue !== undefined) {
-        return validateTextValue(argValue, getArgName(options), {
-          minLength: options.minLength,
-        })
-      }
-      if (!isInteractiveFn()) {
-        throw new Error(
-          `Required argument ${formatArgForError(options)} is missing (non-interactive mode)`,
-        )
-      }
-    }
-    return password(message, options)
+  /**
+   * Resolve a shorthand prompt, or show it and record the answer
+   */
+  const ask = async <T>(
+    prompt: ArgPrompt,
+    useDefault: boolean,
+    show: () => Promise<T>,
+  ): Promise<T> => {
+    const resolved = resolveShorthand(prompt, useDefault)
+    return resolved ? (resolved.value as T) : record(prompt, prompt.arg, await show())
   }
 
+  // Wrap text prompt
+  const wrappedText = async (message: string, options?: TextOptions): Promise<string> =>
+    ask({ type: 'text', ...options }, false, () => text(message, options))
+
+  // Wrap number prompt
+  const wrappedNumber = async (message: string, options?: NumberOptions): Promise<number> =>
+    ask({ type: 'number', ...options }, true, () => number(message, options))
+
+  // Wrap password prompt
+  const wrappedPassword = async (message: string, options?: PasswordOptions): Promise<string> =>
+    ask({ type: 'password', ...options }, false, () => password(message, options))
+
   // Wrap select prompt
   const wrappedSelect = async <T>(
     message: string,
     choices: T[] | SelectChoice<T>[],
     options?: SelectOptions<T>,
-  ): Promise<T> => {
-    if (options && hasArgMapping(options)) {
-      const argValue = getArgValue(parsedArgs, options)
-      if (argValue !== undefined) {
-        return convertToSelectValue(argValue, choices, getArgName(options))
-      }
-      if (!isInteractiveFn()) {
-        if (options.defaultValue !== undefined) {
-          return options.defaultValue
-        }
-        throw new Error(
-          `Required argument ${formatArgForError(options)} is missing (non-interactive mode)`,
-        )
-      }
-    }
-    return select(message, choices, options)
-  }
+  ): Promise<T> =>
+    ask({ type: 'select', choices, ...options }, true, () => select(message, choices, options))
 
   // Wrap confirm prompt
-  const wrappedConfirm = async (message: string, options?: ConfirmOptions): Promise<boolean> => {
-    if (options && hasArgMapping(options)) {
-      const flagValue = getFlagValue(parsedArgs, options)
-      if (flagValue !== undefined) {
-        return flagValue
-      }
-      const argValue = getArgValue(parsedArgs, options)
-      if (argValue !== undefined) {
-        return convertToBoolean(argValue, getArgName(options))
-      }
-      if (!isInteractiveFn()) {
-        if (options.defaultValue !== undefined) {
-          return options.defaultValue
-        }
-        throw new Error(
-          `Required argument ${formatArgForError(options)} is missing (non-interactive mode)`,
-        )
-      }
-    }
-    return confirm(message, options)
-  }
+  const wrappedConfirm = async (message: string, options?: ConfirmOptions): Promise<boolean> =>
+    ask({ type: 'confirm', ...options }, true, () => confirm(message, options))
 
   // Wrap multiSelect prompt
   const wrappedMultiSelect = async <T>(
     message: string,
     choices: T[] | SelectChoice<T>[],
     options?: MultiSelectOptions<T>,
-  ): Promise<T[]> => {
-    if (options && hasArgMapping(options)) {
-      const argValue = getArgValue(parsedArgs, options)
-      if (argValue !== undefined) {
-        return convertToMultiSelectValue(argValue, choices, getArgName(options))
+  ): Promise<T[]> =>
+    ask({ type: 'multiSelect', choices, ...options }, true, () =>
+      multiSelect(message, choices, options),
+    )
+
+  /**
+   * Show a form (or the remaining steps) and record the entered values
+   */
+  const showForm = async (
+    pages: FormPage<FormFields>[],
+    isStepForm: boolean,
+    options: StepFormOptions<FormFields[]> | undefined,
+  ): Promise<Record<string, unknown>> => {
+    const entered = isStepForm ? await form(pages, options) : await form(pages[0])
+    for (const page of pages) {
+      for (const [key, field] of getFieldEntries(page.fields)) {
+        record(field, key, entered[key])
       }
-      if (!isInteractiveFn()) {
-        if (options.defaultValue !== undefined) {
-          return options.defaultValue
-        }
+    }
+    return entered
+  }
+
+  // Wrap form / step form prompt: answered fields are skipped in the UI
+  const wrappedForm = async (
+    formOrSteps: FormPage<FormFields> | FormPage<FormFields>[],
+    options?: StepFormOptions<FormFields[]>,
+  ): Promise<Record<string, unknown>> => {
+    const isStepForm = Array.isArray(formOrSteps)
+    const pages = isStepForm ? formOrSteps : [formOrSteps]
+    if (pages.length === 0) {
+      return form(formOrSteps, options)
+    }
+
+    const { values, pages: remaining } = resolveFormArgs(
+      parsedArgs,
+      pages,
+      isInteractiveFn(),
+      lookup,
+    )
+    if (Object.keys(values).length === 0) {
+      return showForm(pages, isStepForm, options)
+    }
+
+    let entered: Record<string, unknown> = {}
+    if (remaining.length > 0) {
+      entered = await showForm(remaining, isStepForm, withAnsweredStepOptions(options, values))
+    }
+
+    const result = mergeFormValues(pages, values, entered)
+    if (isStepForm && remaining.length === 0 && options?.validate) {
+      const valid = options.validate(result as never)
+      if (valid !== true) {
         throw new Error(
-          `Required argument ${formatArgForError(options)} is missing (non-interactive mode)`,
+          `Invalid arguments: ${typeof valid === 'string' ? valid : 'Validation failed'}`,
         )
       }
     }
-    return multiSelect(message, choices, options)
+    return result
   }
 
   // Create prompt API with wrapped methods
-  const promptAPI: PromptAPI = Object.assign(form, {
+  const promptAPI = Object.assign(wrappedForm, {
     text: wrappedText,
     number: wrappedNumber,
     password: wrappedPassword,
     select: wrappedSelect,
     confirm: wrappedConfirm,
     multiSelect: wrappedMultiSelect,
-  })
+  }) as PromptAPI
 
   return promptAPI
 }
@@ -0,0 +1,161 @@
+/**
+ * Resolve prompt values from parsed CLI arguments
+ */
+
+import type {
+  ArgMapping,
+  ConfirmOptions,
+  MultiSelectOptions,
+  NumberOptions,
+  PasswordOptions,
+  SelectChoice,
+  SelectOptions,
+  TextOptions,
+} from '@/action/types'
+import type { AnswerLookup } from './answers'
+import { type ParsedArgs, getArgValue, getFlagValue, hasArgMapping } from './parser'
+import {
+  convertToBoolean,
+  convertToMultiSelectValue,
+  convertToNumber,
+  convertToSelectValue,
+  validateTextValue,
+} from './validator'
+
+/**
+ * A prompt (shorthand method or form field) that can be answered by a CLI argument
+ */
+export type ArgPrompt =
+  | ({ type: 'text' } & Omit<TextOptions, 'validate'>)
+  | ({ type: 'password' } & Omit<PasswordOptions, 'validate'>)
+  | ({ type: 'number' } & Omit<NumberOptions, 'validate'>)
+  | ({ type: 'select'; choices: unknown[] | SelectChoice<unknown>[] } & SelectOptions<unknown>)
+  | ({ type: 'confirm' } & ConfirmOptions)
+  | ({
+      type: 'multiSelect'
+      choices: unknown[] | SelectChoice<unknown>[]
+    } & MultiSelectOptions<unknown>)
+
+/**
+ * Value resolved from a CLI argument
+ */
+export interface ResolvedArg {
+  /** Converted value */
+  value: unknown
+  /** Raw argument string (for error messages) */
+  raw: string
+}
+
+/**
+ * Format an argument mapping for error messages (`--target`, `-t`, ...)
+ */
+export function formatArgForError(mapping: ArgMapping): string {
+  if (mapping.arg) return `--${mapping.arg}`
+  if (mapping.argShort) return `-${mapping.argShort}`
+  if (mapping.argIndex !== undefined) return `argument at position ${mapping.argIndex}`
+  return 'argument'
+}
+
+/**
+ * Get the raw argument name for validator errors (without prefix)
+ */
+export function getArgName(mapping: ArgMapping): string {
+  return mapping.arg || mapping.argShort || `position ${mapping.argIndex}`
+}
+
+/**
+ * Create the error thrown when a mapped argument is missing in non-interactive mode
+ */
+export function createMissingArgError(mapping: ArgMapping): Error {
+  return new Error(
+    `Required argument ${formatArgForError(mapping)} is missing (non-interactive mode)`,
+  )
+}
+
+/**
+ * Resolve a prompt value from CLI arguments
+ *
+ * CLI arguments come first. Otherwise the answer lookup (`--answers` file,
+ * `ARERE_ARG_<NAME>` variables) is consulted by arg name, then by `key`.
+ * Either way the raw value goes through the same conversions.
+ *
+ * @param parsedArgs - Parsed CLI arguments
+ * @param prompt - Prompt type and options (including the argument mapping)
+ * @param lookup - Optional answer lookup consulted after CLI arguments
+ * @param key - Form field key (answers can be given by field key)
+ * @returns Converted value, or undefined if no matching argument was given
+ * @throws {ArgValidationError} If the argument value is invalid for the prompt
+ *
+ * @example
+ * ```typescript
+ * const parsed = parseArgs(['--port=8080'])
+ * resolveArgValue(parsed, { type: 'number', arg: 'port', min: 1 })
+ * // { value: 8080, raw: '8080' }
+ * ```
+ */
+export function resolveArgValue(
+  parsedArgs: ParsedArgs,
+  prompt: ArgPrompt,
+  lookup?: AnswerLookup,
+  key?: string,
+): ResolvedArg | undefined {
+  const raw = getRawValue(parsedArgs, prompt, lookup, key)
+  if (raw === undefined) {
+    return undefined
+  }
+  if (typeof raw === 'boolean') {
+    return { value: raw, raw: String(raw) }
+  }
+
+  const name = hasArgMapping(prompt) ? getArgName(prompt) : (key ?? 'argument')
+  switch (prompt.type) {
+    case 'text':
+      return {
+        value: validateTextValue(raw, name, {
+          minLength: prompt.minLength,
+          maxLength: prompt.maxLength,
+          pattern: prompt.pattern,
+        }),
+        raw,
+      }
+    case 'password':
+      return { value: validateTextValue(raw, name, { minLength: prompt.minLength }), raw }
+    case 'number':
+      return { value: convertToNumber(raw, name, { min: prompt.min, max: prompt.max }), raw }
+    case 'select':
+      return { value: convertToSelectValue(raw, prompt.choices, name), raw }
+    case 'confirm':
+      return { value: convertToBoolean(raw, name), raw }
+    case 'multiSelect':
+      return { value: convertToMultiSelectValue(raw, prompt.choices, name), raw }
+  }
+}
+
+/**
+ * Get the raw value of a prompt from CLI arguments or the answer lookup
+ *
+ * @returns The raw string, a boolean for confirm flags, or undefined
+ */
+function getRawValue(
+  parsedArgs: ParsedArgs,
+  prompt: ArgPrompt,
+  lookup: AnswerLookup | undefined,
+  key: string | undefined,
+): string | boolean | undefined {
+  if (hasArgMapping(prompt)) {
+    if (prompt.type === 'confirm') {
+      const flagValue = getFlagValue(parsedArgs, prompt)
+      if (flagValue !== undefined) {
+        return flagValue
+      }
+    }
+
+    const raw = getArgValue(parsedArgs, prompt)
+    if (raw !== undefined) {
+      return raw
+    }
+  }
+
+  const names = [prompt.arg, key].filter((name): name is string => !!name)
+  return names.length > 0 ? lookup?.(names) : undefined
+}
@@ -26,9 +26,30 @@ interface CacheStorage {
   [key: string]: CacheEntry
 }
 
+/**
+ * Caches with changes not written to disk yet
+ */
+const dirtyCaches = new Set<CacheManager>()
+
+/**
+ * Write every cache with pending changes
+ *
+ * Registered as an exit handler while changes are pending, so they are written
+ * even when the process ends with `process.exit()`.
+ */
+function flushDirtyCaches(): void {
+  for (const cache of [...dirtyCaches]) {
+    cache.flush()
+  }
+}
+
 /**
  * Cache manager for action metadata
  *
+ * Changes are kept in memory and written in one batch: after the current task
+ * (on the next event loop turn), when `flush()` is called, or on process exit.
+ * Loading many actions therefore writes the cache file once, not once per action.
+ *
  * @example
  * ```typescript
  * const cache = new CacheManager()
@@ -47,6 +68,7 @@ export class CacheManager {
   private cacheDir: string
   private cacheFile: string
   private storage: CacheStorage = {}
+  private flushTimer: NodeJS.Immediate | null = null
 
   constructor(cacheDir?: string) {
     this.cacheDir = cacheDir || join(homedir(), '.arere', 'cache')
@@ -101,6 +123,36 @@ export class CacheManager {
     }
   }
 
+  /**
+   * Mark the cache as changed and schedule a write on the next event loop turn
+   */
+  private markDirty(): void {
+    if (dirtyCaches.size === 0) {
+      process.on('exit', flushDirtyCaches)
+    }
+    dirtyCaches.add(this)
+    this.flushTimer ??= setImmediate(() => this.flush())
+  }
+
+  /**
+   * Write pending changes to disk now
+   *
+   * Does nothing when there are no pending changes.
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearImmediate(this.flushTimer)
+      this.flushTimer = null
+    }
+    if (!dirtyCaches.delete(this)) {
+      return
+    }
+    if (dirtyCaches.size === 0) {
+      process.off('exit', flushDirtyCaches)
+    }
+    this.save()
+  }
+
   /**
    * Get cached value if valid
    *
@@ -120,7 +172,7 @@ export class CacheManager {
     if (!existsSync(filePath)) {
       logger.debug(`Cache invalid: file not found - ${filePath}`)
       delete this.storage[key]
-      this.save()
+      this.markDirty()
       return null
     }
 
@@ -132,7 +184,7 @@ export class CacheManager {
       if (currentMtime !== entry.mtime) {
         logger.debug(`Cache invalid: file modified - ${filePath}`)
         delete this.storage[key]
-        this.save()
+        this.markDirty()
         return null
       }
 
@@ -147,6 +199,8 @@ export class CacheManager {
   /**
    * Set cache value with file path
    *
+   * The value is written to disk in the next batch (see `flush`).
+   *
    * @param key - Cache key
    * @param value - Value to cache
    * @param filePath - File path to track modification time
@@ -162,7 +216,7 @@ export class CacheManager {
         cachedAt: Date.now(),
       }
 
-      this.save()
+      this.markDirty()
       logger.debug(`Cached: ${key}`)
     } catch (error) {
       logger.warn(`Failed to cache: ${key}`, error)
@@ -185,7 +239,8 @@ export class CacheManager {
    */
   clear(): void {
     this.storage = {}
-    this.save()
+    this.markDirty()
+    this.flush()
     logger.info('Cache cleared')
   }
 
@@ -197,7 +252,7 @@ export class CacheManager {
   clearKey(key: string): void {
     if (this.storage[key]) {
       delete this.storage[key]
-      this.save()
+      this.markDirty()
       logger.debug(`Cleared cache: ${key}`)
     }
   }
@@ -2,9 +2,11 @@
  * Action execution context creation
  */
 
-import { createPromptAPIWithArgs } from '@/action/args'
+import { type PromptArgsOptions, createPromptAPIWithArgs } from '@/action/args'
 import type { ArereConfig } from '@/config/schema'
 import { createScopedT } from '@/i18n/index'
+import { ActionExitError, InvalidExitCodeError } from '@/lib/error'
+import { createSecretsAPI } from '@/secrets/api'
 import { createShellExecutor } from '@/shell/executor'
 import {
   createProgressControl,
@@ -23,7 +25,7 @@ import type {
 } from '@/ui/control/types'
 import { type OutputCallback, type OutputCollector, createOutputAPI } from '@/ui/output/collector'
 import { renderPrompt } from '@/ui/prompts/renderer'
-import type { ActionContext } from './types'
+import type { ActionContext, SecretsAPI } from './types'
 
 // Re-export OutputCollector for use by executor
 export type { OutputCollector }
@@ -48,6 +50,14 @@ export interface CreateActionContextOptions {
   onOutput?: OutputCallback
   /** Command line arguments passed to the action (defaults to []) */
   args?: string[]
+  /** Abort signal for cancelling the action (defaults to a signal that never aborts) */
+  signal?: AbortSignal
+  /** Runs another registered action for `ctx.runAction` (set by the executor) */
+  runAction?: (name: string, args?: string[]) => Promise<void>
+  /** Pre-recorded prompt answers (`--answers`) and answer recorder (`--record-answers`) */
+  promptAnswers?: PromptArgsOptions
+  /** Secrets API (defaults to the local secret store, without environment variables) */
+  secrets?: SecretsAPI
 }
 
 /**
@@ -92,6 +102,12 @@ export function createActionContext<TKeys extends string = string>(
     setVisualFeedback,
     onOutput,
     args = [],
+    signal = new AbortController().signal,
+    promptAnswers,
+    secrets = createSecretsAPI(),
+    runAction = async () => {
+      throw new Error('ctx.runAction is only available while the action is running')
+    },
   } = options
 
   // Create scoped t function
@@ -103,7 +119,7 @@ export function createActionContext<TKeys extends string = string>(
   const { api: outputAPI, collector: outputCollector } = createOutputAPI(onOutput)
 
   // Create callable prompt API with argument resolution support
-  const promptAPI = createPromptAPIWithArgs(args, isInteractive)
+  const promptAPI = createPromptAPIWithArgs(args, isInteractive, promptAnswers)
 
   const context: ActionContext<TKeys> = {
     tui: {
@@ -163,13 +179,24 @@ export function createActionContext<TKeys extends string = string>(
         getTerminalSize,
       },
     },
-    $: createShellExecutor(),
+    $: createShellExecutor({ signal, output: outputAPI }),
     t: scopedT as (key: TKeys, options?: { [key: string]: unknown }) => string,
     cwd: process.cwd(),
     env: process.env as Record<string, string | undefined>,
     pluginConfig,
+    secrets,
     config,
     args,
+    argv: {},
+    signal,
+    exit: (code = 0): never => {
+      // Process exit codes are a byte: reject anything that would be truncated or meaningless
+      if (!Number.isInteger(code) || code < 0 || code > 255) {
+        throw new InvalidExitCodeError(actionName, code)
+      }
+      throw new ActionExitError(actionName, code)
+    },
+    runAction,
   }
 
   return { context, outputCollector }
@@ -3,12 +3,14 @@
  */
 
 import type { ScopedTranslationKey, TranslationKeys } from '@/i18n/types-safe'
-import type { Action, ActionDefinition } from './types'
+import { assertArgsSchema } from './args/argv'
+import type { Action, ActionDefinition, ArgsSchema } from './types'
 
 /**
  * Define an action
  *
  * @template TTranslations - Action translations object (inferred from config.translations)
+ * @template TArgs - Declared arguments (inferred from config.args)
  * @param config - Action configuration
  * @returns Action object
  *
@@ -24,6 +26,33 @@ import type { Action, ActionDefinition } from './types'
  * })
  * ```
  *
+ * @example With dependencies
+ * ```typescript
+ * export default defineAction({
+ *   name: 'build',
+ *   description: 'Build after lint and test pass',
+ *   dependsOn: ['lint', 'test'],
+ *   async run({ $ }) {
+ *     await $`tsup`
+ *   }
+ * })
+ * ```
+ *
+ * @example With declared arguments
+ * ```typescript
+ * export default defineAction({
+ *   name: 'deploy',
+ *   description: 'Deploy to target environment',
+ *   args: {
+ *     target: { type: 'enum', values: ['staging', 'production'], short: 't', required: true },
+ *     force: { type: 'boolean', description: 'Skip checks' },
+ *   },
+ *   async run({ argv, $ }) {
+ *     await $`deploy --env=${argv.target}` // argv.target: 'staging' | 'production'
+ *   }
+ * })
+ * ```
+ *
  * @example With type-safe translations
  * ```typescript
  * export default defineAction({
@@ -44,12 +73,13 @@ import type { Action, ActionDefinition } from './types'
  */
 export function defineAction<
   const TTranslations extends Record<string, Record<string, unknown>> | undefined = undefined,
+  const TArgs extends ArgsSchema = ArgsSchema,
 >(
   config: TTranslations extends Record<string, Record<string, unknown>>
-    ? ActionDefinition<ScopedTranslationKey<TranslationKeys<TTranslations>>> & {
+    ? ActionDefinition<ScopedTranslationKey<TranslationKeys<TTranslations>>, TArgs> & {
         translations: TTranslations
       }
-    : ActionDefinition,
+    : ActionDefinition<string, TArgs>,
 ): Action {
   // Validate required fields
   if (!config.description) {
@@ -72,15 +102,28 @@ export function defineAction<
     )
   }
 
+  if (
+    config.dependsOn !== undefined &&
+    (!Array.isArray(config.dependsOn) || config.dependsOn.some((name) => typeof name !== 'string'))
+  ) {
+    throw new Error('Action dependsOn must be an array of action names')
+  }
+
+  if (config.args !== undefined) {
+    assertArgsSchema(config.args)
+  }
+
   return {
     meta: {
       name: config.name || '', // Empty string if not provided, will be derived from filename by loader
       description: config.description,
       category: config.category,
       tags: config.tags,
+      dependsOn: config.dependsOn,
+      args: config.args,
     },
     filePath: '', // Will be set by the loader
-    run: config.run,
+    run: config.run as Action['run'],
     translations: config.translations,
   }
 }
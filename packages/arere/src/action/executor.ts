@@ -2,15 +2,40 @@
  * Action executor
  */
 
+import { type ArgvPromptMode, type PromptArgsOptions, resolveArgv } from '@/action/args'
 import { FileConfigManager } from '@/config/manager'
 import type { ArereConfig } from '@/config/schema'
-import { formatError } from '@/lib/error'
+import {
+  ActionCancelledError,
+  ActionExitError,
+  ActionNotFoundError,
+  CircularDependencyError,
+  formatError,
+} from '@/lib/error'
 import { logger } from '@/lib/logger'
 import type { LoadedPlugin } from '@/plugin/types'
 import type { VisualFeedback } from '@/ui/control/types'
 import type { OutputCallback } from '@/ui/output/collector'
+import { rejectPendingPrompts } from '@/ui/prompts/renderer'
 import { type OutputCollector, createActionContext } from './context'
-import type { Action } from './types'
+import type { ActionRegistry } from './registry'
+import type { Action, ActionContext, SecretsAPI } from './types'
+
+/**
+ * Result of a nested action run (`dependsOn` or `ctx.runAction`)
+ */
+export interface StepResult {
+  /** Action name */
+  name: string
+  /** Whether the step succeeded */
+  success: boolean
+  /** Step duration in milliseconds */
+  duration: number
+  /** Nesting level (1 for steps started by the action that was run) */
+  depth: number
+  /** Error if the step failed */
+  error?: Error
+}
 
 /**
  * Action run result
@@ -24,6 +49,12 @@ export interface RunResult {
   outputCollector: OutputCollector
   /** Error if run failed */
   error?: Error
+  /** Whether the run was cancelled via the abort signal (success is false) */
+  cancelled?: boolean
+  /** Exit code requested by the action via `ctx.exit()` (success is `exitCode === 0`) */
+  exitCode?: number
+  /** Nested actions in the order they started (only present if any ran) */
+  steps?: StepResult[]
 }
 
 /**
@@ -40,6 +71,36 @@ export interface RunActionOptions {
   onVisualFeedback?: (feedback: VisualFeedback | ((prev: VisualFeedback) => VisualFeedback)) => void
   /** Command line arguments passed to the action (defaults to []) */
   args?: string[]
+  /** Abort signal for cancelling the run */
+  signal?: AbortSignal
+  /** Registry used to resolve `dependsOn` and `ctx.runAction` (nested runs fail without it) */
+  registry?: ActionRegistry
+  /** Pre-recorded prompt answers and answer recorder (shared with nested runs) */
+  promptAnswers?: PromptArgsOptions
+  /**
+   * How declared arguments (`args`) are asked for in interactive mode (defaults to 'missing';
+   * nested runs always ask for missing ones only)
+   */
+  argvPrompt?: ArgvPromptMode
+  /** Secrets API for `ctx.secrets` (shared with nested runs; defaults to the local secret store) */
+  secrets?: SecretsAPI
+}
+
+/**
+ * State shared by an action and every action it runs
+ */
+interface RunState {
+  registry?: ActionRegistry
+  plugins?: LoadedPlugin[]
+  config: ArereConfig
+  onVisualFeedback?: RunActionOptions['onVisualFeedback']
+  signal: AbortSignal
+  promptAnswers?: PromptArgsOptions
+  secrets?: SecretsAPI
+  /** Steps recorded so far */
+  steps: StepResult[]
+  /** Actions that already succeeded in this run (dependencies run once) */
+  completed: Set<string>
 }
 
 /**
@@ -66,42 +127,77 @@ export interface RunActionOptions {
  *   onVisualFeedback: (feedback) => setState(feedback),
  * })
  * ```
+ *
+ * @example With dependencies and `ctx.runAction`
+ * ```typescript
+ * const result = await runAction(registry.getByName('release')!, { registry })
+ * for (const step of result.steps ?? []) {
+ *   console.log(step.name, step.success)
+ * }
+ * ```
+ *
+ * @example Cancellable run
+ * ```typescript
+ * const controller = new AbortController()
+ * const pending = runAction(action, { signal: controller.signal })
+ * controller.abort()
+ * const result = await pending // result.cancelled === true
+ * ```
  */
 export async function runAction(
   action: Action,
   options: RunActionOptions = {},
 ): Promise<RunResult> {
-  const { plugins, config: providedConfig, onOutput, onVisualFeedback, args } = options
+  const {
+    plugins,
+    config: providedConfig,
+    onOutput,
+    onVisualFeedback,
+    args,
+    signal = new AbortController().signal,
+    registry,
+    promptAnswers,
+    argvPrompt = 'missing',
+    secrets,
+  } = options
 
   logger.info(`Running action: ${action.meta.name}`)
 
   const startTime = performance.now()
+  let outputCollector: OutputCollector | undefined
+  const steps: StepResult[] = []
 
   try {
     // Load current config for ActionContext (use provided or load from file)
     const manager = new FileConfigManager()
     const config = providedConfig ?? (await manager.loadMerged())
 
-    // Find plugin config for this action
-    let pluginConfig: Record<string, unknown> | undefined
-    if (action.pluginNamespace && plugins) {
-      const plugin = plugins.find((p) => p.i18nNamespace === action.pluginNamespace)
-      pluginConfig = plugin?.userConfig
+    const state: RunState = {
+      registry,
+      plugins,
+      config,
+      onVisualFeedback,
+      signal,
+      promptAnswers,
+      secrets,
+      steps,
+      completed: new Set(),
     }
 
     // Create execution context with scoped translations
-    const { context, outputCollector } = createActionContext({
-      actionName: action.meta.name,
-      config,
-      pluginNamespace: action.pluginNamespace,
-      pluginConfig,
-      setVisualFeedback: onVisualFeedback,
-      onOutput,
-      args,
-    })
+    const created = createContext(action, state, [action.meta.name], onOutput, args)
+    outputCollector = created.outputCollector
 
-    // Run the action
-    await action.run(context)
+    // Run dependencies and the action, settling early if it is cancelled
+    await runUntilAborted(
+      action,
+      async () => {
+        await resolveContextArgv(action, created.context, state, argvPrompt)
+        await runDependencies(action, created.context, state)
+        await action.run(created.context)
+      },
+      signal,
+    )
 
     const duration = Math.round(performance.now() - startTime)
 
@@ -111,28 +207,235 @@ export async function runAction(
       success: true,
       duration,
       outputCollector,
+      ...(steps.length > 0 && { steps }),
     }
   } catch (error) {
     const duration = Math.round(performance.now() - startTime)
 
-    logger.error(`Action "${action.meta.name}" failed after ${duration}ms:`, formatError(error))
-
     // Create a minimal output collector for error cases
     // (context might not have been created if error occurred during setup)
-    const manager = new FileConfigManager()
-    const config = providedConfig ?? (await manager.loadMerged())
-    const { outputCollector } = createActionContext({
-      actionName: action.meta.name,
-      config,
-      onOutput,
-      args,
-    })
+    if (!outputCollector) {
+      const manager = new FileConfigManager()
+      const config = providedConfig ?? (await manager.loadMerged())
+      outputCollector = createActionContext({
+        actionName: action.meta.name,
+        config,
+        onOutput,
+        args,
+      }).outputCollector
+    }
+
+    if (error instanceof ActionExitError) {
+      logger.info(`Action "${action.meta.name}" exited with code ${error.exitCode}`)
+
+      return {
+        success: error.exitCode === 0,
+        duration,
+        outputCollector,
+        exitCode: error.exitCode,
+        ...(error.exitCode !== 0 && { error }),
+        ...(steps.length > 0 && { steps }),
+      }
+    }
+
+    if (signal.aborted) {
+      logger.info(`Action "${action.meta.name}" was cancelled after ${duration}ms`)
+
+      return {
+        success: false,
+        cancelled: true,
+        duration,
+        outputCollector,
+        error:
+          error instanceof ActionCancelledError
+            ? error
+            : new ActionCancelledError(action.meta.name),
+        ...(steps.length > 0 && { steps }),
+      }
+    }
+
+    logger.error(`Action "${action.meta.name}" failed after ${duration}ms:`, formatError(error))
 
     return {
       success: false,
       duration,
       outputCollector,
       error: error instanceof Error ? error : new Error(String(error)),
+      ...(steps.length > 0 && { steps }),
+    }
+  }
+}
+
+/**
+ * Context and output collector of an action
+ */
+type CreatedContext = { context: ActionContext; outputCollector: OutputCollector }
+
+/**
+ * Create the context of an action taking part in a run
+ *
+ * @param action - Action to create the context for
+ * @param state - Run state
+ * @param stack - Names of the running actions, outermost first (ending with this action)
+ * @param onOutput - Output callback (nested actions write into the caller's collector)
+ * @param args - Command line arguments for the action
+ */
+function createContext(
+  action: Action,
+  state: RunState,
+  stack: string[],
+  onOutput: OutputCallback | undefined,
+  args: string[] | undefined,
+): CreatedContext {
+  // Find plugin config for this action
+  let pluginConfig: Record<string, unknown> | undefined
+  if (action.pluginNamespace && state.plugins) {
+    const plugin = state.plugins.find((p) => p.i18nNamespace === action.pluginNamespace)
+    pluginConfig = plugin?.userConfig
+  }
+
+  const created: CreatedContext = createActionContext({
+    actionName: action.meta.name,
+    config: state.config,
+    pluginNamespace: action.pluginNamespace,
+    pluginConfig,
+    setVisualFeedback: state.onVisualFeedback,
+    onOutput,
+    args,
+    signal: state.signal,
+    promptAnswers: state.promptAnswers,
+    secrets: state.secrets,
+    runAction: (name, nestedArgs) =>
+      runNestedAction(name, nestedArgs, state, stack, created.outputCollector),
+  })
+  return created
+}
+
+/**
+ * Resolve `ctx.argv` from the action's declared arguments
+ *
+ * @throws {ArgValidationError} If an argument value is invalid
+ * @throws Error if a required argument is missing in non-interactive mode
+ */
+async function resolveContextArgv(
+  action: Action,
+  context: ActionContext,
+  state: RunState,
+  mode: ArgvPromptMode,
+): Promise<void> {
+  context.argv = await resolveArgv(action.meta.args, context, {
+    mode,
+    title: action.meta.name,
+    promptAnswers: state.promptAnswers,
+  })
+}
+
+/**
+ * Run the `dependsOn` actions of an action in order
+ *
+ * Dependencies that already succeeded in this run are not run again.
+ */
+async function runDependencies(
+  action: Action,
+  context: ActionContext,
+  state: RunState,
+): Promise<void> {
+  for (const dependency of action.meta.dependsOn ?? []) {
+    if (!state.completed.has(dependency)) {
+      await context.runAction(dependency)
     }
   }
 }
+
+/**
+ * Run a registered action from another action (`ctx.runAction`)
+ *
+ * The nested action gets its own context (scoped `t`, plugin config) and writes
+ * into a nested section of the caller's output. Its error is rethrown so the
+ * caller stops unless it handles the failure.
+ *
+ * @throws {CircularDependencyError} If the action is already running
+ * @throws {ActionNotFoundError} If the action is not registered
+ */
+async function runNestedAction(
+  name: string,
+  args: string[] | undefined,
+  state: RunState,
+  stack: string[],
+  parentCollector: OutputCollector,
+): Promise<void> {
+  if (stack.includes(name)) {
+    throw new CircularDependencyError([...stack, name])
+  }
+  const action = state.registry?.getByName(name)
+  if (!action) {
+    throw new ActionNotFoundError(name)
+  }
+
+  logger.info(`Running nested action: ${name} (from ${stack[stack.length - 1]})`)
+
+  const step: StepResult = { name, success: false, duration: 0, depth: stack.length }
+  state.steps.push(step)
+  const startTime = performance.now()
+
+  try {
+    const { context } = createContext(
+      action,
+      state,
+      [...stack, name],
+      parentCollector.nested(name),
+      args,
+    )
+    await resolveContextArgv(action, context, state, 'missing')
+    await runDependencies(action, context, state)
+    await action.run(context)
+  } catch (error) {
+    // ctx.exit(0) ends the nested action successfully
+    if (!(error instanceof ActionExitError && error.exitCode === 0)) {
+      step.duration = Math.round(performance.now() - startTime)
+      step.error = error instanceof Error ? error : new Error(String(error))
+      throw error
+    }
+  }
+
+  step.success = true
+  step.duration = Math.round(performance.now() - startTime)
+  state.completed.add(name)
+}
+
+/**
+ * Run an action, rejecting with ActionCancelledError as soon as the signal aborts
+ *
+ * Actions that ignore the signal are abandoned rather than awaited, and any
+ * prompt they are waiting on is rejected so they cannot block afterwards.
+ */
+async function runUntilAborted(
+  action: Action,
+  run: () => Promise<void>,
+  signal: AbortSignal,
+): Promise<void> {
+  let removeListener = () => {}
+  const cancelled = new Promise<never>((_, reject) => {
+    const onAbort = () => {
+      const error = new ActionCancelledError(action.meta.name)
+      rejectPendingPrompts(error)
+      reject(error)
+    }
+    if (signal.aborted) {
+      onAbort()
+      return
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+    removeListener = () => signal.removeEventListener('abort', onAbort)
+  })
+
+  const running = run()
+  // The abandoned run may still reject later (e.g., killed shell command)
+  running.catch(() => {})
+
+  try {
+    await Promise.race([running, cancelled])
+  } finally {
+    removeListener()
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Run history for executed actions
+ */
+
+import { randomUUID } from 'node:crypto'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import type { ArgMeta } from '@/action/args/analyzer'
+import { type CacheManager, cacheManager } from '@/action/cache'
+import { getActionArgsMeta } from '@/action/metadata-cache'
+import { formatError } from '@/lib/error'
+import { JsonFileStore } from '@/lib/json-store'
+import { logger } from '@/lib/logger'
+import { type BookmarkId, createBookmarkId } from '@/ui/bookmark'
+import { serializeMessage } from '@/ui/output/structured-writer'
+import type { OutputMessage } from '@/ui/output/types'
+import type { RunResult } from './executor'
+import type { Action } from './types'
+
+/**
+ * Maximum number of runs kept in history (oldest are dropped first)
+ */
+const MAX_HISTORY_ENTRIES = 100
+
+/**
+ * Maximum size of the output kept per run (characters of serialized messages)
+ */
+export const MAX_RECORDED_OUTPUT = 32 * 1024
+
+/**
+ * A single recorded action run
+ */
+export interface RunRecord {
+  /** Unique run ID */
+  id: string
+  /** Action identifier (same scheme as bookmarks) */
+  actionId: BookmarkId
+  /** Arguments the action was run with */
+  args: string[]
+  /** Start time (milliseconds since epoch) */
+  startedAt: number
+  /** Run duration in milliseconds */
+  duration: number
+  /** Whether the run was successful */
+  success: boolean
+  /** Whether the run was cancelled by the user */
+  cancelled?: boolean
+  /** Formatted error message if the run failed */
+  error?: string
+  /** Output messages produced during the run (the latest ones, see `omittedMessages`) */
+  messages: OutputMessage[]
+  /** Number of earlier messages dropped to keep the record small */
+  omittedMessages?: number
+}
+
+/**
+ * History storage structure
+ */
+interface HistoryStorage {
+  runs: RunRecord[]
+}
+
+/**
+ * Run history manager
+ *
+ * Stores runs newest first in `~/.arere/history/runs.json`. The file is re-read
+ * before each run is added, so runs recorded by other processes are not lost.
+ *
+ * @example
+ * ```typescript
+ * const history = new HistoryManager()
+ *
+ * history.add(createRunRecord(action, args, startedAt, result))
+ *
+ * for (const run of history.getAll()) {
+ *   console.log(run.actionId, run.success)
+ * }
+ * ```
+ */
+export class HistoryManager {
+  private store: JsonFileStore<HistoryStorage>
+
+  constructor(historyDir?: string) {
+    const dir = historyDir || join(homedir(), '.arere', 'history')
+    this.store = new JsonFileStore(join(dir, 'runs.json'), 'history', (data) => {
+      const runs = (data as Partial<HistoryStorage> | undefined)?.runs
+      return { runs: Array.isArray(runs) ? runs : [] }
+    })
+  }
+
+  /**
+   * Add a run to the history
+   *
+   * Runs recorded by other processes (e.g. `arere run` while the TUI is open) are kept.
+   *
+   * @param record - Run record to add
+   */
+  add(record: RunRecord): void {
+    this.store.update((storage) => ({
+      runs: [record, ...storage.runs].slice(0, MAX_HISTORY_ENTRIES),
+    }))
+  }
+
+  /**
+   * Get all runs, newest first
+   */
+  getAll(): RunRecord[] {
+    return [...this.store.read().runs]
+  }
+
+  /**
+   * Get a run by ID
+   *
+   * @param id - Run ID
+   * @returns Run record or undefined if not found
+   */
+  get(id: string): RunRecord | undefined {
+    return this.store.read().runs.find((run) => run.id === id)
+  }
+
+  /**
+   * Remove all runs from the history
+   */
+  clear(): void {
+    this.store.update(() => ({ runs: [] }))
+    logger.info('History cleared')
+  }
+}
+
+/**
+ * Keep the latest messages that fit in `MAX_RECORDED_OUTPUT`
+ */
+function limitRecordedMessages(messages: OutputMessage[]): {
+  messages: OutputMessage[]
+  omitted: number
+} {
+  let size = 0
+  let start = messages.length
+  while (start > 0) {
+    size += JSON.stringify(messages[start - 1]).length
+    if (size > MAX_RECORDED_OUTPUT) {
+      break
+    }
+    start--
+  }
+  return { messages: messages.slice(start), omitted: start }
+}
+
+/**
+ * Remove password arguments (with their values) from CLI arguments
+ *
+ * Arguments are read the same way as `parseArgs`. They are dropped rather than
+ * masked, so re-running the record asks for the value again instead of passing
+ * a placeholder to the action.
+ */
+function omitPasswordArgs(args: string[], argsMeta: ArgMeta[]): string[] {
+  const passwords = argsMeta.filter((arg) => arg.type === 'password')
+  if (passwords.length === 0) {
+    return args
+  }
+  const names = new Set(passwords.map((arg) => arg.name))
+  const shorts = new Set(passwords.map((arg) => arg.short))
+  const indexes = new Set(passwords.map((arg) => arg.index))
+
+  const kept: string[] = []
+  let position = 0
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    const next = args[i + 1]
+    const hasValue = next !== undefined && !next.startsWith('-')
+
+    let secret: boolean
+    let takesNext = false
+    if (arg.startsWith('--')) {
+      const key = arg.slice(2).split('=')[0]
+      secret = names.has(key)
+      takesNext = !key.startsWith('no-') && !arg.includes('=') && hasValue
+    } else if (arg.startsWith('-') && arg.length > 1) {
+      secret = shorts.has(arg[1])
+      takesNext = arg.length === 2 && hasValue
+    } else {
+      secret = indexes.has(position++)
+    }
+
+    if (!secret) {
+      kept.push(arg)
+      if (takesNext) kept.push(next)
+    }
+    if (takesNext) i++
+  }
+  return kept
+}
+
+/**
+ * Create a run record from a run result
+ *
+ * Only the latest output is kept when the run printed more than `MAX_RECORDED_OUTPUT`.
+ * Password arguments of the action are left out of the recorded arguments.
+ *
+ * @param action - Action that was run
+ * @param args - Arguments passed to the action
+ * @param startedAt - Start time (milliseconds since epoch)
+ * @param result - Run result from `runAction`
+ * @param cache - Cache of the action argument metadata
+ * @returns Run record ready to be added to history
+ */
+export function createRunRecord(
+  action: Action,
+  args: string[],
+  startedAt: number,
+  result: RunResult,
+  cache: CacheManager = cacheManager,
+): RunRecord {
+  const { messages, omitted } = limitRecordedMessages(
+    result.outputCollector.getMessages().map(serializeMessage),
+  )
+  const record: RunRecord = {
+    id: randomUUID(),
+    actionId: createBookmarkId(action),
+    args:
+      args.length > 0
+        ? omitPasswordArgs(
+            args,
+            getActionArgsMeta(cache, action.filePath, action.meta.args)?.args ?? [],
+          )
+        : args,
+    startedAt,
+    duration: result.duration,
+    success: result.success,
+    messages,
+  }
+
+  if (omitted > 0) {
+    record.omittedMessages = omitted
+  }
+  if (result.cancelled) {
+    record.cancelled = true
+  }
+  if (result.error) {
+    record.error = formatError(result.error)
+  }
+
+  return record
+}
+
+/**
+ * Global history manager instance
+ */
+export const historyManager = new HistoryManager()
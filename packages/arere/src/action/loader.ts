@@ -5,6 +5,9 @@
 import { existsSync } from 'node:fs'
 import { basename, dirname, resolve } from 'node:path'
 import { fileURLToPath } from 'node:url'
+import { assertArgsSchema } from '@/action/args/argv'
+import type { CacheManager } from '@/action/cache'
+import { cacheActionMeta, createLazyAction, getCachedActionMeta } from '@/action/metadata-cache'
 import type { Action, ActionDefinition } from '@/action/types'
 import { registerTranslations } from '@/i18n/index'
 import { ActionLoadError } from '@/lib/error'
@@ -27,21 +30,48 @@ function deriveActionName(filePath: string): string {
   return filename.replace(/\.(ts|js)$/, '')
 }
 
+/**
+ * Options for loading an action
+ */
+export interface LoadActionOptions {
+  /** Bypass the module cache so edited files are re-evaluated (used by hot reload) */
+  fresh?: boolean
+  /**
+   * Metadata cache. Unchanged files with cached metadata are returned as lazy actions
+   * that compile the module on first run; other files are loaded and cached.
+   */
+  cache?: CacheManager
+}
+
 /**
  * Load an action from a file path
  * @param filePath - Absolute path to the action file
+ * @param options - Load options
  * @returns Loaded action
  * @throws {ActionLoadError} If the action fails to load
  */
-export async function loadAction(filePath: string): Promise<Action> {
+export async function loadAction(
+  filePath: string,
+  options: LoadActionOptions = {},
+): Promise<Action> {
   if (!existsSync(filePath)) {
     throw new ActionLoadError(filePath, new Error('File does not exist'))
   }
 
+  // Use cached metadata and defer compiling the module until the action runs
+  if (options.cache && !options.fresh) {
+    const cached = getCachedActionMeta(options.cache, filePath)
+    if (cached) {
+      logger.debug(`Using cached metadata: ${cached.name} from ${filePath}`)
+      return createLazyAction(filePath, cached, () => loadAction(filePath))
+    }
+  }
+
   try {
     // Create jiti instance for the action's directory with path alias support
     const jiti = createJiti(dirname(filePath), {
       interopDefault: true,
+      requireCache: !options.fresh,
       alias: {
         '@': srcDir,
       },
@@ -99,6 +129,10 @@ export async function loadAction(filePath: string): Promise<Action> {
         throw new Error('Action must have a "run" function')
       }
 
+      if (definition.args !== undefined) {
+        assertArgsSchema(definition.args)
+      }
+
       // Build the Action object
       action = {
         meta: {
@@ -106,9 +140,11 @@ export async function loadAction(filePath: string): Promise<Action> {
           description: definition.description,
           category: definition.category,
           tags: definition.tags,
+          dependsOn: definition.dependsOn,
+          args: definition.args,
         },
         filePath,
-        run: definition.run,
+        run: definition.run as Action['run'],
         translations: definition.translations,
       }
     }
@@ -118,6 +154,10 @@ export async function loadAction(filePath: string): Promise<Action> {
       registerTranslations(action.meta.name, action.translations)
     }
 
+    if (options.cache) {
+      cacheActionMeta(options.cache, action)
+    }
+
     logger.debug(`Loaded action: ${action.meta.name} from ${filePath}`)
     return action
   } catch (error) {
@@ -131,11 +171,19 @@ export async function loadAction(filePath: string): Promise<Action> {
 /**
  * Load multiple actions from file paths in parallel
  * @param filePaths - Array of absolute file paths
+ * @param onError - Optional callback for each file that failed to load
+ * @param options - Load options applied to every file
  * @returns Array of loaded actions (failed loads are skipped with warnings)
  */
-export async function loadActions(filePaths: string[]): Promise<Action[]> {
+export async function loadActions(
+  filePaths: string[],
+  onError?: (filePath: string, error: unknown) => void,
+  options: LoadActionOptions = {},
+): Promise<Action[]> {
   // Load all actions in parallel using Promise.all
-  const results = await Promise.allSettled(filePaths.map((filePath) => loadAction(filePath)))
+  const results = await Promise.allSettled(
+    filePaths.map((filePath) => loadAction(filePath, options)),
+  )
 
   // Filter successful results and log failures
   const actions: Action[] = []
@@ -145,6 +193,7 @@ export async function loadActions(filePaths: string[]): Promise<Action[]> {
       actions.push(result.value)
     } else {
       logger.warn(`Failed to load action from ${filePaths[i]}:`, result.reason)
+      onError?.(filePaths[i], result.reason)
     }
   }
 
@@ -0,0 +1,169 @@
+/**
+ * Cached action metadata and lazily loaded actions
+ *
+ * Reading `meta` normally means compiling the action module with jiti. The
+ * metadata of each file is cached (invalidated by mtime through `CacheManager`),
+ * so unchanged actions are only compiled when they actually run.
+ */
+
+import { type ActionArgsMeta, analyzeActionArgs } from '@/action/args/analyzer'
+import { argsSchemaToArgMeta } from '@/action/args/argv'
+import type { CacheManager } from '@/action/cache'
+import type { Action, ArgsSchema } from '@/action/types'
+
+/**
+ * Metadata cached for an action file
+ *
+ * Only actions with a static (string) description are cached: a description
+ * function needs the module, so those actions are always loaded eagerly.
+ */
+export interface CachedActionMeta {
+  /** Action name */
+  name: string
+  /** Static description */
+  description: string
+  /** Category */
+  category?: string
+  /** Tags */
+  tags?: string[]
+  /** Actions run before this one */
+  dependsOn?: string[]
+  /** Declared CLI arguments */
+  args?: ArgsSchema
+}
+
+/**
+ * Cache key for an action file's metadata
+ */
+function metaCacheKey(filePath: string): string {
+  return `action-meta:${filePath}`
+}
+
+/**
+ * Cache key for an action file's CLI argument metadata
+ */
+function argsCacheKey(filePath: string): string {
+  return `action-args:${filePath}`
+}
+
+/**
+ * Get cached metadata for an action file
+ *
+ * @param cache - Cache manager
+ * @param filePath - Absolute path to the action file
+ * @returns Cached metadata, or null if missing or the file changed
+ */
+export function getCachedActionMeta(
+  cache: CacheManager,
+  filePath: string,
+): CachedActionMeta | null {
+  return cache.get<CachedActionMeta>(metaCacheKey(filePath), filePath)
+}
+
+/**
+ * Cache the metadata of a loaded action
+ *
+ * Actions with a description function are not cached (and any old entry is removed).
+ *
+ * @param cache - Cache manager
+ * @param action - Fully loaded action
+ */
+export function cacheActionMeta(cache: CacheManager, action: Action): void {
+  const { name, description, category, tags, dependsOn, args } = action.meta
+
+  if (typeof description !== 'string') {
+    cache.clearKey(metaCacheKey(action.filePath))
+    return
+  }
+
+  cache.set<CachedActionMeta>(
+    metaCacheKey(action.filePath),
+    { name, description, category, tags, dependsOn, args },
+    action.filePath,
+  )
+}
+
+/**
+ * Create an action that loads its module on the first run
+ *
+ * The cached metadata is only invalidated by the mtime of the action file
+ * itself. Metadata computed from imported modules (a category or choices taken
+ * from a shared helper) stays stale until the action file changes or the cache
+ * is cleared (`arere cache clear`).
+ *
+ * @param filePath - Absolute path to the action file
+ * @param meta - Cached metadata
+ * @param load - Loads the full action (called once; retried if it fails)
+ * @returns Action whose `run` delegates to the loaded action
+ *
+ * @example
+ * ```typescript
+ * const cached = getCachedActionMeta(cacheManager, filePath)
+ * if (cached) {
+ *   return createLazyAction(filePath, cached, () => loadAction(filePath))
+ * }
+ * ```
+ */
+export function createLazyAction(
+  filePath: string,
+  meta: CachedActionMeta,
+  load: () => Promise<Action>,
+): Action {
+  let loading: Promise<Action> | undefined
+
+  return {
+    meta: {
+      name: meta.name,
+      description: meta.description,
+      category: meta.category,
+      tags: meta.tags,
+      dependsOn: meta.dependsOn,
+      args: meta.args,
+    },
+    filePath,
+    run: async (context) => {
+      loading ??= load().catch((error) => {
+        loading = undefined
+        throw error
+      })
+      const action = await loading
+      await action.run(context)
+    },
+  }
+}
+
+/**
+ * Analyze an action's CLI arguments, using the cache when the file is unchanged
+ *
+ * Declared arguments (`defineAction({ args })`) come first; arguments found by
+ * static analysis of prompt calls are added unless they use the same name.
+ *
+ * @param cache - Cache manager
+ * @param filePath - Absolute path to the action file
+ * @param schema - Declared arguments of the action
+ * @returns Argument metadata, or null if parsing fails and nothing is declared
+ */
+export function getActionArgsMeta(
+  cache: CacheManager,
+  filePath: string,
+  schema?: ArgsSchema,
+): ActionArgsMeta | null {
+  let meta = cache.get<ActionArgsMeta>(argsCacheKey(filePath), filePath)
+  if (!meta) {
+    meta = analyzeActionArgs(filePath)
+    if (meta) {
+      cache.set(argsCacheKey(filePath), meta, filePath)
+    }
+  }
+
+  if (!schema) {
+    return meta
+  }
+
+  const declared = argsSchemaToArgMeta(schema)
+  const taken = new Set(declared.flatMap((arg) => [arg.name, arg.short && `-${arg.short}`]))
+  const analyzed = (meta?.args ?? []).filter(
+    (arg) => !taken.has(arg.name) && !(arg.short && taken.has(`-${arg.short}`)),
+  )
+  return { ...meta, args: [...declared, ...analyzed] }
+}
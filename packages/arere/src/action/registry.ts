@@ -2,40 +2,173 @@
  * Action registry for managing loaded actions
  */
 
+import { relative, resolve, sep } from 'node:path'
 import type { Action } from '@/action/types'
+import { AmbiguousActionError } from '@/lib/error'
 import { logger } from '@/lib/logger'
+import { expandHome, formatHomePath, isWithin } from '@/lib/path'
+
+/**
+ * Get the qualified id of an action
+ *
+ * Follows the source part of bookmark ids (`createBookmarkId`), with local
+ * actions split by location:
+ * - `plugin:<plugin>/<name>` for plugin actions
+ * - `global/<name>` for global actions
+ * - `project/<name>` for project actions (and actions without a location)
+ *
+ * @example
+ * ```typescript
+ * getQualifiedActionId(action) // 'plugin:arere-plugin-git/commit'
+ * ```
+ */
+export function getQualifiedActionId(action: Action): string {
+  const { location, meta } = action
+
+  // Plugin action
+  if (location && typeof location === 'object' && 'plugin' in location) {
+    return `plugin:${location.plugin}/${meta.name}`
+  }
+
+  return `${location === 'global' ? 'global' : 'project'}/${meta.name}`
+}
+
+/**
+ * Check whether a name is a qualified id (`project/deploy`) rather than a short name
+ */
+export function isQualifiedActionId(name: string): boolean {
+  return name.includes('/')
+}
+
+/**
+ * Format the file path of an action for display (relative to cwd when inside it)
+ */
+function formatActionPath(filePath: string): string {
+  const cwd = process.cwd()
+  return isWithin(filePath, cwd) ? relative(cwd, filePath) : formatHomePath(filePath)
+}
+
+/**
+ * Get the name that selects an action among other actions
+ *
+ * This is the qualified id, or the file path when another action has the same
+ * qualified id (e.g. `project/deploy` in both the git root and cwd).
+ *
+ * @param action - Action to name
+ * @param actions - Actions it must be told apart from
+ *
+ * @example
+ * ```typescript
+ * getActionSelector(action, registry.getAllIncludingShadowed()) // 'project/deploy'
+ * // → '.arere/actions/deploy.ts' if another root defines project/deploy too
+ * ```
+ */
+export function getActionSelector(action: Action, actions: Action[]): string {
+  const id = getQualifiedActionId(action)
+  const duplicated = actions.some((other) => other !== action && getQualifiedActionId(other) === id)
+  return duplicated ? formatActionPath(action.filePath) : id
+}
 
 /**
  * Action registry class
+ *
+ * Actions with the same name from different sources are all kept. For short
+ * names the action registered last wins; the others are shadowed by it. The
+ * same applies to the same qualified id from different action roots, which are
+ * then told apart by file path.
  */
 export class ActionRegistry {
-  private actions = new Map<string, Action>()
+  private actions: Action[] = []
 
   /**
    * Register an action
-   * If an action with the same name exists, it will be overwritten (last-wins)
+   * If the same action file is registered again with the same qualified id, it will be overwritten.
+   * Any other action with the same name is shadowed (last-wins).
    */
   register(action: Action): void {
-    if (this.actions.has(action.meta.name)) {
-      logger.debug(`Overwriting existing action: ${action.meta.name} (last-wins policy)`)
+    const id = getQualifiedActionId(action)
+    const index = this.actions.findIndex(
+      (existing) => existing.filePath === action.filePath && getQualifiedActionId(existing) === id,
+    )
+    if (index !== -1) {
+      logger.debug(`Overwriting existing action: ${id}`)
+      this.actions.splice(index, 1)
+    } else {
+      const shadowed = this.getByName(action.meta.name)
+      if (shadowed) {
+        logger.debug(`Action ${id} shadows ${getQualifiedActionId(shadowed)} (last-wins policy)`)
+      }
     }
 
-    this.actions.set(action.meta.name, action)
-    logger.debug(`Registered action: ${action.meta.name}`)
+    this.actions.push(action)
+    logger.debug(`Registered action: ${id}`)
   }
 
   /**
-   * Get all registered actions
+   * Get all registered actions, without shadowed ones
    */
   getAll(): Action[] {
-    return Array.from(this.actions.values())
+    const winners = new Map<string, Action>()
+    for (const action of this.actions) {
+      winners.set(action.meta.name, action)
+    }
+    return this.actions.filter((action) => winners.get(action.meta.name) === action)
   }
 
   /**
-   * Get an action by name
+   * Get all registered actions (including shadowed ones) in registration order
+   */
+  getAllIncludingShadowed(): Action[] {
+    return [...this.actions]
+  }
+
+  /**
+   * Get an action by short name, qualified id or file path (the one registered last)
    */
   getByName(name: string): Action | undefined {
-    return this.actions.get(name)
+    const matches = this.findAll(name)
+    return matches[matches.length - 1]
+  }
+
+  /**
+   * Get every action matching a short name, qualified id or file path (in registration order)
+   */
+  findAll(name: string): Action[] {
+    if (!isQualifiedActionId(name) && !name.includes(sep)) {
+      return this.actions.filter((action) => action.meta.name === name)
+    }
+    const matches = this.actions.filter((action) => getQualifiedActionId(action) === name)
+    if (matches.length > 0) {
+      return matches
+    }
+    const filePath = resolve(expandHome(name))
+    return this.actions.filter((action) => action.filePath === filePath)
+  }
+
+  /**
+   * Resolve a short name, qualified id or file path to exactly one action
+   *
+   * @returns The action, or undefined if none matches
+   * @throws {AmbiguousActionError} If the name matches several actions (candidates are
+   *   qualified ids, or file paths for actions sharing a qualified id)
+   */
+  resolve(name: string): Action | undefined {
+    const matches = this.findAll(name)
+    if (matches.length > 1) {
+      throw new AmbiguousActionError(
+        name,
+        matches.map((action) => getActionSelector(action, matches)),
+      )
+    }
+    return matches[0]
+  }
+
+  /**
+   * Get the action that shadows an action (a later action with the same name)
+   */
+  getShadowingAction(action: Action): Action | undefined {
+    const winner = this.getByName(action.meta.name)
+    return winner && winner !== action ? winner : undefined
   }
 
   /**
@@ -46,17 +179,17 @@ export class ActionRegistry {
   }
 
   /**
-   * Get the number of registered actions
+   * Get the number of registered actions (including shadowed ones)
    */
   get count(): number {
-    return this.actions.size
+    return this.actions.length
   }
 
   /**
    * Clear all registered actions
    */
   clear(): void {
-    this.actions.clear()
+    this.actions = []
     logger.debug('Cleared all actions from registry')
   }
 }
@@ -12,6 +12,22 @@ import { logger } from '@/lib/logger'
  */
 const EXCLUDED_DIRS = new Set(['node_modules', 'dist', 'build', '.git', 'coverage', '.cache'])
 
+/**
+ * Check whether a path relative to an action directory points to an action file
+ *
+ * @param relativePath - Path relative to the action directory
+ * @returns true for .ts/.tsx files outside of excluded directories
+ */
+export function isActionFilePath(relativePath: string): boolean {
+  const segments = relativePath.split(/[\\/]/)
+  if (segments.slice(0, -1).some((segment) => EXCLUDED_DIRS.has(segment))) {
+    return false
+  }
+
+  const ext = extname(relativePath)
+  return ext === '.ts' || ext === '.tsx'
+}
+
 /**
  * Find all action files in a directory
  * @param directory - Directory to search
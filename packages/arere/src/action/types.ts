@@ -28,6 +28,108 @@ export interface ArgMapping {
   description?: string
 }
 
+/**
+ * Common options of a declared action argument
+ */
+export interface ArgDefinitionBase<T> {
+  /** Short argument name (e.g., 't' for -t) */
+  short?: string
+  /** Positional argument index (0-based) */
+  index?: number
+  /** Description for --help */
+  description?: string
+  /** Fail (or ask in interactive mode) when the argument is missing */
+  required?: boolean
+  /** Value used when the argument is missing */
+  default?: T
+}
+
+/**
+ * String argument (`--name=value`)
+ */
+export interface StringArgDefinition extends ArgDefinitionBase<string> {
+  type: 'string'
+  /** Minimum length */
+  minLength?: number
+  /** Maximum length */
+  maxLength?: number
+}
+
+/**
+ * Number argument (`--port=8080`)
+ */
+export interface NumberArgDefinition extends ArgDefinitionBase<number> {
+  type: 'number'
+  /** Minimum value */
+  min?: number
+  /** Maximum value */
+  max?: number
+}
+
+/**
+ * Boolean flag (`--force`, `--force=false`), `false` when missing
+ */
+export interface BooleanArgDefinition extends ArgDefinitionBase<boolean> {
+  type: 'boolean'
+}
+
+/**
+ * Argument restricted to a list of values (`--target=production`)
+ */
+export interface EnumArgDefinition<T extends string = string> extends ArgDefinitionBase<T> {
+  type: 'enum'
+  /** Allowed values */
+  values: readonly T[]
+}
+
+/**
+ * Declared action argument
+ */
+export type ArgDefinition =
+  | StringArgDefinition
+  | NumberArgDefinition
+  | BooleanArgDefinition
+  | EnumArgDefinition
+
+/**
+ * Declared arguments of an action, keyed by long argument name
+ *
+ * @example
+ * ```typescript
+ * const args = {
+ *   target: { type: 'enum', values: ['staging', 'production'], short: 't', required: true },
+ *   force: { type: 'boolean', description: 'Skip checks' },
+ * } satisfies ArgsSchema
+ * ```
+ */
+export type ArgsSchema = Record<string, ArgDefinition>
+
+/**
+ * Value type of a declared argument
+ */
+export type ArgValue<T extends ArgDefinition> = T extends EnumArgDefinition<infer V>
+  ? V
+  : T extends NumberArgDefinition
+    ? number
+    : T extends BooleanArgDefinition
+      ? boolean
+      : string
+
+/**
+ * Typed `ctx.argv` for declared arguments
+ *
+ * Arguments that are required, have a default or are boolean flags are always
+ * set; the others may be undefined.
+ */
+export type ArgsValues<T extends ArgsSchema> = {
+  [K in keyof T]: T[K] extends
+    | { required: true }
+    | { default: string | number | boolean }
+    | BooleanArgDefinition
+    ? ArgValue<T[K]>
+    : ArgValue<T[K]> | undefined
+}
+
 /**
  * Action metadata (for loaded actions - name is always present)
  */
@@ -40,6 +142,10 @@ export interface ActionMeta {
   category?: string
   /** Optional tags for classification */
   tags?: string[]
+  /** Actions to run (in order) before this action */
+  dependsOn?: string[]
+  /** Declared CLI arguments (parsed into `ctx.argv`) */
+  args?: ArgsSchema
 }
 
 /**
@@ -144,17 +250,50 @@ export interface ShellResult {
   stdout: string
   /** Standard error */
   stderr: string
-  /** Exit code */
+  /** Exit code (128 + signal number when the command was killed by a signal) */
   exitCode: number
+  /** Whether the command was killed because it exceeded `timeout` */
+  timedOut?: boolean
+}
+
+/**
+ * Shell command options
+ */
+export interface ShellOptions {
+  /** Working directory (defaults to the current working directory) */
+  cwd?: string
+  /** Environment variables merged over `process.env` (`undefined` removes a variable) */
+  env?: Record<string, string | undefined>
+  /** Kill the command after this many milliseconds */
+  timeout?: number
+  /** Data written to the command's stdin */
+  input?: string
+  /** Pipe each output line to the action output as it arrives (stderr lines as warnings) */
+  stream?: boolean
+  /** Throw a `ShellError` when the command exits with a non-zero code (default: false) */
+  throwOnError?: boolean
 }
 
 /**
  * Shell executor function type (tagged template literal)
+ *
+ * @example
+ * ```typescript
+ * await $`echo hello`
+ * await $({ cwd: 'packages/app', stream: true })`npm install`
+ * await $.throwOnError`git push` // throws ShellError on failure
+ * ```
  */
-export type ShellExecutor = (
-  command: TemplateStringsArray,
-  ...args: unknown[]
-) => Promise<ShellResult>
+export interface ShellExecutor {
+  /** Run a command */
+  (command: TemplateStringsArray, ...args: unknown[]): Promise<ShellResult>
+  /** Create an executor with additional options */
+  (options: ShellOptions): ShellExecutor
+  /** Executor that throws `ShellError` on non-zero exit codes */
+  readonly throwOnError: ShellExecutor
+  /** Executor that resolves with the result regardless of the exit code */
+  readonly nothrow: ShellExecutor
+}
 
 /**
  * Form types re-export
@@ -272,6 +411,22 @@ export interface PromptAPICallable {
  */
 export type PromptAPI = PromptAPICallable & PromptAPIMethods
 
+/**
+ * Secrets API (`ctx.secrets`)
+ *
+ * Secrets are kept in an encrypted store in `~/.arere` and never written to
+ * `settings.json`. In headless mode, `ARERE_SECRET_<NAME>` environment
+ * variables take precedence over the store.
+ */
+export interface SecretsAPI {
+  /** Get a secret (undefined if it is not set) */
+  get: (name: string) => Promise<string | undefined>
+  /** Store a secret */
+  set: (name: string, value: string) => Promise<void>
+  /** Delete a secret, returning whether it existed */
+  delete: (name: string) => Promise<boolean>
+}
+
 /**
  * TUI API interface (combines prompt, output, and control)
  */
@@ -288,8 +443,12 @@ export interface TuiAPI {
  * Action execution context
  *
  * @template TKeys - Translation keys (string literal union for type safety)
+ * @template TArgv - Values of the declared arguments (`ctx.argv`)
  */
-export interface ActionContext<TKeys extends string = string> {
+export interface ActionContext<
+  TKeys extends string = string,
+  TArgv extends Record<string, unknown> = Record<string, unknown>,
+> {
   /** TUI API (prompt + output + control) */
   tui: TuiAPI
   /** Shell executor for running commands */
@@ -303,9 +462,33 @@ export interface ActionContext<TKeys extends string = string> {
   cwd: string
   /** Environment variables */
   env: Record<string, string | undefined>
-  /** Plugin configuration (available only for plugin actions) */
+  /** Plugin configuration (available only for plugin actions, secret fields included) */
   pluginConfig?: Record<string, unknown>
 
+  /**
+   * Secrets (API tokens and other credentials)
+   *
+   * @remarks
+   * - Stored encrypted in `~/.arere/secrets.json`, never in the config layers
+   * - In headless mode (`arere run`), `ARERE_SECRET_<NAME>` is read first (`github.token` → `ARERE_SECRET_GITHUB_TOKEN`)
+   *
+   * @example
+   * ```typescript
+   * export default defineAction({
+   *   name: 'release',
+   *   description: 'Create a GitHub release',
+   *   async run({ secrets, tui }) {
+   *     let token = await secrets.get('github.token')
+   *     if (!token) {
+   *       token = await tui.prompt.password('GitHub token')
+   *       await secrets.set('github.token', token)
+   *     }
+   *   }
+   * })
+   * ```
+   */
+  secrets: SecretsAPI
+
   /**
    * Current application configuration (merged result)
    *
@@ -371,6 +554,106 @@ export interface ActionContext<TKeys extends string = string> {
    * ```
    */
   args: string[]
+
+  /**
+   * Values of the arguments declared with `defineAction({ args })`
+   *
+   * @remarks
+   * - Parsed from `args`, `--answers` and `ARERE_ARG_<NAME>` and converted to the declared types
+   * - Missing required arguments are asked for in interactive mode; otherwise the run fails
+   * - In the TUI, the arguments are offered as a form before the action runs
+   *
+   * @example
+   * ```typescript
+   * export default defineAction({
+   *   name: 'deploy',
+   *   description: 'Deploy to target environment',
+   *   args: {
+   *     target: { type: 'enum', values: ['staging', 'production'], short: 't', required: true },
+   *     force: { type: 'boolean', description: 'Skip checks' },
+   *   },
+   *   async run({ argv, tui }) {
+   *     // argv.target: 'staging' | 'production', argv.force: boolean
+   *     tui.output.info(`Deploying to ${argv.target}...`)
+   *   }
+   * })
+   * ```
+   */
+  argv: TArgv
+
+  /**
+   * Abort signal for cancelling the action
+   *
+   * @remarks
+   * - Aborted when the user cancels the running action (e.g., abort key in the TUI)
+   * - Commands started via `$` are terminated automatically and pending prompts are rejected
+   * - Pass it to APIs that accept a signal (e.g., `fetch`) or check `signal.aborted` in loops
+   *
+   * @example
+   * ```typescript
+   * export default defineAction({
+   *   name: 'poll',
+   *   description: 'Poll until ready',
+   *   async run({ signal, tui }) {
+   *     while (!signal.aborted) {
+   *       const res = await fetch('https://example.com/status', { signal })
+   *       if (res.ok) break
+   *       await tui.control.delay(1000)
+   *     }
+   *   }
+   * })
+   * ```
+   */
+  signal: AbortSignal
+
+  /**
+   * Stop the action immediately with an explicit exit code
+   *
+   * @param code - Exit code, an integer from 0 to 255 (default: 0). `0` ends the run successfully;
+   *   any other code fails it. Other values fail the run with an `InvalidExitCodeError`
+   *
+   * @remarks
+   * - In headless mode (`arere run`), the process exits with this code
+   * - Works by throwing, so do not call it inside a `try` block that swallows errors
+   *
+   * @example
+   * ```typescript
+   * export default defineAction({
+   *   name: 'lint-staged',
+   *   description: 'Lint staged files',
+   *   async run({ $, exit }) {
+   *     const { exitCode } = await $`eslint --cache .`
+   *     if (exitCode !== 0) exit(3)
+   *   }
+   * })
+   * ```
+   */
+  exit: (code?: number) => never
+
+  /**
+   * Run another registered action as a nested step
+   *
+   * @param name - Name of the action in the registry
+   * @param args - Command line arguments for the nested action (defaults to [])
+   *
+   * @remarks
+   * - The nested action gets its own scoped `t` and plugin config
+   * - Its output is shown as a nested section of this action's output
+   * - Rejects with the nested action's error, so an uncaught failure stops this action too
+   *
+   * @example
+   * ```typescript
+   * export default defineAction({
+   *   name: 'release',
+   *   description: 'Test and publish',
+   *   async run({ runAction, $ }) {
+   *     await runAction('test', ['--coverage'])
+   *     await $`npm publish`
+   *   }
+   * })
+   * ```
+   */
+  runAction: (name: string, args?: string[]) => Promise<void>
 }
 
 /**
@@ -393,6 +676,8 @@ export interface Action<TKeys extends string = string> {
   filePath: string
   /** Action location (automatically set by loader) */
   location?: ActionLocation
+  /** Label of the action root the action was found in (automatically set by loader) */
+  source?: string
   /** Run function */
   run: (context: ActionContext<TKeys>) => Promise<void>
   /** Optional translations for this action */
@@ -407,8 +692,12 @@ export interface Action<TKeys extends string = string> {
  * Action definition function parameter
  *
  * @template TKeys - Translation keys (for type-safe translations)
+ * @template TArgs - Declared arguments (for a typed `ctx.argv`)
  */
-export interface ActionDefinition<TKeys extends string = string> {
+export interface ActionDefinition<
+  TKeys extends string = string,
+  TArgs extends ArgsSchema = ArgsSchema,
+> {
   /** Action name (optional - if omitted, derived from filename) */
   name?: string
   /** Action description (can be a plain string or function) */
@@ -417,8 +706,12 @@ export interface ActionDefinition<TKeys extends string = string> {
   category?: string
   /** Optional tags for classification */
   tags?: string[]
+  /** Actions to run (in order) before this action; a failure stops the chain */
+  dependsOn?: string[]
+  /** Declared CLI arguments, parsed and validated into `ctx.argv` */
+  args?: TArgs
   /** Run function */
-  run: (context: ActionContext<TKeys>) => Promise<void>
+  run: (context: ActionContext<TKeys, ArgsValues<TArgs>>) => Promise<void>
   /** Optional translations for this action */
   translations?: Record<string, Record<string, unknown>>
 }
@@ -0,0 +1,139 @@
+/**
+ * Usage statistics for actions (run count and last run time)
+ */
+
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { JsonFileStore } from '@/lib/json-store'
+import { logger } from '@/lib/logger'
+import type { BookmarkId } from '@/ui/bookmark'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+const WEEK = 7 * DAY
+
+/**
+ * Usage of a single action
+ */
+export interface ActionUsage {
+  /** Number of runs */
+  count: number
+  /** Last run time (milliseconds since epoch) */
+  lastUsedAt: number
+}
+
+/**
+ * Usage of all actions, keyed by action identifier (same scheme as bookmarks)
+ */
+export type ActionUsageMap = Record<BookmarkId, ActionUsage>
+
+/**
+ * Usage storage structure
+ */
+interface UsageStorage {
+  actions: ActionUsageMap
+}
+
+/**
+ * Calculate the frecency score of an action
+ *
+ * The run count is weighted by how recently the action was last run,
+ * so actions run often and lately rank first.
+ *
+ * @param usage - Usage of the action (undefined if it was never run)
+ * @param now - Current time (milliseconds since epoch)
+ * @returns Frecency score (0 for actions that were never run)
+ */
+export function calculateFrecency(
+  usage: ActionUsage | undefined,
+  now: number = Date.now(),
+): number {
+  if (!usage || usage.count <= 0) {
+    return 0
+  }
+
+  const age = now - usage.lastUsedAt
+  const weight = age < HOUR ? 4 : age < DAY ? 2 : age < WEEK ? 1 : 0.5
+  return usage.count * weight
+}
+
+/**
+ * Action usage manager
+ *
+ * Stores usage per action in `~/.arere/history/usage.json`.
+ * Unlike run history it is never truncated, so frequently used actions keep their rank.
+ * The file is re-read before each run is recorded, so counts from other processes are kept.
+ *
+ * @example
+ * ```typescript
+ * const usage = new UsageManager()
+ *
+ * usage.record('local:deploy')
+ *
+ * calculateFrecency(usage.get('local:deploy')) // 4
+ * ```
+ */
+export class UsageManager {
+  private store: JsonFileStore<UsageStorage>
+
+  constructor(usageDir?: string) {
+    const dir = usageDir || join(homedir(), '.arere', 'history')
+    this.store = new JsonFileStore(join(dir, 'usage.json'), 'usage', (data) => {
+      const actions = (data as Partial<UsageStorage> | undefined)?.actions
+      return { actions: actions && typeof actions === 'object' ? actions : {} }
+    })
+  }
+
+  /**
+   * Record a run of an action
+   *
+   * Runs recorded by other processes (e.g. `arere run` while the TUI is open) are kept.
+   *
+   * @param actionId - Action identifier
+   * @param usedAt - Run time (milliseconds since epoch)
+   */
+  record(actionId: BookmarkId, usedAt: number = Date.now()): void {
+    this.store.update((storage) => {
+      const current = storage.actions[actionId]
+      return {
+        actions: {
+          ...storage.actions,
+          [actionId]: {
+            count: (current?.count ?? 0) + 1,
+            lastUsedAt: Math.max(current?.lastUsedAt ?? 0, usedAt),
+          },
+        },
+      }
+    })
+  }
+
+  /**
+   * Get the usage of an action
+   *
+   * @param actionId - Action identifier
+   * @returns Usage or undefined if the action was never run
+   */
+  get(actionId: BookmarkId): ActionUsage | undefined {
+    return this.store.read().actions[actionId]
+  }
+
+  /**
+   * Get the usage of all actions
+   */
+  getAll(): ActionUsageMap {
+    return { ...this.store.read().actions }
+  }
+
+  /**
+   * Remove all usage statistics
+   */
+  clear(): void {
+    this.store.update(() => ({ actions: {} }))
+    logger.info('Usage cleared')
+  }
+}
+
+/**
+ * Global usage manager instance
+ */
+export const usageManager = new UsageManager()
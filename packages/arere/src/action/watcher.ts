@@ -0,0 +1,194 @@
+/**
+ * File watcher for action hot reload
+ */
+
+import { type FSWatcher, existsSync, watch } from 'node:fs'
+import { basename, dirname, join, resolve } from 'node:path'
+import { isActionFilePath } from '@/action/resolver'
+import { logger } from '@/lib/logger'
+
+/**
+ * Options for creating an action watcher
+ */
+export interface ActionWatcherOptions {
+  /** Action directories to watch recursively (e.g., ~/.arere/actions, ./.arere/actions) */
+  directories: string[]
+  /** Individual action files to watch (e.g., plugin actionPaths) */
+  files?: string[]
+  /** Called with the absolute paths of changed (added, modified or deleted) files */
+  onChange: (filePaths: string[]) => void
+  /** Delay to batch rapid successive events, in milliseconds (default: 100) */
+  debounceMs?: number
+}
+
+/**
+ * Watches action directories and files, batching change events
+ *
+ * The watcher only reports paths; deciding whether a file was added, changed
+ * or deleted is left to the caller (check `existsSync` on each path).
+ *
+ * @example
+ * ```typescript
+ * const watcher = new ActionWatcher({
+ *   directories: ['/path/to/.arere/actions'],
+ *   onChange: (paths) => console.log('Changed:', paths),
+ * })
+ * watcher.start()
+ * // ...
+ * watcher.close()
+ * ```
+ */
+export class ActionWatcher {
+  private watchers: FSWatcher[] = []
+  private fileWatchers: FSWatcher[] = []
+  private started = false
+  private pending = new Set<string>()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private readonly debounceMs: number
+
+  constructor(private options: ActionWatcherOptions) {
+    this.debounceMs = options.debounceMs ?? 100
+  }
+
+  /**
+   * Start watching all configured directories and files
+   */
+  start(): void {
+    this.started = true
+    for (const directory of this.options.directories) {
+      this.watchDirectory(directory)
+    }
+    this.watchFileTargets()
+  }
+
+  /**
+   * Replace the individual files to watch (e.g., after plugins were reloaded)
+   *
+   * @param files - Absolute paths of the files to watch from now on
+   */
+  setFiles(files: string[]): void {
+    this.options = { ...this.options, files }
+    if (!this.started) return
+
+    for (const watcher of this.fileWatchers) {
+      watcher.close()
+    }
+    this.fileWatchers = []
+    this.watchFileTargets()
+  }
+
+  /**
+   * Stop watching and discard pending events
+   */
+  close(): void {
+    for (const watcher of [...this.watchers, ...this.fileWatchers]) {
+      watcher.close()
+    }
+    this.watchers = []
+    this.fileWatchers = []
+    this.started = false
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.pending.clear()
+  }
+
+  /**
+   * Watch the configured individual files
+   *
+   * Editors often replace files on save, which breaks a watcher attached to the
+   * file itself. Watch each parent directory instead and filter by file name.
+   */
+  private watchFileTargets(): void {
+    const filesByDir = new Map<string, Set<string>>()
+    for (const file of this.options.files ?? []) {
+      const dir = dirname(file)
+      const names = filesByDir.get(dir) ?? new Set<string>()
+      names.add(basename(file))
+      filesByDir.set(dir, names)
+    }
+    for (const [dir, names] of filesByDir) {
+      this.watchFiles(dir, names)
+    }
+  }
+
+  /**
+   * Watch an action directory recursively
+   */
+  private watchDirectory(directory: string): void {
+    if (!existsSync(directory)) {
+      logger.debug(`Skipping watch for missing directory: ${directory}`)
+      return
+    }
+
+    const listener = (_event: string, filename: string | Buffer | null) => {
+      if (!filename) return
+      const relativePath = filename.toString()
+      if (!isActionFilePath(relativePath)) return
+      this.enqueue(resolve(directory, relativePath))
+    }
+
+    try {
+      this.watchers.push(watch(directory, { recursive: true }, listener))
+    } catch (error) {
+      // Recursive watching is unavailable on some platforms (e.g., Linux before Node 19.1)
+      logger.debug(`Recursive watch unavailable for ${directory}, watching top level only`, error)
+      this.tryWatch(directory, listener, this.watchers)
+    }
+  }
+
+  /**
+   * Watch specific files within a directory
+   */
+  private watchFiles(directory: string, names: Set<string>): void {
+    if (!existsSync(directory)) {
+      logger.debug(`Skipping watch for missing directory: ${directory}`)
+      return
+    }
+
+    this.tryWatch(
+      directory,
+      (_event, filename) => {
+        if (!filename) return
+        const name = filename.toString()
+        if (!names.has(name)) return
+        this.enqueue(join(directory, name))
+      },
+      this.fileWatchers,
+    )
+  }
+
+  /**
+   * Attach a non-recursive watcher to a list, logging failures instead of throwing
+   */
+  private tryWatch(
+    directory: string,
+    listener: (event: string, filename: string | Buffer | null) => void,
+    watchers: FSWatcher[],
+  ): void {
+    try {
+      watchers.push(watch(directory, listener))
+    } catch (error) {
+      logger.warn(`Failed to watch directory: ${directory}`, error)
+    }
+  }
+
+  /**
+   * Queue a changed path and schedule a batched notification
+   */
+  private enqueue(filePath: string): void {
+    this.pending.add(filePath)
+
+    if (this.timer) {
+      clearTimeout(this.timer)
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null
+      const paths = Array.from(this.pending)
+      this.pending.clear()
+      logger.debug(`Action files changed: ${paths.join(', ')}`)
+      this.options.onChange(paths)
+    }, this.debounceMs)
+  }
+}
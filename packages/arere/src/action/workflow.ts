@@ -0,0 +1,182 @@
+/**
+ * Workflow definition function
+ *
+ * A workflow is an action that runs other registered actions as steps through
+ * `ctx.runAction`, so each step gets its own context and output section.
+ */
+
+import { formatError } from '@/lib/error'
+import type { Action, ActionContext } from './types'
+
+/**
+ * Outcome of a workflow step, passed to later step conditions
+ */
+export interface WorkflowStepOutcome {
+  /** Action name of the step */
+  action: string
+  /** Step status */
+  status: 'success' | 'failure' | 'skipped'
+}
+
+/**
+ * Condition deciding whether a workflow step runs
+ *
+ * - `'success'` (default): only if no earlier step stopped the workflow
+ * - `'failure'`: only if an earlier step failed (e.g. cleanup or notifications)
+ * - `'always'`: regardless of earlier failures
+ * - function: evaluated with the context and earlier outcomes (only while the workflow has not failed)
+ */
+export type WorkflowCondition =
+  | 'success'
+  | 'failure'
+  | 'always'
+  | ((context: ActionContext, outcomes: WorkflowStepOutcome[]) => boolean | Promise<boolean>)
+
+/**
+ * Workflow step
+ */
+export interface WorkflowStep {
+  /** Name of the registered action to run */
+  action: string
+  /** Command line arguments for the action */
+  args?: string[]
+  /** Keep running later steps when this step fails (default: false) */
+  continueOnError?: boolean
+  /** Condition for running the step (default: 'success') */
+  when?: WorkflowCondition
+}
+
+/**
+ * Workflow definition function parameter
+ */
+export interface WorkflowDefinition {
+  /** Workflow name (optional - if omitted, derived from filename) */
+  name?: string
+  /** Workflow description */
+  description: string | ((context: ActionContext) => string)
+  /** Optional category */
+  category?: string
+  /** Optional tags for classification */
+  tags?: string[]
+  /** Steps to run in order */
+  steps: WorkflowStep[]
+}
+
+/**
+ * Check whether a step should run
+ */
+async function shouldRun(
+  step: WorkflowStep,
+  context: ActionContext,
+  outcomes: WorkflowStepOutcome[],
+  failed: boolean,
+): Promise<boolean> {
+  const when = step.when ?? 'success'
+  switch (when) {
+    case 'always':
+      return true
+    case 'success':
+      return !failed
+    case 'failure':
+      return outcomes.some((outcome) => outcome.status === 'failure')
+    default:
+      return !failed && (await when(context, [...outcomes]))
+  }
+}
+
+/**
+ * Define a workflow that runs registered actions in order
+ *
+ * A failing step stops the workflow (later steps only run if their condition is
+ * `'failure'` or `'always'`) and the workflow fails with that step's error.
+ * Steps with `continueOnError` record the failure and let the workflow go on.
+ *
+ * @param config - Workflow configuration
+ * @returns Action object
+ *
+ * @example
+ * ```typescript
+ * export default defineWorkflow({
+ *   name: 'ci',
+ *   description: 'Lint, test and build',
+ *   steps: [
+ *     { action: 'lint', continueOnError: true },
+ *     { action: 'test', args: ['--coverage'] },
+ *     { action: 'build', when: (ctx) => ctx.env.CI === 'true' },
+ *     { action: 'notify-failure', when: 'failure' },
+ *   ],
+ * })
+ * ```
+ */
+export function defineWorkflow(config: WorkflowDefinition): Action {
+  if (!config.description) {
+    throw new Error('Workflow description is required')
+  }
+
+  if (!Array.isArray(config.steps) || config.steps.length === 0) {
+    throw new Error('Workflow must have at least one step')
+  }
+
+  for (const step of config.steps) {
+    if (!step || typeof step.action !== 'string' || step.action === '') {
+      throw new Error('Workflow step must have an "action" name')
+    }
+  }
+
+  // Validate name format if provided (alphanumeric, dash, underscore only)
+  if (config.name && !/^[a-zA-Z0-9_-]+$/.test(config.name)) {
+    throw new Error(
+      'Action name must contain only alphanumeric characters, dashes, and underscores',
+    )
+  }
+
+  const { steps } = config
+
+  return {
+    meta: {
+      name: config.name || '', // Derived from filename by loader
+      description: config.description,
+      category: config.category,
+      tags: config.tags,
+    },
+    filePath: '', // Will be set by the loader
+    run: async (context) => {
+      const outcomes: WorkflowStepOutcome[] = []
+      let failure: unknown
+
+      for (const step of steps) {
+        // A cancelled run must not start more steps
+        if (context.signal.aborted) {
+          break
+        }
+
+        if (!(await shouldRun(step, context, outcomes, failure !== undefined))) {
+          outcomes.push({ action: step.action, status: 'skipped' })
+          context.tui.output.info(context.t('common:workflow.step_skipped', { name: step.action }))
+          continue
+        }
+
+        try {
+          await context.runAction(step.action, step.args)
+          outcomes.push({ action: step.action, status: 'success' })
+        } catch (error) {
+          outcomes.push({ action: step.action, status: 'failure' })
+          if (step.continueOnError) {
+            context.tui.output.warn(
+              context.t('common:workflow.step_failed_continue', {
+                name: step.action,
+                message: formatError(error),
+              }),
+            )
+          } else {
+            failure ??= error
+          }
+        }
+      }
+
+      if (failure !== undefined) {
+        throw failure
+      }
+    },
+  }
+}
@@ -7,6 +7,12 @@
 import { existsSync, readFileSync } from 'node:fs'
 import { dirname, join } from 'node:path'
 import { fileURLToPath } from 'node:url'
+import { runCacheCommand } from './commands/cache'
+import { runCompleteCommand } from './commands/complete'
+import { runCompletionCommand } from './commands/completion'
+import { runInfoCommand } from './commands/info'
+import { runListCommand } from './commands/list'
+import { runPluginCommand } from './commands/plugin'
 import { FileConfigManager } from './config/manager'
 import { initI18n, t } from './i18n/index'
 import { formatError } from './lib/error'
@@ -51,6 +57,11 @@ function showHelp(): void {
   const usage = t('cli:help.usage')
   const cmdDefault = t('cli:help.commands.default')
   const cmdRun = t('cli:help.commands.run')
+  const cmdList = t('cli:help.commands.list')
+  const cmdInfo = t('cli:help.commands.info')
+  const cmdCompletion = t('cli:help.commands.completion')
+  const cmdCache = t('cli:help.commands.cache')
+  const cmdPlugin = t('cli:help.commands.plugin')
   const cmdVersion = t('cli:help.commands.version')
   const cmdHelp = t('cli:help.commands.help')
   const versionLabel = t('cli:help.version_label')
@@ -61,6 +72,11 @@ ${appName} - ${tagline}
 ${usage}:
   arere                         ${cmdDefault}
   arere run <action> [args...]  ${cmdRun}
+  arere list [options]          ${cmdList}
+  arere info <action>           ${cmdInfo}
+  arere completion <shell>      ${cmdCompletion}
+  arere cache <clear|stats>     ${cmdCache}
+  arere plugin <command>        ${cmdPlugin}
   arere --version               ${cmdVersion}
   arere --help                  ${cmdHelp}
 
@@ -80,10 +96,16 @@ function showRunHelp(): void {
   const argArgs = t('cli:run_help.arg_args')
   const options = t('cli:run_help.options')
   const optHelp = t('cli:run_help.opt_help')
+  const optOutput = t('cli:run_help.opt_output')
+  const optAnswers = t('cli:run_help.opt_answers')
+  const optRecordAnswers = t('cli:run_help.opt_record_answers')
   const examples = t('cli:run_help.examples')
   const exampleBasic = t('cli:run_help.example_basic')
   const exampleWithArg = t('cli:run_help.example_with_arg')
   const exampleWithFlags = t('cli:run_help.example_with_flags')
+  const exampleOutput = t('cli:run_help.example_output')
+  const exampleAnswers = t('cli:run_help.example_answers')
+  const exampleRecordAnswers = t('cli:run_help.example_record_answers')
   const accessingArgs = t('cli:run_help.accessing_args')
 
   console.log(`
@@ -98,11 +120,17 @@ ${arguments_}:
 
 ${options}:
   --help, -h               ${optHelp}
+  --output=<json|ndjson>   ${optOutput}
+  --answers=<file>         ${optAnswers}
+  --record-answers=<file>  ${optRecordAnswers}
 
 ${examples}:
   arere run deploy                      ${exampleBasic}
   arere run deploy production           ${exampleWithArg}
   arere run deploy production --force   ${exampleWithFlags}
+  arere run report --output=ndjson | jq  ${exampleOutput}
+  arere run deploy --answers=ci.yaml    ${exampleAnswers}
+  arere run deploy --record-answers=ci.json  ${exampleRecordAnswers}
 
 ${accessingArgs}:
   export default defineAction({
@@ -131,6 +159,13 @@ async function main() {
 
     const args = process.argv.slice(2)
 
+    // Called by the completion scripts: arere __complete -- <words...>
+    // (before --version so that completing `-v` is not treated as a flag)
+    if (args[0] === '__complete') {
+      await runCompleteCommand(config, args.slice(1))
+      return
+    }
+
     // Handle --version
     if (args.includes('--version') || args.includes('-v')) {
       console.log(getVersion())
@@ -154,6 +189,21 @@ async function main() {
       // Pass to HeadlessMode (handles action-specific --help)
       const mode = new HeadlessMode(config)
       await mode.run(actionName, actionArgs)
+    } else if (subcommand === 'list') {
+      // arere list [--category=...] [--tag=...] [--source=...] [--bookmarked] [--json]
+      await runListCommand(config, args.slice(1))
+    } else if (subcommand === 'info') {
+      // arere info <action> [--json]
+      await runInfoCommand(config, args.slice(1))
+    } else if (subcommand === 'completion') {
+      // arere completion <bash|zsh|fish>
+      runCompletionCommand(args.slice(1))
+    } else if (subcommand === 'cache') {
+      // arere cache <clear|stats>
+      runCacheCommand(args.slice(1))
+    } else if (subcommand === 'plugin') {
+      // arere plugin <list|install|remove|update|enable|disable> [name...] [--local|--global]
+      await runPluginCommand(config, args.slice(1))
     } else {
       // Handle --help (only for non-subcommand usage)
       if (args.includes('--help') || args.includes('-h')) {
@@ -0,0 +1,44 @@
+/**
+ * `arere cache <clear|stats>` - Manage the action metadata cache
+ */
+
+import { type CacheManager, cacheManager as defaultCacheManager } from '@/action/cache'
+import { setLogLevel } from '@/lib/logger'
+import { HeadlessExitCode } from '@/modes/headless-mode'
+
+/**
+ * Subcommands of `arere cache`
+ */
+export const CACHE_SUBCOMMANDS = ['clear', 'stats'] as const
+
+/**
+ * Run `arere cache <clear|stats>`
+ *
+ * @param args - Arguments after `arere cache`
+ * @param cache - Cache manager (defaults to the global instance)
+ */
+export function runCacheCommand(args: string[], cache: CacheManager = defaultCacheManager): void {
+  const [subcommand] = args
+
+  // Print results only, not cache debug/info logs
+  setLogLevel('error')
+
+  switch (subcommand) {
+    case 'clear': {
+      const { totalEntries } = cache.getStats()
+      cache.clear()
+      console.log(`✓ Cleared ${totalEntries} cache entr${totalEntries === 1 ? 'y' : 'ies'}`)
+      return
+    }
+    case 'stats': {
+      const stats = cache.getStats()
+      console.log(`Cache file:  ${stats.cacheFile}`)
+      console.log(`Entries:     ${stats.totalEntries}`)
+      return
+    }
+    default:
+      console.error(`Error: Unknown cache command "${subcommand ?? ''}"`)
+      console.error(`Usage: arere cache <${CACHE_SUBCOMMANDS.join('|')}>`)
+      process.exit(HeadlessExitCode.INVALID_ARGS)
+  }
+}
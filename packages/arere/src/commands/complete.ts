@@ -0,0 +1,323 @@
+/**
+ * `arere __complete` - Completion candidates for the shell scripts
+ *
+ * The scripts emitted by `arere completion` call back into this command with
+ * the words typed so far. Action metadata is read from `CacheManager` when every
+ * action file is unchanged, so completion does not have to load any action.
+ */
+
+import { join } from 'node:path'
+import type { ArgMeta } from '@/action/args/analyzer'
+import { type CacheManager, cacheManager as defaultCacheManager } from '@/action/cache'
+import { getActionArgsMeta } from '@/action/metadata-cache'
+import { getQualifiedActionId } from '@/action/registry'
+import { findActionsWithPriority } from '@/action/resolver'
+import type { ArereConfig } from '@/config/schema'
+import { setLogLevel, setLogStream } from '@/lib/logger'
+import { getActionRoots } from '@/lib/path'
+import { loadActionRegistry } from '@/modes/load-actions'
+import { detectPlugins, getCachedGlobalNodeModules } from '@/plugin/index'
+import { STRUCTURED_OUTPUT_FORMATS } from '@/ui/output/structured-writer'
+import { CACHE_SUBCOMMANDS } from './cache'
+import { ACTION_SOURCES } from './list'
+import { PLUGIN_SUBCOMMANDS } from './plugin'
+
+/**
+ * Subcommands offered at the first position
+ */
+export const COMPLETION_SUBCOMMANDS = ['run', 'list', 'info', 'completion', 'cache', 'plugin']
+
+/**
+ * Shells supported by `arere completion`
+ */
+export const COMPLETION_SHELLS = ['bash', 'zsh', 'fish'] as const
+
+/**
+ * Completion data for a single action
+ */
+export interface CompletionEntry {
+  /** Action name */
+  name: string
+  /** Category (if any) */
+  category?: string
+  /** Tags */
+  tags: string[]
+  /** CLI arguments extracted by `analyzeActionArgs` */
+  args: ArgMeta[]
+}
+
+/**
+ * Cache key for an action file's completion entry
+ */
+function actionCacheKey(filePath: string): string {
+  return `completion:action:${filePath}`
+}
+
+/**
+ * Cache key for the action paths of a plugin package
+ */
+function pluginCacheKey(pluginPath: string): string {
+  return `completion:plugin:${pluginPath}`
+}
+
+/**
+ * Check whether a plugin is enabled in config
+ */
+function isPluginEnabled(config: ArereConfig, name: string): boolean {
+  const pluginUserConfig = config.plugins?.[name]
+  if (pluginUserConfig === false) {
+    return false
+  }
+  return typeof pluginUserConfig === 'object' ? pluginUserConfig.enabled !== false : true
+}
+
+/**
+ * Read completion entries from the cache
+ *
+ * Runs no subprocess: the global node_modules directories must be cached as well.
+ *
+ * @returns Entries in registry order, or null if any file is missing from the cache or changed
+ */
+async function readCachedEntries(
+  config: ArereConfig,
+  cache: CacheManager,
+): Promise<CompletionEntry[] | null> {
+  // Asking the package managers for their global directories is too slow here
+  const globalNodeModules = getCachedGlobalNodeModules()
+  if (!globalNodeModules) {
+    return null
+  }
+
+  const paths: string[] = []
+  for (const plugin of detectPlugins({ pluginPaths: config.pluginPaths, globalNodeModules })) {
+    if (!isPluginEnabled(config, plugin.name)) {
+      continue
+    }
+    const actionPaths = cache.get<string[]>(
+      pluginCacheKey(plugin.path),
+      join(plugin.path, 'package.json'),
+    )
+    if (!actionPaths) {
+      return null
+    }
+    paths.push(...actionPaths)
+  }
+
+  const roots = getActionRoots(config)
+  paths.push(...(await findActionsWithPriority(roots.map((root) => root.path))))
+
+  const entries: CompletionEntry[] = []
+  for (const filePath of paths) {
+    const entry = cache.get<CompletionEntry>(actionCacheKey(filePath), filePath)
+    if (!entry) {
+      return null
+    }
+    entries.push(entry)
+  }
+  return entries
+}
+
+/**
+ * Load every action and refresh the completion cache
+ */
+async function loadEntries(config: ArereConfig, cache: CacheManager): Promise<CompletionEntry[]> {
+  const { registry, pluginManager } = await loadActionRegistry(config)
+
+  for (const plugin of pluginManager.getPlugins()) {
+    if (plugin.enabled) {
+      cache.set(pluginCacheKey(plugin.path), plugin.actionPaths, join(plugin.path, 'package.json'))
+    }
+  }
+
+  // Names shared by several sources are ambiguous for `arere run`: complete their qualified ids
+  const entries = registry.getAllIncludingShadowed().map((action) => {
+    const ambiguous = registry.findAll(action.meta.name).length > 1
+    const entry: CompletionEntry = {
+      name: ambiguous ? getQualifiedActionId(action) : action.meta.name,
+      category: action.meta.category,
+      tags: action.meta.tags ?? [],
+      args: getActionArgsMeta(cache, action.filePath, action.meta.args)?.args ?? [],
+    }
+    cache.set(actionCacheKey(action.filePath), entry, action.filePath)
+    return entry
+  })
+  cache.flush()
+  return entries
+}
+
+/**
+ * Get completion data for all actions
+ *
+ * Uses the cache when every action file is unchanged; otherwise loads all actions
+ * and refreshes the cache. Later entries (project) shadow earlier ones (plugin).
+ *
+ * @param config - Application configuration
+ * @param cache - Cache manager (defaults to the global instance)
+ * @returns Completion entries keyed by action name
+ */
+export async function getCompletionEntries(
+  config: ArereConfig,
+  cache: CacheManager = defaultCacheManager,
+): Promise<Map<string, CompletionEntry>> {
+  const entries = (await readCachedEntries(config, cache)) ?? (await loadEntries(config, cache))
+  return new Map(entries.map((entry) => [entry.name, entry]))
+}
+
+/**
+ * Find the argument for a flag (`--env` or `-e`)
+ */
+function findArg(entry: CompletionEntry | undefined, flag: string): ArgMeta | undefined {
+  return entry?.args.find(
+    (arg) => (arg.name && flag === `--${arg.name}`) || (arg.short && flag === `-${arg.short}`),
+  )
+}
+
+/**
+ * Unique, sorted values
+ */
+function unique(values: string[]): string[] {
+  return [...new Set(values)].sort()
+}
+
+/**
+ * Candidates for `arere run <action> ...`
+ */
+function completeRunArgs(
+  entry: CompletionEntry | undefined,
+  previous: string | undefined,
+  current: string,
+): string[] {
+  // --env=<choice>
+  const equalsIndex = current.indexOf('=')
+  if (current.startsWith('--') && equalsIndex !== -1) {
+    const flag = current.slice(0, equalsIndex)
+    if (flag === '--output') {
+      return STRUCTURED_OUTPUT_FORMATS.map((format) => `${flag}=${format}`)
+    }
+    const arg = findArg(entry, flag)
+    return (arg?.choices ?? []).map((choice) => `${flag}=${choice}`)
+  }
+
+  // --env <choice>
+  if (previous?.startsWith('-')) {
+    const arg = findArg(entry, previous)
+    if (arg && arg.type !== 'confirm') {
+      return arg.choices ?? []
+    }
+    if (previous === '--output') {
+      return [...STRUCTURED_OUTPUT_FORMATS]
+    }
+  }
+
+  if (current.startsWith('-')) {
+    const flags = ['--help', '--output=', '--answers=', '--record-answers=']
+    for (const arg of entry?.args ?? []) {
+      if (arg.name) {
+        flags.push(`--${arg.name}`)
+      }
+      if (arg.short) {
+        flags.push(`-${arg.short}`)
+      }
+    }
+    return flags
+  }
+
+  // Positional arguments with static choices
+  return (entry?.args ?? []).flatMap((arg) => (arg.index !== undefined ? (arg.choices ?? []) : []))
+}
+
+/**
+ * Candidates for `arere list ...`
+ */
+function completeListArgs(entries: Map<string, CompletionEntry>, current: string): string[] {
+  const values: Record<string, string[]> = {
+    '--category': unique(
+      [...entries.values()].flatMap((entry) => (entry.category ? [entry.category] : [])),
+    ),
+    '--tag': unique([...entries.values()].flatMap((entry) => entry.tags)),
+    '--source': [...ACTION_SOURCES],
+  }
+
+  const equalsIndex = current.indexOf('=')
+  if (equalsIndex !== -1) {
+    const flag = current.slice(0, equalsIndex)
+    return (values[flag] ?? []).map((value) => `${flag}=${value}`)
+  }
+
+  return ['--category=', '--tag=', '--source=', '--bookmarked', '--json']
+}
+
+/**
+ * Compute completion candidates
+ *
+ * @param words - Words after `arere`, ending with the word being completed (may be empty)
+ * @param entries - Completion entries keyed by action name
+ * @returns Candidates starting with the current word
+ *
+ * @example
+ * ```typescript
+ * getCompletions(['run', 'deploy', '--env='], entries)
+ * // → ['--env=dev', '--env=prod']
+ * ```
+ */
+export function getCompletions(words: string[], entries: Map<string, CompletionEntry>): string[] {
+  const current = words[words.length - 1] ?? ''
+  const previous = words.length >= 2 ? words[words.length - 2] : undefined
+  const [subcommand] = words
+
+  let candidates: string[]
+  if (words.length <= 1) {
+    candidates = [...COMPLETION_SUBCOMMANDS, '--help', '--version']
+  } else if ((subcommand === 'run' || subcommand === 'info') && words.length === 2) {
+    candidates = [...entries.keys()].sort()
+  } else if (subcommand === 'run') {
+    candidates = completeRunArgs(entries.get(words[1]), previous, current)
+  } else if (subcommand === 'info') {
+    candidates = ['--json']
+  } else if (subcommand === 'list') {
+    candidates = completeListArgs(entries, current)
+  } else if (subcommand === 'completion' && words.length === 2) {
+    candidates = [...COMPLETION_SHELLS]
+  } else if (subcommand === 'cache' && words.length === 2) {
+    candidates = [...CACHE_SUBCOMMANDS]
+  } else if (subcommand === 'plugin' && words.length === 2) {
+    candidates = [...PLUGIN_SUBCOMMANDS]
+  } else if (subcommand === 'plugin') {
+    candidates = words[1] === 'list' ? ['--json'] : ['--local', '--global']
+  } else {
+    candidates = []
+  }
+
+  return candidates.filter((candidate) => candidate.startsWith(current))
+}
+
+/**
+ * Check whether completing the given words needs action data
+ */
+function needsEntries(words: string[]): boolean {
+  const [subcommand] = words
+  return (
+    words.length >= 2 && (subcommand === 'run' || subcommand === 'info' || subcommand === 'list')
+  )
+}
+
+/**
+ * Run `arere __complete -- <words...>`
+ *
+ * @param config - Application configuration
+ * @param args - Arguments after `arere __complete`
+ */
+export async function runCompleteCommand(config: ArereConfig, args: string[]): Promise<void> {
+  const words = args[0] === '--' ? args.slice(1) : args
+
+  // Keep stdout for candidates only
+  setLogLevel('error')
+  setLogStream('stderr')
+
+  const entries = needsEntries(words) ? await getCompletionEntries(config) : new Map()
+  const candidates = getCompletions(words, entries)
+
+  if (candidates.length > 0) {
+    console.log(candidates.join('\n'))
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * `arere completion <bash|zsh|fish>` - Print a shell completion script
+ *
+ * The scripts are thin wrappers: candidates come from `arere __complete`,
+ * so subcommands, action names and action flags stay in sync with the registry.
+ */
+
+import { HeadlessExitCode } from '@/modes/headless-mode'
+import { COMPLETION_SHELLS } from './complete'
+
+/**
+ * Shell supported by `arere completion`
+ */
+export type CompletionShell = (typeof COMPLETION_SHELLS)[number]
+
+/**
+ * Commands the completion is registered for (`arr` is the shorthand binary)
+ */
+const COMMANDS = ['arere', 'arr']
+
+const bashScript = `# arere bash completion
+# Install: arere completion bash >> ~/.bashrc
+_arere_complete() {
+  local line="\${COMP_LINE:0:COMP_POINT}"
+  local -a words
+  read -ra words <<< "$line"
+  [[ "$line" == *" " ]] && words+=("")
+  local cur="\${words[-1]}"
+
+  local IFS=$'\\n'
+  COMPREPLY=($("\${words[0]}" __complete -- "\${words[@]:1}" 2>/dev/null))
+
+  # '=' splits words in bash, so only complete the value part
+  if [[ "$cur" == *=* ]]; then
+    COMPREPLY=("\${COMPREPLY[@]#*=}")
+  fi
+  if [[ \${#COMPREPLY[@]} -eq 1 && "\${COMPREPLY[0]}" == *= ]]; then
+    compopt -o nospace
+  fi
+}
+complete -F _arere_complete ${COMMANDS.join(' ')}
+`
+
+const zshScript = `# arere zsh completion
+# Install: echo 'source <(arere completion zsh)' >> ~/.zshrc  (after compinit)
+_arere() {
+  local -a candidates
+  candidates=("\${(@f)$("\${words[1]}" __complete -- "\${(@)words[2,CURRENT]}" 2>/dev/null)}")
+  candidates=("\${(@)candidates:#}")
+  local -a values options
+  values=("\${(@M)candidates:#*=}")
+  options=("\${(@)candidates:#*=}")
+  (( \${#options} )) && compadd -Q -- "\${(@)options}"
+  (( \${#values} )) && compadd -Q -S '' -- "\${(@)values}"
+}
+compdef _arere ${COMMANDS.join(' ')}
+`
+
+const fishScript = `# arere fish completion
+# Install: arere completion fish > ~/.config/fish/completions/arere.fish
+function __arere_complete
+  set -l tokens (commandline -opc)
+  set -l current (commandline -ct)
+  $tokens[1] __complete -- $tokens[2..-1] "$current" 2>/dev/null
+end
+${COMMANDS.map((command) => `complete -c ${command} -f -a '(__arere_complete)'`).join('\n')}
+`
+
+/**
+ * Get the completion script for a shell
+ *
+ * @param shell - Target shell
+ * @returns Completion script source
+ */
+export function getCompletionScript(shell: CompletionShell): string {
+  switch (shell) {
+    case 'bash':
+      return bashScript
+    case 'zsh':
+      return zshScript
+    case 'fish':
+      return fishScript
+  }
+}
+
+/**
+ * Check whether a name is a supported shell
+ */
+function isCompletionShell(shell: string | undefined): shell is CompletionShell {
+  return (COMPLETION_SHELLS as readonly (string | undefined)[]).includes(shell)
+}
+
+/**
+ * Run `arere completion <shell>`
+ *
+ * @param args - Arguments after `arere completion`
+ */
+export function runCompletionCommand(args: string[]): void {
+  const [shell] = args
+
+  if (!isCompletionShell(shell)) {
+    console.error(`Error: Unsupported shell "${shell ?? ''}"`)
+    console.error(`Usage: arere completion <${COMPLETION_SHELLS.join('|')}>`)
+    process.exit(HeadlessExitCode.INVALID_ARGS)
+  }
+
+  process.stdout.write(getCompletionScript(shell))
+}
@@ -0,0 +1,127 @@
+/**
+ * `arere info <action>` - Print details of a single action
+ */
+
+import { type ArgMeta, formatArgDescription, formatArgOption } from '@/action/args/analyzer'
+import { cacheManager } from '@/action/cache'
+import { getActionArgsMeta } from '@/action/metadata-cache'
+import type { Action } from '@/action/types'
+import type { ArereConfig } from '@/config/schema'
+import { AmbiguousActionError } from '@/lib/error'
+import { setLogLevel } from '@/lib/logger'
+import { HeadlessExitCode } from '@/modes/headless-mode'
+import { loadActionRegistry } from '@/modes/load-actions'
+import type { LoadedPlugin } from '@/plugin/types'
+import { type ActionSummary, toActionSummary } from './list'
+
+/**
+ * Action details printed by `arere info --json`
+ */
+export interface ActionInfo extends ActionSummary {
+  /** Plugin version for plugin actions */
+  pluginVersion: string | null
+  /** CLI arguments (declared, then extracted from the action source) */
+  args: ArgMeta[]
+}
+
+/**
+ * Build the details of an action
+ *
+ * @param action - Action to describe
+ * @param config - Application configuration
+ * @param plugins - Loaded plugins (used to resolve the plugin version)
+ */
+export function getActionInfo(
+  action: Action,
+  config: ArereConfig,
+  plugins: LoadedPlugin[] = [],
+): ActionInfo {
+  const summary = toActionSummary(action, config, config.bookmarks ?? [])
+  const plugin = plugins.find((p) => p.meta.name === summary.plugin)
+
+  return {
+    ...summary,
+    pluginVersion: plugin?.meta.version ?? null,
+    args: getActionArgsMeta(cacheManager, action.filePath, action.meta.args)?.args ?? [],
+  }
+}
+
+/**
+ * Format action details as text
+ */
+export function formatActionInfo(info: ActionInfo): string {
+  const rows: [string, string][] = [
+    ['Name', info.name],
+    ['Description', info.description],
+    ['File', info.filePath],
+    ['Location', info.source],
+  ]
+  if (info.plugin) {
+    rows.push(['Plugin', info.pluginVersion ? `${info.plugin}@${info.pluginVersion}` : info.plugin])
+  }
+  rows.push(['Category', info.category ?? '-'])
+  rows.push(['Tags', info.tags.length > 0 ? info.tags.join(', ') : '-'])
+  rows.push(['Bookmarked', info.bookmarked ? 'yes' : 'no'])
+
+  const lines = rows.map(([label, value]) => `${`${label}:`.padEnd(13)}${value}`)
+
+  lines.push('')
+  if (info.args.length === 0) {
+    lines.push('No CLI arguments available for this action.')
+  } else {
+    lines.push('Arguments:')
+    for (const arg of info.args) {
+      const option = `  ${formatArgOption(arg)}`
+      const desc = formatArgDescription(arg)
+      lines.push(desc ? `${option.padEnd(40)} ${desc}` : option)
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Run `arere info <action>`
+ *
+ * @param config - Application configuration
+ * @param args - Arguments after `arere info`
+ */
+export async function runInfoCommand(config: ArereConfig, args: string[]): Promise<void> {
+  const json = args.includes('--json')
+  const actionName = args.find((arg) => !arg.startsWith('-'))
+
+  if (!actionName) {
+    console.error('Error: Action name is required')
+    console.error('Usage: arere info <action> [--json]')
+    process.exit(HeadlessExitCode.INVALID_ARGS)
+  }
+
+  // Only show errors while loading
+  setLogLevel('error')
+
+  const { registry, pluginManager } = await loadActionRegistry(config)
+  let action: Action | undefined
+  try {
+    action = registry.resolve(actionName)
+  } catch (error) {
+    if (!(error instanceof AmbiguousActionError)) {
+      throw error
+    }
+    console.error(`Error: ${error.message}`)
+    process.exit(HeadlessExitCode.INVALID_ARGS)
+  }
+
+  if (!action) {
+    console.error(`Error: Action "${actionName}" not found`)
+    process.exit(HeadlessExitCode.ACTION_NOT_FOUND)
+  }
+
+  const info = getActionInfo(action, config, pluginManager.getPlugins())
+
+  if (json) {
+    console.log(JSON.stringify(info, null, 2))
+    return
+  }
+
+  console.log(formatActionInfo(info))
+}
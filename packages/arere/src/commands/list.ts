@@ -0,0 +1,268 @@
+/**
+ * `arere list` - Print available actions (for scripts and shell use)
+ */
+
+import { createActionContext } from '@/action/context'
+import type { Action } from '@/action/types'
+import type { ArereConfig } from '@/config/schema'
+import { setLogLevel } from '@/lib/logger'
+import { HeadlessExitCode } from '@/modes/headless-mode'
+import { loadActionRegistry } from '@/modes/load-actions'
+import { createBookmarkId } from '@/ui/bookmark'
+import { evaluateDescription } from '@/ui/utils/action'
+
+/**
+ * Where an action was loaded from
+ */
+export type ActionSource = 'plugin' | 'global' | 'project'
+
+/**
+ * Supported values for `--source`
+ */
+export const ACTION_SOURCES: readonly ActionSource[] = ['plugin', 'global', 'project']
+
+/**
+ * Filters for `arere list`
+ */
+export interface ListFilter {
+  /** Exact category match */
+  category?: string
+  /** Tags the action must have (all of them) */
+  tags: string[]
+  /** Action source */
+  source?: ActionSource
+  /** Only bookmarked actions */
+  bookmarked: boolean
+}
+
+/**
+ * Action summary printed by `arere list --json`
+ */
+export interface ActionSummary {
+  /** Bookmark-style id (`{plugin|local}:{name}`) */
+  id: string
+  /** Action name */
+  name: string
+  /** Evaluated description */
+  description: string
+  /** Category (if any) */
+  category: string | null
+  /** Tags */
+  tags: string[]
+  /** Action source */
+  source: ActionSource
+  /** Plugin name for plugin actions */
+  plugin: string | null
+  /** Absolute path of the action file */
+  filePath: string
+  /** Whether the action is bookmarked */
+  bookmarked: boolean
+}
+
+/**
+ * Parsed `arere list` options
+ */
+interface ListOptions {
+  filter: ListFilter
+  json: boolean
+}
+
+/**
+ * Get the source an action was loaded from
+ */
+export function getActionSource(action: Action): ActionSource {
+  const { location } = action
+  if (location && typeof location === 'object') {
+    return 'plugin'
+  }
+  return location === 'global' ? 'global' : 'project'
+}
+
+/**
+ * Get the plugin name of a plugin action
+ */
+export function getActionPlugin(action: Action): string | null {
+  const { location } = action
+  return location && typeof location === 'object' ? location.plugin : null
+}
+
+/**
+ * Evaluate an action description outside of the UI
+ */
+export function describeAction(action: Action, config: ArereConfig): string {
+  const { context } = createActionContext({
+    actionName: action.meta.name,
+    config,
+    pluginNamespace: action.pluginNamespace,
+  })
+  return evaluateDescription(action.meta.description, context, action.meta.name)
+}
+
+/**
+ * Filter actions for `arere list`
+ *
+ * @param actions - Registered actions
+ * @param filter - Filters to apply
+ * @param bookmarks - Bookmark ids from config
+ * @returns Actions matching every filter
+ *
+ * @example
+ * ```typescript
+ * filterActions(registry.getAll(), { tags: ['ci'], source: 'project', bookmarked: false }, [])
+ * ```
+ */
+export function filterActions(
+  actions: Action[],
+  filter: ListFilter,
+  bookmarks: string[] = [],
+): Action[] {
+  return actions.filter((action) => {
+    if (filter.category !== undefined && action.meta.category !== filter.category) {
+      return false
+    }
+    const tags = action.meta.tags ?? []
+    if (!filter.tags.every((tag) => tags.includes(tag))) {
+      return false
+    }
+    if (filter.source && getActionSource(action) !== filter.source) {
+      return false
+    }
+    if (filter.bookmarked && !bookmarks.includes(createBookmarkId(action))) {
+      return false
+    }
+    return true
+  })
+}
+
+/**
+ * Build the summary of an action
+ */
+export function toActionSummary(
+  action: Action,
+  config: ArereConfig,
+  bookmarks: string[] = [],
+): ActionSummary {
+  const id = createBookmarkId(action)
+  return {
+    id,
+    name: action.meta.name,
+    description: describeAction(action, config),
+    category: action.meta.category ?? null,
+    tags: action.meta.tags ?? [],
+    source: getActionSource(action),
+    plugin: getActionPlugin(action),
+    filePath: action.filePath,
+    bookmarked: bookmarks.includes(id),
+  }
+}
+
+/**
+ * Format summaries as aligned text columns
+ */
+export function formatActionTable(summaries: ActionSummary[]): string {
+  const nameWidth = Math.max(...summaries.map((s) => s.name.length))
+  const sourceWidth = Math.max(...summaries.map((s) => (s.plugin ?? s.source).length))
+
+  return summaries
+    .map((s) => {
+      const tags = s.tags.map((tag) => `#${tag}`).join(' ')
+      const columns = [
+        s.name.padEnd(nameWidth),
+        (s.plugin ?? s.source).padEnd(sourceWidth),
+        s.description,
+        tags,
+      ]
+      return columns.join('  ').trimEnd()
+    })
+    .join('\n')
+}
+
+/**
+ * Parse `arere list` options (`--name=value` and `--name value`)
+ *
+ * @throws Error on unknown options or invalid values
+ */
+export function parseListArgs(args: string[]): ListOptions {
+  const filter: ListFilter = { tags: [], bookmarked: false }
+  let json = false
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    const [flag, inlineValue] = arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined]
+    const takeValue = (): string => {
+      const value = inlineValue ?? args[++i]
+      if (value === undefined || value === '') {
+        throw new Error(`Option ${flag} requires a value`)
+      }
+      return value
+    }
+
+    switch (flag) {
+      case '--category':
+        filter.category = takeValue()
+        break
+      case '--tag':
+        filter.tags.push(takeValue())
+        break
+      case '--source': {
+        const source = takeValue()
+        if (!(ACTION_SOURCES as readonly string[]).includes(source)) {
+          throw new Error(
+            `Invalid --source "${source}" (expected one of: ${ACTION_SOURCES.join(', ')})`,
+          )
+        }
+        filter.source = source as ActionSource
+        break
+      }
+      case '--bookmarked':
+        filter.bookmarked = true
+        break
+      case '--json':
+        json = true
+        break
+      default:
+        throw new Error(`Unknown option: ${arg}`)
+    }
+  }
+
+  return { filter, json }
+}
+
+/**
+ * Run `arere list`
+ *
+ * @param config - Application configuration
+ * @param args - Arguments after `arere list`
+ */
+export async function runListCommand(config: ArereConfig, args: string[]): Promise<void> {
+  let options: ListOptions
+  try {
+    options = parseListArgs(args)
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`)
+    process.exit(HeadlessExitCode.INVALID_ARGS)
+  }
+
+  // Only show errors while loading
+  setLogLevel('error')
+
+  const { registry } = await loadActionRegistry(config)
+  const bookmarks = config.bookmarks ?? []
+  const summaries = filterActions(registry.getAll(), options.filter, bookmarks)
+    .map((action) => toActionSummary(action, config, bookmarks))
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  if (options.json) {
+    console.log(JSON.stringify(summaries, null, 2))
+    return
+  }
+
+  if (summaries.length === 0) {
+    console.error('No actions found.')
+    return
+  }
+
+  console.log(formatActionTable(summaries))
+}
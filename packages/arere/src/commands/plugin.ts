@@ -0,0 +1,319 @@
+/**
+ * `arere plugin <list|install|remove|update|enable|disable>` - Manage plugins
+ */
+
+import type { ArereConfig } from '@/config/schema'
+import { formatError } from '@/lib/error'
+import { setLogLevel } from '@/lib/logger'
+import { formatHomePath } from '@/lib/path'
+import { HeadlessExitCode } from '@/modes/headless-mode'
+import { type PluginPackageInfo, createPluginManager, detectPlugins } from '@/plugin/index'
+import {
+  type PluginInstallScope,
+  compareVersions,
+  getLatestVersion,
+  getPluginInstallScope,
+  parsePluginSpec,
+} from '@/plugin/installer'
+import { PluginService, getPluginConfigLayer } from '@/plugin/service'
+import type { LoadedPlugin, PluginSource } from '@/plugin/types'
+
+/**
+ * Subcommands of `arere plugin`
+ */
+export const PLUGIN_SUBCOMMANDS = [
+  'list',
+  'install',
+  'remove',
+  'update',
+  'enable',
+  'disable',
+] as const
+
+/**
+ * A subcommand of `arere plugin`
+ */
+export type PluginSubcommand = (typeof PLUGIN_SUBCOMMANDS)[number]
+
+/**
+ * Parsed `arere plugin` arguments
+ */
+export interface PluginCommandOptions {
+  /** Subcommand */
+  subcommand: PluginSubcommand
+  /** Plugin names or package specs */
+  names: string[]
+  /** Scope chosen with `--local`/`--global` */
+  scope?: PluginInstallScope
+  /** JSON output (`list`) */
+  json: boolean
+}
+
+/**
+ * Plugin summary printed by `arere plugin list --json`
+ */
+export interface PluginSummary {
+  /** Plugin name */
+  name: string
+  /** Installed version */
+  version: string
+  /** Latest published version (null if it could not be looked up) */
+  latest: string | null
+  /** Whether a newer version is published */
+  outdated: boolean
+  /** Whether the plugin is enabled */
+  enabled: boolean
+  /** Where the plugin was found */
+  source: PluginSource | null
+  /** Plugin directory */
+  path: string
+}
+
+/**
+ * Dependencies of `arere plugin` (replaceable for testing)
+ */
+export interface PluginCommandDependencies {
+  /** Plugin service */
+  service?: PluginService
+  /** Load the plugins with their enabled state */
+  loadPlugins?: (config: ArereConfig) => Promise<LoadedPlugin[]>
+  /** Detect installed plugin packages */
+  detectPlugins?: (config: ArereConfig) => PluginPackageInfo[]
+  /** Look up the latest published version of a package */
+  getLatestVersion?: (name: string) => Promise<string | undefined>
+}
+
+/**
+ * Subcommands that take plugin names
+ */
+const NAMED_SUBCOMMANDS: PluginSubcommand[] = ['install', 'remove', 'enable', 'disable']
+
+/**
+ * Parse `arere plugin` arguments
+ *
+ * @throws Error on unknown subcommands or options, or missing plugin names
+ */
+export function parsePluginArgs(args: string[]): PluginCommandOptions {
+  const [subcommand, ...rest] = args
+  if (!(PLUGIN_SUBCOMMANDS as readonly string[]).includes(subcommand ?? '')) {
+    throw new Error(`Unknown plugin command "${subcommand ?? ''}"`)
+  }
+
+  const options: PluginCommandOptions = {
+    subcommand: subcommand as PluginSubcommand,
+    names: [],
+    json: false,
+  }
+  for (const arg of rest) {
+    switch (arg) {
+      case '--local':
+      case '--global': {
+        const scope = arg === '--local' ? 'local' : 'global'
+        if (options.scope && options.scope !== scope) {
+          throw new Error('Options --local and --global cannot be used together')
+        }
+        options.scope = scope
+        break
+      }
+      case '--json':
+        options.json = true
+        break
+      default:
+        if (arg.startsWith('-')) {
+          throw new Error(`Unknown option: ${arg}`)
+        }
+        options.names.push(arg)
+    }
+  }
+
+  if (NAMED_SUBCOMMANDS.includes(options.subcommand) && options.names.length === 0) {
+    throw new Error(`Missing plugin name: arere plugin ${options.subcommand} <name...>`)
+  }
+  return options
+}
+
+/**
+ * Build the summary of a plugin
+ *
+ * @param plugin - Loaded plugin
+ * @param latest - Latest published version (if known)
+ */
+export function toPluginSummary(plugin: LoadedPlugin, latest?: string): PluginSummary {
+  return {
+    name: plugin.meta.name,
+    version: plugin.meta.version,
+    latest: latest ?? null,
+    outdated: latest !== undefined && compareVersions(plugin.meta.version, latest) < 0,
+    enabled: plugin.enabled,
+    source: plugin.source ?? null,
+    path: plugin.path,
+  }
+}
+
+/**
+ * Format summaries as aligned text columns
+ */
+export function formatPluginTable(summaries: PluginSummary[]): string {
+  const rows = summaries.map((s) => [
+    s.name,
+    s.version,
+    s.outdated ? `→ ${s.latest}` : '',
+    s.enabled ? 'enabled' : 'disabled',
+    s.source ?? '',
+    formatHomePath(s.path),
+  ])
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)))
+
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd(),
+    )
+    .join('\n')
+}
+
+/**
+ * Resolve the scope of a plugin operation: the `--local`/`--global` option,
+ * then where the plugin is installed, then `fallback`
+ */
+function resolveScope(
+  options: PluginCommandOptions,
+  installed: PluginPackageInfo | undefined,
+  fallback: PluginInstallScope,
+): PluginInstallScope {
+  return options.scope ?? getPluginInstallScope(installed?.source) ?? fallback
+}
+
+/**
+ * Run `arere plugin <subcommand>`
+ *
+ * - `list`: installed plugins with their version, latest version and enabled state
+ * - `install <name...>`: install with the package manager and enable (global by default)
+ * - `remove <name...>`: uninstall and remove the plugin settings
+ * - `update [name...]`: update to the latest version (every installed plugin by default)
+ * - `enable|disable <name...>`: set the enabled state
+ *
+ * Settings are saved to the user layer for global plugins and to the workspace layer otherwise.
+ *
+ * @param config - Application configuration
+ * @param args - Arguments after `arere plugin`
+ * @param deps - Dependencies (replaceable for testing)
+ */
+export async function runPluginCommand(
+  config: ArereConfig,
+  args: string[],
+  deps: PluginCommandDependencies = {},
+): Promise<void> {
+  let options: PluginCommandOptions
+  try {
+    options = parsePluginArgs(args)
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`)
+    console.error(
+      `Usage: arere plugin <${PLUGIN_SUBCOMMANDS.join('|')}> [name...] [--local|--global]`,
+    )
+    process.exit(HeadlessExitCode.INVALID_ARGS)
+  }
+
+  // Print results only, not plugin loading logs
+  setLogLevel('error')
+
+  const service = deps.service ?? new PluginService()
+  const loadPlugins =
+    deps.loadPlugins ??
+    (async (current: ArereConfig) => {
+      const manager = createPluginManager()
+      await manager.loadAll(current)
+      return manager.getPlugins()
+    })
+  const detect =
+    deps.detectPlugins ??
+    ((current: ArereConfig) => detectPlugins({ pluginPaths: current.pluginPaths }))
+  const lookupLatest = deps.getLatestVersion ?? getLatestVersion
+
+  const installed = new Map(detect(config).map((info) => [info.name, info]))
+  const names = options.names.map((spec) => parsePluginSpec(spec).name)
+
+  try {
+    switch (options.subcommand) {
+      case 'list': {
+        const plugins = await loadPlugins(config)
+        const latest = await Promise.all(plugins.map((p) => lookupLatest(p.meta.name)))
+        const summaries = plugins
+          .map((plugin, i) => toPluginSummary(plugin, latest[i]))
+          .sort((a, b) => a.name.localeCompare(b.name))
+
+        if (options.json) {
+          console.log(JSON.stringify(summaries, null, 2))
+        } else if (summaries.length === 0) {
+          console.log('No plugins installed')
+        } else {
+          console.log(formatPluginTable(summaries))
+        }
+        return
+      }
+
+      case 'install':
+        for (const spec of options.names) {
+          const scope = options.scope ?? 'global'
+          const { name } = await service.installPlugin(spec, { scope })
+          console.log(`✓ Installed ${name} (${scope})`)
+        }
+        return
+
+      case 'remove':
+        for (const name of names) {
+          const info = installed.get(name)
+          if (info?.source === 'path') {
+            throw new Error(`${name} is loaded from pluginPaths; remove it from settings instead`)
+          }
+          const scope = resolveScope(options, info, 'global')
+          await service.removePlugin(name, { scope, path: info?.path })
+          console.log(`✓ Removed ${name} (${scope})`)
+        }
+        return
+
+      case 'update': {
+        const targets =
+          names.length > 0
+            ? names
+            : [...installed.values()]
+                .filter((info) => info.source !== 'path')
+                .map((info) => info.name)
+        if (targets.length === 0) {
+          console.log('No plugins to update')
+          return
+        }
+        for (const name of targets) {
+          const info = installed.get(name)
+          if (!info && !options.scope) {
+            throw new Error(`Plugin not installed: ${name}`)
+          }
+          if (info?.source === 'path') {
+            throw new Error(`${name} is loaded from pluginPaths and cannot be updated`)
+          }
+          const scope = resolveScope(options, info, 'global')
+          await service.updatePlugin(name, { scope, path: info?.path })
+          console.log(`✓ Updated ${name} (${scope})`)
+        }
+        return
+      }
+
+      case 'enable':
+      case 'disable': {
+        const enabled = options.subcommand === 'enable'
+        for (const name of names) {
+          const layer = getPluginConfigLayer(resolveScope(options, installed.get(name), 'local'))
+          await service.setPluginEnabled(name, enabled, layer)
+          console.log(`✓ ${enabled ? 'Enabled' : 'Disabled'} ${name} (${layer} settings)`)
+        }
+        return
+      }
+    }
+  } catch (error) {
+    console.error(`Error: ${formatError(error)}`)
+    process.exit(HeadlessExitCode.RUNTIME_ERROR)
+  }
+}
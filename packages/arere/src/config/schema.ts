@@ -11,9 +11,17 @@ import { z } from 'zod'
  * See: src/infrastructure/keybindings/manager.ts
  */
 export const configSchema = z.object({
-  /** Actions directory (defaults to ./.arere) */
+  /** Project directory containing `actions/`, looked up from the git root down to cwd (defaults to ./.arere) */
   actionsDir: z.string().optional(),
 
+  /**
+   * Additional action directories (`~` expansion and globs, relative to the project root)
+   * Entries can carry a label shown as ${source} in the action list
+   */
+  actionDirs: z
+    .array(z.union([z.string(), z.object({ path: z.string(), label: z.string().optional() })]))
+    .optional(),
+
   /** Log level */
   logLevel: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']).optional(),
 
@@ -45,9 +53,28 @@ export const configSchema = z.object({
        * Example: "${selectIcon}[${category:max}] ${name:max} ${description:grow} ${tags:max:dim:right}"
        */
       actionListFormat: z.string().optional(),
+      /** Action list order (bookmarked actions are always pinned to the top)
+       *   - registry: load order
+       *   - alphabetical: by name
+       *   - frecency: most frequently and recently run first
+       *   - category: grouped by category, then by name
+       */
+      actionSort: z.enum(['registry', 'alphabetical', 'frecency', 'category']).optional(),
+      /** Home screen layout
+       *   - flat: one row per action
+       *   - tree: actions folded under collapsible category headers (`/` nests categories)
+       */
+      actionListView: z.enum(['flat', 'tree']).optional(),
+      /** Collapsed category groups of the tree view (category paths such as `git/branch`) */
+      collapsedCategories: z.array(z.string()).optional(),
+      /** Show the preview pane (description, arguments, source) beside the action list */
+      actionPreview: z.boolean().optional(),
     })
     .optional(),
 
+  /** Plugin directories loaded in addition to installed packages (`~` expansion, relative to the project root) */
+  pluginPaths: z.array(z.string()).optional(),
+
   /** Plugin configuration */
   plugins: z
     .record(
@@ -83,5 +110,8 @@ export const defaultConfig: ArereConfig = {
     bookmarkIcon: '♥',
     actionListFormat:
       '${selectIcon:width(2)}[${category:max}] ${name:max} ${description:grow} ${tags:max:dim:right} ${bookmark:width(2)}',
+    actionSort: 'registry',
+    actionListView: 'flat',
+    actionPreview: false,
   },
 }
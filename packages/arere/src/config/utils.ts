@@ -211,7 +211,7 @@ export function mergeConfigs(layered: LayeredConfig): ArereConfig {
  * - Primitive values are overridden
  * - undefined values in override are ignored
  */
-function deepMerge<T extends object>(base: T, override: Partial<T>): T {
+export function deepMerge<T extends object>(base: T, override: Partial<T>): T {
   const result = { ...base }
 
   for (const key in override) {
@@ -8,17 +8,33 @@ export const version = '0.1.0'
 
 // Action API
 export { defineAction } from './action/define'
+export { defineWorkflow } from './action/workflow'
 export type {
   Action,
   ActionMeta,
   ActionContext,
   ActionDefinition,
   ActionLocation,
+  ArgDefinition,
+  ArgsSchema,
+  ArgsValues,
+  StringArgDefinition,
+  NumberArgDefinition,
+  BooleanArgDefinition,
+  EnumArgDefinition,
 } from './action/types'
+export type {
+  WorkflowCondition,
+  WorkflowDefinition,
+  WorkflowStep,
+  WorkflowStepOutcome,
+} from './action/workflow'
+export type { StepResult } from './action/executor'
 
 // Shell API
 export { createShellExecutor } from './shell/executor'
-export type { ShellResult, ShellExecutor } from './action/types'
+export { ShellError } from './lib/error'
+export type { ShellResult, ShellExecutor, ShellOptions } from './action/types'
 
 // Prompt API
 export { text } from './ui/prompts/text'
@@ -42,3 +58,9 @@ export type { ArerePlugin, PluginMeta, LoadedPlugin } from './plugin/types'
 export { FileConfigManager } from './config/manager'
 export type { ArereConfig } from './config/schema'
 export type { ConfigLayer } from './config/types'
+
+// Secrets API
+export { secret, createSecretsAPI, SecretStore } from './secrets/index'
+export { SecretStoreError } from './lib/error'
+export type { SecretsAPI } from './action/types'
+export type { CreateSecretsAPIOptions, SecretStoreOptions } from './secrets/index'
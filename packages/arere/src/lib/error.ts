@@ -2,6 +2,7 @@
  * Custom error classes for the 'arere' launcher
  */
 
+import type { ShellResult } from '@/action/types'
 import { t } from '@/i18n/index'
 
 /**
@@ -30,6 +31,22 @@ export class ActionNotFoundError extends ArereError {
   }
 }
 
+/**
+ * Error thrown when a short action name matches actions from several sources
+ */
+export class AmbiguousActionError extends ArereError {
+  constructor(
+    actionName: string,
+    public readonly candidates: string[],
+  ) {
+    super(
+      t('errors:action_ambiguous', { name: actionName, candidates: candidates.join(', ') }),
+      'ACTION_AMBIGUOUS',
+    )
+    this.name = 'AmbiguousActionError'
+  }
+}
+
 /**
  * Error thrown when an action fails to load
  */
@@ -56,6 +73,55 @@ export class ActionExecutionError extends ArereError {
   }
 }
 
+/**
+ * Error thrown when an action is cancelled via its abort signal
+ */
+export class ActionCancelledError extends ArereError {
+  constructor(actionName: string) {
+    super(t('errors:action_cancelled', { name: actionName }), 'ACTION_CANCELLED')
+    this.name = 'ActionCancelledError'
+  }
+}
+
+/**
+ * Error thrown by `ctx.exit()` to stop an action with an explicit exit code
+ */
+export class ActionExitError extends ArereError {
+  constructor(
+    actionName: string,
+    public readonly exitCode: number,
+  ) {
+    super(t('errors:action_exit', { name: actionName, code: exitCode }), 'ACTION_EXIT')
+    this.name = 'ActionExitError'
+  }
+}
+
+/**
+ * Error thrown when `ctx.exit()` gets a code that is not a valid process exit code (0-255)
+ */
+export class InvalidExitCodeError extends ArereError {
+  constructor(
+    actionName: string,
+    public readonly exitCode: unknown,
+  ) {
+    super(
+      t('errors:action_exit_invalid_code', { name: actionName, code: String(exitCode) }),
+      'INVALID_EXIT_CODE',
+    )
+    this.name = 'InvalidExitCodeError'
+  }
+}
+
+/**
+ * Error thrown when actions depend on each other in a cycle (`dependsOn` / `ctx.runAction`)
+ */
+export class CircularDependencyError extends ArereError {
+  constructor(public readonly chain: string[]) {
+    super(t('errors:circular_dependency', { chain: chain.join(' → ') }), 'CIRCULAR_DEPENDENCY')
+    this.name = 'CircularDependencyError'
+  }
+}
+
 /**
  * Error thrown when a plugin fails to load
  */
@@ -69,6 +135,77 @@ export class PluginLoadError extends ArereError {
   }
 }
 
+/**
+ * Error thrown when plugin configuration does not match the plugin's config schema
+ */
+export class PluginConfigValidationError extends ArereError {
+  constructor(
+    pluginName: string,
+    public readonly errors: Record<string, string>,
+  ) {
+    super(
+      t('errors:plugin_config_invalid', {
+        name: pluginName,
+        details: Object.entries(errors)
+          .map(([path, message]) => (path ? `${path}: ${message}` : message))
+          .join(', '),
+      }),
+      'PLUGIN_CONFIG_INVALID',
+    )
+    this.name = 'PluginConfigValidationError'
+  }
+}
+
+/**
+ * Error thrown when the secret store cannot be read or written
+ */
+export class SecretStoreError extends ArereError {
+  constructor(
+    reason: 'decrypt_failed' | 'passphrase_required' | 'key_missing',
+    public readonly path: string,
+  ) {
+    super(t(`errors:secrets_${reason}`, { path }), 'SECRET_STORE_ERROR')
+    this.name = 'SecretStoreError'
+  }
+}
+
+/**
+ * Error thrown when a package manager command for a plugin fails
+ */
+export class PluginCommandError extends ArereError {
+  constructor(
+    public readonly command: string,
+    public readonly exitCode: number | null,
+  ) {
+    super(
+      exitCode === null
+        ? t('errors:plugin_command_not_started', { command })
+        : t('errors:plugin_command_failed', { command, code: exitCode }),
+      'PLUGIN_COMMAND_FAILED',
+    )
+    this.name = 'PluginCommandError'
+  }
+}
+
+/**
+ * Error thrown by `$.throwOnError` when a shell command fails or times out
+ */
+export class ShellError extends ArereError {
+  constructor(
+    public readonly command: string,
+    public readonly result: ShellResult,
+    timeout?: number,
+  ) {
+    super(
+      result.timedOut
+        ? t('errors:shell_command_timed_out', { command, timeout })
+        : t('errors:shell_command_failed', { command, code: result.exitCode }),
+      'SHELL_ERROR',
+    )
+    this.name = 'ShellError'
+  }
+}
+
 /**
  * Format error for display
  */
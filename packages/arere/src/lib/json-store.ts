@@ -0,0 +1,104 @@
+/**
+ * JSON files shared between arere processes (run history, usage statistics)
+ *
+ * A TUI may stay open while headless `arere run` processes write the same file,
+ * so every update re-reads the file, applies the change and writes the result
+ * back, instead of saving a copy read at startup over the other processes' work.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+import { logger } from './logger'
+
+/**
+ * A JSON file read on demand and updated with read-merge-write
+ *
+ * @template T - Stored data
+ *
+ * @example
+ * ```typescript
+ * const store = new JsonFileStore(file, 'usage', (data) => ({
+ *   actions: (data as Partial<UsageStorage> | undefined)?.actions ?? {},
+ * }))
+ *
+ * store.update((current) => ({ actions: { ...current.actions, [id]: usage } }))
+ * store.read().actions[id]
+ * ```
+ */
+export class JsonFileStore<T> {
+  private cached: T | null = null
+
+  /**
+   * @param filePath - Path to the JSON file
+   * @param label - Name used in log messages
+   * @param parse - Convert the parsed file (undefined when missing or unreadable) to the data
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly label: string,
+    private readonly parse: (data: unknown) => T,
+  ) {}
+
+  /**
+   * Get the data (read from disk once, then kept up to date by `update`)
+   */
+  read(): T {
+    if (!this.cached) {
+      this.cached = this.load()
+    }
+    return this.cached
+  }
+
+  /**
+   * Change the data and save it
+   *
+   * The change is applied to the current file contents, so updates written by
+   * other processes since the last read are kept.
+   *
+   * @param change - Return the new data from the current data
+   * @returns The saved data
+   */
+  update(change: (current: T) => T): T {
+    this.cached = change(this.load())
+    this.save(this.cached)
+    return this.cached
+  }
+
+  /**
+   * Read the file from disk
+   */
+  private load(): T {
+    if (!existsSync(this.filePath)) {
+      logger.debug(`No ${this.label} file found`)
+      return this.parse(undefined)
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as unknown
+      logger.debug(`Loaded ${this.label} from ${this.filePath}`)
+      return this.parse(data)
+    } catch (error) {
+      logger.warn(`Failed to load ${this.label}: ${this.filePath}`, error)
+      return this.parse(undefined)
+    }
+  }
+
+  /**
+   * Write the file (through a temporary file, so readers never see a partial write)
+   */
+  private save(data: T): void {
+    const directory = dirname(this.filePath)
+    const tempFile = `${this.filePath}.${process.pid}.tmp`
+    try {
+      if (!existsSync(directory)) {
+        mkdirSync(directory, { recursive: true })
+        logger.debug(`Created directory: ${directory}`)
+      }
+      writeFileSync(tempFile, JSON.stringify(data), 'utf-8')
+      renameSync(tempFile, this.filePath)
+      logger.debug(`Saved ${this.label} to ${this.filePath}`)
+    } catch (error) {
+      logger.warn(`Failed to save ${this.label}: ${this.filePath}`, error)
+    }
+  }
+}
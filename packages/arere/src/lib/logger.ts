@@ -34,12 +34,18 @@ const LOG_LEVELS: Record<LogLevel, number> = {
   fatal: 5,
 }
 
+/**
+ * Output stream for log lines
+ */
+type LogStream = 'stdout' | 'stderr'
+
 /**
  * Simple logger class
  */
 class SimpleLogger {
   public level: number = LOG_LEVELS.info
   private isCI: boolean = !process.stdout.isTTY || !!process.env.CI
+  private stream: LogStream = 'stdout'
 
   /**
    * Set log level
@@ -48,6 +54,13 @@ class SimpleLogger {
     this.level = LOG_LEVELS[level]
   }
 
+  /**
+   * Set the stream log lines are written to
+   */
+  setStream(stream: LogStream): void {
+    this.stream = stream
+  }
+
   /**
    * Log trace message
    */
@@ -110,7 +123,11 @@ class SimpleLogger {
       ? `[${level}]` // CI: plain text
       : `${color}[${level}]${colors.reset}` // TTY: colored
 
-    console.log(prefix, msg, ...args)
+    if (this.stream === 'stderr') {
+      console.error(prefix, msg, ...args)
+    } else {
+      console.log(prefix, msg, ...args)
+    }
   }
 }
 
@@ -127,5 +144,14 @@ export function setLogLevel(level?: LogLevel): void {
   logger.setLevel(logLevel)
 }
 
+/**
+ * Write log lines to stderr instead of stdout
+ *
+ * Used when stdout is reserved for machine-readable output.
+ */
+export function setLogStream(stream: LogStream): void {
+  logger.setStream(stream)
+}
+
 // Initialize log level on module load
 setLogLevel()
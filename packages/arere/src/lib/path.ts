@@ -4,7 +4,8 @@
 
 import { existsSync } from 'node:fs'
 import { homedir } from 'node:os'
-import { join, resolve } from 'node:path'
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'node:path'
+import { globSync, isDynamicPattern } from 'tinyglobby'
 
 /**
  * Get the global actions directory path (~/.arere/actions/)
@@ -21,19 +22,182 @@ export function getProjectActionsDir(cwd: string = process.cwd()): string {
 }
 
 /**
- * Get action directories for both global and project scopes
+ * Directory that actions are discovered in
+ */
+export interface ActionRoot {
+  /** Absolute path of the directory */
+  path: string
+  /** Label shown as `${source}` in the action list */
+  label: string
+  /** Whether the root belongs to the current project or is global */
+  scope: 'global' | 'project'
+}
+
+/**
+ * Action root entry in `actionDirs` (a path, or a path with a label)
+ */
+export type ActionDirEntry = string | { path: string; label?: string }
+
+/**
+ * Expand a leading `~` to the home directory
+ */
+export function expandHome(path: string): string {
+  if (path === '~') {
+    return homedir()
+  }
+  if (path.startsWith('~/') || path.startsWith('~\\')) {
+    return join(homedir(), path.slice(2))
+  }
+  return path
+}
+
+/**
+ * Find the git root containing a directory
  *
- * @param cwd - Current working directory
- * @returns Object with arrays of directories for each scope
- */
-export function getActionDirectories(cwd: string = process.cwd()): {
-  global: string[]
-  project: string[]
-} {
-  return {
-    global: [join(homedir(), '.arere', 'actions')],
-    project: [join(cwd, '.arere', 'actions')],
+ * @param cwd - Directory to start from
+ * @returns The closest directory (cwd or an ancestor) containing `.git`, or undefined
+ */
+export function findGitRoot(cwd: string = process.cwd()): string | undefined {
+  let dir = resolve(cwd)
+  while (true) {
+    if (existsSync(join(dir, '.git'))) {
+      return dir
+    }
+    const parent = dirname(dir)
+    if (parent === dir) {
+      return undefined
+    }
+    dir = parent
+  }
+}
+
+/**
+ * Get the directories from the git root down to cwd (outermost first)
+ *
+ * Outside of a git repository only cwd is returned.
+ */
+export function getProjectDirectories(cwd: string = process.cwd()): string[] {
+  const start = resolve(cwd)
+  const gitRoot = findGitRoot(start)
+  if (!gitRoot) {
+    return [start]
   }
+
+  const directories = [start]
+  let dir = start
+  while (dir !== gitRoot) {
+    dir = dirname(dir)
+    directories.unshift(dir)
+  }
+  return directories
+}
+
+/**
+ * Check whether a path is a directory or inside it
+ */
+export function isWithin(path: string, directory: string): boolean {
+  const relativePath = relative(directory, path)
+  // A name such as `..cache` is still inside
+  return relativePath !== '..' && !relativePath.startsWith(`..${sep}`) && !isAbsolute(relativePath)
+}
+
+/**
+ * Format a path for display (`~/...` for paths in the home directory)
+ */
+export function formatHomePath(path: string): string {
+  const home = homedir()
+  return isWithin(path, home) ? join('~', relative(home, path)) : path
+}
+
+/**
+ * Format a directory for display (relative to the project root, or `~/...` for paths in the home directory)
+ */
+function formatRootLabel(path: string, projectRoot: string): string {
+  if (isWithin(path, projectRoot)) {
+    return relative(projectRoot, path) || '.'
+  }
+  return formatHomePath(path)
+}
+
+/**
+ * Resolve an `actionDirs` entry to action roots (globs can match several directories)
+ */
+function resolveActionDirEntry(entry: ActionDirEntry, projectRoot: string): ActionRoot[] {
+  const { path, label } = typeof entry === 'string' ? { path: entry, label: undefined } : entry
+  const pattern = expandHome(path)
+  const paths = isDynamicPattern(pattern)
+    ? globSync(pattern, {
+        cwd: projectRoot,
+        absolute: true,
+        onlyDirectories: true,
+        expandDirectories: false,
+      }).map((match) => resolve(match))
+    : [resolve(projectRoot, pattern)]
+
+  return paths.sort().map((rootPath) => ({
+    path: rootPath,
+    label: label ?? formatRootLabel(rootPath, projectRoot),
+    scope: isWithin(rootPath, projectRoot) ? 'project' : 'global',
+  }))
+}
+
+/**
+ * Get the directories actions are discovered in, in priority order
+ *
+ * Later roots have higher priority:
+ * 1. `~/.arere/actions` (label `global`)
+ * 2. `actionDirs` entries (`~` expansion and globs, relative to the project root)
+ * 3. `<dir>/.arere/actions` for every directory from the git root down to cwd
+ *    (label `project`; `.arere` can be changed with `actionsDir`)
+ *
+ * The project root is the git root, or cwd outside of a git repository.
+ *
+ * @param config - `actionsDir` and `actionDirs` settings
+ * @param cwd - Current working directory
+ * @returns Action roots without duplicates
+ *
+ * @example
+ * ```typescript
+ * getActionRoots({
+ *   actionDirs: ['~/scripts/actions', { path: 'services/{api,web}/actions', label: 'services' }],
+ * })
+ * ```
+ */
+export function getActionRoots(
+  config: { actionsDir?: string; actionDirs?: ActionDirEntry[] } = {},
+  cwd: string = process.cwd(),
+): ActionRoot[] {
+  const projectDirectories = getProjectDirectories(cwd)
+  const projectRoot = projectDirectories[0]
+  const actionsDir = expandHome(config.actionsDir ?? '.arere')
+
+  const roots: ActionRoot[] = [
+    { path: getGlobalActionsDir(), label: 'global', scope: 'global' },
+    ...(config.actionDirs ?? []).flatMap((entry) => resolveActionDirEntry(entry, projectRoot)),
+    ...projectDirectories.map((dir) => ({
+      path: resolve(dir, actionsDir, 'actions'),
+      label: 'project',
+      scope: 'project' as const,
+    })),
+  ]
+
+  const seen = new Set<string>()
+  return roots.filter((root) => {
+    if (seen.has(root.path)) {
+      return false
+    }
+    seen.add(root.path)
+    return true
+  })
+}
+
+/**
+ * Find the action root containing a file (the innermost one if roots are nested)
+ */
+export function findActionRoot(filePath: string, roots: ActionRoot[]): ActionRoot | undefined {
+  return roots
+    .filter((root) => isWithin(filePath, root.path))
+    .sort((a, b) => b.path.length - a.path.length)[0]
 }
 
 /**
@@ -2,23 +2,119 @@
  * Headless Mode - Non-interactive execution for CI/CD
  */
 
-import { analyzeActionArgs, formatArgsHelp } from '@/action/args/analyzer'
-import { runAction } from '@/action/executor'
-import { loadActions } from '@/action/loader'
-import { ActionRegistry } from '@/action/registry'
-import { findActionsWithPriority } from '@/action/resolver'
+import { formatArgsHelp } from '@/action/args/analyzer'
+import { AnswerRecorder, type Answers, loadAnswersFile } from '@/action/args/answers'
+import { ArgValidationError } from '@/action/args/validator'
+import { cacheManager } from '@/action/cache'
+import { type RunResult, type StepResult, runAction } from '@/action/executor'
+import { createRunRecord, historyManager } from '@/action/history'
+import { getActionArgsMeta } from '@/action/metadata-cache'
 import type { Action } from '@/action/types'
+import { usageManager } from '@/action/usage'
 import type { ArereConfig } from '@/config/schema'
-import { registerTranslations, t } from '@/i18n/index'
-import { formatError } from '@/lib/error'
-import { logger, setLogLevel } from '@/lib/logger'
-import { getActionDirectories } from '@/lib/path'
-import { createPluginManager } from '@/plugin/index'
+import { t } from '@/i18n/index'
+import { ActionExitError, AmbiguousActionError, formatError } from '@/lib/error'
+import { logger, setLogLevel, setLogStream } from '@/lib/logger'
+import { createSecretsAPI } from '@/secrets/index'
 import { PlainTextRenderer } from '@/ui/output/plain-renderer'
+import {
+  STRUCTURED_OUTPUT_FORMATS,
+  type StructuredOutputFormat,
+  StructuredOutputWriter,
+} from '@/ui/output/structured-writer'
 import { createReadLineBackend } from '@/ui/prompts/backends/readline-backend'
 import { clearPromptHandler, setPromptHandler } from '@/ui/prompts/renderer'
+import { loadActionRegistry } from './load-actions'
 import type { ExecutionMode } from './types'
 
+/**
+ * Process exit codes used by headless mode
+ *
+ * Actions can override these by calling `ctx.exit(code)`.
+ */
+export const HeadlessExitCode = {
+  /** Action completed successfully */
+  SUCCESS: 0,
+  /** Action threw or failed at runtime */
+  RUNTIME_ERROR: 1,
+  /** Invalid CLI argument value (`ArgValidationError`) */
+  INVALID_ARGS: 2,
+  /** No action with the given name */
+  ACTION_NOT_FOUND: 127,
+  /** Cancelled by SIGINT/SIGTERM */
+  CANCELLED: 130,
+} as const
+
+/**
+ * Remove a launcher option (`--name=<value>` / `--name <value>`) from action args
+ *
+ * Arguments from `--` on are left alone, so actions can take options with the
+ * same name (`arere run deploy -- --output=dist`).
+ *
+ * @returns The option value (if given) and the remaining args for the action
+ */
+function extractOption(args: string[], name: string): { value?: string; args: string[] } {
+  const rest: string[] = []
+  let value: string | undefined
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--') {
+      rest.push(...args.slice(i))
+      break
+    }
+    if (arg.startsWith(`${name}=`)) {
+      value = arg.slice(name.length + 1)
+    } else if (arg === name) {
+      value = args[++i] ?? ''
+    } else {
+      rest.push(arg)
+    }
+  }
+
+  return { value, args: rest }
+}
+
+/**
+ * Remove the launcher options (`--output`, `--answers`, `--record-answers`) from action args
+ *
+ * The `--` separator itself is dropped: everything after it is passed to the action as-is
+ * (including `--help`, which only shows the action help before the separator).
+ *
+ * @returns The option values (if any), whether help is requested and the remaining args for the action
+ */
+function extractLauncherOptions(args: string[]): {
+  format?: string
+  answersFile?: string
+  recordAnswersFile?: string
+  showHelp: boolean
+  args: string[]
+} {
+  const output = extractOption(args, '--output')
+  const answers = extractOption(output.args, '--answers')
+  const recordAnswers = extractOption(answers.args, '--record-answers')
+
+  const separator = recordAnswers.args.indexOf('--')
+  const optionArgs = separator === -1 ? recordAnswers.args : recordAnswers.args.slice(0, separator)
+  return {
+    format: output.value,
+    answersFile: answers.value,
+    recordAnswersFile: recordAnswers.value,
+    showHelp: optionArgs.includes('--help') || optionArgs.includes('-h'),
+    args:
+      separator === -1
+        ? recordAnswers.args
+        : recordAnswers.args.filter((_, index) => index !== separator),
+  }
+}
+
+/**
+ * Check whether a format name is a supported structured output format
+ */
+function isStructuredOutputFormat(format: string): format is StructuredOutputFormat {
+  return (STRUCTURED_OUTPUT_FORMATS as readonly string[]).includes(format)
+}
+
 /**
  * Headless Mode implementation
  *
@@ -31,7 +127,7 @@ export class HeadlessMode implements ExecutionMode {
    * Show help for an action
    */
   private showActionHelp(action: Action): void {
-    const meta = analyzeActionArgs(action.filePath)
+    const meta = getActionArgsMeta(cacheManager, action.filePath, action.meta.args)
 
     if (meta) {
       // Override with actual action meta if available
@@ -59,109 +155,157 @@ export class HeadlessMode implements ExecutionMode {
     console.log(`  arere run ${action.meta.name} [options]`)
   }
 
-  async run(actionName?: string, args: string[] = []): Promise<void> {
+  /**
+   * Print a failed run with its stack trace
+   */
+  private reportFailure(actionName: string, error: unknown): void {
+    console.error(`✗ Action "${actionName}" failed:`)
+    console.error(formatError(error))
+
+    if (error instanceof Error && !(error instanceof ActionExitError) && error.stack) {
+      console.error('\nStack trace:')
+      console.error(error.stack)
+    }
+  }
+
+  /**
+   * Exit before the action ran, ending structured output with a failed summary
+   *
+   * The human-readable error has already been printed to stderr.
+   */
+  private exitWithError(
+    writer: StructuredOutputWriter | null,
+    actionName: string,
+    error: unknown,
+    exitCode: number,
+  ): void {
+    writer?.finish({
+      action: actionName,
+      success: false,
+      duration: 0,
+      exitCode,
+      cancelled: false,
+      error: formatError(error),
+    })
+    process.exit(exitCode)
+  }
+
+  /**
+   * Print the nested actions of a run (`dependsOn`, `ctx.runAction`, workflow steps)
+   */
+  private printSteps(steps: StepResult[]): void {
+    console.log('Steps:')
+    for (const step of steps) {
+      const indent = '  '.repeat(step.depth)
+      console.log(`${indent}${step.success ? '✓' : '✗'} ${step.name} (${step.duration}ms)`)
+    }
+    console.log()
+  }
+
+  /**
+   * Map a run result to the process exit code
+   */
+  private getExitCode(result: RunResult): number {
+    if (result.cancelled) {
+      return HeadlessExitCode.CANCELLED
+    }
+    if (result.exitCode !== undefined) {
+      return result.exitCode
+    }
+    if (result.success) {
+      return HeadlessExitCode.SUCCESS
+    }
+    if (result.error instanceof ArgValidationError) {
+      return HeadlessExitCode.INVALID_ARGS
+    }
+    return HeadlessExitCode.RUNTIME_ERROR
+  }
+
+  async run(actionName?: string, rawArgs: string[] = []): Promise<void> {
     if (!actionName) {
       console.error('Error: Action name is required in headless mode')
       console.error('Usage: arere run <action-name>')
       process.exit(1)
     }
 
-    // Check if --help is requested for the action
-    const showHelp = args.includes('--help') || args.includes('-h')
+    // --output=json|ndjson switches to machine-readable output
+    const { format, answersFile, recordAnswersFile, showHelp, args } =
+      extractLauncherOptions(rawArgs)
+    if (format !== undefined && !isStructuredOutputFormat(format)) {
+      console.error(
+        `Error: Unknown output format "${format}" (expected: ${STRUCTURED_OUTPUT_FORMATS.join(', ')})`,
+      )
+      process.exit(HeadlessExitCode.INVALID_ARGS)
+      return
+    }
+    const writer = format ? new StructuredOutputWriter(format) : null
+
+    // --answers=<file> pre-answers prompts, --record-answers=<file> saves interactive answers
+    let answers: Answers | undefined
+    if (answersFile !== undefined) {
+      try {
+        answers = await loadAnswersFile(answersFile)
+      } catch (error) {
+        console.error(`Error: ${formatError(error)}`)
+        this.exitWithError(writer, actionName, error, HeadlessExitCode.INVALID_ARGS)
+        return
+      }
+    }
+    const recorder = recordAnswersFile ? new AnswerRecorder() : undefined
 
     try {
       // Disable logger output in headless mode (only show errors)
       setLogLevel('error')
 
+      // Keep stdout for structured records only
+      if (writer) {
+        setLogStream('stderr')
+      }
+
       // Set up ReadLine prompt backend for headless mode
-      const promptBackend = createReadLineBackend()
+      const promptBackend = createReadLineBackend({
+        output: writer ? process.stderr : process.stdout,
+      })
       setPromptHandler(promptBackend)
 
-      // Initialize registry
-      const registry = new ActionRegistry()
-
-      // Load plugins and directory actions in parallel
-      const pluginManager = createPluginManager()
-      const actionDirectories = getActionDirectories()
-
-      const [pluginActions, globalActions, projectActions] = await Promise.all([
-        // Load plugins (highest priority)
-        (async () => {
-          await pluginManager.loadAll(this.config)
-          return pluginManager.getActions()
-        })(),
-
-        // Load global actions
-        (async () => {
-          const actionPaths = await findActionsWithPriority(actionDirectories.global)
-          const actions = await loadActions(actionPaths)
-          // Set location to 'global'
-          for (const action of actions) {
-            action.location = 'global'
-            // Register translations if available
-            if (action.translations) {
-              registerTranslations(action.meta.name, action.translations)
-            }
-          }
-          return actions
-        })(),
-
-        // Load project actions
-        (async () => {
-          const actionPaths = await findActionsWithPriority(actionDirectories.project)
-          const actions = await loadActions(actionPaths)
-          // Set location to 'project'
-          for (const action of actions) {
-            action.location = 'project'
-            // Register translations if available
-            if (action.translations) {
-              registerTranslations(action.meta.name, action.translations)
-            }
-          }
-          return actions
-        })(),
-      ])
-
-      // Register plugin actions first (highest priority)
-      for (const action of pluginActions) {
-        // Register translations if available
-        if (action.translations) {
-          registerTranslations(action.meta.name, action.translations)
-        }
-        registry.register(action)
-      }
-
-      // Register global actions
-      for (const action of globalActions) {
-        registry.register(action)
-      }
+      // Load plugin, global and project actions
+      const { registry, pluginManager } = await loadActionRegistry(this.config)
 
-      // Register project actions
-      for (const action of projectActions) {
-        registry.register(action)
+      // Find action by short name, qualified id (`project/deploy`) or file path
+      let action: Action | undefined
+      try {
+        action = registry.resolve(actionName)
+      } catch (error) {
+        if (!(error instanceof AmbiguousActionError)) {
+          throw error
+        }
+        console.error(`Error: ${error.message}`)
+        this.exitWithError(writer, actionName, error, HeadlessExitCode.INVALID_ARGS)
+        return
       }
 
-      // Find action by name
-      const action = registry.getByName(actionName)
-
       if (!action) {
-        console.error(`Error: Action "${actionName}" not found`)
+        const message = `Action "${actionName}" not found`
+        console.error(`Error: ${message}`)
         console.error('\nAvailable actions:')
         for (const a of registry.getAll()) {
           console.error(`  - ${a.meta.name}`)
         }
-        process.exit(1)
+        this.exitWithError(writer, actionName, message, HeadlessExitCode.ACTION_NOT_FOUND)
+        return
       }
 
       // Show help and exit if --help is requested
       if (showHelp) {
         this.showActionHelp(action)
-        process.exit(0)
+        process.exit(HeadlessExitCode.SUCCESS)
       }
 
       // Run action
-      console.log(`Running action: ${action.meta.name}`)
-      console.log() // Empty line for separation
+      if (!writer) {
+        console.log(`Running action: ${action.meta.name}`)
+        console.log() // Empty line for separation
+      }
 
       // Create renderer for real-time output
       const renderer = new PlainTextRenderer()
@@ -221,14 +365,71 @@ export class HeadlessMode implements ExecutionMode {
         }
       }
 
+      // Cancel the action on Ctrl+C / SIGTERM so spawned commands are terminated too
+      const abortController = new AbortController()
+      const onSignal = () => abortController.abort()
+      process.once('SIGINT', onSignal)
+      process.once('SIGTERM', onSignal)
+
       // Run action with real-time output streaming
       const plugins = pluginManager.getPlugins()
+      const startedAt = Date.now()
       const result = await runAction(action, {
         args,
         plugins,
-        onOutput: renderMessage,
+        onOutput: writer ? (message) => writer.message(message) : renderMessage,
+        signal: abortController.signal,
+        registry,
+        promptAnswers: { answers, recorder },
+        secrets: createSecretsAPI({ env: process.env }),
       })
 
+      process.off('SIGINT', onSignal)
+      process.off('SIGTERM', onSignal)
+
+      const record = createRunRecord(action, args, startedAt, result)
+      historyManager.add(record)
+      usageManager.record(record.actionId, record.startedAt)
+
+      if (recorder && recordAnswersFile) {
+        await recorder.save(recordAnswersFile)
+        if (!writer) {
+          console.log(`Answers recorded to ${recordAnswersFile}`)
+        }
+      }
+
+      // Clean up prompt handler
+      clearPromptHandler()
+
+      const exitCode = this.getExitCode(result)
+
+      if (writer) {
+        writer.finish({
+          action: action.meta.name,
+          success: result.success,
+          duration: result.duration,
+          exitCode,
+          cancelled: result.cancelled ?? false,
+          error: result.error ? formatError(result.error) : null,
+          ...(result.steps && {
+            steps: result.steps.map((step) => ({
+              name: step.name,
+              success: step.success,
+              duration: step.duration,
+              depth: step.depth,
+              error: step.error ? formatError(step.error) : null,
+            })),
+          }),
+        })
+        process.exit(exitCode)
+        return
+      }
+
+      if (result.cancelled) {
+        console.error(`\n✗ ${formatError(result.error)}`)
+        process.exit(exitCode)
+      }
+
       // Messages are already rendered via onOutput callback
       const messages = result.outputCollector.getMessages()
 
@@ -236,24 +437,25 @@ export class HeadlessMode implements ExecutionMode {
         console.log() // Empty line after output
       }
 
-      console.log(`✓ Action "${action.meta.name}" completed successfully`)
+      if (result.steps) {
+        this.printSteps(result.steps)
+      }
 
-      // Clean up prompt handler
-      clearPromptHandler()
-      process.exit(0)
+      if (result.success) {
+        console.log(`✓ Action "${action.meta.name}" completed successfully`)
+      } else if (result.error instanceof ArgValidationError) {
+        console.error(`✗ ${result.error.message}`)
+      } else {
+        this.reportFailure(action.meta.name, result.error)
+      }
+
+      process.exit(exitCode)
     } catch (error) {
       // Clean up prompt handler on error
       clearPromptHandler()
 
-      console.error(`✗ Action "${actionName}" failed:`)
-      console.error(formatError(error))
-
-      if (error instanceof Error && error.stack) {
-        console.error('\nStack trace:')
-        console.error(error.stack)
-      }
-
-      process.exit(1)
+      this.reportFailure(actionName, error)
+      this.exitWithError(writer, actionName, error, HeadlessExitCode.RUNTIME_ERROR)
     }
   }
 }
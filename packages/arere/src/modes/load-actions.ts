@@ -0,0 +1,101 @@
+/**
+ * Action loading shared by the non-interactive commands
+ */
+
+import { cacheManager } from '@/action/cache'
+import { loadActions } from '@/action/loader'
+import { ActionRegistry } from '@/action/registry'
+import { findActionsWithPriority } from '@/action/resolver'
+import type { Action } from '@/action/types'
+import type { ArereConfig } from '@/config/schema'
+import { registerTranslations } from '@/i18n/index'
+import { type ActionRoot, getActionRoots } from '@/lib/path'
+import { createPluginManager } from '@/plugin/index'
+import type { PluginManager } from '@/plugin/manager'
+import { createSecretsAPI } from '@/secrets/index'
+
+/**
+ * Loaded actions and the plugin manager they came from
+ */
+export interface LoadedActionRegistry {
+  /** Registry with plugin, global and project actions (later sources win) */
+  registry: ActionRegistry
+  /** Plugin manager holding the loaded plugins */
+  pluginManager: PluginManager
+}
+
+/**
+ * Load the actions of action roots, mark their location and source, and register their translations
+ */
+async function loadDirectoryActions(roots: ActionRoot[]): Promise<Action[]> {
+  const loaded = await Promise.all(
+    roots.map(async (root) => {
+      const actionPaths = await findActionsWithPriority([root.path])
+      const actions = await loadActions(actionPaths, undefined, { cache: cacheManager })
+      for (const action of actions) {
+        action.location = root.scope
+        action.source = root.label
+        // Register translations if available
+        if (action.translations) {
+          registerTranslations(action.meta.name, action.translations)
+        }
+      }
+      return actions
+    }),
+  )
+  return loaded.flat()
+}
+
+/**
+ * Load plugin actions and the actions of every action root into a registry
+ *
+ * Unchanged actions are created from cached metadata and compiled on first run.
+ * Secret plugin config fields are read from `ARERE_SECRET_<NAME>` first, then the secret store.
+ *
+ * @param config - Application configuration (plugin settings, action directories)
+ * @returns Registry and plugin manager
+ *
+ * @example
+ * ```typescript
+ * const { registry, pluginManager } = await loadActionRegistry(config)
+ * const action = registry.getByName('deploy')
+ * ```
+ */
+export async function loadActionRegistry(config: ArereConfig): Promise<LoadedActionRegistry> {
+  const registry = new ActionRegistry()
+
+  // Load plugins and directory actions in parallel
+  const pluginManager = createPluginManager({
+    cache: cacheManager,
+    secrets: createSecretsAPI({ env: process.env }),
+  })
+  const roots = getActionRoots(config)
+
+  const [pluginActions, directoryActions] = await Promise.all([
+    // Load plugins (highest priority)
+    (async () => {
+      await pluginManager.loadAll(config)
+      return pluginManager.getActions()
+    })(),
+    loadDirectoryActions(roots),
+  ])
+
+  // Register plugin actions first (highest priority)
+  for (const action of pluginActions) {
+    // Register translations if available
+    if (action.translations) {
+      registerTranslations(action.meta.name, action.translations)
+    }
+    registry.register(action)
+  }
+
+  // Register directory actions in root order (global, actionDirs, then project)
+  for (const action of directoryActions) {
+    registry.register(action)
+  }
+
+  // Write the metadata cached while loading in one go
+  cacheManager.flush()
+
+  return { registry, pluginManager }
+}
@@ -2,18 +2,23 @@
  * UI Mode - Interactive terminal UI with Ink
  */
 
-import { loadActions } from '@/action/loader'
+import { existsSync } from 'node:fs'
+import { cacheManager } from '@/action/cache'
+import { loadAction, loadActions } from '@/action/loader'
 import { ActionRegistry } from '@/action/registry'
 import { findActionsWithPriority } from '@/action/resolver'
 import type { Action } from '@/action/types'
+import { ActionWatcher } from '@/action/watcher'
 import type { ArereConfig } from '@/config/schema'
 import { registerTranslations, t } from '@/i18n/index'
+import { formatError } from '@/lib/error'
 import { logger } from '@/lib/logger'
-import { getActionDirectories } from '@/lib/path'
-import { createPluginManager } from '@/plugin/index'
+import { type ActionRoot, findActionRoot, getActionRoots } from '@/lib/path'
+import { createPluginManager, loadPluginAction } from '@/plugin/index'
 import { App } from '@/ui/App'
 import { ErrorBoundary } from '@/ui/components/ErrorBoundary'
 import { loadMergedKeybindings } from '@/ui/keybindings'
+import { useSettingsStore } from '@/ui/stores/settingsStore'
 import { render } from 'ink'
 import React from 'react'
 import type { ExecutionMode } from './types'
@@ -36,49 +41,67 @@ export class UIMode implements ExecutionMode {
     const registry = new ActionRegistry()
 
     // Load plugins and directory actions in parallel
-    const pluginManager = createPluginManager()
-    const actionDirectories = getActionDirectories()
+    const pluginManager = createPluginManager({ cache: cacheManager })
+    const roots = getActionRoots(this.config)
 
-    const [pluginActions, globalActions, projectActions] = await Promise.all([
+    // Load errors are shown as a banner in the UI instead of only being logged
+    const loadIssues = new Map<string, string>()
+    const recordLoadIssue = (filePath: string, error: unknown) => {
+      loadIssues.set(filePath, formatError(error).replace(/\s*\n\s*/g, ' '))
+    }
+    const publishLoadIssues = () => {
+      useSettingsStore
+        .getState()
+        .setActionLoadIssues(
+          Array.from(loadIssues, ([filePath, message]) => ({ filePath, message })),
+        )
+    }
+
+    // Mark an action with the location and label of its root
+    const applyRoot = (action: Action, root: ActionRoot) => {
+      action.location = root.scope
+      action.source = root.label
+      // Register translations if available
+      if (action.translations) {
+        registerTranslations(action.meta.name, action.translations)
+      }
+    }
+
+    // Directory actions by root path (roots keep their priority order)
+    const rootActions = new Map<string, Action[]>()
+    const getDirectoryActions = () => roots.flatMap((root) => rootActions.get(root.path) ?? [])
+
+    let [pluginActions] = await Promise.all([
       // Load plugins (highest priority)
       (async () => {
         await pluginManager.loadAll(this.config)
         return pluginManager.getActions()
       })(),
 
-      // Load global actions
-      (async () => {
-        const actionPaths = await findActionsWithPriority(actionDirectories.global)
-        const actions = await loadActions(actionPaths)
-        // Set location to 'global'
+      // Load the actions of every root (global, actionDirs, then project)
+      ...roots.map(async (root) => {
+        const actionPaths = await findActionsWithPriority([root.path])
+        const actions = await loadActions(actionPaths, recordLoadIssue, { cache: cacheManager })
         for (const action of actions) {
-          action.location = 'global'
-          // Register translations if available
-          if (action.translations) {
-            registerTranslations(action.meta.name, action.translations)
-          }
+          applyRoot(action, root)
         }
-        logger.debug(t('cli:info.loaded_global_actions', { count: actions.length }))
+        rootActions.set(root.path, actions)
         return actions
-      })(),
-
-      // Load project actions
-      (async () => {
-        const actionPaths = await findActionsWithPriority(actionDirectories.project)
-        const actions = await loadActions(actionPaths)
-        // Set location to 'project'
-        for (const action of actions) {
-          action.location = 'project'
-          // Register translations if available
-          if (action.translations) {
-            registerTranslations(action.meta.name, action.translations)
-          }
-        }
-        logger.debug(t('cli:info.loaded_project_actions', { count: actions.length }))
-        return actions
-      })(),
+      }),
     ])
 
+    const directoryActions = getDirectoryActions()
+    logger.debug(
+      t('cli:info.loaded_global_actions', {
+        count: directoryActions.filter((action) => action.location === 'global').length,
+      }),
+    )
+    logger.debug(
+      t('cli:info.loaded_project_actions', {
+        count: directoryActions.filter((action) => action.location === 'project').length,
+      }),
+    )
+
     // Register plugin actions first (highest priority)
     for (const action of pluginActions) {
       // Register translations if available
@@ -88,38 +111,137 @@ export class UIMode implements ExecutionMode {
       registry.register(action)
     }
 
-    // Register global actions
-    for (const action of globalActions) {
+    // Register directory actions in root order
+    for (const action of directoryActions) {
       registry.register(action)
     }
 
-    // Register project actions
-    for (const action of projectActions) {
-      registry.register(action)
+    logger.info(t('cli:info.registered_actions', { count: registry.count }))
+
+    // Write the metadata cached while loading in one go
+    cacheManager.flush()
+
+    // Hot reloads and plugin reloads all replace the action lists, so they run one at a time
+    let reloadQueue: Promise<unknown> = Promise.resolve()
+    const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+      const result = reloadQueue.then(task)
+      reloadQueue = result.catch(() => {})
+      return result
     }
 
-    logger.info(t('cli:info.registered_actions', { count: registry.count }))
+    // Plugin action files are watched individually, so the list follows plugin reloads
+    const getPluginActionPaths = () => pluginManager.getPlugins().flatMap((p) => p.actionPaths)
 
     // Create plugin reload function
-    const handlePluginReload = async (updatedConfig: ArereConfig): Promise<Action[]> => {
-      // Reload plugin actions based on new config
-      const reloadedPluginActions = await pluginManager.reloadActions(updatedConfig)
+    const handlePluginReload = (updatedConfig: ArereConfig): Promise<Action[]> =>
+      serialize(async () => {
+        // Reload plugin actions based on new config
+        pluginActions = await pluginManager.reloadActions(updatedConfig)
+        watcher.setFiles(getPluginActionPaths())
+
+        // Combine all actions: plugin + directory actions
+        return [...pluginActions, ...getDirectoryActions()]
+      })
 
-      // Combine all actions: plugin + global + project
-      return [...reloadedPluginActions, ...globalActions, ...projectActions]
+    // Re-detect plugins after plugin packages were installed, removed or updated
+    const handlePluginRescan = (updatedConfig: ArereConfig) =>
+      serialize(async () => {
+        pluginManager.clear()
+        await pluginManager.loadAll(updatedConfig)
+        pluginActions = pluginManager.getActions()
+        watcher.setFiles(getPluginActionPaths())
+
+        return {
+          plugins: pluginManager.getPlugins(),
+          actions: [...pluginActions, ...getDirectoryActions()],
+        }
+      })
+
+    // Hot reload: re-load changed action files and push the new list into the store
+    const reloadFile = async (filePath: string): Promise<void> => {
+      const plugin = pluginManager
+        .getPlugins()
+        .find((p) => p.enabled && p.actionPaths.includes(filePath))
+      const root = plugin ? undefined : findActionRoot(filePath, roots)
+      const replace = (actions: Action[], action?: Action) => {
+        const index = actions.findIndex((a) => a.filePath === filePath)
+        if (!action) return actions.filter((a) => a.filePath !== filePath)
+        return index === -1
+          ? [...actions, action]
+          : actions.map((a, i) => (i === index ? action : a))
+      }
+      const update = (action?: Action) => {
+        if (plugin) pluginActions = replace(pluginActions, action)
+        else if (root) rootActions.set(root.path, replace(rootActions.get(root.path) ?? [], action))
+      }
+
+      loadIssues.delete(filePath)
+
+      if (!existsSync(filePath)) {
+        logger.debug(`Action file removed: ${filePath}`)
+        update()
+        return
+      }
+
+      try {
+        const action = plugin
+          ? await loadPluginAction(plugin, filePath, { fresh: true })
+          : await loadAction(filePath, { fresh: true })
+        if (root) {
+          applyRoot(action, root)
+        } else if (action.translations) {
+          registerTranslations(action.meta.name, action.translations)
+        }
+        update(action)
+        logger.debug(`Reloaded action: ${action.meta.name} (${filePath})`)
+      } catch (error) {
+        logger.warn(`Failed to reload action: ${filePath}`, error)
+        recordLoadIssue(filePath, error)
+        // Keep the last successfully loaded version until the file is fixed
+      }
+    }
+
+    const reloadFiles = async (filePaths: string[]): Promise<void> => {
+      for (const filePath of filePaths) {
+        await reloadFile(filePath)
+      }
+
+      // Rebuild registry in priority order: plugin -> action roots
+      registry.clear()
+      for (const action of [...pluginActions, ...getDirectoryActions()]) {
+        registry.register(action)
+      }
+
+      useSettingsStore.getState().setCurrentActions(registry.getAllIncludingShadowed())
+      publishLoadIssues()
     }
 
+    const watcher = new ActionWatcher({
+      directories: roots.map((root) => root.path),
+      files: getPluginActionPaths(),
+      onChange: (filePaths) => {
+        serialize(() => reloadFiles(filePaths)).catch((error) => {
+          logger.warn('Failed to reload changed actions', error)
+          for (const filePath of filePaths) {
+            recordLoadIssue(filePath, error)
+          }
+          publishLoadIssues()
+        })
+      },
+    })
+
     // Render UI with ErrorBoundary
     const { waitUntilExit } = render(
       React.createElement(
         ErrorBoundary,
         null,
         React.createElement(App, {
-          actions: registry.getAll(),
+          actions: registry.getAllIncludingShadowed(),
           config: this.config,
           keyBindings,
           plugins: pluginManager.getPlugins(),
           onPluginReload: handlePluginReload,
+          onPluginRescan: handlePluginRescan,
           onExit: () => {
             process.exit(0)
           },
@@ -127,6 +249,10 @@ export class UIMode implements ExecutionMode {
       ),
     )
 
+    publishLoadIssues()
+    watcher.start()
+
     await waitUntilExit()
+    watcher.close()
   }
 }
@@ -2,6 +2,7 @@
  * Plugin definition function
  */
 
+import { assertStringSecretFields } from '@/secrets/schema'
 import type { ArerePlugin } from './types'
 
 /**
@@ -49,7 +50,8 @@ import type { ArerePlugin } from './types'
  * })
  * ```
  *
- * Note: version is automatically read from package.json at load time
+ * Note: version is automatically read from package.json at load time.
+ * Scoped names (`@acme/arere-plugin-example`) are allowed for packages published in an npm scope.
  */
 export function definePlugin(config: ArerePlugin): ArerePlugin {
   // Validate required fields
@@ -61,14 +63,16 @@ export function definePlugin(config: ArerePlugin): ArerePlugin {
     throw new Error('Plugin meta.name is required')
   }
 
-  // Validate plugin name format (must start with 'arere-plugin-')
-  if (!config.meta.name.startsWith('arere-plugin-')) {
-    throw new Error(`Plugin name must start with 'arere-plugin-', got: ${config.meta.name}`)
+  // Validate plugin name format ('arere-plugin-*', optionally in an npm scope)
+  const match = /^(@[a-z0-9][a-z0-9._-]*\/)?arere-plugin-(.*)$/.exec(config.meta.name)
+  if (!match) {
+    throw new Error(
+      `Plugin name must start with 'arere-plugin-' or '@scope/arere-plugin-', got: ${config.meta.name}`,
+    )
   }
 
   // Validate plugin name format (alphanumeric, dash only after prefix)
-  const nameAfterPrefix = config.meta.name.slice('arere-plugin-'.length)
-  if (!/^[a-z0-9-]+$/.test(nameAfterPrefix)) {
+  if (!/^[a-z0-9-]+$/.test(match[2])) {
     throw new Error(
       `Plugin name after 'arere-plugin-' must contain only lowercase alphanumeric characters and dashes, got: ${config.meta.name}`,
     )
@@ -94,6 +98,11 @@ export function definePlugin(config: ArerePlugin): ArerePlugin {
     }
   }
 
+  // Secret fields are kept as text in the secret store
+  if (config.configSchema) {
+    assertStringSecretFields(config.configSchema)
+  }
+
   // Validate locales if provided
   if (config.locales !== undefined && typeof config.locales !== 'string') {
     throw new Error('Plugin locales must be a string path')
@@ -3,18 +3,22 @@
  */
 
 import { existsSync, readFileSync, readdirSync } from 'node:fs'
-import { join } from 'node:path'
+import { join, resolve } from 'node:path'
 import { logger } from '@/lib/logger'
-import { getGlobalNodeModules } from './resolver'
+import { expandHome, findGitRoot } from '@/lib/path'
+import { type GlobalNodeModules, getGlobalNodeModules } from './resolver'
+import type { PluginSource } from './types'
 
 /**
  * Plugin package information
  */
 export interface PluginPackageInfo {
-  /** Package name (e.g., 'arere-plugin-example') */
+  /** Package name (e.g., 'arere-plugin-example' or '@acme/arere-plugin-example') */
   name: string
   /** Absolute path to plugin directory */
   path: string
+  /** Where the plugin was found (set by detectPlugins) */
+  source?: PluginSource
   /** Package.json data */
   packageJson: {
     name: string
@@ -27,12 +31,71 @@ export interface PluginPackageInfo {
 }
 
 /**
- * Scan a single directory for arere-plugin-* packages
+ * Options for detecting plugins
+ */
+export interface DetectPluginsOptions {
+  /** Custom path to search exclusively (for testing) */
+  searchPath?: string
+  /** Plugin directories to load directly (`~` expansion, relative to the project root) */
+  pluginPaths?: string[]
+  /** Current working directory (default: process.cwd()) */
+  cwd?: string
+  /** Global node_modules directories to search (default: asked from the package managers) */
+  globalNodeModules?: GlobalNodeModules[]
+}
+
+/**
+ * Read the package.json of a plugin directory
+ *
+ * @param pluginPath - Plugin directory
+ * @param source - Where the plugin was found
+ * @returns Plugin package information, or undefined if there is no valid package.json
+ */
+function readPluginPackage(
+  pluginPath: string,
+  source: PluginSource,
+): PluginPackageInfo | undefined {
+  // Verify it's actually a directory (handles symlinks)
+  if (!existsSync(pluginPath)) {
+    logger.debug(`Plugin path ${pluginPath} does not exist, skipping`)
+    return undefined
+  }
+
+  const packageJsonPath = join(pluginPath, 'package.json')
+
+  // Check if package.json exists
+  if (!existsSync(packageJsonPath)) {
+    logger.debug(`Plugin ${pluginPath} has no package.json, skipping`)
+    return undefined
+  }
+
+  try {
+    // Read and parse package.json
+    const packageJsonContent = readFileSync(packageJsonPath, 'utf-8')
+    const packageJson = JSON.parse(packageJsonContent)
+
+    // Validate package.json structure
+    if (!packageJson.name || !packageJson.version) {
+      logger.warn(`Plugin ${pluginPath} has invalid package.json, skipping`)
+      return undefined
+    }
+
+    logger.debug(`Detected plugin: ${packageJson.name} at ${pluginPath}`)
+    return { name: packageJson.name, path: pluginPath, source, packageJson }
+  } catch (error) {
+    logger.warn(`Failed to read package.json for ${pluginPath}:`, error)
+    return undefined
+  }
+}
+
+/**
+ * Scan a single directory for arere-plugin-* packages (including `@scope/arere-plugin-*`)
  *
  * @param scanDir - Directory to scan
+ * @param source - Where the directory belongs
  * @returns Array of detected plugin package information
  */
-function scanPluginDirectory(scanDir: string): PluginPackageInfo[] {
+function scanPluginDirectory(scanDir: string, source: PluginSource): PluginPackageInfo[] {
   if (!existsSync(scanDir)) {
     logger.debug(`Scan directory does not exist: ${scanDir}`)
     return []
@@ -45,53 +108,31 @@ function scanPluginDirectory(scanDir: string): PluginPackageInfo[] {
     const entries = readdirSync(scanDir, { withFileTypes: true })
 
     for (const entry of entries) {
-      // Check if it matches the arere-plugin-* pattern first
-      if (!entry.name.startsWith('arere-plugin-')) {
-        continue
-      }
-
-      const pluginPath = join(scanDir, entry.name)
-
       // Skip non-directories and symlinks that don't point to directories
       // We need to check the actual target for symlinks
       if (!entry.isDirectory() && !entry.isSymbolicLink()) {
         continue
       }
 
-      // Verify it's actually a directory (handles symlinks)
-      if (!existsSync(pluginPath)) {
-        logger.debug(`Plugin ${entry.name} path does not exist, skipping`)
+      // Scoped packages: scan the scope directory for arere-plugin-* packages
+      if (entry.name.startsWith('@')) {
+        plugins.push(
+          ...scanPluginDirectory(join(scanDir, entry.name), source).map((plugin) => ({
+            ...plugin,
+            name: `${entry.name}/${plugin.name}`,
+          })),
+        )
         continue
       }
 
-      const packageJsonPath = join(pluginPath, 'package.json')
-
-      // Check if package.json exists
-      if (!existsSync(packageJsonPath)) {
-        logger.debug(`Plugin ${entry.name} has no package.json, skipping`)
+      // Check if it matches the arere-plugin-* pattern
+      if (!entry.name.startsWith('arere-plugin-')) {
         continue
       }
 
-      try {
-        // Read and parse package.json
-        const packageJsonContent = readFileSync(packageJsonPath, 'utf-8')
-        const packageJson = JSON.parse(packageJsonContent)
-
-        // Validate package.json structure
-        if (!packageJson.name || !packageJson.version) {
-          logger.warn(`Plugin ${entry.name} has invalid package.json, skipping`)
-          continue
-        }
-
-        plugins.push({
-          name: entry.name,
-          path: pluginPath,
-          packageJson,
-        })
-
-        logger.debug(`Detected plugin: ${entry.name} at ${pluginPath}`)
-      } catch (error) {
-        logger.warn(`Failed to read package.json for ${entry.name}:`, error)
+      const plugin = readPluginPackage(join(scanDir, entry.name), source)
+      if (plugin) {
+        plugins.push({ ...plugin, name: entry.name })
       }
     }
   } catch (error) {
@@ -101,79 +142,86 @@ function scanPluginDirectory(scanDir: string): PluginPackageInfo[] {
   return plugins
 }
 
+/**
+ * Load the plugin directories listed in `pluginPaths`
+ *
+ * @param pluginPaths - Plugin directories (`~` expansion, relative to the project root)
+ * @param cwd - Current working directory
+ * @returns Plugin package information named after their package.json
+ */
+function loadPluginPaths(pluginPaths: string[], cwd: string): PluginPackageInfo[] {
+  const projectRoot = findGitRoot(cwd) ?? cwd
+  return pluginPaths.flatMap((pluginPath) => {
+    const plugin = readPluginPackage(resolve(projectRoot, expandHome(pluginPath)), 'path')
+    if (!plugin) {
+      logger.warn(`No plugin package found in pluginPaths entry: ${pluginPath}`)
+    }
+    return plugin ? [plugin] : []
+  })
+}
+
 /**
  * Detect installed arere-plugin-* packages
  *
- * Searches both local project node_modules (for workspace development)
- * and global node_modules (for installed plugins).
+ * Searches, in priority order:
+ * 1. Directories listed in `pluginPaths`
+ * 2. Local project node_modules and its parents (for workspace development)
+ * 3. Global node_modules of npm, pnpm, yarn and bun (for installed plugins)
  *
- * @param searchPath - Optional custom path to search for plugins (for testing). If not provided, searches both local and global.
+ * Scoped packages (`@scope/arere-plugin-*`) are detected as well.
+ *
+ * @param options - Plugin paths, or a custom search path (for testing)
  * @returns Array of detected plugin package information (deduplicated by name)
  *
  * @example
  * ```typescript
- * const plugins = detectPlugins()
- * // => [{ name: 'arere-plugin-example', path: '/usr/local/lib/node_modules/arere-plugin-example', ... }]
+ * const plugins = detectPlugins({ pluginPaths: ['~/src/arere-plugin-deploy'] })
+ * // => [{ name: 'arere-plugin-deploy', path: '/home/me/src/arere-plugin-deploy', source: 'path', ... }]
  *
  * // Custom search path for testing
- * const testPlugins = detectPlugins('/path/to/test/plugins')
+ * const testPlugins = detectPlugins({ searchPath: '/path/to/test/plugins' })
  * ```
  */
-export function detectPlugins(searchPath?: string): PluginPackageInfo[] {
+export function detectPlugins(options: DetectPluginsOptions = {}): PluginPackageInfo[] {
+  const { searchPath, pluginPaths = [], cwd = process.cwd(), globalNodeModules } = options
+
   // If custom search path is provided (for testing), use it exclusively
   if (searchPath) {
-    const plugins = scanPluginDirectory(searchPath)
+    const plugins = scanPluginDirectory(searchPath, 'local')
     logger.info(`Detected ${plugins.length} plugin(s)`)
     return plugins
   }
 
-  // Otherwise, search both local and global node_modules
   const pluginMap = new Map<string, PluginPackageInfo>()
-
-  // 1. Search local node_modules (project workspace - higher priority)
-  const localNodeModules = join(process.cwd(), 'node_modules')
-  const localPlugins = scanPluginDirectory(localNodeModules)
-  for (const plugin of localPlugins) {
-    pluginMap.set(plugin.name, plugin)
-    logger.debug(`Found local plugin: ${plugin.name} at ${plugin.path}`)
+  const addPlugins = (plugins: PluginPackageInfo[]) => {
+    for (const plugin of plugins) {
+      if (pluginMap.has(plugin.name)) {
+        logger.debug(
+          `Skipping ${plugin.source} plugin ${plugin.name} at ${plugin.path}, already found at ${pluginMap.get(plugin.name)?.path}`,
+        )
+        continue
+      }
+      pluginMap.set(plugin.name, plugin)
+      logger.debug(`Found ${plugin.source} plugin: ${plugin.name} at ${plugin.path}`)
+    }
   }
 
-  // 1.5. Search parent directories' node_modules (for monorepo support)
-  // Walk up the directory tree looking for node_modules
-  let currentDir = process.cwd()
-  const root = '/' // Unix root
-  while (currentDir !== root) {
-    const parentDir = join(currentDir, '..')
-    if (parentDir === currentDir) break // Reached root
+  // 1. Explicit plugin directories (highest priority)
+  addPlugins(loadPluginPaths(pluginPaths, cwd))
 
-    const parentNodeModules = join(parentDir, 'node_modules')
-    if (existsSync(parentNodeModules)) {
-      const parentPlugins = scanPluginDirectory(parentNodeModules)
-      for (const plugin of parentPlugins) {
-        if (!pluginMap.has(plugin.name)) {
-          pluginMap.set(plugin.name, plugin)
-          logger.debug(`Found parent plugin: ${plugin.name} at ${plugin.path}`)
-        }
-      }
-    }
+  // 2. Local node_modules, then parent directories' node_modules (for monorepo support)
+  let currentDir = resolve(cwd)
+  while (true) {
+    addPlugins(scanPluginDirectory(join(currentDir, 'node_modules'), 'local'))
 
+    const parentDir = join(currentDir, '..')
+    if (parentDir === currentDir) break // Reached root
     currentDir = parentDir
   }
 
-  // 2. Search global node_modules (only if not already found locally)
-  const globalNodeModules = getGlobalNodeModules()
-  if (globalNodeModules) {
-    const globalPlugins = scanPluginDirectory(globalNodeModules)
-    for (const plugin of globalPlugins) {
-      if (!pluginMap.has(plugin.name)) {
-        pluginMap.set(plugin.name, plugin)
-        logger.debug(`Found global plugin: ${plugin.name} at ${plugin.path}`)
-      } else {
-        logger.debug(
-          `Skipping global plugin ${plugin.name}, already loaded from local or parent node_modules`,
-        )
-      }
-    }
+  // 3. Global node_modules (only if not already found)
+  for (const directory of globalNodeModules ?? getGlobalNodeModules()) {
+    addPlugins(scanPluginDirectory(directory.path, 'global'))
   }
 
   const plugins = Array.from(pluginMap.values())
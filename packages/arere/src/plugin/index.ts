@@ -5,10 +5,12 @@
  * It also provides a factory function to create PluginManager with injected dependencies.
  */
 
+import type { CacheManager } from '@/action/cache'
+import type { SecretsAPI } from '@/action/types'
 import { registerPluginTranslations } from '@/i18n/index'
 // Infrastructure function imports
 import { detectPlugins } from './detector'
-import { loadPlugin, loadPluginActions } from './loader'
+import { loadPlugin, loadPluginAction, loadPluginActions } from './loader'
 
 // Domain layer imports
 import { PluginManager } from '@/plugin/manager'
@@ -16,30 +18,56 @@ import { PluginManager } from '@/plugin/manager'
 // Re-export Domain layer
 export { PluginManager }
 export type { PluginManagerDependencies } from '@/plugin/manager'
-export type { ArerePlugin, PluginMeta, LoadedPlugin } from '@/plugin/types'
+export type { ArerePlugin, PluginMeta, LoadedPlugin, PluginSource } from '@/plugin/types'
 
 // Re-export Infrastructure layer
 export { detectPlugins }
-export { loadPlugin, loadPluginActions }
-export { getGlobalNodeModules, clearGlobalNodeModulesCache } from './resolver'
-export type { PluginPackageInfo } from './detector'
+export { loadPlugin, loadPluginAction, loadPluginActions }
+export {
+  getGlobalNodeModules,
+  getCachedGlobalNodeModules,
+  clearGlobalNodeModulesCache,
+} from './resolver'
+export type { DetectPluginsOptions, PluginPackageInfo } from './detector'
+export type { GlobalNodeModules, PackageManager } from './resolver'
+export {
+  detectProjectPackageManager,
+  getPackageManager,
+  getPackageManagerCommand,
+  parsePluginSpec,
+  runPackageManagerCommand,
+} from './installer'
+export type { PackageManagerCommand, PluginInstallScope, PluginOperation } from './installer'
+export type { LoadPluginActionsOptions } from './loader'
+
+/**
+ * Options for creating a PluginManager
+ */
+export interface CreatePluginManagerOptions {
+  /** Metadata cache used to load unchanged plugin actions lazily */
+  cache?: CacheManager
+  /** Secrets API the secret config fields are read from (default: the local secret store) */
+  secrets?: SecretsAPI
+}
 
 /**
  * Create a PluginManager instance with Infrastructure layer dependencies injected
  *
+ * @param options - Manager options
  * @returns PluginManager instance ready to use
  *
  * @example
  * ```typescript
- * const pluginManager = createPluginManager()
+ * const pluginManager = createPluginManager({ cache: cacheManager })
  * await pluginManager.loadAll(config)
  * ```
  */
-export function createPluginManager(): PluginManager {
+export function createPluginManager(options: CreatePluginManagerOptions = {}): PluginManager {
   return new PluginManager({
-    detectPlugins,
-    loadPlugin,
-    loadPluginActions,
+    detectPlugins: (pluginPaths) => detectPlugins({ pluginPaths }),
+    loadPlugin: (packageInfo, userConfig, enabled) =>
+      loadPlugin(packageInfo, userConfig, enabled, options.secrets),
+    loadPluginActions: (plugin) => loadPluginActions(plugin, { cache: options.cache }),
     registerPluginTranslations,
   })
 }
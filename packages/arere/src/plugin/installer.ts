@@ -0,0 +1,268 @@
+/**
+ * Plugin installer - runs the package manager to install, remove and update plugins
+ */
+
+import { execFile, spawn } from 'node:child_process'
+import { existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { PluginCommandError } from '@/lib/error'
+import { logger } from '@/lib/logger'
+import { getProjectDirectories, isWithin } from '@/lib/path'
+import { type PackageManager, getGlobalNodeModules } from './resolver'
+import type { PluginSource } from './types'
+
+/**
+ * Where a plugin package is installed
+ *
+ * - `local`: devDependency of the current project
+ * - `global`: global packages of the package manager
+ */
+export type PluginInstallScope = 'local' | 'global'
+
+/**
+ * Package manager operations on a plugin package
+ */
+export type PluginOperation = 'install' | 'remove' | 'update'
+
+/**
+ * A package manager command line
+ */
+export interface PackageManagerCommand {
+  /** Package manager */
+  manager: PackageManager
+  /** Executable */
+  command: string
+  /** Arguments */
+  args: string[]
+}
+
+/**
+ * Lockfiles identifying the package manager of a project
+ */
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['package-lock.json', 'npm'],
+]
+
+/**
+ * Split a plugin spec (`name`, `name@version`, `@scope/name@version`) into its name and spec
+ *
+ * Names without the plugin prefix get it (`git` → `arere-plugin-git`).
+ *
+ * @example
+ * ```typescript
+ * parsePluginSpec('git@^1.0.0') // { name: 'arere-plugin-git', spec: 'arere-plugin-git@^1.0.0' }
+ * parsePluginSpec('@acme/arere-plugin-deploy') // { name: '@acme/arere-plugin-deploy', spec: '@acme/arere-plugin-deploy' }
+ * ```
+ */
+export function parsePluginSpec(spec: string): { name: string; spec: string } {
+  const versionIndex = spec.indexOf('@', 1)
+  const rawName = versionIndex === -1 ? spec : spec.slice(0, versionIndex)
+  const version = versionIndex === -1 ? '' : spec.slice(versionIndex)
+  const name =
+    rawName.startsWith('@') || rawName.startsWith('arere-plugin-')
+      ? rawName
+      : `arere-plugin-${rawName}`
+  return { name, spec: `${name}${version}` }
+}
+
+/**
+ * Detect the package manager of the current project from its lockfile (npm if there is none)
+ *
+ * @param cwd - Current working directory (lockfiles are looked up to the git root)
+ */
+export function detectProjectPackageManager(cwd: string = process.cwd()): PackageManager {
+  for (const dir of getProjectDirectories(cwd).reverse()) {
+    const lockfile = LOCKFILES.find(([file]) => existsSync(join(dir, file)))
+    if (lockfile) {
+      return lockfile[1]
+    }
+  }
+  return 'npm'
+}
+
+/**
+ * Get the package manager for a scope
+ *
+ * @param scope - Install scope
+ * @param pluginPath - Directory of an installed plugin (global plugins use the manager owning it)
+ * @param cwd - Current working directory
+ */
+export function getPackageManager(
+  scope: PluginInstallScope,
+  pluginPath?: string,
+  cwd: string = process.cwd(),
+): PackageManager {
+  if (scope === 'local') {
+    return detectProjectPackageManager(cwd)
+  }
+
+  const globalNodeModules = getGlobalNodeModules()
+  const owner = pluginPath
+    ? globalNodeModules.find((dir) => isWithin(pluginPath, dir.path))
+    : undefined
+  return owner?.manager ?? globalNodeModules[0]?.manager ?? 'npm'
+}
+
+/**
+ * Get the install scope of a detected plugin (undefined for `pluginPaths` plugins)
+ */
+export function getPluginInstallScope(source?: PluginSource): PluginInstallScope | undefined {
+  if (source === 'local' || source === 'global') {
+    return source
+  }
+  return undefined
+}
+
+/**
+ * Build the package manager command for an operation
+ *
+ * Updates install the latest version (`<name>@latest`).
+ *
+ * @example
+ * ```typescript
+ * getPackageManagerCommand('pnpm', 'install', 'arere-plugin-git', 'global')
+ * // { manager: 'pnpm', command: 'pnpm', args: ['add', '--global', 'arere-plugin-git'] }
+ * ```
+ */
+export function getPackageManagerCommand(
+  manager: PackageManager,
+  operation: PluginOperation,
+  spec: string,
+  scope: PluginInstallScope,
+): PackageManagerCommand {
+  const global = scope === 'global'
+  const target = operation === 'update' ? `${parsePluginSpec(spec).name}@latest` : spec
+  const add = operation !== 'remove'
+
+  let args: string[]
+  switch (manager) {
+    case 'npm':
+      args = add
+        ? ['install', global ? '--global' : '--save-dev', target]
+        : ['uninstall', ...(global ? ['--global'] : []), target]
+      break
+    case 'pnpm':
+      args = [
+        add ? 'add' : 'remove',
+        ...(global ? ['--global'] : add ? ['--save-dev'] : []),
+        target,
+      ]
+      break
+    case 'yarn':
+      args = global
+        ? ['global', add ? 'add' : 'remove', target]
+        : add
+          ? ['add', '--dev', target]
+          : ['remove', target]
+      break
+    case 'bun':
+      args = [add ? 'add' : 'remove', ...(global ? ['--global'] : add ? ['--dev'] : []), target]
+      break
+  }
+
+  return { manager, command: manager, args }
+}
+
+/**
+ * Format a package manager command for display
+ */
+export function formatPackageManagerCommand(command: PackageManagerCommand): string {
+  return [command.command, ...command.args].join(' ')
+}
+
+/**
+ * Options for running a package manager command
+ */
+export interface RunPackageManagerOptions {
+  /** Working directory (default: process.cwd()) */
+  cwd?: string
+  /** Receive output lines instead of printing them to the terminal */
+  onOutput?: (line: string) => void
+}
+
+/**
+ * Run a package manager command
+ *
+ * Output goes to the terminal unless `onOutput` is given.
+ *
+ * @throws {PluginCommandError} If the command cannot be started or exits with a non-zero code
+ */
+export function runPackageManagerCommand(
+  command: PackageManagerCommand,
+  options: RunPackageManagerOptions = {},
+): Promise<void> {
+  const { cwd = process.cwd(), onOutput } = options
+  const display = formatPackageManagerCommand(command)
+  logger.debug(`Running: ${display}`)
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command.command, command.args, {
+      cwd,
+      stdio: onOutput ? ['ignore', 'pipe', 'pipe'] : 'inherit',
+      shell: process.platform === 'win32',
+    })
+
+    if (onOutput) {
+      const forward = (data: Buffer) => {
+        for (const line of data.toString('utf-8').split(/\r?\n/)) {
+          if (line.trim()) onOutput(line)
+        }
+      }
+      child.stdout?.on('data', forward)
+      child.stderr?.on('data', forward)
+    }
+
+    child.on('error', () => reject(new PluginCommandError(display, null)))
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve()
+      } else {
+        reject(new PluginCommandError(display, code))
+      }
+    })
+  })
+}
+
+/**
+ * Get the latest published version of a package (undefined if it cannot be looked up)
+ *
+ * @param name - Package name
+ */
+export function getLatestVersion(name: string): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    execFile(
+      'npm',
+      ['view', name, 'version'],
+      { timeout: 10000, shell: process.platform === 'win32' },
+      (error, stdout) => {
+        resolve(error ? undefined : stdout.trim().split('\n').pop()?.trim() || undefined)
+      },
+    )
+  })
+}
+
+/**
+ * Compare two versions (`major.minor.patch`, pre-release tags are ignored)
+ *
+ * @returns A negative number if `a` is older, positive if newer, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string) =>
+    version
+      .replace(/^v/, '')
+      .split('-')[0]
+      .split('.')
+      .map((part) => Number.parseInt(part, 10) || 0)
+  const [left, right] = [parse(a), parse(b)]
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0)
+    if (diff !== 0) {
+      return diff
+    }
+  }
+  return 0
+}
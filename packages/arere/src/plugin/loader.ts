@@ -4,11 +4,15 @@
 
 import { existsSync } from 'node:fs'
 import { resolve } from 'node:path'
-import type { Action } from '@/action/types'
+import type { CacheManager } from '@/action/cache'
+import { cacheActionMeta, createLazyAction, getCachedActionMeta } from '@/action/metadata-cache'
+import type { Action, SecretsAPI } from '@/action/types'
+import { deepMerge } from '@/config/utils'
 import { registerTranslations } from '@/i18n/index'
 import { PluginLoadError } from '@/lib/error'
 import { logger } from '@/lib/logger'
 import type { ArerePlugin, LoadedPlugin } from '@/plugin/types'
+import { createSecretsAPI, loadPluginSecrets } from '@/secrets/index'
 import createJiti from 'jiti'
 import { z } from 'zod'
 import type { PluginPackageInfo } from './detector'
@@ -29,6 +33,7 @@ const getArerePackagePath = (): string => {
  * @param packageInfo - Plugin package information
  * @param userConfig - User configuration for this plugin (optional)
  * @param enabled - Whether this plugin is enabled (default: true)
+ * @param secrets - Secrets API the secret config fields are read from (default: the local store)
  * @returns Loaded plugin with resolved paths
  * @throws {PluginLoadError} If the plugin fails to load
  *
@@ -41,6 +46,7 @@ export async function loadPlugin(
   packageInfo: PluginPackageInfo,
   userConfig?: Record<string, unknown>,
   enabled = true,
+  secrets: SecretsAPI = createSecretsAPI(),
 ): Promise<LoadedPlugin> {
   logger.debug(`Loading plugin: ${packageInfo.name}`)
 
@@ -104,11 +110,24 @@ export async function loadPlugin(
     // Determine i18n namespace (use meta.i18nNamespace or plugin name)
     const i18nNamespace = pluginDefinition.meta.i18nNamespace || pluginDefinition.meta.name
 
+    // Add the secret fields (kept out of the config layers)
+    let config = userConfig
+    if (pluginDefinition.configSchema) {
+      const secretValues = await loadPluginSecrets(
+        pluginDefinition.configSchema,
+        pluginDefinition.meta.name,
+        secrets,
+      )
+      if (Object.keys(secretValues).length > 0) {
+        config = deepMerge(config ?? {}, secretValues)
+      }
+    }
+
     // Validate user config if schema is provided
-    let validatedConfig = userConfig
-    if (pluginDefinition.configSchema && userConfig) {
+    let validatedConfig = config
+    if (pluginDefinition.configSchema && config) {
       try {
-        validatedConfig = pluginDefinition.configSchema.parse(userConfig)
+        validatedConfig = pluginDefinition.configSchema.parse(config)
         logger.debug(`Validated config for ${packageInfo.name}`)
       } catch (error) {
         if (error instanceof z.ZodError) {
@@ -131,6 +150,7 @@ export async function loadPlugin(
         version,
       },
       path: packageInfo.path,
+      source: packageInfo.source,
       actionPaths: actionPaths.filter(existsSync),
       localesPath,
       i18nNamespace,
@@ -153,83 +173,154 @@ export async function loadPlugin(
 }
 
 /**
- * Load actions from a loaded plugin
+ * Create a jiti instance for loading a plugin's action files
  *
- * @param plugin - Loaded plugin
- * @returns Array of actions
- *
- * @example
- * ```typescript
- * const actions = await loadPluginActions(plugin)
- * ```
+ * Resolving from the plugin's directory ensures proper module resolution for both:
+ * - Plugin's internal imports (../src/...)
+ * - External dependencies including 'arere' package
  */
-export async function loadPluginActions(plugin: LoadedPlugin): Promise<Action[]> {
-  const actions: Action[] = []
-
-  // Create jiti instance from plugin's directory
-  // This ensures proper module resolution for both:
-  // - Plugin's internal imports (../src/...)
-  // - External dependencies including 'arere' package
-  const jiti = createJiti(plugin.path, {
+function createPluginJiti(plugin: LoadedPlugin, fresh = false) {
+  return createJiti(plugin.path, {
     interopDefault: true,
+    requireCache: !fresh,
     extensions: ['.ts', '.js', '.mjs', '.cjs'],
     // Alias 'arere' to the built package for plugin action imports
     alias: {
       arere: getArerePackagePath(),
     },
   })
+}
 
-  for (const actionPath of plugin.actionPaths) {
-    try {
-      logger.debug(`Loading plugin action: ${actionPath}`)
+/**
+ * Load a single action file from a loaded plugin
+ *
+ * @param plugin - Loaded plugin that owns the action
+ * @param actionPath - Absolute path to the action file
+ * @param options - Load options
+ * @param options.fresh - Bypass the module cache so edited files are re-evaluated
+ * @returns Action with plugin location and metadata applied
+ * @throws {Error} If the file does not export a valid Action object
+ *
+ * @example
+ * ```typescript
+ * const action = await loadPluginAction(plugin, '/path/to/plugin/actions/hello.ts')
+ * ```
+ */
+export async function loadPluginAction(
+  plugin: LoadedPlugin,
+  actionPath: string,
+  options: { fresh?: boolean } = {},
+): Promise<Action> {
+  return resolvePluginAction(plugin, actionPath, createPluginJiti(plugin, options.fresh))
+}
 
-      // Load the action module
-      const module = jiti(actionPath)
-      const actionDefinition = (module.default || module) as Action
+/**
+ * Evaluate an action module with the given jiti instance and apply plugin metadata
+ */
+function resolvePluginAction(
+  plugin: LoadedPlugin,
+  actionPath: string,
+  jiti: ReturnType<typeof createJiti>,
+): Action {
+  logger.debug(`Loading plugin action: ${actionPath}`)
+
+  // Load the action module
+  const module = jiti(actionPath)
+  const actionDefinition = (module.default || module) as Action
+
+  // Validate action structure
+  if (!actionDefinition || typeof actionDefinition !== 'object') {
+    throw new Error(`Action ${actionPath} does not export a valid Action object`)
+  }
 
-      // Validate action structure
-      if (!actionDefinition || typeof actionDefinition !== 'object') {
-        logger.warn(`Action ${actionPath} does not export a valid Action object`)
-        continue
-      }
+  if (!actionDefinition.meta || !actionDefinition.run) {
+    throw new Error(`Action ${actionPath} is missing required fields`)
+  }
 
-      if (!actionDefinition.meta || !actionDefinition.run) {
-        logger.warn(`Action ${actionPath} is missing required fields`)
-        continue
-      }
+  // Update file path
+  actionDefinition.filePath = actionPath
 
-      // Update file path
-      actionDefinition.filePath = actionPath
+  // Derive name from filename if not provided or empty
+  if (!actionDefinition.meta.name || actionDefinition.meta.name === '') {
+    const filename = actionPath.split('/').pop() || actionPath
+    const derivedName = filename.replace(/\.(ts|js)$/, '')
+    logger.debug(`Deriving plugin action name from filename: ${actionPath} -> ${derivedName}`)
+    actionDefinition.meta.name = derivedName
+  }
 
-      // Derive name from filename if not provided or empty
-      if (!actionDefinition.meta.name || actionDefinition.meta.name === '') {
-        const filename = actionPath.split('/').pop() || actionPath
-        const derivedName = filename.replace(/\.(ts|js)$/, '')
-        logger.debug(`Deriving plugin action name from filename: ${actionPath} -> ${derivedName}`)
-        actionDefinition.meta.name = derivedName
-      }
+  // Add plugin location
+  actionDefinition.location = { plugin: plugin.meta.name }
 
-      // Add plugin location
-      actionDefinition.location = { plugin: plugin.meta.name }
+  // Set plugin namespace for scoped translations
+  actionDefinition.pluginNamespace = plugin.i18nNamespace
 
-      // Set plugin namespace for scoped translations
-      actionDefinition.pluginNamespace = plugin.i18nNamespace
+  // Set plugin metadata for display purposes
+  actionDefinition.pluginMeta = plugin.meta
 
-      // Set plugin metadata for display purposes
-      actionDefinition.pluginMeta = plugin.meta
+  // Add plugin metadata to action
+  if (actionDefinition.meta.category === undefined) {
+    actionDefinition.meta.category = `plugin:${plugin.meta.name}`
+  }
 
-      // Add plugin metadata to action
-      if (actionDefinition.meta.category === undefined) {
-        actionDefinition.meta.category = `plugin:${plugin.meta.name}`
-      }
+  // Register action translations if provided
+  if (actionDefinition.translations) {
+    registerTranslations(actionDefinition.meta.name, actionDefinition.translations)
+  }
 
-      // Register action translations if provided
-      if (actionDefinition.translations) {
-        registerTranslations(actionDefinition.meta.name, actionDefinition.translations)
-      }
+  logger.debug(`Loaded plugin action: ${actionDefinition.meta.name}`)
+  return actionDefinition
+}
 
-      actions.push(actionDefinition)
-      logger.debug(`Loaded plugin action: ${actionDefinition.meta.name}`)
+/**
+ * Options for loading a plugin's actions
+ */
+export interface LoadPluginActionsOptions {
+  /** Metadata cache. Unchanged action files are returned as lazy actions */
+  cache?: CacheManager
+}
+
+/**
+ * Load actions from a loaded plugin
+ *
+ * @param plugin - Loaded plugin
+ * @param options - Load options
+ * @returns Array of actions
+ *
+ * @example
+ * ```typescript
+ * const actions = await loadPluginActions(plugin, { cache: cacheManager })
+ * ```
+ */
+export async function loadPluginActions(
+  plugin: LoadedPlugin,
+  options: LoadPluginActionsOptions = {},
+): Promise<Action[]> {
+  const actions: Action[] = []
+  const { cache } = options
+
+  // Share one jiti instance across all of the plugin's actions
+  const jiti = createPluginJiti(plugin)
+
+  for (const actionPath of plugin.actionPaths) {
+    // Use cached metadata and defer compiling the module until the action runs
+    const cached = cache ? getCachedActionMeta(cache, actionPath) : null
+    if (cached) {
+      const action = createLazyAction(actionPath, cached, async () =>
+        resolvePluginAction(plugin, actionPath, jiti),
+      )
+      action.location = { plugin: plugin.meta.name }
+      action.pluginNamespace = plugin.i18nNamespace
+      action.pluginMeta = plugin.meta
+      actions.push(action)
+      continue
+    }
+
+    try {
+      const action = resolvePluginAction(plugin, actionPath, jiti)
+      if (cache) {
+        cacheActionMeta(cache, action)
+      }
+      actions.push(action)
     } catch (error) {
       logger.warn(`Failed to load action ${actionPath}:`, error)
     }
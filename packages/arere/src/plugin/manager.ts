@@ -5,12 +5,13 @@
 import type { Action } from '@/action/types'
 import type { ArereConfig } from '@/config/schema'
 import { logger } from '@/lib/logger'
-import type { LoadedPlugin } from './types'
+import type { LoadedPlugin, PluginSource } from './types'
 
 // Infrastructure layer types (for dependency injection)
 export interface PluginPackageInfo {
   name: string
   path: string
+  source?: PluginSource
   packageJson: {
     name: string
     version: string
@@ -25,7 +26,7 @@ export interface PluginPackageInfo {
  * Plugin manager dependencies (injected from Infrastructure layer)
  */
 export interface PluginManagerDependencies {
-  detectPlugins: () => PluginPackageInfo[]
+  detectPlugins: (pluginPaths?: string[]) => PluginPackageInfo[]
   loadPlugin: (
     packageInfo: PluginPackageInfo,
     userConfig?: Record<string, unknown>,
@@ -65,7 +66,7 @@ export class PluginManager {
     logger.info('Loading plugins...')
 
     // Detect installed plugins
-    const packageInfos = this.deps.detectPlugins()
+    const packageInfos = this.deps.detectPlugins(config?.pluginPaths)
 
     if (packageInfos.length === 0) {
       logger.info('No plugins found')
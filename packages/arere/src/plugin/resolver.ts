@@ -1,84 +1,212 @@
 /**
- * Plugin resolver - finds global node_modules directory
+ * Plugin resolver - finds global node_modules directories
  */
 
 import { execSync } from 'node:child_process'
-import { existsSync } from 'node:fs'
-import { homedir } from 'node:os'
-import { join } from 'node:path'
+import { constants, accessSync, existsSync, statSync } from 'node:fs'
+import { delimiter, dirname, join, resolve } from 'node:path'
+import { type CacheManager, cacheManager as defaultCacheManager } from '@/action/cache'
 import { logger } from '@/lib/logger'
 
-// Cache the global node_modules path
-let cachedGlobalNodeModules: string | null = null
+/**
+ * Package managers that can install plugins globally
+ */
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun'
+
+/**
+ * Global node_modules directory of a package manager
+ */
+export interface GlobalNodeModules {
+  /** Package manager owning the directory */
+  manager: PackageManager
+  /** Absolute path to the node_modules directory */
+  path: string
+}
+
+/**
+ * Commands printing the global directory of each package manager,
+ * with the conversion of their output to the node_modules path
+ */
+const GLOBAL_ROOT_COMMANDS: Array<{
+  manager: PackageManager
+  command: string
+  toNodeModules: (output: string) => string
+}> = [
+  { manager: 'npm', command: 'npm root -g', toNodeModules: (output) => output },
+  { manager: 'pnpm', command: 'pnpm root -g', toNodeModules: (output) => output },
+  {
+    manager: 'yarn',
+    command: 'yarn global dir',
+    toNodeModules: (output) => join(output, 'node_modules'),
+  },
+  {
+    // `~/.bun/bin` → `~/.bun/install/global/node_modules`
+    manager: 'bun',
+    command: 'bun pm bin -g',
+    toNodeModules: (output) => join(dirname(output), 'install', 'global', 'node_modules'),
+  },
+]
+
+/**
+ * Cached result of a package manager command
+ */
+interface CachedGlobalRoot {
+  /** node_modules path derived from the command output (null if the command failed) */
+  path: string | null
+}
+
+// Cache the global node_modules directories
+let cachedGlobalNodeModules: GlobalNodeModules[] | null = null
+
+/**
+ * Cache key for the global directory of a package manager
+ */
+function globalRootCacheKey(manager: PackageManager): string {
+  return `plugin:global-root:${manager}`
+}
+
+/**
+ * Find an executable on PATH (undefined if it is not installed)
+ */
+function findExecutable(name: string): string | undefined {
+  const extensions = process.platform === 'win32' ? ['.cmd', '.exe', ''] : ['']
+  for (const directory of (process.env.PATH ?? '').split(delimiter)) {
+    if (!directory) continue
+    for (const extension of extensions) {
+      const file = join(directory, `${name}${extension}`)
+      try {
+        accessSync(file, constants.X_OK)
+        if (statSync(file).isFile()) {
+          return file
+        }
+      } catch {
+        // Not here
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Run a package manager command (undefined if it fails)
+ */
+function runCommand(command: string): string | undefined {
+  try {
+    const output = execSync(command, {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      timeout: 5000,
+    })
+    return output.trim().split('\n').pop()?.trim() || undefined
+  } catch {
+    return undefined
+  }
+}
 
 /**
- * Get the global node_modules directory path
+ * Collect the directories that exist, without duplicates
+ */
+function collectDirectories(
+  roots: Array<{ manager: PackageManager; path: string | null }>,
+): GlobalNodeModules[] {
+  const directories: GlobalNodeModules[] = []
+  for (const { manager, path } of roots) {
+    if (!path || !existsSync(path) || directories.some((directory) => directory.path === path)) {
+      continue
+    }
+    logger.debug(`Found global node_modules via ${manager}: ${path}`)
+    directories.push({ manager, path })
+  }
+  return directories
+}
+
+/**
+ * Get the global node_modules directories of the installed package managers
  *
- * @returns Absolute path to global node_modules or null if not found
+ * Asks npm (`npm root -g`), pnpm (`pnpm root -g`), yarn (`yarn global dir`)
+ * and bun (`bun pm bin -g`), skipping package managers that are not on PATH.
+ * The answers are kept in `CacheManager` until the package manager executable
+ * changes, so the commands only run the first time (and after an upgrade;
+ * `arere cache clear` forgets them too). Directories that do not exist are skipped.
+ *
+ * @param cache - Cache for the command results
+ * @returns Global node_modules directories in the order above, without duplicates
  *
  * @example
  * ```typescript
  * const globalNodeModules = getGlobalNodeModules()
- * // => '/usr/local/lib/node_modules' or similar
+ * // => [{ manager: 'npm', path: '/usr/local/lib/node_modules' }, ...]
  * ```
  */
-export function getGlobalNodeModules(): string | null {
-  // Return cached value if available
+export function getGlobalNodeModules(
+  cache: CacheManager = defaultCacheManager,
+): GlobalNodeModules[] {
   if (cachedGlobalNodeModules) {
     return cachedGlobalNodeModules
   }
 
-  // Try npm root -g first
-  try {
-    const npmRoot = execSync('npm root -g', { encoding: 'utf-8' }).trim()
-    if (npmRoot && existsSync(npmRoot)) {
-      logger.debug(`Found global node_modules via npm: ${npmRoot}`)
-      cachedGlobalNodeModules = npmRoot
-      return npmRoot
+  const roots: Array<{ manager: PackageManager; path: string | null }> = []
+  for (const { manager, command, toNodeModules } of GLOBAL_ROOT_COMMANDS) {
+    const executable = findExecutable(manager)
+    if (!executable) {
+      logger.debug(`Package manager not found on PATH: ${manager}`)
+      continue
+    }
+
+    const key = globalRootCacheKey(manager)
+    let root = cache.get<CachedGlobalRoot>(key, executable)
+    if (!root) {
+      const output = runCommand(command)
+      if (!output) {
+        logger.debug(`Failed to get global node_modules via ${command}`)
+      }
+      root = { path: output ? resolve(toNodeModules(output)) : null }
+      cache.set(key, root, executable)
     }
-  } catch (error) {
-    logger.debug('Failed to get global node_modules via npm root -g')
+    roots.push({ manager, path: root.path })
   }
 
-  // Try common platform-specific locations
-  const commonPaths: string[] = []
+  const directories = collectDirectories(roots)
+  if (directories.length === 0) {
+    logger.debug('Could not find global node_modules directory')
+  }
 
-  if (process.platform === 'win32') {
-    // Windows
-    const appData = process.env.APPDATA
-    if (appData) {
-      commonPaths.push(join(appData, 'npm', 'node_modules'))
-    }
-    commonPaths.push(
-      join(process.env.ProgramFiles || 'C:\\Program Files', 'nodejs', 'node_modules'),
-    )
-  } else {
-    // macOS / Linux
-    commonPaths.push('/usr/local/lib/node_modules')
-    commonPaths.push(join(homedir(), '.npm-global', 'lib', 'node_modules'))
-
-    // NVM path
-    const nvmNodeVersion = process.version
-    commonPaths.push(
-      join(homedir(), '.nvm', 'versions', 'node', nvmNodeVersion, 'lib', 'node_modules'),
-    )
+  cachedGlobalNodeModules = directories
+  return directories
+}
+
+/**
+ * Get the global node_modules directories from the cache only
+ *
+ * Never runs a package manager, for callers that must stay fast (shell completion).
+ *
+ * @param cache - Cache written by `getGlobalNodeModules`
+ * @returns The directories, or null if a package manager on PATH has no valid cache entry
+ */
+export function getCachedGlobalNodeModules(
+  cache: CacheManager = defaultCacheManager,
+): GlobalNodeModules[] | null {
+  if (cachedGlobalNodeModules) {
+    return cachedGlobalNodeModules
   }
 
-  // Check each common path
-  for (const path of commonPaths) {
-    if (existsSync(path)) {
-      logger.debug(`Found global node_modules at: ${path}`)
-      cachedGlobalNodeModules = path
-      return path
+  const roots: Array<{ manager: PackageManager; path: string | null }> = []
+  for (const { manager } of GLOBAL_ROOT_COMMANDS) {
+    const executable = findExecutable(manager)
+    if (!executable) {
+      continue
+    }
+    const root = cache.get<CachedGlobalRoot>(globalRootCacheKey(manager), executable)
+    if (!root) {
+      return null
     }
+    roots.push({ manager, path: root.path })
   }
-
-  logger.debug('Could not find global node_modules directory')
-  return null
+  return collectDirectories(roots)
 }
 
 /**
- * Clear the cached global node_modules path
+ * Clear the cached global node_modules directories
  * Useful for testing
  */
 export function clearGlobalNodeModulesCache(): void {
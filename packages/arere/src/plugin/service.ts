@@ -5,6 +5,7 @@
  *
  * - Toggle plugin enabled/disabled state
  * - Save and merge plugin configuration
+ * - Install, remove and update plugin packages
  * - Testable independently from UI layer
  *
  * @remarks
@@ -14,12 +15,31 @@
  * 3. Reload and merge configuration
  */
 
+import type { SecretsAPI } from '@/action/types'
 import { FileConfigManager } from '@/config/manager'
 import type { ArereConfig } from '@/config/schema'
 import { defaultConfig } from '@/config/schema'
 import type { ConfigLayer } from '@/config/types'
+import { deepMerge } from '@/config/utils'
+import { PluginConfigValidationError } from '@/lib/error'
 import { logger } from '@/lib/logger'
+import {
+  type PluginInstallScope,
+  type PluginOperation,
+  type RunPackageManagerOptions,
+  formatPackageManagerCommand,
+  getPackageManager,
+  getPackageManagerCommand,
+  parsePluginSpec,
+  runPackageManagerCommand,
+} from '@/plugin/installer'
 import type { LoadedPlugin } from '@/plugin/types'
+import {
+  createSecretsAPI,
+  pickSecretValues,
+  savePluginSecrets,
+  splitSecretValues,
+} from '@/secrets/index'
 
 /**
  * Plugin toggle operation result
@@ -31,6 +51,37 @@ export interface PluginToggleResult {
   config: ArereConfig
 }
 
+/**
+ * Options for package operations (install, remove, update)
+ */
+export interface PluginPackageOptions extends Pick<RunPackageManagerOptions, 'onOutput'> {
+  /** Install scope */
+  scope: PluginInstallScope
+  /** Directory of the installed plugin (picks the package manager owning it) */
+  path?: string
+}
+
+/**
+ * Package operation result
+ */
+export interface PluginPackageResult {
+  /** Plugin name */
+  name: string
+  /** Package manager command that was run */
+  command: string
+  /** Updated configuration */
+  config: ArereConfig
+}
+
+/**
+ * Get the config layer matching an install scope
+ *
+ * Global plugins are configured in the user layer, project plugins in the workspace layer.
+ */
+export function getPluginConfigLayer(scope: PluginInstallScope): ConfigLayer {
+  return scope === 'global' ? 'user' : 'workspace'
+}
+
 /**
  * Plugin management service
  *
@@ -56,6 +107,11 @@ export interface PluginToggleResult {
  * ```
  */
 export class PluginService {
+  /**
+   * @param secrets - Secrets API secret config fields are saved to (default: the local secret store)
+   */
+  constructor(private readonly secrets: SecretsAPI = createSecretsAPI()) {}
+
   /**
    * Toggle plugin enabled/disabled state
    *
@@ -105,6 +161,107 @@ export class PluginService {
     }
   }
 
+  /**
+   * Set the enabled state of a plugin by name (also for plugins that are not loaded yet)
+   *
+   * @param name - Plugin name
+   * @param enabled - Whether to enable the plugin
+   * @param layer - Target layer to save
+   * @returns New merged configuration
+   */
+  async setPluginEnabled(name: string, enabled: boolean, layer: ConfigLayer): Promise<ArereConfig> {
+    const manager = new FileConfigManager()
+    await manager.save(layer, `plugins.${name}.enabled`, enabled)
+
+    logger.info(`Plugin ${name} ${enabled ? 'enabled' : 'disabled'} in ${layer} layer`)
+
+    return manager.loadMerged()
+  }
+
+  /**
+   * Remove the settings of a plugin (enabled state and config) from a layer
+   *
+   * @param name - Plugin name
+   * @param layer - Target layer
+   * @returns New merged configuration
+   *
+   * @remarks
+   * Secret fields are kept in the secret store.
+   */
+  async removePluginSettings(name: string, layer: ConfigLayer): Promise<ArereConfig> {
+    const manager = new FileConfigManager()
+    await manager.delete(layer, `plugins.${name}`)
+
+    logger.info(`Plugin ${name} settings removed from ${layer} layer`)
+
+    return manager.loadMerged()
+  }
+
+  /**
+   * Install a plugin package and enable it
+   *
+   * @param spec - Package spec (`name`, `name@version`; the `arere-plugin-` prefix may be omitted)
+   * @param options - Install scope and output handling
+   * @returns Plugin name, command and new merged configuration
+   *
+   * @throws {PluginCommandError} If the package manager fails
+   */
+  async installPlugin(spec: string, options: PluginPackageOptions): Promise<PluginPackageResult> {
+    const { name } = parsePluginSpec(spec)
+    const command = await this.runPackageOperation('install', spec, options)
+    const config = await this.setPluginEnabled(name, true, getPluginConfigLayer(options.scope))
+    return { name, command, config }
+  }
+
+  /**
+   * Uninstall a plugin package and remove its settings from the layer of its scope
+   *
+   * @param name - Plugin name
+   * @param options - Install scope and output handling
+   * @returns Plugin name, command and new merged configuration
+   *
+   * @throws {PluginCommandError} If the package manager fails
+   */
+  async removePlugin(name: string, options: PluginPackageOptions): Promise<PluginPackageResult> {
+    const command = await this.runPackageOperation('remove', name, options)
+    const config = await this.removePluginSettings(name, getPluginConfigLayer(options.scope))
+    return { name, command, config }
+  }
+
+  /**
+   * Update a plugin package to its latest version
+   *
+   * @param name - Plugin name
+   * @param options - Install scope and output handling
+   * @returns Plugin name, command and new merged configuration
+   *
+   * @throws {PluginCommandError} If the package manager fails
+   */
+  async updatePlugin(name: string, options: PluginPackageOptions): Promise<PluginPackageResult> {
+    const command = await this.runPackageOperation('update', name, options)
+    const config = await new FileConfigManager().loadMerged()
+    return { name, command, config }
+  }
+
+  /**
+   * Run the package manager for an operation
+   *
+   * @returns The command that was run
+   */
+  private async runPackageOperation(
+    operation: PluginOperation,
+    spec: string,
+    { scope, path, onOutput }: PluginPackageOptions,
+  ): Promise<string> {
+    const manager = getPackageManager(scope, path)
+    const command = getPackageManagerCommand(manager, operation, parsePluginSpec(spec).spec, scope)
+    await runPackageManagerCommand(command, { onOutput })
+
+    logger.info(`Plugin ${operation} (${scope}): ${formatPackageManagerCommand(command)}`)
+
+    return formatPackageManagerCommand(command)
+  }
+
   /**
    * Save plugin configuration
    *
@@ -115,22 +272,46 @@ export class PluginService {
    *
    * @remarks
    * This method performs the following steps:
-   * 1. Save each configuration key individually (partial save)
-   * 2. Reload and merge configuration (user + workspace)
-   * 3. Return merged configuration
+   * 1. Validate the values merged over the current config against the config schema
+   * 2. Save secret fields (`secret()`) to the secret store instead of the config layers
+   * 3. Save each remaining configuration key individually (partial save)
+   * 4. Reload and merge configuration (user + workspace)
+   * 5. Return merged configuration
+   *
+   * @throws {PluginConfigValidationError} If the resulting config does not match the schema
    */
   async savePluginConfig(
     plugin: LoadedPlugin,
     config: Record<string, unknown>,
     layer: ConfigLayer,
   ): Promise<ArereConfig> {
-    // 1. Save each configuration key individually
+    // 1. Validate against the whole schema (refinements across keys included)
+    if (plugin.configSchema) {
+      const result = plugin.configSchema.safeParse(deepMerge(plugin.userConfig ?? {}, config))
+      if (!result.success) {
+        const errors: Record<string, string> = {}
+        for (const issue of result.error.issues) {
+          errors[issue.path.join('.')] ??= issue.message
+        }
+        throw new PluginConfigValidationError(plugin.meta.name, errors)
+      }
+    }
+
+    // 2. Save secret fields to the secret store
+    let layerConfig = config
+    if (plugin.configSchema) {
+      const split = splitSecretValues(plugin.configSchema, config)
+      await savePluginSecrets(plugin.meta.name, split.secrets, this.secrets)
+      layerConfig = split.config
+    }
+
+    // 3. Save each configuration key individually
     const manager = new FileConfigManager()
-    for (const [key, value] of Object.entries(config)) {
+    for (const [key, value] of Object.entries(layerConfig)) {
       await manager.save(layer, `plugins.${plugin.meta.name}.config.${key}`, value)
     }
 
-    // 2. Reload and merge configuration
+    // 4. Reload and merge configuration
     const mergedConfig = await manager.loadMerged()
 
     logger.info(
@@ -146,25 +327,39 @@ export class PluginService {
    * @param currentPlugins - Current plugin list
    * @param mergedConfig - Merged configuration
    * @param plugin - Target plugin
+   * @param savedConfig - Values just saved (their secret fields are kept in userConfig)
    * @returns Updated plugin list
    *
    * @remarks
    * Used to update plugin's userConfig field with latest configuration after saving.
+   * Secret fields are not in the merged configuration, so they are carried over.
    */
   updatePluginUserConfig(
     currentPlugins: LoadedPlugin[],
     mergedConfig: ArereConfig,
     plugin: LoadedPlugin,
+    savedConfig: Record<string, unknown> = {},
   ): LoadedPlugin[] {
     // Get target plugin's configuration from merged configuration
     const pluginConfig = mergedConfig.plugins?.[plugin.meta.name]
 
     // Update userConfig only if pluginConfig is an object with config property
-    const pluginUserConfig =
+    let pluginUserConfig =
       typeof pluginConfig === 'object' && pluginConfig !== null && 'config' in pluginConfig
         ? (pluginConfig.config as Record<string, unknown>)
         : undefined
 
+    // Carry over secret fields (previous values, overridden by the saved ones)
+    if (plugin.configSchema) {
+      const secretValues = pickSecretValues(
+        plugin.configSchema,
+        deepMerge(plugin.userConfig ?? {}, savedConfig),
+      )
+      if (Object.keys(secretValues).length > 0) {
+        pluginUserConfig = deepMerge(pluginUserConfig ?? {}, secretValues)
+      }
+    }
+
     // Update plugin list
     return currentPlugins.map((p) =>
       p.meta.name === plugin.meta.name ? { ...p, userConfig: pluginUserConfig } : p,
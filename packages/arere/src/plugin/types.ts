@@ -8,7 +8,7 @@ import type { z } from 'zod'
  * Plugin metadata (defined in plugin source)
  */
 export interface PluginMeta {
-  /** Plugin name (must start with 'arere-plugin-') */
+  /** Plugin name ('arere-plugin-*' or '@scope/arere-plugin-*') */
   name: string
   /** Plugin description */
   description?: string
@@ -18,6 +18,15 @@ export interface PluginMeta {
   i18nNamespace?: string
 }
 
+/**
+ * Where a plugin was found
+ *
+ * - `path`: a directory listed in `pluginPaths`
+ * - `local`: node_modules of cwd or one of its parents
+ * - `global`: global node_modules of npm, pnpm, yarn or bun
+ */
+export type PluginSource = 'path' | 'local' | 'global'
+
 /**
  * Plugin metadata with version (after loading from package.json)
  */
@@ -48,6 +57,8 @@ export interface LoadedPlugin {
   meta: LoadedPluginMeta
   /** Absolute path to plugin directory */
   path: string
+  /** Where the plugin was found (set for detected plugins) */
+  source?: PluginSource
   /** Absolute paths to action files */
   actionPaths: string[]
   /** Absolute path to locales directory (if provided) */
@@ -0,0 +1,57 @@
+/**
+ * Secrets API (`ctx.secrets`)
+ */
+
+import type { SecretsAPI } from '@/action/types'
+import { SecretStore } from './store'
+
+/**
+ * Prefix of environment variables providing secrets
+ */
+export const SECRET_ENV_PREFIX = 'ARERE_SECRET_'
+
+/**
+ * Get the environment variable name for a secret (`github.token` → `ARERE_SECRET_GITHUB_TOKEN`)
+ */
+export function getSecretEnvName(name: string): string {
+  return `${SECRET_ENV_PREFIX}${name.replace(/[^a-zA-Z0-9]/g, '_').toUpperCase()}`
+}
+
+/**
+ * Options for creating the secrets API
+ */
+export interface CreateSecretsAPIOptions {
+  /** Secret store (default: the store in ~/.arere, opened on first use) */
+  store?: SecretStore
+  /**
+   * Environment to read `ARERE_SECRET_<NAME>` from before the store
+   * (headless mode passes process.env; not consulted when omitted)
+   */
+  env?: Record<string, string | undefined>
+}
+
+/**
+ * Create the secrets API
+ *
+ * @param options - Store and environment
+ *
+ * @example
+ * ```typescript
+ * const secrets = createSecretsAPI({ env: process.env })
+ * await secrets.get('GITHUB_TOKEN') // ARERE_SECRET_GITHUB_TOKEN, or the stored value
+ * ```
+ */
+export function createSecretsAPI(options: CreateSecretsAPIOptions = {}): SecretsAPI {
+  const { env } = options
+  let store = options.store
+  const getStore = (): SecretStore => {
+    store ??= new SecretStore()
+    return store
+  }
+
+  return {
+    get: async (name) => env?.[getSecretEnvName(name)] ?? getStore().get(name),
+    set: async (name, value) => getStore().set(name, value),
+    delete: async (name) => getStore().delete(name),
+  }
+}
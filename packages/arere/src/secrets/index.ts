@@ -0,0 +1,20 @@
+/**
+ * Secrets API and encrypted secret store
+ */
+
+export { createSecretsAPI, getSecretEnvName, SECRET_ENV_PREFIX } from './api'
+export type { CreateSecretsAPIOptions } from './api'
+export {
+  getPluginSecretName,
+  getSecretFieldPaths,
+  isSecretSchema,
+  loadPluginSecrets,
+  pickSecretValues,
+  savePluginSecrets,
+  secret,
+  splitSecretValues,
+} from './schema'
+export { SecretStore, SECRETS_PASSPHRASE_ENV } from './store'
+export type { SecretStoreOptions } from './store'
+export type { SecretsAPI } from '@/action/types'
+export { SecretStoreError } from '@/lib/error'
@@ -0,0 +1,220 @@
+/**
+ * Secret fields of plugin config schemas
+ *
+ * Fields wrapped with `secret()` are kept in the secret store instead of the
+ * config layers (`settings.json`), under the name `plugins.<plugin>.<path>`.
+ */
+
+import type { SecretsAPI } from '@/action/types'
+import { deleteNestedValue, getNestedValue, setNestedValue } from '@/config/utils'
+import { logger } from '@/lib/logger'
+import type { z } from 'zod'
+
+/**
+ * Mark a config schema field as secret
+ *
+ * Works with any wrapper applied afterwards (`.optional()`, `.default()`, `.describe()`).
+ * Only string fields can be secret: the secret store keeps text, so other values
+ * would come back as strings and fail validation.
+ *
+ * @example
+ * ```typescript
+ * const configSchema = z.object({
+ *   apiToken: secret(z.string()).optional().describe('API token'),
+ * })
+ * ```
+ */
+export function secret<T extends z.ZodType<string, z.ZodTypeDef, unknown>>(schema: T): T {
+  const Schema = schema.constructor as new (def: unknown) => T
+  return new Schema({ ...schema._def, secret: true })
+}
+
+/**
+ * Check whether a schema (or a schema it wraps) is marked with `secret()`
+ */
+export function isSecretSchema(schema: z.ZodTypeAny): boolean {
+  let current: z.ZodTypeAny | undefined = schema
+  while (current) {
+    if (current._def.secret === true) {
+      return true
+    }
+    current = current._def.innerType ?? current._def.schema
+  }
+  return false
+}
+
+/**
+ * Unwrap optional/default/nullable/effects wrappers
+ */
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let current = schema
+  while (current._def.innerType ?? current._def.schema) {
+    current = current._def.innerType ?? current._def.schema
+  }
+  return current
+}
+
+/**
+ * Get the secret fields of an object schema with their dot-separated paths (nested objects included)
+ */
+function getSecretFields(
+  schema: z.AnyZodObject,
+  prefix = '',
+): Array<{ path: string; schema: z.ZodTypeAny }> {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).flatMap(([key, field]) => {
+    if (isSecretSchema(field)) {
+      return [{ path: prefix + key, schema: field }]
+    }
+    const inner = unwrap(field)
+    return inner._def.typeName === 'ZodObject'
+      ? getSecretFields(inner as z.AnyZodObject, `${prefix}${key}.`)
+      : []
+  })
+}
+
+/**
+ * Get the dot-separated paths of the secret fields of an object schema (nested objects included)
+ */
+export function getSecretFieldPaths(schema: z.AnyZodObject): string[] {
+  return getSecretFields(schema).map((field) => field.path)
+}
+
+/**
+ * Check whether a schema holds a string (`z.string()`, `z.enum()` or a string literal)
+ */
+function isStringSchema(schema: z.ZodTypeAny): boolean {
+  const inner = unwrap(schema)
+  switch (inner._def.typeName) {
+    case 'ZodString':
+    case 'ZodEnum':
+      return true
+    case 'ZodLiteral':
+      return typeof inner._def.value === 'string'
+    default:
+      return false
+  }
+}
+
+/**
+ * Check that every secret field of a config schema is a string field
+ *
+ * `secret()` only accepts string schemas in TypeScript; this catches plugins
+ * written in JavaScript or cast around the check.
+ *
+ * @param schema - Plugin config schema
+ * @throws {Error} If a secret field holds anything else
+ */
+export function assertStringSecretFields(schema: z.AnyZodObject): void {
+  for (const field of getSecretFields(schema)) {
+    if (!isStringSchema(field.schema)) {
+      throw new Error(`Secret config field must be a string: ${field.path}`)
+    }
+  }
+}
+
+/**
+ * Get the secret name of a plugin config field (`plugins.<plugin>.<path>`)
+ */
+export function getPluginSecretName(pluginName: string, path: string): string {
+  return `plugins.${pluginName}.${path}`
+}
+
+/**
+ * Check whether a dot-separated path is present (even with an undefined value)
+ */
+function hasPath(values: Record<string, unknown>, path: string): boolean {
+  const keys = path.split('.')
+  const last = keys.pop() as string
+  const container = keys.length === 0 ? values : getNestedValue(values, keys.join('.'))
+  return typeof container === 'object' && container !== null && last in container
+}
+
+/**
+ * Split config values into secret values and the values written to the config layers
+ *
+ * @returns `secrets` maps the paths present in `config` to their values
+ * (undefined or an empty string means the secret is removed)
+ */
+export function splitSecretValues(
+  schema: z.AnyZodObject,
+  config: Record<string, unknown>,
+): { config: Record<string, unknown>; secrets: Map<string, unknown> } {
+  const secrets = new Map<string, unknown>()
+  let rest = config
+  for (const path of getSecretFieldPaths(schema)) {
+    if (hasPath(config, path)) {
+      secrets.set(path, getNestedValue(config, path))
+      rest = deleteNestedValue(rest, path)
+    }
+  }
+  return { config: rest, secrets }
+}
+
+/**
+ * Keep only the secret values of a config (empty strings count as unset)
+ */
+export function pickSecretValues(
+  schema: z.AnyZodObject,
+  config: Record<string, unknown>,
+): Record<string, unknown> {
+  let picked: Record<string, unknown> = {}
+  for (const path of getSecretFieldPaths(schema)) {
+    const value = getNestedValue(config, path)
+    if (value !== undefined && value !== '') {
+      picked = setNestedValue(picked, path, value)
+    }
+  }
+  return picked
+}
+
+/**
+ * Read the secret fields of a plugin config from the secrets API
+ *
+ * Secrets that cannot be read (e.g. a passphrase-protected store without the
+ * passphrase) are skipped with a warning.
+ *
+ * @param schema - Plugin config schema
+ * @param pluginName - Plugin name
+ * @param secrets - Secrets API
+ * @returns Values of the stored secret fields, nested by path
+ */
+export async function loadPluginSecrets(
+  schema: z.AnyZodObject,
+  pluginName: string,
+  secrets: SecretsAPI,
+): Promise<Record<string, unknown>> {
+  let values: Record<string, unknown> = {}
+  for (const path of getSecretFieldPaths(schema)) {
+    try {
+      const value = await secrets.get(getPluginSecretName(pluginName, path))
+      if (value !== undefined) {
+        values = setNestedValue(values, path, value)
+      }
+    } catch (error) {
+      logger.warn(`Failed to read secret ${path} of plugin ${pluginName}:`, error)
+    }
+  }
+  return values
+}
+
+/**
+ * Write the secret values of a plugin config to the secrets API
+ *
+ * @param pluginName - Plugin name
+ * @param values - Secret values by path (undefined or an empty string removes the secret)
+ * @param secrets - Secrets API
+ */
+export async function savePluginSecrets(
+  pluginName: string,
+  values: Map<string, unknown>,
+  secrets: SecretsAPI,
+): Promise<void> {
+  for (const [path, value] of values) {
+    const name = getPluginSecretName(pluginName, path)
+    if (value === undefined || value === '') {
+      await secrets.delete(name)
+    } else {
+      await secrets.set(name, String(value))
+    }
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Encrypted secret store (`~/.arere/secrets.json`)
+ *
+ * Secrets are encrypted together with AES-256-GCM. The key is derived with
+ * scrypt from a passphrase (`ARERE_SECRETS_PASSPHRASE`) when one is given,
+ * otherwise it is read from a key file (`~/.arere/secrets.key`) that is
+ * created on first use and readable only by the current user.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto'
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { SecretStoreError } from '@/lib/error'
+
+/**
+ * Environment variable holding the passphrase of the secret store
+ */
+export const SECRETS_PASSPHRASE_ENV = 'ARERE_SECRETS_PASSPHRASE'
+
+/**
+ * How the encryption key is obtained
+ */
+type KeySource = 'keyfile' | 'passphrase'
+
+/**
+ * Contents of the secret store file
+ */
+interface SecretFile {
+  version: 1
+  key: KeySource
+  /** scrypt salt (base64) */
+  salt: string
+  /** AES-GCM initialization vector (base64) */
+  iv: string
+  /** AES-GCM authentication tag (base64) */
+  tag: string
+  /** Encrypted JSON object of secrets (base64) */
+  data: string
+}
+
+/**
+ * Options for creating a secret store
+ */
+export interface SecretStoreOptions {
+  /** Directory of the store and key files (default: ~/.arere) */
+  dir?: string
+  /** Passphrase to derive the key from (default: `ARERE_SECRETS_PASSPHRASE`) */
+  passphrase?: string
+}
+
+/**
+ * Local encrypted secret store
+ *
+ * @example
+ * ```typescript
+ * const store = new SecretStore()
+ * store.set('GITHUB_TOKEN', 'ghp_...')
+ * store.get('GITHUB_TOKEN') // 'ghp_...'
+ * store.delete('GITHUB_TOKEN') // true
+ * ```
+ */
+export class SecretStore {
+  private readonly dir: string
+  private readonly storeFile: string
+  private readonly keyFile: string
+  private readonly passphrase?: string
+
+  constructor(options: SecretStoreOptions = {}) {
+    this.dir = options.dir ?? join(homedir(), '.arere')
+    this.storeFile = join(this.dir, 'secrets.json')
+    this.keyFile = join(this.dir, 'secrets.key')
+    this.passphrase = options.passphrase ?? (process.env[SECRETS_PASSPHRASE_ENV] || undefined)
+  }
+
+  /**
+   * Get a secret
+   *
+   * @throws {SecretStoreError} If the store cannot be decrypted
+   */
+  get(name: string): string | undefined {
+    const secrets = this.load()
+    return Object.hasOwn(secrets, name) ? secrets[name] : undefined
+  }
+
+  /**
+   * Store a secret
+   *
+   * @throws {SecretStoreError} If the store cannot be decrypted
+   */
+  set(name: string, value: string): void {
+    this.save({ ...this.load(), [name]: value })
+  }
+
+  /**
+   * Delete a secret
+   *
+   * @returns Whether the secret existed
+   * @throws {SecretStoreError} If the store cannot be decrypted
+   */
+  delete(name: string): boolean {
+    const secrets = this.load()
+    if (!Object.hasOwn(secrets, name)) {
+      return false
+    }
+    delete secrets[name]
+    this.save(secrets)
+    return true
+  }
+
+  /**
+   * List the names of stored secrets
+   *
+   * @throws {SecretStoreError} If the store cannot be decrypted
+   */
+  list(): string[] {
+    return Object.keys(this.load())
+  }
+
+  /**
+   * Read and decrypt all secrets
+   */
+  private load(): Record<string, string> {
+    const file = this.readFile()
+    if (!file) {
+      return {}
+    }
+
+    try {
+      const decipher = createDecipheriv(
+        'aes-256-gcm',
+        this.getKey(file.key, Buffer.from(file.salt, 'base64')),
+        Buffer.from(file.iv, 'base64'),
+      )
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'))
+      const data = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final(),
+      ])
+      return JSON.parse(data.toString('utf-8'))
+    } catch (error) {
+      if (error instanceof SecretStoreError) {
+        throw error
+      }
+      throw new SecretStoreError('decrypt_failed', this.storeFile)
+    }
+  }
+
+  /**
+   * Encrypt and write all secrets (keeping the key source of an existing store)
+   */
+  private save(secrets: Record<string, string>): void {
+    const key = this.readFile()?.key ?? (this.passphrase ? 'passphrase' : 'keyfile')
+    const salt = randomBytes(16)
+    const iv = randomBytes(12)
+    const cipher = createCipheriv('aes-256-gcm', this.getKey(key, salt), iv)
+    const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()])
+
+    const file: SecretFile = {
+      version: 1,
+      key,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    }
+    this.writePrivateFile(this.storeFile, `${JSON.stringify(file, null, 2)}\n`)
+  }
+
+  /**
+   * Read the store file (undefined if there is none yet)
+   */
+  private readFile(): SecretFile | undefined {
+    if (!existsSync(this.storeFile)) {
+      return undefined
+    }
+    try {
+      return JSON.parse(readFileSync(this.storeFile, 'utf-8')) as SecretFile
+    } catch {
+      throw new SecretStoreError('decrypt_failed', this.storeFile)
+    }
+  }
+
+  /**
+   * Get the encryption key
+   */
+  private getKey(source: KeySource, salt: Buffer): Buffer {
+    if (source === 'passphrase') {
+      if (!this.passphrase) {
+        throw new SecretStoreError('passphrase_required', this.storeFile)
+      }
+      return scryptSync(this.passphrase, salt, 32)
+    }
+
+    if (!existsSync(this.keyFile)) {
+      if (existsSync(this.storeFile)) {
+        throw new SecretStoreError('key_missing', this.keyFile)
+      }
+      this.writePrivateFile(this.keyFile, randomBytes(32).toString('base64'))
+    }
+    return scryptSync(Buffer.from(readFileSync(this.keyFile, 'utf-8').trim(), 'base64'), salt, 32)
+  }
+
+  /**
+   * Write a file readable only by the current user
+   */
+  private writePrivateFile(path: string, content: string): void {
+    mkdirSync(this.dir, { recursive: true })
+    writeFileSync(path, content, { encoding: 'utf-8', mode: 0o600 })
+    // The mode only applies to new files
+    chmodSync(path, 0o600)
+  }
+}
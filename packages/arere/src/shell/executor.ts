@@ -2,9 +2,12 @@
  * Shell command executor using tagged template literals
  */
 
-import { spawn } from 'node:child_process'
-import type { ShellExecutor, ShellResult } from '@/action/types'
+import { type ChildProcess, spawn } from 'node:child_process'
+import { constants } from 'node:os'
+import type { ShellExecutor, ShellOptions, ShellResult } from '@/action/types'
+import { ShellError } from '@/lib/error'
 import { logger } from '@/lib/logger'
+import type { OutputAPI } from '@/ui/output/types'
 
 /**
  * Escape shell argument for safe execution
@@ -21,9 +24,30 @@ function escapeShellArg(arg: unknown): string {
   return `'${str.replace(/'/g, "'\\''")}'`
 }
 
+/**
+ * Grace period between SIGTERM and SIGKILL when a command is aborted or times out
+ */
+const SIGKILL_DELAY_MS = 3000
+
+/**
+ * Commands that are still running (killed when the process exits)
+ */
+const activeChildren = new Set<ChildProcess>()
+
+/**
+ * Options for creating a shell executor
+ */
+export interface ShellExecutorOptions extends ShellOptions {
+  /** Abort signal; when aborted, running commands are terminated (SIGTERM, then SIGKILL) */
+  signal?: AbortSignal
+  /** Output API that receives streamed lines when `stream` is enabled */
+  output?: OutputAPI
+}
+
 /**
  * Create a shell executor function
  *
+ * @param options - Executor options (defaults for every command run by this executor)
  * @returns Shell executor function that accepts tagged template literals
  *
  * @example
@@ -33,61 +57,300 @@ function escapeShellArg(arg: unknown): string {
  * const result = await $`echo Hello, ${name}!`
  * console.log(result.stdout) // "Hello, world!"
  * ```
+ *
+ * @example With options
+ * ```typescript
+ * const $ = createShellExecutor({ output })
+ * await $({ cwd: 'packages/app', stream: true })`npm install`
+ * await $.throwOnError`git push` // throws ShellError on non-zero exit
+ * ```
+ *
+ * @example With abort signal
+ * ```typescript
+ * const controller = new AbortController()
+ * const $ = createShellExecutor({ signal: controller.signal })
+ * const pending = $`sleep 60`
+ * controller.abort() // pending rejects with the abort reason
+ * ```
  */
-export function createShellExecutor(): ShellExecutor {
-  return async (command: TemplateStringsArray, ...args: unknown[]): Promise<ShellResult> => {
-    // Build the command string by interleaving template strings and arguments
-    let commandString = command[0]
-    for (let i = 0; i < args.length; i++) {
-      commandString += escapeShellArg(args[i])
-      commandString += command[i + 1]
+export function createShellExecutor(options: ShellExecutorOptions = {}): ShellExecutor {
+  function $(
+    first: TemplateStringsArray | ShellOptions,
+    ...args: unknown[]
+  ): Promise<ShellResult> | ShellExecutor {
+    if (isTemplateStringsArray(first)) {
+      return runCommand(buildCommand(first, args), options)
     }
+    return createShellExecutor(mergeOptions(options, first))
+  }
 
-    logger.debug(`Executing shell command: ${commandString}`)
+  Object.defineProperties($, {
+    throwOnError: {
+      get: () => createShellExecutor({ ...options, throwOnError: true }),
+    },
+    nothrow: {
+      get: () => createShellExecutor({ ...options, throwOnError: false }),
+    },
+  })
 
-    return new Promise((resolve, reject) => {
-      // Use /bin/sh to run the command
-      const child = spawn('/bin/sh', ['-c', commandString], {
-        stdio: ['ignore', 'pipe', 'pipe'],
-      })
+  return $ as ShellExecutor
+}
 
-      let stdout = ''
-      let stderr = ''
+/**
+ * Check whether the first argument is a template strings array (tagged template call)
+ */
+function isTemplateStringsArray(value: unknown): value is TemplateStringsArray {
+  return Array.isArray(value) && 'raw' in value
+}
 
-      // Capture stdout
-      child.stdout?.on('data', (data) => {
-        stdout += data.toString()
-      })
+/**
+ * Build the command string by interleaving template strings and escaped arguments
+ */
+function buildCommand(strings: TemplateStringsArray, args: unknown[]): string {
+  let commandString = strings[0]
+  for (let i = 0; i < args.length; i++) {
+    commandString += escapeShellArg(args[i])
+    commandString += strings[i + 1]
+  }
+  return commandString
+}
 
-      // Capture stderr
-      child.stderr?.on('data', (data) => {
-        stderr += data.toString()
-      })
+/**
+ * Merge per-call options over executor defaults (env is merged key by key)
+ */
+function mergeOptions(base: ShellExecutorOptions, override: ShellOptions): ShellExecutorOptions {
+  return {
+    ...base,
+    ...override,
+    env: override.env ? { ...base.env, ...override.env } : base.env,
+  }
+}
 
-      // Handle process exit
-      child.on('close', (exitCode) => {
-        const result: ShellResult = {
-          stdout: stdout.trimEnd(),
-          stderr: stderr.trimEnd(),
-          exitCode: exitCode ?? 0,
-        }
-
-        if (exitCode === 0) {
-          logger.debug('Command completed successfully')
-          resolve(result)
-        } else {
-          logger.debug(`Command failed with exit code ${exitCode}`)
-          logger.debug(`stderr: ${stderr}`)
-          // Still resolve with the result (not reject), so actions can handle errors
-          resolve(result)
-        }
-      })
+/**
+ * Build the child process environment, dropping variables set to undefined
+ */
+function buildEnv(env?: Record<string, string | undefined>): NodeJS.ProcessEnv {
+  const merged: NodeJS.ProcessEnv = { ...process.env, ...env }
+  for (const key of Object.keys(merged)) {
+    if (merged[key] === undefined) {
+      delete merged[key]
+    }
+  }
+  return merged
+}
+
+/**
+ * Split chunked output into lines, calling `onLine` for each complete line
+ */
+function createLineSplitter(onLine: (line: string) => void) {
+  let buffer = ''
+  return {
+    push(chunk: string) {
+      buffer += chunk
+      const lines = buffer.split(/\r?\n/)
+      buffer = lines.pop() ?? ''
+      for (const line of lines) {
+        onLine(line)
+      }
+    },
+    flush() {
+      if (buffer) {
+        onLine(buffer)
+        buffer = ''
+      }
+    },
+  }
+}
+
+/**
+ * Send a signal to the child's process group so commands spawned by the shell
+ * (pipelines, subshells) are terminated too
+ */
+function killGroup(child: ChildProcess, signal: NodeJS.Signals): void {
+  try {
+    if (child.pid === undefined) return
+    process.kill(-child.pid, signal)
+  } catch {
+    // Group already gone or not a group leader; fall back to the shell itself
+    child.kill(signal)
+  }
+}
+
+/**
+ * Send SIGTERM to a child process, escalating to SIGKILL if it does not exit
+ *
+ * @returns Timer handle for the SIGKILL escalation
+ */
+function terminate(child: ChildProcess): ReturnType<typeof setTimeout> {
+  killGroup(child, 'SIGTERM')
+  const timer = setTimeout(() => {
+    if (child.exitCode === null && child.signalCode === null) {
+      logger.debug('Command did not exit after SIGTERM, sending SIGKILL')
+      killGroup(child, 'SIGKILL')
+    }
+  }, SIGKILL_DELAY_MS)
+  timer.unref()
+  return timer
+}
+
+/**
+ * Track a running command, terminating it if the launcher exits first
+ */
+function trackChild(child: ChildProcess): void {
+  if (activeChildren.size === 0) {
+    process.on('exit', killActiveChildren)
+  }
+  activeChildren.add(child)
+  const release = () => {
+    activeChildren.delete(child)
+    if (activeChildren.size === 0) {
+      process.off('exit', killActiveChildren)
+    }
+  }
+  child.once('close', release)
+  child.once('error', release)
+}
+
+/**
+ * Terminate all running commands (called on process exit)
+ */
+function killActiveChildren(): void {
+  for (const child of activeChildren) {
+    killGroup(child, 'SIGTERM')
+  }
+}
+
+/**
+ * Run a command with /bin/sh
+ */
+async function runCommand(
+  commandString: string,
+  options: ShellExecutorOptions,
+): Promise<ShellResult> {
+  const { signal, output, cwd, env, timeout, input, stream, throwOnError } = options
+
+  logger.debug(`Executing shell command: ${commandString}`)
+
+  if (signal?.aborted) {
+    throw signal.reason
+  }
+
+  return new Promise((resolve, reject) => {
+    // Use /bin/sh to run the command in its own process group
+    const child = spawn('/bin/sh', ['-c', commandString], {
+      cwd,
+      env: buildEnv(env),
+      stdio: [input !== undefined ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+      detached: true,
+    })
+    trackChild(child)
 
-      // Handle process errors
-      child.on('error', (error) => {
-        logger.error(`Failed to run command: ${error.message}`)
-        reject(error)
+    let stdout = ''
+    let stderr = ''
+    let timedOut = false
+    let killTimer: ReturnType<typeof setTimeout> | null = null
+    let timeoutTimer: ReturnType<typeof setTimeout> | null = null
+
+    // Live output: forward each line to the action output as it arrives (stderr as warnings)
+    const stdoutLines = createLineSplitter((line) => output?.log(line))
+    const stderrLines = createLineSplitter((line) => output?.warn(line))
+
+    // Terminate the child on abort
+    const onAbort = () => {
+      logger.debug(`Aborting shell command: ${commandString}`)
+      killTimer ??= terminate(child)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    // Terminate the child when it runs longer than the timeout
+    if (timeout !== undefined) {
+      timeoutTimer = setTimeout(() => {
+        logger.debug(`Command timed out after ${timeout}ms: ${commandString}`)
+        timedOut = true
+        killTimer ??= terminate(child)
+      }, timeout)
+    }
+
+    const cleanup = () => {
+      signal?.removeEventListener('abort', onAbort)
+      if (killTimer) {
+        clearTimeout(killTimer)
+      }
+      if (timeoutTimer) {
+        clearTimeout(timeoutTimer)
+      }
+    }
+
+    // Write stdin input
+    if (input !== undefined && child.stdin) {
+      child.stdin.on('error', (error) => {
+        // The command may exit without reading its input (EPIPE)
+        logger.debug(`Failed to write command input: ${error.message}`)
       })
+      child.stdin.end(input)
+    }
+
+    // Capture stdout
+    child.stdout?.on('data', (data) => {
+      const chunk = data.toString()
+      stdout += chunk
+      if (stream) stdoutLines.push(chunk)
     })
-  }
+
+    // Capture stderr
+    child.stderr?.on('data', (data) => {
+      const chunk = data.toString()
+      stderr += chunk
+      if (stream) stderrLines.push(chunk)
+    })
+
+    // Handle process exit
+    child.on('close', (exitCode, signalCode) => {
+      cleanup()
+
+      if (stream) {
+        stdoutLines.flush()
+        stderrLines.flush()
+      }
+
+      if (signal?.aborted) {
+        logger.debug('Command terminated by abort signal')
+        reject(signal.reason)
+        return
+      }
+
+      const result: ShellResult = {
+        stdout: stdout.trimEnd(),
+        stderr: stderr.trimEnd(),
+        exitCode: exitCode ?? (signalCode ? 128 + (constants.signals[signalCode] ?? 0) : 1),
+      }
+      if (timedOut) {
+        result.timedOut = true
+      }
+
+      if (result.exitCode === 0 && !timedOut) {
+        logger.debug('Command completed successfully')
+        resolve(result)
+        return
+      }
+
+      logger.debug(`Command failed with exit code ${result.exitCode}`)
+      logger.debug(`stderr: ${stderr}`)
+
+      if (throwOnError) {
+        reject(new ShellError(commandString, result, timeout))
+        return
+      }
+
+      // Still resolve with the result (not reject), so actions can handle errors
+      resolve(result)
+    })
+
+    // Handle process errors
+    child.on('error', (error) => {
+      cleanup()
+      logger.error(`Failed to run command: ${error.message}`)
+      reject(error)
+    })
+  })
 }
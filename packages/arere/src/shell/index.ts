@@ -3,4 +3,6 @@
  */
 
 export { createShellExecutor } from './executor'
-export type { ShellResult, ShellExecutor } from '@/action/types'
+export type { ShellExecutorOptions } from './executor'
+export type { ShellResult, ShellExecutor, ShellOptions } from '@/action/types'
+export { ShellError } from '@/lib/error'
@@ -10,6 +10,7 @@ import type { ArereConfig } from '@/config/schema'
 import { t } from '@/i18n'
 import type { LoadedPlugin } from '@/plugin/types'
 import { HEADER_HEIGHT, Header } from '@/ui/components/Header'
+import { LoadErrorBanner, getLoadErrorBannerHeight } from '@/ui/components/LoadErrorBanner'
 import { PageMetaContext, PageMetaProvider } from '@/ui/hooks/PageMetaContext'
 import { useKeyboardInput } from '@/ui/hooks/app/useKeyboardInput'
 import { useKeyBindingHints } from '@/ui/hooks/useKeyBindingHints'
@@ -23,8 +24,10 @@ import { ScreenRouter } from '@/ui/routing/ScreenRouter'
 import { useExecutionStore } from '@/ui/stores/executionStore'
 import { usePromptStore } from '@/ui/stores/promptStore'
 import { useScreenStore } from '@/ui/stores/screenStore'
-import { useSettingsStore } from '@/ui/stores/settingsStore'
+import { type PluginRescanResult, useSettingsStore } from '@/ui/stores/settingsStore'
 import type { ScreenState } from '@/ui/types'
+import type { ActionListView } from '@/ui/utils/category-tree'
+import type { ActionSortMode } from '@/ui/utils/sort'
 import { Box } from 'ink'
 import React from 'react'
 import { useContext, useEffect, useMemo } from 'react'
@@ -36,6 +39,8 @@ export interface AppProps {
   keyBindings?: KeyBindingsConfig
   plugins: LoadedPlugin[]
   onPluginReload: (config: ArereConfig) => Promise<Action[]>
+  /** Re-detect plugins after plugin packages were installed, removed or updated */
+  onPluginRescan?: (config: ArereConfig) => Promise<PluginRescanResult>
   onExit: () => void
 }
 
@@ -51,6 +56,8 @@ function getPageMeta(
   actionsCount: number,
   hints: ReturnType<typeof useKeyBindingHints>,
   selectedActionName?: string,
+  sortMode?: ActionSortMode,
+  view?: ActionListView,
 ) {
   const homeBreadcrumb = t('ui:breadcrumb.home')
 
@@ -58,7 +65,7 @@ function getPageMeta(
     case 'list':
       return {
         breadcrumb: [homeBreadcrumb],
-        hint: actionsCount > 0 ? hints.list() : hints.listNoActions(),
+        hint: actionsCount > 0 ? hints.list(sortMode, view) : hints.listNoActions(),
       }
     case 'search':
       return {
@@ -72,6 +79,7 @@ function getPageMeta(
       }
     case 'success':
     case 'error':
+    case 'cancelled':
       return {
         breadcrumb: selectedActionName ? [homeBreadcrumb, selectedActionName] : [homeBreadcrumb],
         hint: hints.result(),
@@ -86,6 +94,8 @@ function getPageMeta(
     case 'settings':
     case 'plugin-list':
     case 'plugin-detail':
+    case 'history':
+    case 'run-args':
       // These screens use their own usePageMeta
       return {
         breadcrumb: undefined,
@@ -108,6 +118,7 @@ const AppMain: React.FC<AppProps> = ({
   keyBindings = defaultKeyBindings,
   plugins,
   onPluginReload,
+  onPluginRescan,
   onExit,
 }) => {
   const { meta } = useContext(PageMetaContext)
@@ -119,19 +130,22 @@ const AppMain: React.FC<AppProps> = ({
 
   const currentConfig = useSettingsStore((s) => s.currentConfig)
   const currentActions = useSettingsStore((s) => s.currentActions)
+  const actionLoadIssues = useSettingsStore((s) => s.actionLoadIssues)
   const initializeSettings = useSettingsStore((s) => s.initialize)
   const reloadLayerConfigs = useSettingsStore((s) => s.reloadLayerConfigs)
 
   const selectedAction = useExecutionStore((s) => s.selectedAction)
   const setSelectedAction = useExecutionStore((s) => s.setSelectedAction)
   const setExecutionError = useExecutionStore((s) => s.setExecutionError)
+  const abortExecution = useExecutionStore((s) => s.abortExecution)
+  const isExecuting = useExecutionStore((s) => s.abortController !== null)
 
   const { showPrompt } = usePromptStore()
 
   // Initialize stores on mount (intentionally empty deps - run once on mount)
   // biome-ignore lint/correctness/useExhaustiveDependencies: Intentional - initialization should only run once
   useEffect(() => {
-    initializeSettings(config, plugins, actions, onPluginReload)
+    initializeSettings(config, plugins, actions, onPluginReload, onPluginRescan)
     reloadLayerConfigs()
   }, [])
 
@@ -145,9 +159,12 @@ const AppMain: React.FC<AppProps> = ({
   const hints = useKeyBindingHints()
 
   // Calculate page meta with memoization
+  const sortMode = currentConfig.ui?.actionSort
+  const view = currentConfig.ui?.actionListView
   const pageMeta = useMemo(
-    () => getPageMeta(screen, currentActions.length, hints, selectedAction?.meta.name),
-    [screen, currentActions.length, hints, selectedAction?.meta.name],
+    () =>
+      getPageMeta(screen, currentActions.length, hints, selectedAction?.meta.name, sortMode, view),
+    [screen, currentActions.length, hints, selectedAction?.meta.name, sortMode, view],
   )
 
   // Set page meta for screens that don't use their own usePageMeta
@@ -160,6 +177,8 @@ const AppMain: React.FC<AppProps> = ({
     setSelectedAction,
     setSelectedPlugin: () => {}, // Not used in this context
     setExecutionError,
+    isExecuting,
+    onAbort: abortExecution,
     onExit,
   })
 
@@ -180,13 +199,14 @@ const AppMain: React.FC<AppProps> = ({
     }
   }, [])
 
-  // Content area height (terminal - header)
-  const contentHeight = rows - HEADER_HEIGHT
+  // Content area height (terminal - header - load error banner)
+  const contentHeight = rows - HEADER_HEIGHT - getLoadErrorBannerHeight(actionLoadIssues)
 
   return (
     <AppContext.Provider value={appContextValue}>
       <Box flexDirection="column" height={rows}>
         <Header breadcrumb={meta.breadcrumb} hint={meta.hint} />
+        <LoadErrorBanner issues={actionLoadIssues} />
         <Box height={contentHeight} overflow="hidden" flexGrow={1}>
           <ScreenRouter />
         </Box>
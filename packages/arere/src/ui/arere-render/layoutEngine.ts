@@ -6,7 +6,14 @@
 
 import stringWidth from 'string-width'
 import { hasModifier, shouldAlignWidth } from './parser'
-import type { LayoutResult, LayoutToken, RenderData, TextAlign, Token } from './types'
+import type {
+  HighlightSegment,
+  LayoutResult,
+  LayoutToken,
+  RenderData,
+  TextAlign,
+  Token,
+} from './types'
 
 /**
  * トークンのテキストを取得
@@ -65,22 +72,31 @@ function getTokenAlign(token: Token): TextAlign {
 
 /**
  * 表示用テキストを計算（トランケーション + パディング）
+ *
+ * @returns 表示用テキストと、その中で元のテキストが表示されている範囲
  */
 function calculateDisplayText(
   text: string,
   width: number,
   truncate: boolean,
   align: TextAlign,
-): string {
-  let displayText = text
+): Pick<LayoutToken, 'displayText' | 'textOffset' | 'visibleLength'> {
+  let visibleText = text
 
   // トランケーション（必要な場合のみ）
   if (truncate && width > 0 && stringWidth(text) > width) {
-    displayText = truncateText(displayText, width)
+    visibleText = truncateText(visibleText, width)
   }
 
   // パディング（計算された幅に合わせる、揃え方を適用）
-  return padText(displayText, width, align)
+  const displayText = padText(visibleText, width, align)
+
+  // パディングは半角スペースなので、文字数の差がパディング量になる
+  const padding = displayText.length - visibleText.length
+  const textOffset = align === 'right' ? padding : align === 'center' ? Math.floor(padding / 2) : 0
+  const visibleLength = visibleText === text ? text.length : Math.max(0, visibleText.length - 1)
+
+  return { displayText, textOffset, visibleLength }
 }
 
 /**
@@ -99,13 +115,13 @@ function toLayoutToken(
   const width = isGrow ? stringWidth(text) : calculateTokenWidth(token, text, maxWidths)
 
   // displayText は幅が確定してから計算（growの場合は後で更新）
-  const displayText = calculateDisplayText(text, width, shouldTruncate(token), align)
+  const display = calculateDisplayText(text, width, shouldTruncate(token), align)
 
   return {
     ...token,
     text,
     width,
-    displayText,
+    ...display,
     align,
   }
 }
@@ -145,7 +161,7 @@ export function calculateLayout(
   for (const token of layoutTokens) {
     if (hasModifier(token, 'grow')) {
       token.width = growWidth
-      token.displayText = calculateDisplayText(token.text, growWidth, true, token.align)
+      Object.assign(token, calculateDisplayText(token.text, growWidth, true, token.align))
     }
   }
 
@@ -244,3 +260,35 @@ export function truncateText(text: string, maxWidth: number): string {
 
   return `${result}…`
 }
+
+/**
+ * 表示用テキストを強調表示する文字とそれ以外に分割
+ *
+ * @param token - レイアウト済みトークン
+ * @param indexes - 強調表示する文字位置（元のテキスト内のインデックス）
+ * @returns 表示用テキストの断片（省略された文字は強調表示しない）
+ *
+ * @example
+ * splitHighlights(token, [0, 1]) // displayText 'deploy  ' → [{ text: 'de', highlighted: true }, { text: 'ploy  ', highlighted: false }]
+ */
+export function splitHighlights(
+  token: LayoutToken,
+  indexes: readonly number[],
+): HighlightSegment[] {
+  const marked = new Set(
+    indexes.filter((i) => i < token.visibleLength).map((i) => i + token.textOffset),
+  )
+  const segments: HighlightSegment[] = []
+
+  for (let i = 0; i < token.displayText.length; i++) {
+    const highlighted = marked.has(i)
+    const last = segments[segments.length - 1]
+    if (last && last.highlighted === highlighted) {
+      last.text += token.displayText[i]
+    } else {
+      segments.push({ text: token.displayText[i], highlighted })
+    }
+  }
+
+  return segments
+}
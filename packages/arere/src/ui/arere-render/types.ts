@@ -41,6 +41,23 @@ export interface Token {
  */
 export type RenderData = Record<string, string | undefined>
 
+/**
+ * 強調表示する文字位置（変数名 → 元のテキスト内のインデックス）
+ *
+ * 検索でマッチした文字の表示に使う
+ */
+export type RenderHighlights = Record<string, readonly number[]>
+
+/**
+ * 強調表示で分割した表示用テキストの断片
+ */
+export interface HighlightSegment {
+  /** 断片のテキスト */
+  text: string
+  /** 強調表示するかどうか */
+  highlighted: boolean
+}
+
 /**
  * レイアウト計算後のトークン情報
  */
@@ -53,6 +70,10 @@ export interface LayoutToken extends Token {
   displayText: string
   /** テキスト揃え */
   align: TextAlign
+  /** 表示用テキスト内で元のテキストが始まる位置（揃えのパディング分） */
+  textOffset: number
+  /** 表示されている元のテキストの長さ（省略時は省略記号の手前まで） */
+  visibleLength: number
 }
 
 /**
@@ -79,4 +100,6 @@ export interface ArereRenderProps {
   width: number
   /** max 修飾子用の最大幅マップ（外部で計算して渡す） */
   maxWidths?: Record<string, number>
+  /** 強調表示する文字位置 */
+  highlights?: RenderHighlights
 }
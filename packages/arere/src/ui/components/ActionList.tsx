@@ -2,38 +2,62 @@
  * Action list component with jk navigation support
  *
  * Uses Zustand stores for state and useActionExecution hook for selection.
- * ScrollArea is handled by parent Screen component.
+ * Store actions are shown in the configured sort order (bookmarks pinned to the top),
+ * either flat or folded under collapsible category headers (`ui.actionListView: 'tree'`).
+ * ScrollArea and the preview pane are handled by parent Screen component (the list toggles the preview).
  * Uses ArereRender for customizable display format.
  */
 
 import { createActionContext } from '@/action/context'
 import type { Action } from '@/action/types'
 import { parseFormat } from '@/ui/arere-render/parser'
+import type { RenderHighlights } from '@/ui/arere-render/types'
 import { createBookmarkId, isBookmarked } from '@/ui/bookmark/utils'
 import { useActionExecution } from '@/ui/hooks/useActionExecution'
+import { useActionSort } from '@/ui/hooks/useActionSort'
 import { useConfigManagement } from '@/ui/hooks/useConfigManagement'
 import { useKeyBindings } from '@/ui/hooks/useKeyBindings'
+import { usePreviewPane } from '@/ui/hooks/usePreviewPane'
 import { useTerminalSize } from '@/ui/hooks/useTerminalSize'
 import { useTheme } from '@/ui/hooks/useTheme'
 import { useSettingsStore } from '@/ui/stores/settingsStore'
-import { actionToRenderData } from '@/ui/utils/action'
-import { Box, useInput } from 'ink'
-import React, { useEffect, useMemo, useState } from 'react'
+import { actionToRenderData, getShadowedActions } from '@/ui/utils/action'
+import {
+  type ActionListRow,
+  buildCategoryTree,
+  findNextGroupRow,
+  findParentGroupRow,
+  flattenCategoryTree,
+} from '@/ui/utils/category-tree'
+import { Box, Text, useInput } from 'ink'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
 import { ArereRender, calculateMaxWidths } from './ArereRender'
 
 /** Scroll info for parent ScrollArea */
 export interface ActionListScrollInfo {
   selectedIndex: number
   itemHeight: number
+  /** Height of each row when they differ (tree view: group headers have a margin) */
+  itemHeights?: number[]
 }
 
 export interface ActionListProps {
-  /** Optional actions to display. If not provided, uses store. */
+  /** Optional actions to display in the given order. If not provided, uses store (sorted). */
   actions?: Action[]
   /** Optional custom select handler. If not provided, uses useActionExecution. */
   onSelect?: (action: Action) => void
+  /** Optional custom "run with arguments" handler. If not provided, opens the argument form. */
+  onRunWithArgs?: (action: Action) => void
   /** Callback to notify parent of scroll-related state changes */
   onScrollInfoChange?: (info: ActionListScrollInfo) => void
+  /** Matched characters to highlight per action (search results) */
+  highlights?: Map<Action, RenderHighlights>
+  /** Whether the list handles keyboard input (default: true) */
+  isActive?: boolean
+  /** Columns available to the list (default: terminal width, narrower beside the preview) */
+  width?: number
+  /** Callback when the selected action changes (undefined on a category header) */
+  onSelectionChange?: (action: Action | undefined) => void
 }
 
 /**
@@ -41,10 +65,44 @@ export interface ActionListProps {
  */
 const LAYOUT_MARGIN = 2
 
+/**
+ * Indentation per tree level
+ */
+const TREE_INDENT = 2
+
+/**
+ * Stable key of an action row
+ *
+ * Actions are keyed by file: the same qualified id can be listed more than once
+ * when an action shadows another one with the same id.
+ */
+function getActionRowKey(action: Action): string {
+  return `action:${action.filePath}`
+}
+
+/**
+ * Stable key of a row (to keep it selected when rows change)
+ */
+function getRowKey(row: ActionListRow): string {
+  return row.type === 'group' ? `group:${row.key}` : getActionRowKey(row.action)
+}
+
+/**
+ * Whether a row is a top-level group header separated from the rows above by a blank line
+ */
+function hasGroupMargin(row: ActionListRow, index: number): boolean {
+  return row.type === 'group' && row.depth === 0 && index > 0
+}
+
 export const ActionList: React.FC<ActionListProps> = ({
   actions: propActions,
   onSelect,
+  onRunWithArgs,
   onScrollInfoChange,
+  highlights,
+  isActive = true,
+  width,
+  onSelectionChange,
 }) => {
   const [selectedIndex, setSelectedIndex] = useState(0)
   const { primaryColor } = useTheme()
@@ -57,25 +115,48 @@ export const ActionList: React.FC<ActionListProps> = ({
   // So ui.bookmarkIcon and ui.actionListFormat are guaranteed to exist
   const bookmarkIcon = currentConfig.ui?.bookmarkIcon ?? '🔖'
   const format = currentConfig.ui?.actionListFormat ?? '${name}'
-  const { runAction } = useActionExecution()
+  const { runAction, openArgsForm } = useActionExecution()
+  const setCurrentConfig = useSettingsStore((s) => s.setCurrentConfig)
   const { saveConfig } = useConfigManagement()
   const { columns } = useTerminalSize()
 
-  // Use prop actions if provided, otherwise use store
-  const rawActions = propActions ?? storeActions
+  const { sortedActions, cycleSortMode } = useActionSort(storeActions)
+  const { togglePreview } = usePreviewPane()
+
+  // Use prop actions if provided, otherwise use sorted store actions
+  const actions = propActions ?? sortedActions
   const handleSelect = onSelect ?? runAction
+  const handleRunWithArgs = onRunWithArgs ?? openArgsForm
 
   // Get current bookmarks
   const bookmarks = getBookmarks()
 
-  // Use actions directly without sorting
-  const actions = rawActions
+  // Rows: one per action, or category headers and actions in the tree view (store actions only)
+  const isTree = !propActions && currentConfig.ui?.actionListView === 'tree'
+  const collapsedCategories = currentConfig.ui?.collapsedCategories
+  const rows = useMemo<ActionListRow[]>(
+    () =>
+      isTree
+        ? flattenCategoryTree(buildCategoryTree(actions), new Set(collapsedCategories))
+        : actions.map((action) => ({ type: 'action', action, depth: 0 })),
+    [isTree, actions, collapsedCategories],
+  )
+  const itemHeights = useMemo(
+    () => (isTree ? rows.map((row, index) => (hasGroupMargin(row, index) ? 2 : 1)) : undefined),
+    [isTree, rows],
+  )
+
+  // Row to keep selected when the rows change (bookmark pinned, sort mode switched, group folded)
+  const followRowKey = useRef<string | null>(null)
+
+  // Shadowing follows registration order, so it is computed from all loaded actions
+  const shadowedActions = useMemo(() => getShadowedActions(storeActions), [storeActions])
 
   // Parse format string once (memoized)
   const tokens = useMemo(() => parseFormat(format), [format])
 
   // Calculate available width
-  const availableWidth = columns - LAYOUT_MARGIN
+  const availableWidth = (width ?? columns) - LAYOUT_MARGIN
 
   // Prepare render data for all actions (for maxWidths calculation)
   const allRenderData = useMemo(() => {
@@ -93,9 +174,10 @@ export const ActionList: React.FC<ActionListProps> = ({
         isSelected: false, // Selection state doesn't affect maxWidths
         isBookmarked: bookmarked,
         bookmarkIcon,
+        shadowedBy: shadowedActions.get(action),
       })
     })
-  }, [actions, bookmarks, bookmarkIcon, currentConfig])
+  }, [actions, bookmarks, bookmarkIcon, currentConfig, shadowedActions])
 
   // Calculate max widths for :max tokens
   const maxWidths = useMemo(
@@ -103,40 +185,87 @@ export const ActionList: React.FC<ActionListProps> = ({
     [tokens, allRenderData],
   )
 
+  useEffect(() => {
+    if (followRowKey.current === null) {
+      return
+    }
+    const index = rows.findIndex((row) => getRowKey(row) === followRowKey.current)
+    followRowKey.current = null
+    if (index !== -1) {
+      setSelectedIndex(index)
+    }
+  }, [rows])
+
+  // Keep selection in range when the list shrinks (e.g., action removed by hot reload)
+  useEffect(() => {
+    if (selectedIndex >= rows.length && rows.length > 0) {
+      setSelectedIndex(rows.length - 1)
+    }
+  }, [rows.length, selectedIndex])
+
+  /**
+   * Expand or collapse a category group and remember it
+   */
+  const setGroupExpanded = (groupKey: string, expanded: boolean) => {
+    const current = currentConfig.ui?.collapsedCategories ?? []
+    const next = expanded
+      ? current.filter((k) => k !== groupKey)
+      : [...current.filter((k) => k !== groupKey), groupKey]
+
+    // Update local state, then persist to config file
+    followRowKey.current = `group:${groupKey}`
+    setCurrentConfig({ ...currentConfig, ui: { ...currentConfig.ui, collapsedCategories: next } })
+    saveConfig('ui.collapsedCategories', next, currentLayer)
+  }
+
   const kb = useKeyBindings()
 
   useInput(
     (input, key) => {
+      const selectedRow = rows[selectedIndex]
+      const selectedAction = selectedRow?.type === 'action' ? selectedRow.action : undefined
+
       // Navigation: up (with wrap-around)
       if (kb.list.up(input, key)) {
-        setSelectedIndex((prev) => (prev - 1 + actions.length) % actions.length)
+        setSelectedIndex((prev) => (prev - 1 + rows.length) % rows.length)
         return
       }
 
       // Navigation: down (with wrap-around)
       if (kb.list.down(input, key)) {
-        setSelectedIndex((prev) => (prev + 1) % actions.length)
+        setSelectedIndex((prev) => (prev + 1) % rows.length)
         return
       }
 
-      // Select
+      // Select (run the action, or fold the group)
       if (kb.list.select(input, key)) {
-        if (actions[selectedIndex]) {
-          handleSelect(actions[selectedIndex])
+        if (selectedRow?.type === 'group') {
+          setGroupExpanded(selectedRow.key, !selectedRow.expanded)
+        } else if (selectedAction) {
+          handleSelect(selectedAction)
+        }
+        return
+      }
+
+      // Run with arguments entered in a form
+      if (kb.list.runWithArgs(input, key)) {
+        if (selectedAction) {
+          handleRunWithArgs(selectedAction)
         }
         return
       }
 
       // Toggle bookmark
       if (kb.list.bookmark(input, key)) {
-        if (actions[selectedIndex]) {
-          const bookmarkId = createBookmarkId(actions[selectedIndex])
+        if (selectedAction) {
+          const bookmarkId = createBookmarkId(selectedAction)
           const currentBookmarks = getBookmarks()
           const newBookmarks = currentBookmarks.includes(bookmarkId)
             ? currentBookmarks.filter((b) => b !== bookmarkId)
             : [...currentBookmarks, bookmarkId]
 
           // Update local state
+          followRowKey.current = getActionRowKey(selectedAction)
           toggleBookmark(bookmarkId)
 
           // Persist to config file
@@ -144,22 +273,94 @@ export const ActionList: React.FC<ActionListProps> = ({
         }
         return
       }
+
+      // Show or hide the preview pane
+      if (kb.list.preview(input, key)) {
+        togglePreview()
+        return
+      }
+
+      // Switch sort mode (store actions only; given actions keep their order)
+      if (kb.list.sort(input, key) && !propActions) {
+        if (selectedRow) {
+          followRowKey.current = getRowKey(selectedRow)
+        }
+        cycleSortMode()
+        return
+      }
+
+      if (!isTree || !selectedRow) {
+        return
+      }
+
+      // Expand the selected group
+      if (kb.list.expand(input, key)) {
+        if (selectedRow.type === 'group' && !selectedRow.expanded) {
+          setGroupExpanded(selectedRow.key, true)
+        }
+        return
+      }
+
+      // Collapse the selected group, or move to the enclosing group
+      if (kb.list.collapse(input, key)) {
+        if (selectedRow.type === 'group' && selectedRow.expanded) {
+          setGroupExpanded(selectedRow.key, false)
+        } else {
+          const parent = findParentGroupRow(rows, selectedIndex)
+          if (parent !== -1) {
+            setSelectedIndex(parent)
+          }
+        }
+        return
+      }
+
+      // Jump between groups
+      if (kb.list.nextGroup(input, key) || kb.list.prevGroup(input, key)) {
+        const direction = kb.list.nextGroup(input, key) ? 1 : -1
+        setSelectedIndex(findNextGroupRow(rows, selectedIndex, direction))
+        return
+      }
     },
-    { isActive: true },
+    { isActive },
   )
 
-  // Item height is always 1 (single line layout)
+  // Item height is 1 (single line layout); tree group headers may take an extra line
   const itemHeight = 1
 
   // Notify parent of scroll info changes
   useEffect(() => {
-    onScrollInfoChange?.({ selectedIndex, itemHeight })
-  }, [selectedIndex, onScrollInfoChange])
+    onScrollInfoChange?.({ selectedIndex, itemHeight, itemHeights })
+  }, [selectedIndex, itemHeights, onScrollInfoChange])
+
+  // Notify parent of the selected action (for the preview pane)
+  const selectedRow = rows[selectedIndex]
+  const selectedAction = selectedRow?.type === 'action' ? selectedRow.action : undefined
+  useEffect(() => {
+    onSelectionChange?.(selectedAction)
+  }, [selectedAction, onSelectionChange])
 
   return (
     <Box flexDirection="column" flexGrow={1}>
-      {actions.map((action, index) => {
+      {rows.map((row, index) => {
         const isSelected = index === selectedIndex
+
+        if (row.type === 'group') {
+          return (
+            <Box
+              key={getRowKey(row)}
+              marginTop={hasGroupMargin(row, index) ? 1 : 0}
+              paddingLeft={row.depth * TREE_INDENT}
+            >
+              <Text color={isSelected ? primaryColor : undefined} bold>
+                {isSelected ? '❯ ' : '  '}
+                {row.expanded ? '▾' : '▸'} {row.label}
+              </Text>
+              <Text dimColor> ({row.count})</Text>
+            </Box>
+          )
+        }
+
+        const { action, depth } = row
         const bookmarked = isBookmarked(action, bookmarks)
         const { context } = createActionContext({
           actionName: action.meta.name,
@@ -173,19 +374,30 @@ export const ActionList: React.FC<ActionListProps> = ({
           isSelected,
           isBookmarked: bookmarked,
           bookmarkIcon,
+          shadowedBy: shadowedActions.get(action),
         })
 
-        return (
+        const indent = depth * TREE_INDENT
+        const item = (
           <ArereRender
-            key={action.meta.name}
+            key={getRowKey(row)}
             format={format}
             data={data}
-            width={availableWidth}
+            width={availableWidth - indent}
             maxWidths={maxWidths}
             isSelected={isSelected}
             primaryColor={primaryColor}
+            highlights={highlights?.get(action)}
           />
         )
+
+        return indent > 0 ? (
+          <Box key={getRowKey(row)} paddingLeft={indent}>
+            {item}
+          </Box>
+        ) : (
+          item
+        )
       })}
     </Box>
   )
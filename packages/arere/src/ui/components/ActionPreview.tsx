@@ -0,0 +1,169 @@
+/**
+ * Action preview pane
+ *
+ * Shows the selected action beside the list: full description, tags, plugin and version,
+ * file path, CLI arguments and a highlighted excerpt of the source.
+ * Arguments and source are read shortly after the selection settles, so scrolling
+ * through the list does not parse every action on the way.
+ */
+
+import { formatArgDescription, formatArgOption } from '@/action/args/analyzer'
+import { createActionContext } from '@/action/context'
+import type { Action } from '@/action/types'
+import { t } from '@/i18n/index'
+import { useTheme } from '@/ui/hooks/useTheme'
+import { useSettingsStore } from '@/ui/stores/settingsStore'
+import { evaluateDescription, formatTags } from '@/ui/utils/action'
+import type { CodeTokenKind } from '@/ui/utils/highlight'
+import { type ActionPreviewDetails, loadActionPreviewDetails } from '@/ui/utils/preview'
+import { Box, Text } from 'ink'
+import React, { useEffect, useMemo, useState } from 'react'
+
+/**
+ * Delay before reading the selected action (milliseconds)
+ */
+export const PREVIEW_LOAD_DELAY = 100
+
+/**
+ * Colors of highlighted source tokens
+ */
+const CODE_COLORS: Record<CodeTokenKind, string | undefined> = {
+  keyword: 'magenta',
+  string: 'yellow',
+  comment: 'gray',
+  number: 'cyan',
+  plain: undefined,
+}
+
+export interface ActionPreviewProps {
+  /** Action to preview (undefined when a category header or nothing is selected) */
+  action?: Action
+  /** Width of the pane */
+  width: number
+  /** Height of the pane */
+  height: number
+}
+
+/**
+ * A labeled detail row
+ */
+const DetailRow: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <Text wrap="truncate-middle">
+    <Text dimColor>{label}: </Text>
+    {value}
+  </Text>
+)
+
+export const ActionPreview: React.FC<ActionPreviewProps> = ({ action, width, height }) => {
+  const { primaryColor } = useTheme()
+  const currentConfig = useSettingsStore((s) => s.currentConfig)
+  const currentPlugins = useSettingsStore((s) => s.currentPlugins)
+  const [loaded, setLoaded] = useState<{ action: Action; details: ActionPreviewDetails } | null>(
+    null,
+  )
+
+  // Read arguments and source once the selection settles
+  useEffect(() => {
+    if (!action) {
+      return
+    }
+    const timer = setTimeout(() => {
+      setLoaded({ action, details: loadActionPreviewDetails(action) })
+    }, PREVIEW_LOAD_DELAY)
+    return () => clearTimeout(timer)
+  }, [action])
+
+  const description = useMemo(() => {
+    if (!action) return ''
+    const { context } = createActionContext({
+      actionName: action.meta.name,
+      config: currentConfig,
+      pluginNamespace: action.pluginNamespace,
+    })
+    return evaluateDescription(action.meta.description, context, action.meta.name)
+  }, [action, currentConfig])
+
+  const plugin = action?.pluginMeta
+    ? currentPlugins.find((p) => p.meta.name === action.pluginMeta?.name)
+    : undefined
+  const details = loaded && loaded.action === action ? loaded.details : null
+
+  return (
+    <Box
+      flexDirection="column"
+      width={width}
+      height={height}
+      borderStyle="round"
+      borderColor="gray"
+      paddingX={1}
+      overflow="hidden"
+    >
+      {!action ? (
+        <Text dimColor>{t('ui:preview.empty')}</Text>
+      ) : (
+        <>
+          <Text bold color={primaryColor} wrap="truncate">
+            {action.meta.name}
+          </Text>
+          {description && <Text>{description}</Text>}
+
+          <Box flexDirection="column" marginTop={1}>
+            {action.meta.tags && action.meta.tags.length > 0 && (
+              <DetailRow label={t('ui:preview.tags')} value={formatTags(action.meta.tags)} />
+            )}
+            {action.pluginMeta && (
+              <DetailRow
+                label={t('ui:preview.plugin')}
+                value={
+                  plugin ? `${plugin.meta.name}@${plugin.meta.version}` : action.pluginMeta.name
+                }
+              />
+            )}
+            <DetailRow label={t('ui:preview.file')} value={action.filePath} />
+          </Box>
+
+          {details && (
+            <>
+              <Box flexDirection="column" marginTop={1}>
+                <Text bold>{t('ui:preview.args')}</Text>
+                {details.args.length === 0 ? (
+                  <Text dimColor>{t('ui:preview.no_args')}</Text>
+                ) : (
+                  details.args.map((arg, index) => (
+                    <Text key={`${arg.name ?? arg.short ?? arg.index}-${index}`} wrap="truncate">
+                      <Text color={primaryColor}>{formatArgOption(arg)}</Text>
+                      <Text dimColor> {formatArgDescription(arg)}</Text>
+                    </Text>
+                  ))
+                )}
+              </Box>
+
+              <Box flexDirection="column" marginTop={1}>
+                <Text bold>{t('ui:preview.source')}</Text>
+                {details.source === null ? (
+                  <Text dimColor>{t('ui:preview.no_source')}</Text>
+                ) : (
+                  details.source.map((line, lineIndex) => (
+                    // biome-ignore lint/suspicious/noArrayIndexKey: Source lines have no stable id
+                    <Text key={lineIndex} wrap="truncate">
+                      {line.length === 0
+                        ? ' '
+                        : line.map((token, tokenIndex) => (
+                            <Text
+                              key={`${tokenIndex}-${token.text}`}
+                              color={CODE_COLORS[token.kind]}
+                            >
+                              {token.text}
+                            </Text>
+                          ))}
+                    </Text>
+                  ))
+                )}
+              </Box>
+            </>
+          )}
+        </>
+      )}
+    </Box>
+  )
+}
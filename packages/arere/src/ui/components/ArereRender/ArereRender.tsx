@@ -39,6 +39,7 @@ export const ArereRender: React.FC<ArereRenderComponentProps> = ({
   width,
   maxWidths = {},
   primaryColor = 'green',
+  highlights,
 }) => {
   // フォーマット文字列をパース（メモ化）
   const tokens = useMemo(() => parseFormat(format), [format])
@@ -55,6 +56,7 @@ export const ArereRender: React.FC<ArereRenderComponentProps> = ({
         tokens={layout.tokens}
         isSelected={isSelected}
         primaryColor={primaryColor}
+        highlights={highlights}
       />
     </Box>
   )
@@ -5,8 +5,8 @@
  * トランケーション・パディングはDomain層（layoutEngine）で処理済み
  */
 
-import { hasModifier } from '@/ui/arere-render'
-import type { LayoutToken } from '@/ui/arere-render/types'
+import { hasModifier, splitHighlights } from '@/ui/arere-render'
+import type { LayoutToken, RenderHighlights } from '@/ui/arere-render/types'
 import { Text } from 'ink'
 import React from 'react'
 
@@ -17,6 +17,8 @@ export interface TokenRendererProps {
   isSelected: boolean
   /** プライマリカラー */
   primaryColor: string
+  /** 強調表示する文字位置 */
+  highlights?: readonly number[]
 }
 
 /**
@@ -26,6 +28,7 @@ export const TokenRenderer: React.FC<TokenRendererProps> = ({
   token,
   isSelected,
   primaryColor,
+  highlights,
 }) => {
   // 色の決定
   const hasPrimary = hasModifier(token, 'primary')
@@ -35,9 +38,23 @@ export const TokenRenderer: React.FC<TokenRendererProps> = ({
   const hasDim = hasModifier(token, 'dim')
   const dimColor = hasDim && !isSelected
 
+  // 強調表示する文字は太字 + プライマリカラー
+  const content =
+    highlights && highlights.length > 0
+      ? splitHighlights(token, highlights).map((segment, index) =>
+          segment.highlighted ? (
+            <Text key={`${index}-${segment.text}`} bold color={primaryColor}>
+              {segment.text}
+            </Text>
+          ) : (
+            segment.text
+          ),
+        )
+      : token.displayText
+
   return (
     <Text color={color} dimColor={dimColor} wrap="truncate">
-      {token.displayText}
+      {content}
     </Text>
   )
 }
@@ -49,6 +66,8 @@ export interface TokenListRendererProps {
   isSelected: boolean
   /** プライマリカラー */
   primaryColor: string
+  /** 強調表示する文字位置（変数名 → インデックス） */
+  highlights?: RenderHighlights
 }
 
 /**
@@ -58,6 +77,7 @@ export const TokenListRenderer: React.FC<TokenListRendererProps> = ({
   tokens,
   isSelected,
   primaryColor,
+  highlights,
 }) => {
   return (
     <>
@@ -67,6 +87,7 @@ export const TokenListRenderer: React.FC<TokenListRendererProps> = ({
           token={token}
           isSelected={isSelected}
           primaryColor={primaryColor}
+          highlights={token.type === 'variable' ? highlights?.[token.value] : undefined}
         />
       ))}
     </>
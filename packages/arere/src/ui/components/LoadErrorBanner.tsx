@@ -0,0 +1,56 @@
+/**
+ * Load error banner component
+ *
+ * Shows action files that failed to load (e.g., after a hot reload)
+ * without interrupting the current screen.
+ */
+
+import { t } from '@/i18n/index'
+import { useTheme } from '@/ui/hooks/useTheme'
+import type { ActionLoadIssue } from '@/ui/stores/settingsStore'
+import { Box, Text } from 'ink'
+import React from 'react'
+
+/** Maximum number of failing files listed before collapsing into a summary line */
+const MAX_VISIBLE_ISSUES = 3
+
+export interface LoadErrorBannerProps {
+  issues: ActionLoadIssue[]
+}
+
+/**
+ * Calculate the banner height in lines
+ *
+ * @param issues - Current load issues
+ * @returns Number of lines the banner occupies (0 when hidden)
+ */
+export function getLoadErrorBannerHeight(issues: ActionLoadIssue[]): number {
+  if (issues.length === 0) return 0
+  const overflowLine = issues.length > MAX_VISIBLE_ISSUES ? 1 : 0
+  // title + issues + overflow line
+  return 1 + Math.min(issues.length, MAX_VISIBLE_ISSUES) + overflowLine
+}
+
+export const LoadErrorBanner: React.FC<LoadErrorBannerProps> = ({ issues }) => {
+  const { warningColor } = useTheme()
+
+  if (issues.length === 0) {
+    return null
+  }
+
+  const visible = issues.slice(0, MAX_VISIBLE_ISSUES)
+  const hiddenCount = issues.length - visible.length
+
+  return (
+    <Box flexDirection="column" paddingX={1}>
+      <Text color={warningColor}>{t('ui:reload.errors_title', { count: issues.length })}</Text>
+      {visible.map((issue) => (
+        <Text key={issue.filePath} wrap="truncate-end">
+          <Text dimColor>{issue.filePath}: </Text>
+          <Text>{issue.message}</Text>
+        </Text>
+      ))}
+      {hiddenCount > 0 && <Text dimColor>{t('ui:reload.more', { count: hiddenCount })}</Text>}
+    </Box>
+  )
+}
@@ -162,7 +162,10 @@ export function OutputRenderer({ messages }: OutputRendererProps) {
   return (
     <Box flexDirection="column" marginTop={1}>
       {messages.map((message, index) => (
-        <OutputMessageRenderer key={`${message.timestamp}-${index}`} message={message} />
+        // Output of actions run via ctx.runAction is indented by nesting level
+        <Box key={`${message.timestamp}-${index}`} paddingLeft={(message.meta?.depth ?? 0) * 2}>
+          <OutputMessageRenderer message={message} />
+        </Box>
       ))}
     </Box>
   )
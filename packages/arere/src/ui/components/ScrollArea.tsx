@@ -59,6 +59,8 @@ export interface ScrollAreaProps {
   followIndex?: number
   /** Height of each item when using followIndex */
   itemHeight?: number
+  /** Heights of the items when they differ (e.g. group headers with a margin), overrides itemHeight */
+  itemHeights?: number[]
   /** Children to render inside the scroll area */
   children: React.ReactNode
 }
@@ -91,6 +93,7 @@ export const ScrollArea: React.FC<ScrollAreaProps> = ({
   showScrollbar = false,
   followIndex,
   itemHeight = 1,
+  itemHeights,
   children,
 }) => {
   const [internalScrollTop, setInternalScrollTop] = useState(0)
@@ -129,8 +132,10 @@ export const ScrollArea: React.FC<ScrollAreaProps> = ({
   useEffect(() => {
     if (followIndex === undefined) return
 
-    const itemTop = followIndex * itemHeight
-    const itemBottom = itemTop + itemHeight
+    const itemTop = itemHeights
+      ? itemHeights.slice(0, followIndex).reduce((sum, h) => sum + h, 0)
+      : followIndex * itemHeight
+    const itemBottom = itemTop + (itemHeights?.[followIndex] ?? itemHeight)
 
     // If item is above visible area, scroll up
     if (itemTop < scrollTop) {
@@ -140,7 +145,7 @@ export const ScrollArea: React.FC<ScrollAreaProps> = ({
     else if (itemBottom > scrollTop + height) {
       handleScroll(itemBottom - height)
     }
-  }, [followIndex, itemHeight, scrollTop, height, handleScroll])
+  }, [followIndex, itemHeight, itemHeights, scrollTop, height, handleScroll])
 
   // Determine if scrollbar should be shown
   const isScrollable = innerHeight > height
@@ -0,0 +1,38 @@
+/**
+ * Step results component
+ *
+ * Lists the nested actions of a run (`dependsOn`, `ctx.runAction`, workflow steps)
+ * with their outcome, indented by nesting level.
+ */
+
+import type { StepResult } from '@/action/executor'
+import { t } from '@/i18n/index'
+import { useTheme } from '@/ui/hooks/useTheme'
+import { Box, Text } from 'ink'
+import React from 'react'
+
+export interface StepResultsProps {
+  steps: StepResult[]
+}
+
+export const StepResults: React.FC<StepResultsProps> = ({ steps }) => {
+  const { successColor, errorColor } = useTheme()
+
+  if (steps.length === 0) {
+    return null
+  }
+
+  return (
+    <Box flexDirection="column">
+      <Text bold>{t('ui:steps.title')}</Text>
+      {steps.map((step, index) => (
+        <Box key={`${step.name}-${index}`} paddingLeft={step.depth * 2}>
+          <Text>
+            <Text color={step.success ? successColor : errorColor}>{step.success ? '✔' : '✖'}</Text>{' '}
+            {step.name} <Text dimColor>{t('ui:steps.duration', { ms: step.duration })}</Text>
+          </Text>
+        </Box>
+      ))}
+    </Box>
+  )
+}
@@ -16,6 +16,9 @@ export interface UseKeyboardInputProps {
   setSelectedAction: (action: Action | null) => void
   setSelectedPlugin: (plugin: LoadedPlugin | null) => void
   setExecutionError: (error: Error | null) => void
+  /** Whether an action is running (it may be waiting on a prompt) */
+  isExecuting?: boolean
+  onAbort?: () => void
   onExit: () => void
 }
 
@@ -32,6 +35,8 @@ export interface UseKeyboardInputProps {
  *   setSelectedAction,
  *   setSelectedPlugin,
  *   setExecutionError,
+ *   isExecuting,
+ *   onAbort,
  *   onExit,
  * })
  * ```
@@ -42,18 +47,36 @@ export function useKeyboardInput({
   setSelectedAction,
   setSelectedPlugin,
   setExecutionError,
+  isExecuting = false,
+  onAbort,
   onExit,
 }: UseKeyboardInputProps): void {
   const kb = useKeyBindings()
 
+  // Prompt screens handle their own keys; only abort is handled there (while an action runs)
+  const isPromptScreen = screen === 'input' || screen === 'run-args'
+
   useInput(
     (input, key) => {
+      if (isPromptScreen) {
+        if (kb.global.abort(input, key)) {
+          onAbort?.()
+        }
+        return
+      }
+
       // Exit
       if (kb.global.exit(input, key)) {
         onExit()
         return
       }
 
+      // Abort the running action
+      if (kb.global.abort(input, key) && screen === 'executing') {
+        onAbort?.()
+        return
+      }
+
       // Search
       if (kb.global.search(input, key) && screen === 'list') {
         setScreen('search')
@@ -61,7 +84,10 @@ export function useKeyboardInput({
       }
 
       // Confirm (Enter) to return to list from success/error screens
-      if (kb.global.confirm(input, key) && (screen === 'success' || screen === 'error')) {
+      if (
+        kb.global.confirm(input, key) &&
+        (screen === 'success' || screen === 'error' || screen === 'cancelled')
+      ) {
         setScreen('list')
         setSelectedAction(null)
         setExecutionError(null)
@@ -76,13 +102,14 @@ export function useKeyboardInput({
           screen === 'help' ||
           screen === 'error' ||
           screen === 'success' ||
+          screen === 'cancelled' ||
           screen === 'search'
         ) {
           setScreen('list')
           setSelectedAction(null)
           setExecutionError(null)
         }
-        // Note: 'settings' and 'plugin-detail' screens handle their own Escape key internally
+        // Note: 'settings', 'plugin-detail' and 'history' screens handle their own Escape key internally
       }
 
       // Help
@@ -94,7 +121,12 @@ export function useKeyboardInput({
       if (kb.global.settings(input, key) && screen === 'list') {
         setScreen('settings')
       }
+
+      // History
+      if (kb.global.history(input, key) && screen === 'list') {
+        setScreen('history')
+      }
     },
-    { isActive: screen !== 'input' && screen !== 'search' },
+    { isActive: isPromptScreen ? isExecuting : screen !== 'search' },
   )
 }
@@ -5,8 +5,11 @@
  * and error handling.
  */
 
+import type { Answers } from '@/action/args/answers'
 import type { Action } from '@/action/types'
 import { useExecutionStore } from '@/ui/stores/executionStore'
+import { usePromptStore } from '@/ui/stores/promptStore'
+import { useRunArgsStore } from '@/ui/stores/runArgsStore'
 import { useScreenStore } from '@/ui/stores/screenStore'
 import { useSettingsStore } from '@/ui/stores/settingsStore'
 
@@ -15,52 +18,103 @@ import { useSettingsStore } from '@/ui/stores/settingsStore'
  *
  * @example
  * ```tsx
- * const { runAction } = useActionExecution()
+ * const { runAction, openArgsForm } = useActionExecution()
  *
  * const handleSelect = (action: Action) => {
  *   runAction(action)
  * }
+ *
+ * // Re-run with the arguments of a previous run
+ * runAction(action, record.args)
+ *
+ * // Enter the arguments in a form first
+ * openArgsForm(action)
  * ```
  */
 export function useActionExecution() {
+  const screen = useScreenStore((s) => s.screen)
   const setScreen = useScreenStore((s) => s.setScreen)
+  const openForm = useRunArgsStore((s) => s.openForm)
   const {
     setSelectedAction,
     setExecutionError,
     setExecutionDuration,
     addOutputMessage,
+    setStepResults,
     setVisualFeedback,
+    setAbortController,
     resetExecution,
   } = useExecutionStore()
   const currentPlugins = useSettingsStore((s) => s.currentPlugins)
   const currentConfig = useSettingsStore((s) => s.currentConfig)
+  const currentActions = useSettingsStore((s) => s.currentActions)
 
-  const runAction = async (action: Action) => {
+  const runAction = async (action: Action, args: string[] = [], answers?: Answers) => {
     setSelectedAction(action)
     resetExecution()
     setScreen('executing')
 
     const startTime = Date.now()
+    const abortController = new AbortController()
+    setAbortController(abortController)
 
     try {
       // Import dynamically to avoid circular dependencies
       const { runAction: run } = await import('@/action/executor')
+      const { createRunRecord, historyManager } = await import('@/action/history')
+      const { usageManager } = await import('@/action/usage')
+      const { ActionRegistry } = await import('@/action/registry')
+
+      // Resolve dependsOn / ctx.runAction against the actions currently shown
+      const registry = new ActionRegistry()
+      for (const loaded of currentActions) {
+        registry.register(loaded)
+      }
 
-      await run(action, {
+      const result = await run(action, {
+        args,
         plugins: currentPlugins,
         config: currentConfig,
         onOutput: addOutputMessage,
         onVisualFeedback: setVisualFeedback,
+        signal: abortController.signal,
+        registry,
+        // Answers kept out of the recorded arguments (password values)
+        promptAnswers: answers && { answers },
+        // Declared arguments not given on the command line are asked as a form first
+        argvPrompt: 'all',
       })
 
+      setAbortController(null)
+      setStepResults(result.steps ?? [])
       setExecutionDuration(Date.now() - startTime)
-      setScreen('success')
+      const record = createRunRecord(action, args, startTime, result)
+      historyManager.add(record)
+      usageManager.record(record.actionId, record.startedAt)
+
+      if (result.cancelled) {
+        // Drop any prompt the cancelled action was waiting on
+        usePromptStore.getState().resetPrompt()
+        setScreen('cancelled')
+      } else if (!result.success) {
+        setExecutionError(result.error ?? null)
+        setScreen('error')
+      } else {
+        setScreen('success')
+      }
     } catch (error) {
+      setAbortController(null)
       setExecutionDuration(Date.now() - startTime)
       setExecutionError(error instanceof Error ? error : new Error(String(error)))
       setScreen('error')
     }
   }
 
-  return { runAction }
+  // Open the argument form of an action (it runs the action with the entered arguments)
+  const openArgsForm = (action: Action) => {
+    openForm(action, screen)
+    setScreen('run-args')
+  }
+
+  return { runAction, openArgsForm }
 }
@@ -0,0 +1,56 @@
+/**
+ * useActionSort - Hook for the action list order
+ *
+ * Sorts actions by the configured sort mode (`ui.actionSort`) with bookmarks pinned to the top.
+ */
+
+import type { Action } from '@/action/types'
+import { type ActionUsageMap, usageManager } from '@/action/usage'
+import type { BookmarkId } from '@/ui/bookmark'
+import { useConfigManagement } from '@/ui/hooks/useConfigManagement'
+import { useSettingsStore } from '@/ui/stores/settingsStore'
+import { type ActionSortMode, getNextSortMode, sortActions } from '@/ui/utils/sort'
+import { useMemo, useState } from 'react'
+
+/**
+ * Hook for the action list order
+ *
+ * Usage is read once on mount; screens are remounted after each run.
+ *
+ * @param actions - Actions in registry order
+ *
+ * @example
+ * ```tsx
+ * const { sortedActions, cycleSortMode } = useActionSort(actions)
+ * ```
+ */
+export function useActionSort(actions: Action[]): {
+  /** Current sort mode */
+  sortMode: ActionSortMode
+  /** Actions in display order */
+  sortedActions: Action[]
+  /** Usage statistics */
+  usage: ActionUsageMap
+  /** Switch to the next sort mode and save it */
+  cycleSortMode: () => void
+} {
+  const currentConfig = useSettingsStore((s) => s.currentConfig)
+  const currentLayer = useSettingsStore((s) => s.currentLayer)
+  const { saveConfig } = useConfigManagement()
+  const [usage] = useState(() => usageManager.getAll())
+
+  const sortMode = currentConfig.ui?.actionSort ?? 'registry'
+  const bookmarks = currentConfig.bookmarks
+
+  const sortedActions = useMemo(
+    () =>
+      sortActions(actions, { mode: sortMode, bookmarks: (bookmarks ?? []) as BookmarkId[], usage }),
+    [actions, sortMode, bookmarks, usage],
+  )
+
+  const cycleSortMode = () => {
+    saveConfig('ui.actionSort', getNextSortMode(sortMode), currentLayer)
+  }
+
+  return { sortMode, sortedActions, usage, cycleSortMode }
+}
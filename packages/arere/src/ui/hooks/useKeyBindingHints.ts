@@ -6,6 +6,8 @@
 
 import { t } from '@/i18n/index'
 import { defaultKeyBindings } from '@/ui/keybindings'
+import type { ActionListView } from '@/ui/utils/category-tree'
+import type { ActionSortMode } from '@/ui/utils/sort'
 import { useMemo } from 'react'
 import { type HintItem, formatHints } from '../utils/keybindingHints'
 import { useKeyBindings } from './useKeyBindings'
@@ -30,13 +32,35 @@ export function useKeyBindingHints() {
     return {
       /**
        * list画面用ヒント
-       * "q: 終了 | /: 検索 | Tab: ブックマーク | ?: ヘルプ | s: 設定"
+       * "q: 終了 | /: 検索 | Tab: ブックマーク | o: 並び順 (よく使う順) | h: 履歴 | ?: ヘルプ | s: 設定"
+       * ツリー表示では折りたたみ・グループ移動のキーも表示する
        */
-      list: (): string => {
+      list: (sortMode: ActionSortMode = 'registry', view: ActionListView = 'flat'): string => {
+        const treeItems: HintItem[] =
+          view === 'tree'
+            ? [
+                {
+                  bindings: [...bindings.list.collapse, ...bindings.list.expand],
+                  label: t('ui:keybinding.labels.fold'),
+                },
+                {
+                  bindings: [...bindings.list.prevGroup, ...bindings.list.nextGroup],
+                  label: t('ui:keybinding.labels.group'),
+                },
+              ]
+            : []
         const items: HintItem[] = [
           { bindings: bindings.global.exit, label: t('ui:keybinding.labels.quit') },
           { bindings: bindings.global.search, label: t('ui:keybinding.labels.search') },
           { bindings: bindings.list.bookmark, label: t('ui:keybinding.labels.bookmark') },
+          {
+            bindings: bindings.list.sort,
+            label: t('ui:keybinding.labels.sort', {
+              mode: t(`ui:action_list.sort_modes.${sortMode}`),
+            }),
+          },
+          ...treeItems,
+          { bindings: bindings.global.history, label: t('ui:keybinding.labels.history') },
           { bindings: bindings.global.help, label: t('ui:keybinding.labels.help') },
           { bindings: bindings.global.settings, label: t('ui:keybinding.labels.settings') },
         ]
@@ -82,10 +106,11 @@ export function useKeyBindingHints() {
 
       /**
        * 検索画面用ヒント
-       * "Tab: フォーカス切替 | Esc: 戻る"
+       * "↑: 履歴 | Esc: 戻る"
        */
       search: (): string => {
         const items: HintItem[] = [
+          { bindings: bindings.list.up, label: t('ui:keybinding.labels.history') },
           { bindings: bindings.global.back, label: t('ui:keybinding.labels.back') },
         ]
         return formatHints(items)
@@ -93,10 +118,13 @@ export function useKeyBindingHints() {
 
       /**
        * 実行中画面用ヒント
-       * 現在は操作なし（将来的に中断機能追加時に使用）
+       * "Ctrl+X: 中断"
        */
       executing: (): string => {
-        return ''
+        const items: HintItem[] = [
+          { bindings: bindings.global.abort, label: t('ui:keybinding.labels.abort') },
+        ]
+        return formatHints(items)
       },
 
       /**
@@ -116,6 +144,33 @@ export function useKeyBindingHints() {
         return formatHints(items.filter((item) => item.label !== ''))
       },
 
+      /**
+       * 実行履歴一覧用ヒント
+       */
+      history: (): string => {
+        const items: HintItem[] = [
+          {
+            bindings: [...bindings.list.up, ...bindings.list.down],
+            label: t('ui:keybinding.labels.navigate'),
+          },
+          { bindings: bindings.list.select, label: t('ui:keybinding.labels.detail') },
+          { bindings: bindings.history.rerun, label: t('ui:keybinding.labels.rerun') },
+          { bindings: bindings.global.back, label: t('ui:keybinding.labels.back') },
+        ]
+        return formatHints(items, ' • ')
+      },
+
+      /**
+       * 実行履歴詳細用ヒント
+       */
+      historyDetail: (): string => {
+        const items: HintItem[] = [
+          { bindings: bindings.history.rerun, label: t('ui:keybinding.labels.rerun') },
+          { bindings: bindings.global.back, label: t('ui:keybinding.labels.back') },
+        ]
+        return formatHints(items, ' • ')
+      },
+
       /**
        * プラグインリスト用ヒント
        */
@@ -127,6 +182,9 @@ export function useKeyBindingHints() {
           },
           { bindings: bindings.list.toggle, label: t('ui:keybinding.labels.toggle') },
           { bindings: bindings.list.select, label: t('ui:keybinding.labels.configure') },
+          { bindings: bindings.plugins.install, label: t('ui:keybinding.labels.install') },
+          { bindings: bindings.plugins.remove, label: t('ui:keybinding.labels.remove') },
+          { bindings: bindings.plugins.update, label: t('ui:keybinding.labels.update') },
           { bindings: bindings.global.back, label: t('ui:keybinding.labels.back') },
         ]
         return formatHints(items, ' • ')
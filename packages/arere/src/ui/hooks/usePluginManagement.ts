@@ -1,13 +1,16 @@
 /**
  * usePluginManagement - Hook for plugin management
  *
- * Encapsulates plugin selection, toggling, and configuration save logic.
+ * Encapsulates plugin selection, toggling, configuration save and package
+ * (install/remove/update) logic.
  * Uses Zustand stores for state management.
  */
 
+import type { ArereConfig } from '@/config/schema'
 import type { ConfigLayer } from '@/config/types'
 import { logger } from '@/lib/logger'
-import { PluginService } from '@/plugin/service'
+import { type PluginInstallScope, getPluginInstallScope } from '@/plugin/installer'
+import { type PluginPackageResult, PluginService } from '@/plugin/service'
 import type { LoadedPlugin } from '@/plugin/types'
 import { useScreenStore } from '@/ui/stores/screenStore'
 import { useSettingsStore } from '@/ui/stores/settingsStore'
@@ -28,6 +31,9 @@ import { useMemo } from 'react'
  *
  * // Save plugin configuration
  * await savePluginConfig({ apiKey: 'xxx' }, 'workspace')
+ *
+ * // Install a plugin package globally (throws if the package manager fails)
+ * await installPlugin('arere-plugin-git', 'global', (line) => console.log(line))
  * ```
  */
 export function usePluginManagement() {
@@ -37,6 +43,7 @@ export function usePluginManagement() {
   const currentPlugins = useSettingsStore((s) => s.currentPlugins)
   const selectedPlugin = useSettingsStore((s) => s.selectedPlugin)
   const onPluginReload = useSettingsStore((s) => s.onPluginReload)
+  const onPluginRescan = useSettingsStore((s) => s.onPluginRescan)
   const setSelectedPlugin = useSettingsStore((s) => s.setSelectedPlugin)
   const setCurrentConfig = useSettingsStore((s) => s.setCurrentConfig)
   const setCurrentPlugins = useSettingsStore((s) => s.setCurrentPlugins)
@@ -91,6 +98,7 @@ export function usePluginManagement() {
         currentPlugins,
         mergedConfig,
         selectedPlugin,
+        config,
       )
       setCurrentPlugins(updatedPlugins)
 
@@ -105,9 +113,60 @@ export function usePluginManagement() {
     }
   }
 
+  /**
+   * Apply the configuration after a package operation and re-detect plugins
+   */
+  const applyPackageResult = async (config: ArereConfig) => {
+    setCurrentConfig(config)
+    if (onPluginRescan) {
+      const { plugins, actions } = await onPluginRescan(config)
+      setCurrentPlugins(plugins)
+      setCurrentActions(actions)
+    }
+    await reloadLayerConfigs()
+  }
+
+  /**
+   * Run a package operation (errors are thrown to the caller to be displayed)
+   */
+  const runPackageOperation = async (
+    operation: Promise<PluginPackageResult>,
+  ): Promise<PluginPackageResult> => {
+    const result = await operation
+    await applyPackageResult(result.config)
+    return result
+  }
+
+  const installPlugin = (
+    spec: string,
+    scope: PluginInstallScope,
+    onOutput?: (line: string) => void,
+  ) => runPackageOperation(pluginService.installPlugin(spec, { scope, onOutput }))
+
+  const removePlugin = (plugin: LoadedPlugin, onOutput?: (line: string) => void) =>
+    runPackageOperation(
+      pluginService.removePlugin(plugin.meta.name, {
+        scope: getPluginInstallScope(plugin.source) ?? 'global',
+        path: plugin.path,
+        onOutput,
+      }),
+    )
+
+  const updatePlugin = (plugin: LoadedPlugin, onOutput?: (line: string) => void) =>
+    runPackageOperation(
+      pluginService.updatePlugin(plugin.meta.name, {
+        scope: getPluginInstallScope(plugin.source) ?? 'global',
+        path: plugin.path,
+        onOutput,
+      }),
+    )
+
   return {
     selectPlugin,
     togglePlugin,
     savePluginConfig,
+    installPlugin,
+    removePlugin,
+    updatePlugin,
   }
 }
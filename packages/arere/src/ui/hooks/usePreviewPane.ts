@@ -0,0 +1,50 @@
+/**
+ * usePreviewPane - Hook for the action preview pane
+ *
+ * The preview is toggled with `ui.actionPreview` and collapses on narrow terminals.
+ */
+
+import { useConfigManagement } from '@/ui/hooks/useConfigManagement'
+import { useTerminalSize } from '@/ui/hooks/useTerminalSize'
+import { useSettingsStore } from '@/ui/stores/settingsStore'
+import { getPreviewLayout } from '@/ui/utils/preview'
+
+/**
+ * Hook for the action preview pane
+ *
+ * @example
+ * ```tsx
+ * const { isVisible, listWidth, previewWidth } = usePreviewPane()
+ * ```
+ */
+export function usePreviewPane(): {
+  /** Whether the preview is turned on */
+  isEnabled: boolean
+  /** Whether the preview is shown (turned on and the terminal is wide enough) */
+  isVisible: boolean
+  /** Columns available to the action list */
+  listWidth: number
+  /** Columns of the preview pane (0 when hidden) */
+  previewWidth: number
+  /** Turn the preview on or off and save it */
+  togglePreview: () => void
+} {
+  const isEnabled = useSettingsStore((s) => s.currentConfig.ui?.actionPreview ?? false)
+  const currentLayer = useSettingsStore((s) => s.currentLayer)
+  const { saveConfig } = useConfigManagement()
+  const { columns } = useTerminalSize()
+
+  const layout = isEnabled ? getPreviewLayout(columns) : null
+
+  const togglePreview = () => {
+    saveConfig('ui.actionPreview', !isEnabled, currentLayer)
+  }
+
+  return {
+    isEnabled,
+    isVisible: layout !== null,
+    listWidth: layout?.listWidth ?? columns,
+    previewWidth: layout?.previewWidth ?? 0,
+    togglePreview,
+  }
+}
@@ -11,6 +11,8 @@ export const defaultKeyBindings: KeyBindingsConfig = {
     settings: [{ key: 's' }],
     back: [{ key: 'escape' }],
     confirm: [{ key: 'return' }],
+    abort: [{ key: 'x', ctrl: true }],
+    history: [{ key: 'h' }],
   },
 
   list: {
@@ -19,6 +21,13 @@ export const defaultKeyBindings: KeyBindingsConfig = {
     select: [{ key: 'return' }],
     toggle: [{ key: ' ' }],
     bookmark: [{ key: 'tab' }],
+    sort: [{ key: 'o' }],
+    expand: [{ key: 'rightArrow' }],
+    collapse: [{ key: 'leftArrow' }],
+    nextGroup: [{ key: ']' }],
+    prevGroup: [{ key: '[' }],
+    preview: [{ key: 'p' }],
+    runWithArgs: [{ key: 'a' }],
   },
 
   input: {
@@ -46,4 +55,14 @@ export const defaultKeyBindings: KeyBindingsConfig = {
   settings: {
     reset: [{ key: 'delete' }],
   },
+
+  history: {
+    rerun: [{ key: 'r' }],
+  },
+
+  plugins: {
+    install: [{ key: 'i' }],
+    remove: [{ key: 'd' }],
+    update: [{ key: 'u' }],
+  },
 }
@@ -15,4 +15,6 @@ export type {
   ConfirmKeyBindings,
   FormKeyBindings,
   SettingsKeyBindings,
+  HistoryKeyBindings,
+  PluginsKeyBindings,
 } from './types'
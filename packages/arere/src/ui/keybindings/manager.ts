@@ -23,6 +23,8 @@ export interface UserKeybindingsFile {
     settings?: UserKeyBinding[]
     back?: UserKeyBinding[]
     confirm?: UserKeyBinding[]
+    abort?: UserKeyBinding[]
+    history?: UserKeyBinding[]
   }
   list?: {
     up?: UserKeyBinding[]
@@ -30,6 +32,13 @@ export interface UserKeybindingsFile {
     select?: UserKeyBinding[]
     toggle?: UserKeyBinding[]
     bookmark?: UserKeyBinding[]
+    sort?: UserKeyBinding[]
+    expand?: UserKeyBinding[]
+    collapse?: UserKeyBinding[]
+    nextGroup?: UserKeyBinding[]
+    prevGroup?: UserKeyBinding[]
+    preview?: UserKeyBinding[]
+    runWithArgs?: UserKeyBinding[]
   }
   input?: {
     submit?: UserKeyBinding[]
@@ -53,6 +62,14 @@ export interface UserKeybindingsFile {
   settings?: {
     reset?: UserKeyBinding[]
   }
+  history?: {
+    rerun?: UserKeyBinding[]
+  }
+  plugins?: {
+    install?: UserKeyBinding[]
+    remove?: UserKeyBinding[]
+    update?: UserKeyBinding[]
+  }
 }
 
 /**
@@ -71,6 +88,9 @@ function parseUserKeybindingsFile(userFile: UserKeybindingsFile): PartialKeyBind
     if (userFile.global.back) result.global.back = parseUserKeyBindings(userFile.global.back)
     if (userFile.global.confirm)
       result.global.confirm = parseUserKeyBindings(userFile.global.confirm)
+    if (userFile.global.abort) result.global.abort = parseUserKeyBindings(userFile.global.abort)
+    if (userFile.global.history)
+      result.global.history = parseUserKeyBindings(userFile.global.history)
   }
 
   if (userFile.list) {
@@ -80,6 +100,16 @@ function parseUserKeybindingsFile(userFile: UserKeybindingsFile): PartialKeyBind
     if (userFile.list.select) result.list.select = parseUserKeyBindings(userFile.list.select)
     if (userFile.list.toggle) result.list.toggle = parseUserKeyBindings(userFile.list.toggle)
     if (userFile.list.bookmark) result.list.bookmark = parseUserKeyBindings(userFile.list.bookmark)
+    if (userFile.list.sort) result.list.sort = parseUserKeyBindings(userFile.list.sort)
+    if (userFile.list.expand) result.list.expand = parseUserKeyBindings(userFile.list.expand)
+    if (userFile.list.collapse) result.list.collapse = parseUserKeyBindings(userFile.list.collapse)
+    if (userFile.list.nextGroup)
+      result.list.nextGroup = parseUserKeyBindings(userFile.list.nextGroup)
+    if (userFile.list.prevGroup)
+      result.list.prevGroup = parseUserKeyBindings(userFile.list.prevGroup)
+    if (userFile.list.preview) result.list.preview = parseUserKeyBindings(userFile.list.preview)
+    if (userFile.list.runWithArgs)
+      result.list.runWithArgs = parseUserKeyBindings(userFile.list.runWithArgs)
   }
 
   if (userFile.input) {
@@ -115,6 +145,21 @@ function parseUserKeybindingsFile(userFile: UserKeybindingsFile): PartialKeyBind
       result.settings.reset = parseUserKeyBindings(userFile.settings.reset)
   }
 
+  if (userFile.history) {
+    result.history = {}
+    if (userFile.history.rerun) result.history.rerun = parseUserKeyBindings(userFile.history.rerun)
+  }
+
+  if (userFile.plugins) {
+    result.plugins = {}
+    if (userFile.plugins.install)
+      result.plugins.install = parseUserKeyBindings(userFile.plugins.install)
+    if (userFile.plugins.remove)
+      result.plugins.remove = parseUserKeyBindings(userFile.plugins.remove)
+    if (userFile.plugins.update)
+      result.plugins.update = parseUserKeyBindings(userFile.plugins.update)
+  }
+
   return result
 }
 
@@ -164,6 +209,8 @@ function mergeKeybindings(
       settings: partial.global?.settings ?? defaults.global.settings,
       back: partial.global?.back ?? defaults.global.back,
       confirm: partial.global?.confirm ?? defaults.global.confirm,
+      abort: partial.global?.abort ?? defaults.global.abort,
+      history: partial.global?.history ?? defaults.global.history,
     },
     list: {
       up: partial.list?.up ?? defaults.list.up,
@@ -171,6 +218,13 @@ function mergeKeybindings(
       select: partial.list?.select ?? defaults.list.select,
       toggle: partial.list?.toggle ?? defaults.list.toggle,
       bookmark: partial.list?.bookmark ?? defaults.list.bookmark,
+      sort: partial.list?.sort ?? defaults.list.sort,
+      expand: partial.list?.expand ?? defaults.list.expand,
+      collapse: partial.list?.collapse ?? defaults.list.collapse,
+      nextGroup: partial.list?.nextGroup ?? defaults.list.nextGroup,
+      prevGroup: partial.list?.prevGroup ?? defaults.list.prevGroup,
+      preview: partial.list?.preview ?? defaults.list.preview,
+      runWithArgs: partial.list?.runWithArgs ?? defaults.list.runWithArgs,
     },
     input: {
       submit: partial.input?.submit ?? defaults.input.submit,
@@ -194,6 +248,14 @@ function mergeKeybindings(
     settings: {
       reset: partial.settings?.reset ?? defaults.settings.reset,
     },
+    history: {
+      rerun: partial.history?.rerun ?? defaults.history.rerun,
+    },
+    plugins: {
+      install: partial.plugins?.install ?? defaults.plugins.install,
+      remove: partial.plugins?.remove ?? defaults.plugins.remove,
+      update: partial.plugins?.update ?? defaults.plugins.update,
+    },
   }
 }
 
@@ -139,6 +139,8 @@ export function createKeyMatcher(config: KeyBindingsConfig) {
       settings: createMatcher(config.global.settings),
       back: createMatcher(config.global.back),
       confirm: createMatcher(config.global.confirm),
+      abort: createMatcher(config.global.abort),
+      history: createMatcher(config.global.history),
     },
     list: {
       up: createMatcher(config.list.up),
@@ -146,6 +148,13 @@ export function createKeyMatcher(config: KeyBindingsConfig) {
       select: createMatcher(config.list.select),
       toggle: createMatcher(config.list.toggle),
       bookmark: createMatcher(config.list.bookmark),
+      sort: createMatcher(config.list.sort),
+      expand: createMatcher(config.list.expand),
+      collapse: createMatcher(config.list.collapse),
+      nextGroup: createMatcher(config.list.nextGroup),
+      prevGroup: createMatcher(config.list.prevGroup),
+      preview: createMatcher(config.list.preview),
+      runWithArgs: createMatcher(config.list.runWithArgs),
     },
     input: {
       submit: createMatcher(config.input.submit),
@@ -169,6 +178,14 @@ export function createKeyMatcher(config: KeyBindingsConfig) {
     settings: {
       reset: createMatcher(config.settings.reset),
     },
+    history: {
+      rerun: createMatcher(config.history.rerun),
+    },
+    plugins: {
+      install: createMatcher(config.plugins.install),
+      remove: createMatcher(config.plugins.remove),
+      update: createMatcher(config.plugins.update),
+    },
   }
 }
 
@@ -20,6 +20,8 @@ export const globalKeyBindingsSchema = z.object({
   settings: z.array(keyBindingSchema).optional(),
   back: z.array(keyBindingSchema).optional(),
   confirm: z.array(keyBindingSchema).optional(),
+  abort: z.array(keyBindingSchema).optional(),
+  history: z.array(keyBindingSchema).optional(),
 })
 
 /**
@@ -30,6 +32,13 @@ export const listKeyBindingsSchema = z.object({
   down: z.array(keyBindingSchema).optional(),
   select: z.array(keyBindingSchema).optional(),
   toggle: z.array(keyBindingSchema).optional(),
+  sort: z.array(keyBindingSchema).optional(),
+  expand: z.array(keyBindingSchema).optional(),
+  collapse: z.array(keyBindingSchema).optional(),
+  nextGroup: z.array(keyBindingSchema).optional(),
+  prevGroup: z.array(keyBindingSchema).optional(),
+  preview: z.array(keyBindingSchema).optional(),
+  runWithArgs: z.array(keyBindingSchema).optional(),
 })
 
 /**
@@ -70,6 +79,22 @@ export const settingsKeyBindingsSchema = z.object({
   reset: z.array(keyBindingSchema).optional(),
 })
 
+/**
+ * 実行履歴画面のキーバインドスキーマ
+ */
+export const historyKeyBindingsSchema = z.object({
+  rerun: z.array(keyBindingSchema).optional(),
+})
+
+/**
+ * プラグイン一覧画面のキーバインドスキーマ
+ */
+export const pluginsKeyBindingsSchema = z.object({
+  install: z.array(keyBindingSchema).optional(),
+  remove: z.array(keyBindingSchema).optional(),
+  update: z.array(keyBindingSchema).optional(),
+})
+
 /**
  * キーバインド設定全体のスキーマ
  */
@@ -80,4 +105,6 @@ export const keyBindingsConfigSchema = z.object({
   confirm: confirmKeyBindingsSchema.optional(),
   form: formKeyBindingsSchema.optional(),
   settings: settingsKeyBindingsSchema.optional(),
+  history: historyKeyBindingsSchema.optional(),
+  plugins: pluginsKeyBindingsSchema.optional(),
 })
@@ -24,6 +24,10 @@ export interface GlobalKeyBindings {
   settings: KeyBinding[]
   back: KeyBinding[]
   confirm: KeyBinding[]
+  /** 実行中アクションの中断 */
+  abort: KeyBinding[]
+  /** 実行履歴画面を開く */
+  history: KeyBinding[]
 }
 
 /**
@@ -35,6 +39,20 @@ export interface ListKeyBindings {
   select: KeyBinding[]
   toggle: KeyBinding[]
   bookmark: KeyBinding[]
+  /** 並び順の切り替え（ホーム画面のみ） */
+  sort: KeyBinding[]
+  /** カテゴリを展開（ツリー表示のみ） */
+  expand: KeyBinding[]
+  /** カテゴリを折りたたむ（ツリー表示のみ） */
+  collapse: KeyBinding[]
+  /** 次のカテゴリへ移動（ツリー表示のみ） */
+  nextGroup: KeyBinding[]
+  /** 前のカテゴリへ移動（ツリー表示のみ） */
+  prevGroup: KeyBinding[]
+  /** プレビューの表示切り替え */
+  preview: KeyBinding[]
+  /** 引数を指定して実行 */
+  runWithArgs: KeyBinding[]
 }
 
 /**
@@ -75,6 +93,26 @@ export interface SettingsKeyBindings {
   reset: KeyBinding[]
 }
 
+/**
+ * 実行履歴画面のキーバインド
+ */
+export interface HistoryKeyBindings {
+  /** 同じ引数で再実行 */
+  rerun: KeyBinding[]
+}
+
+/**
+ * プラグイン一覧画面のキーバインド
+ */
+export interface PluginsKeyBindings {
+  /** プラグインをインストール */
+  install: KeyBinding[]
+  /** 選択中のプラグインを削除 */
+  remove: KeyBinding[]
+  /** 選択中のプラグインを更新 */
+  update: KeyBinding[]
+}
+
 /**
  * キーバインド設定全体
  */
@@ -85,6 +123,8 @@ export interface KeyBindingsConfig {
   confirm: ConfirmKeyBindings
   form: FormKeyBindings
   settings: SettingsKeyBindings
+  history: HistoryKeyBindings
+  plugins: PluginsKeyBindings
 }
 
 /**
@@ -43,17 +43,38 @@ export class OutputCollector {
     content: OutputMessage['content'],
     meta?: OutputMessage['meta'],
   ): void {
-    const message: OutputMessage = {
+    this.push({
       type,
       content,
       timestamp: Date.now(),
       meta,
-    }
+    })
+  }
+
+  /**
+   * Store a message and stream it
+   */
+  private push(message: OutputMessage): void {
     this.messages.push(message)
     // Stream message in real-time if callback is provided
     this.onMessage?.(message)
   }
 
+  /**
+   * Start a nested section for the output of another action
+   *
+   * @param title - Section title (the nested action's name)
+   * @returns Callback that adds messages to this collector one level deeper
+   */
+  nested(title: string): OutputCallback {
+    this.section(title)
+    return (message) =>
+      this.push({
+        ...message,
+        meta: { ...message.meta, depth: (message.meta?.depth ?? 0) + 1 },
+      })
+  }
+
   /**
    * Basic log message
    */
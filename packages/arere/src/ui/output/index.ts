@@ -5,4 +5,10 @@
 
 export { OutputCollector, createOutputAPI } from './collector'
 export { PlainTextRenderer } from './plain-renderer'
+export {
+  StructuredOutputWriter,
+  STRUCTURED_OUTPUT_FORMATS,
+  serializeMessage,
+} from './structured-writer'
+export type { RunSummary, StructuredOutputFormat } from './structured-writer'
 export type { OutputAPI, OutputMessage } from './types'
@@ -0,0 +1,117 @@
+/**
+ * Structured (JSON / NDJSON) writer for headless mode
+ *
+ * Emits output messages as machine-readable records so action output
+ * can be piped into `jq` and other tooling.
+ */
+
+import type { OutputMessage } from './types'
+
+/**
+ * Structured output format
+ * - `json`: a single JSON document written when the run finishes
+ * - `ndjson`: one JSON record per line, streamed as messages arrive
+ */
+export type StructuredOutputFormat = 'json' | 'ndjson'
+
+/**
+ * Supported structured output formats
+ */
+export const STRUCTURED_OUTPUT_FORMATS: readonly StructuredOutputFormat[] = ['json', 'ndjson']
+
+/**
+ * Summary of a finished run
+ */
+export interface RunSummary {
+  /** Action name */
+  action: string
+  /** Whether the run was successful */
+  success: boolean
+  /** Run duration in milliseconds */
+  duration: number
+  /** Process exit code */
+  exitCode: number
+  /** Whether the run was cancelled */
+  cancelled: boolean
+  /** Formatted error message, or null on success */
+  error: string | null
+  /** Nested actions in the order they started (only present if any ran) */
+  steps?: StepSummary[]
+}
+
+/**
+ * Summary of a nested action run
+ */
+export interface StepSummary {
+  /** Action name */
+  name: string
+  /** Whether the step succeeded */
+  success: boolean
+  /** Step duration in milliseconds */
+  duration: number
+  /** Nesting level (1 for steps started by the action that was run) */
+  depth: number
+  /** Formatted error message, or null on success */
+  error: string | null
+}
+
+/**
+ * Make an output message safe to serialize as JSON
+ *
+ * Content is arbitrary (actions may output class instances or circular objects),
+ * so anything that cannot be serialized is replaced with its string form.
+ *
+ * @param message - Output message
+ * @returns Message containing only JSON-compatible values
+ */
+export function serializeMessage(message: OutputMessage): OutputMessage {
+  try {
+    return JSON.parse(JSON.stringify(message)) as OutputMessage
+  } catch {
+    return { ...message, content: String(message.content) }
+  }
+}
+
+/**
+ * Structured output writer
+ *
+ * @example
+ * ```typescript
+ * const writer = new StructuredOutputWriter('ndjson')
+ * await runAction(action, { onOutput: (message) => writer.message(message) })
+ * writer.finish(summary)
+ * // {"type":"log","content":"hello","timestamp":1700000000000}
+ * // {"type":"summary","action":"deploy","success":true,...}
+ * ```
+ */
+export class StructuredOutputWriter {
+  private messages: OutputMessage[] = []
+
+  constructor(
+    private format: StructuredOutputFormat,
+    private write: (text: string) => void = (text) => process.stdout.write(text),
+  ) {}
+
+  /**
+   * Write (ndjson) or buffer (json) an output message
+   */
+  message(message: OutputMessage): void {
+    const serialized = serializeMessage(message)
+    if (this.format === 'ndjson') {
+      this.write(`${JSON.stringify(serialized)}\n`)
+    } else {
+      this.messages.push(serialized)
+    }
+  }
+
+  /**
+   * Write the run summary (and, for json, the buffered messages)
+   */
+  finish(summary: RunSummary): void {
+    if (this.format === 'ndjson') {
+      this.write(`${JSON.stringify({ type: 'summary', ...summary })}\n`)
+    } else {
+      this.write(`${JSON.stringify({ ...summary, messages: this.messages }, null, 2)}\n`)
+    }
+  }
+}
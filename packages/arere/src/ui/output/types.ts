@@ -28,6 +28,7 @@ export type OutputMessage = {
     char?: string // For separator
     length?: number // For separator
     number?: number // For step
+    depth?: number // Nesting level of output from actions run via ctx.runAction
   }
 }
 
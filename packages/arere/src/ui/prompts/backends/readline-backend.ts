@@ -4,20 +4,32 @@
 
 import readline from 'node:readline/promises'
 import type { SelectChoice } from '@/action/types'
+import type { FormField, FormFields, FormPage, StepFormOptions } from '@/ui/prompts/form/types'
+import { getFieldDefaultValue, getFieldEntries, isEmptyFieldValue } from '@/ui/prompts/form/values'
 import type { PromptRequest } from '@/ui/prompts/renderer'
 
+/**
+ * Options for the ReadLine prompt backend
+ */
+export interface ReadLineBackendOptions {
+  /** Stream prompts are written to (default: process.stdout) */
+  output?: NodeJS.WritableStream
+}
+
 /**
  * Create ReadLine prompt backend
  * Returns a prompt handler for headless mode execution
  */
-export function createReadLineBackend() {
+export function createReadLineBackend(options: ReadLineBackendOptions = {}) {
+  const { output = process.stdout } = options
+
   /**
    * Handle prompt request using readline
    */
   return async function handlePrompt(request: PromptRequest): Promise<unknown> {
     const rl = readline.createInterface({
       input: process.stdin,
-      output: process.stdout,
+      output,
     })
 
     try {
@@ -35,10 +47,16 @@ export function createReadLineBackend() {
           return await handleConfirm(rl, request.message, request.options)
 
         case 'select':
-          return await handleSelect(rl, request.message, request.choices, request.options)
+          return await handleSelect(rl, output, request.message, request.choices, request.options)
 
         case 'multiSelect':
-          return await handleMultiSelect(rl, request.message, request.choices, request.options)
+          return await handleMultiSelect(
+            rl,
+            output,
+            request.message,
+            request.choices,
+            request.options,
+          )
 
         case 'waitForEnter':
           return await handleWaitForEnter(rl, request.message)
@@ -46,6 +64,12 @@ export function createReadLineBackend() {
         case 'waitForKey':
           return await handleWaitForKey(rl, request.message, request.keys, request.caseInsensitive)
 
+        case 'form':
+          return await handleForm(rl, output, request.form)
+
+        case 'stepForm':
+          return await handleStepForm(rl, output, request.steps, request.options)
+
         default:
           throw new Error(`Unknown prompt type: ${(request as { type: string }).type}`)
       }
@@ -204,12 +228,13 @@ async function handleConfirm(
  */
 async function handleSelect<T>(
   rl: readline.Interface,
+  output: NodeJS.WritableStream,
   message: string,
   choices: SelectChoice<T>[],
   options?: { defaultValue?: T },
 ): Promise<T> {
   // Display choices
-  console.log(`${message}`)
+  output.write(`${message}\n`)
   for (let i = 0; i < choices.length; i++) {
     const choice = choices[i]
     const desc = choice.description ? ` - ${choice.description}` : ''
@@ -217,7 +242,7 @@ async function handleSelect<T>(
       options?.defaultValue !== undefined && choice.value === options.defaultValue
         ? ' (default)'
         : ''
-    console.log(`  ${i + 1}. ${choice.label}${desc}${defaultMark}`)
+    output.write(`  ${i + 1}. ${choice.label}${desc}${defaultMark}\n`)
   }
 
   // eslint-disable-next-line no-constant-condition
@@ -245,16 +270,17 @@ async function handleSelect<T>(
  */
 async function handleMultiSelect<T>(
   rl: readline.Interface,
+  output: NodeJS.WritableStream,
   message: string,
   choices: SelectChoice<T>[],
   options?: { defaultValue?: T[]; min?: number; max?: number },
 ): Promise<T[]> {
   // Display choices
-  console.log(`${message}`)
+  output.write(`${message}\n`)
   for (let i = 0; i < choices.length; i++) {
     const choice = choices[i]
     const desc = choice.description ? ` - ${choice.description}` : ''
-    console.log(`  ${i + 1}. ${choice.label}${desc}`)
+    output.write(`  ${i + 1}. ${choice.label}${desc}\n`)
   }
 
   const minHint = options?.min ? ` (min: ${options.min})` : ''
@@ -332,3 +358,217 @@ async function handleWaitForKey(
     console.error(`✗ Invalid key. Expected: ${keys.join(', ')}`)
   }
 }
+
+/**
+ * Normalize choices to SelectChoice format
+ */
+function normalizeChoices<T>(choices: T[] | SelectChoice<T>[]): SelectChoice<T>[] {
+  return choices.map((choice) =>
+    typeof choice === 'object' && choice !== null && 'label' in choice && 'value' in choice
+      ? (choice as SelectChoice<T>)
+      : { label: String(choice), value: choice as T },
+  )
+}
+
+/**
+ * Read a single form field value (the current value is offered as default)
+ */
+async function readFieldValue(
+  rl: readline.Interface,
+  output: NodeJS.WritableStream,
+  field: FormField,
+  current: unknown,
+): Promise<unknown> {
+  switch (field.type) {
+    case 'text':
+      return handleText(rl, field.message, {
+        defaultValue: (current as string) || undefined,
+        placeholder: field.placeholder,
+      })
+    case 'number':
+      return handleNumber(rl, field.message, {
+        defaultValue: current as number,
+        min: field.min,
+        max: field.max,
+      })
+    case 'password':
+      return handlePassword(rl, field.message, { minLength: field.minLength })
+    case 'select':
+      return handleSelect(rl, output, field.message, normalizeChoices(field.choices), {
+        defaultValue: current ?? undefined,
+      })
+    case 'confirm':
+      return handleConfirm(rl, field.message, { defaultValue: current as boolean })
+    case 'multiSelect':
+      return handleMultiSelect(rl, output, field.message, normalizeChoices(field.choices), {
+        defaultValue: current as unknown[],
+        min: field.min,
+        max: field.max,
+      })
+    default:
+      throw new Error(`Unknown field type: ${(field as { type: string }).type}`)
+  }
+}
+
+/**
+ * Ask for a form field until it passes the required check and its validator
+ *
+ * @param values - Values entered so far (for cross-field validation)
+ */
+async function askField(
+  rl: readline.Interface,
+  output: NodeJS.WritableStream,
+  key: string,
+  field: FormField,
+  current: unknown,
+  values: Record<string, unknown>,
+): Promise<unknown> {
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const value = await readFieldValue(rl, output, field, current)
+
+    if (field.required !== false && isEmptyFieldValue(value)) {
+      console.error(`✗ ${field.message} is required`)
+      continue
+    }
+
+    if (field.validate) {
+      const result = field.validate(value as never, { values: { ...values, [key]: value } })
+      if (result !== true) {
+        console.error(`✗ ${typeof result === 'string' ? result : 'Invalid value'}`)
+        continue
+      }
+    }
+
+    return value
+  }
+}
+
+/**
+ * Ask every field of a page until the page-level validation passes
+ *
+ * @param pageValues - Current values of the page (defaults or previous answers)
+ * @param otherValues - Values of the other steps (for cross-field validation)
+ */
+async function askPage(
+  rl: readline.Interface,
+  output: NodeJS.WritableStream,
+  page: FormPage<FormFields>,
+  pageValues: Record<string, unknown>,
+  otherValues: Record<string, unknown> = {},
+): Promise<Record<string, unknown>> {
+  const values = { ...pageValues }
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    for (const [key, field] of getFieldEntries(page.fields)) {
+      values[key] = await askField(rl, output, key, field, values[key], {
+        ...otherValues,
+        ...values,
+      })
+    }
+
+    if (page.validate) {
+      const result = page.validate(values as never)
+      if (result !== true) {
+        console.error(`✗ ${typeof result === 'string' ? result : 'Validation failed'}`)
+        continue
+      }
+    }
+
+    return values
+  }
+}
+
+/**
+ * Get the initial values of a page
+ */
+function initializePageValues(page: FormPage<FormFields>): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+  for (const [key, field] of getFieldEntries(page.fields)) {
+    values[key] = getFieldDefaultValue(field)
+  }
+  return values
+}
+
+/**
+ * Write the title and description of a form page
+ */
+function writePageHeader(
+  output: NodeJS.WritableStream,
+  page: FormPage<FormFields>,
+  step = '',
+): void {
+  if (page.title || step) {
+    output.write(`${[step, page.title].filter(Boolean).join(' ')}\n`)
+  }
+  if (page.description) {
+    output.write(`${page.description}\n`)
+  }
+}
+
+/**
+ * Handle form (fields asked one after another)
+ */
+async function handleForm(
+  rl: readline.Interface,
+  output: NodeJS.WritableStream,
+  page: FormPage<FormFields>,
+): Promise<Record<string, unknown>> {
+  writePageHeader(output, page)
+  return askPage(rl, output, page, initializePageValues(page))
+}
+
+/**
+ * Handle step form (wizard)
+ *
+ * After each step except the first, the user can go back to the previous step;
+ * values entered earlier are offered as defaults.
+ */
+async function handleStepForm(
+  rl: readline.Interface,
+  output: NodeJS.WritableStream,
+  steps: FormPage<FormFields>[],
+  options?: StepFormOptions<FormFields[]>,
+): Promise<Record<string, unknown>> {
+  const stepValues = steps.map(initializePageValues)
+  let current = 0
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const step = steps[current]
+    const otherValues = Object.assign({}, ...stepValues.filter((_, index) => index !== current))
+
+    writePageHeader(output, step, `[${current + 1}/${steps.length}]`)
+    stepValues[current] = await askPage(rl, output, step, stepValues[current], otherValues)
+
+    const isLastStep = current === steps.length - 1
+    if (current > 0) {
+      const action = isLastStep ? 'submit' : 'continue'
+      const answer = await rl.question(`Press Enter to ${action}, or enter "b" to go back: `)
+      if (answer.trim().toLowerCase() === 'b') {
+        current--
+        continue
+      }
+    }
+
+    if (!isLastStep) {
+      current++
+      continue
+    }
+
+    // Merge all step values
+    const mergedValues = Object.assign({}, ...stepValues)
+
+    // Cross-step validation
+    if (options?.validate) {
+      const result = options.validate(mergedValues as never)
+      if (result !== true) {
+        console.error(`✗ ${typeof result === 'string' ? result : 'Validation failed'}`)
+        continue
+      }
+    }
+
+    return mergedValues
+  }
+}
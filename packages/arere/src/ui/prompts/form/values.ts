@@ -0,0 +1,42 @@
+/**
+ * Form field value helpers shared by the form backends
+ */
+
+import type { FormField, FormFields } from './types'
+
+/**
+ * Get field entries from form fields (preserves order)
+ */
+export function getFieldEntries(fields: FormFields): [string, FormField][] {
+  return Object.entries(fields) as [string, FormField][]
+}
+
+/**
+ * Get the initial value of a field (its default, or the empty value for its type)
+ */
+export function getFieldDefaultValue(field: FormField): unknown {
+  switch (field.type) {
+    case 'text':
+      return field.defaultValue ?? ''
+    case 'password':
+      // PasswordFormField doesn't have defaultValue (security reason)
+      return ''
+    case 'number':
+      return field.defaultValue ?? 0
+    case 'select':
+      return field.defaultValue ?? null
+    case 'confirm':
+      return field.defaultValue ?? false
+    case 'multiSelect':
+      return field.defaultValue ?? []
+    default:
+      return ''
+  }
+}
+
+/**
+ * Check whether a value counts as empty for the `required` check
+ */
+export function isEmptyFieldValue(value: unknown): boolean {
+  return value === '' || value === null || value === undefined
+}
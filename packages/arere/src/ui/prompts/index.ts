@@ -6,6 +6,6 @@ export { text } from './text'
 export { select } from './select'
 export { confirm } from './confirm'
 export { multiSelect } from './multiSelect'
-export { setPromptHandler, clearPromptHandler } from './renderer'
+export { setPromptHandler, clearPromptHandler, rejectPendingPrompts } from './renderer'
 export type { PromptRequest, PromptHandler } from './renderer'
 export type { PromptAPI, TextOptions, SelectChoice } from './types'
@@ -79,6 +79,11 @@ export type PromptHandler = (request: PromptRequest) => Promise<unknown>
  */
 let globalPromptHandler: PromptHandler | null = null
 
+/**
+ * Reject functions of prompts that are waiting for an answer
+ */
+const pendingPrompts = new Set<(reason: unknown) => void>()
+
 /**
  * Set the global prompt handler
  * This should be called by the UI layer (App component) on initialization
@@ -103,5 +108,24 @@ export async function renderPrompt(request: PromptRequest): Promise<unknown> {
     throw new Error('Prompt handler not set. Make sure the UI layer is initialized.')
   }
 
-  return globalPromptHandler(request)
+  const handler = globalPromptHandler
+  return new Promise((resolve, reject) => {
+    pendingPrompts.add(reject)
+    handler(request)
+      .then(resolve, reject)
+      .finally(() => pendingPrompts.delete(reject))
+  })
+}
+
+/**
+ * Reject all prompts that are still waiting for an answer
+ * Used when an action is cancelled so it does not hang on user input
+ *
+ * @param reason - Rejection reason passed to the waiting prompt calls
+ */
+export function rejectPendingPrompts(reason: unknown): void {
+  for (const reject of pendingPrompts) {
+    reject(reason)
+  }
+  pendingPrompts.clear()
 }
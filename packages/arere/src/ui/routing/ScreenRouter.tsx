@@ -9,12 +9,15 @@
  */
 
 import { t } from '@/i18n/index'
+import { CancelledScreen } from '@/ui/screens/execution/CancelledScreen'
 import { ErrorScreen } from '@/ui/screens/execution/ErrorScreen'
 import { ExecutingScreen } from '@/ui/screens/execution/ExecutingScreen'
 import { SuccessScreen } from '@/ui/screens/execution/SuccessScreen'
 import { HelpScreen } from '@/ui/screens/help/HelpScreen'
+import { HistoryScreen } from '@/ui/screens/history/HistoryScreen'
 import { HomeScreen } from '@/ui/screens/home/HomeScreen'
 import { PromptScreen } from '@/ui/screens/prompt/PromptScreen'
+import { RunArgsScreen } from '@/ui/screens/run-args/RunArgsScreen'
 import { SearchScreen } from '@/ui/screens/search/SearchScreen'
 import { SettingsScreen } from '@/ui/screens/settings/SettingsScreen'
 import { PluginDetailScreen } from '@/ui/screens/settings/plugins/PluginDetailScreen'
@@ -57,6 +60,12 @@ export const ScreenRouter: React.FC = () => {
     case 'plugin-detail':
       return <PluginDetailScreen />
 
+    case 'history':
+      return <HistoryScreen />
+
+    case 'run-args':
+      return <RunArgsScreen />
+
     case 'executing':
       return <ExecutingScreen />
 
@@ -66,6 +75,9 @@ export const ScreenRouter: React.FC = () => {
     case 'error':
       return <ErrorScreen />
 
+    case 'cancelled':
+      return <CancelledScreen />
+
     case 'input':
       return <PromptScreen />
 
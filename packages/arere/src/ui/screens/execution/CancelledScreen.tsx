@@ -0,0 +1,59 @@
+/**
+ * Cancelled screen component
+ *
+ * Uses Zustand stores for state management.
+ */
+
+import { t } from '@/i18n/index'
+import { HEADER_HEIGHT } from '@/ui/components/Header'
+import { OutputRenderer } from '@/ui/components/OutputRenderer'
+import { ScrollArea } from '@/ui/components/ScrollArea'
+import { useTerminalSize } from '@/ui/hooks/useTerminalSize'
+import { useTheme } from '@/ui/hooks/useTheme'
+import { useExecutionStore } from '@/ui/stores/executionStore'
+import { Box, Text } from 'ink'
+import React from 'react'
+
+/**
+ * Cancelled screen component
+ */
+export const CancelledScreen: React.FC = () => {
+  // Get state from stores
+  const selectedAction = useExecutionStore((s) => s.selectedAction)
+  const executionDuration = useExecutionStore((s) => s.executionDuration)
+  const outputMessages = useExecutionStore((s) => s.outputMessages)
+  const { rows } = useTerminalSize()
+
+  const message = t('ui:cancelled.message', { name: selectedAction?.meta.name || '' })
+  const { warningColor } = useTheme()
+
+  // Calculate visible height
+  const visibleHeight = rows - HEADER_HEIGHT
+
+  return (
+    <ScrollArea height={visibleHeight} enableKeyboardScroll showScrollbar>
+      <Box flexDirection="column" flexGrow={1} paddingY={1}>
+        {/* Show output produced before cancellation */}
+        {outputMessages && outputMessages.length > 0 && (
+          <Box flexDirection="column" marginBottom={1}>
+            <OutputRenderer messages={outputMessages} />
+          </Box>
+        )}
+
+        {/* Cancellation summary */}
+        <Box flexDirection="column" alignItems="center" paddingY={1}>
+          <Text color={warningColor}>{t('ui:cancelled.title')}</Text>
+          <Box marginTop={1}>
+            <Text>{message}</Text>
+          </Box>
+          <Box marginTop={1}>
+            <Text dimColor>{t('ui:cancelled.duration', { ms: executionDuration })}</Text>
+          </Box>
+          <Box marginTop={2}>
+            <Text dimColor>{t('ui:cancelled.hint')}</Text>
+          </Box>
+        </Box>
+      </Box>
+    </ScrollArea>
+  )
+}
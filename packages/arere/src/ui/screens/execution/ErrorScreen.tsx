@@ -8,6 +8,7 @@ import { t } from '@/i18n/index'
 import { HEADER_HEIGHT } from '@/ui/components/Header'
 import { OutputRenderer } from '@/ui/components/OutputRenderer'
 import { ScrollArea } from '@/ui/components/ScrollArea'
+import { StepResults } from '@/ui/components/StepResults'
 import { useKeyBindingHints } from '@/ui/hooks/useKeyBindingHints'
 import { useTerminalSize } from '@/ui/hooks/useTerminalSize'
 import { useTheme } from '@/ui/hooks/useTheme'
@@ -22,6 +23,7 @@ export const ErrorScreen: React.FC = () => {
   // Get state from stores
   const executionError = useExecutionStore((s) => s.executionError)
   const outputMessages = useExecutionStore((s) => s.outputMessages)
+  const stepResults = useExecutionStore((s) => s.stepResults)
   const { rows } = useTerminalSize()
 
   const error = executionError || new Error('Unknown error')
@@ -48,6 +50,11 @@ export const ErrorScreen: React.FC = () => {
           <Box marginTop={1}>
             <Text color={errorColor}>{message}</Text>
           </Box>
+          {stepResults.length > 0 && (
+            <Box marginTop={1}>
+              <StepResults steps={stepResults} />
+            </Box>
+          )}
           <Box marginTop={2}>
             <Text dimColor>{hints.result()}</Text>
           </Box>
@@ -24,10 +24,11 @@ export const ExecutingScreen: React.FC = () => {
   const selectedAction = useExecutionStore((s) => s.selectedAction)
   const outputMessages = useExecutionStore((s) => s.outputMessages)
   const visualFeedback = useExecutionStore((s) => s.visualFeedback)
+  const isAborting = useExecutionStore((s) => s.isAborting)
   const { rows } = useTerminalSize()
 
   const actionName = selectedAction?.meta.name || 'Unknown'
-  const { primaryColor, successColor, errorColor } = useTheme()
+  const { primaryColor, successColor, errorColor, warningColor } = useTheme()
 
   // Calculate visible height
   const visibleHeight = rows - HEADER_HEIGHT
@@ -91,6 +92,13 @@ export const ExecutingScreen: React.FC = () => {
           </Box>
         )}
 
+        {/* Abort requested, waiting for the action to settle */}
+        {isAborting && (
+          <Box justifyContent="center" marginTop={1}>
+            <Text color={warningColor}>{t('ui:executing.aborting')}</Text>
+          </Box>
+        )}
+
         {/* Output messages */}
         {outputMessages.length > 0 && (
           <Box marginTop={1}>
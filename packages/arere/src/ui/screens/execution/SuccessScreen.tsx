@@ -8,6 +8,7 @@ import { t } from '@/i18n/index'
 import { HEADER_HEIGHT } from '@/ui/components/Header'
 import { OutputRenderer } from '@/ui/components/OutputRenderer'
 import { ScrollArea } from '@/ui/components/ScrollArea'
+import { StepResults } from '@/ui/components/StepResults'
 import { useTerminalSize } from '@/ui/hooks/useTerminalSize'
 import { useTheme } from '@/ui/hooks/useTheme'
 import { useExecutionStore } from '@/ui/stores/executionStore'
@@ -22,6 +23,7 @@ export const SuccessScreen: React.FC = () => {
   const selectedAction = useExecutionStore((s) => s.selectedAction)
   const executionDuration = useExecutionStore((s) => s.executionDuration)
   const outputMessages = useExecutionStore((s) => s.outputMessages)
+  const stepResults = useExecutionStore((s) => s.stepResults)
   const { rows } = useTerminalSize()
 
   const message = t('ui:success.message', { name: selectedAction?.meta.name || '' })
@@ -52,6 +54,11 @@ export const SuccessScreen: React.FC = () => {
               <Text dimColor>{t('ui:success.duration', { ms: duration })}</Text>
             </Box>
           )}
+          {stepResults.length > 0 && (
+            <Box marginTop={1}>
+              <StepResults steps={stepResults} />
+            </Box>
+          )}
           <Box marginTop={2}>
             <Text dimColor>{t('ui:success.hint')}</Text>
           </Box>
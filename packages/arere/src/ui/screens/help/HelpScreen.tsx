@@ -34,9 +34,27 @@ export const HelpScreen: React.FC = () => {
           <Text>
             <Text color={primaryColor}>Enter</Text> - {t('ui:help.shortcuts.run')}
           </Text>
+          <Text>
+            <Text color={primaryColor}>a</Text> - {t('ui:help.shortcuts.run_args')}
+          </Text>
+          <Text>
+            <Text color={primaryColor}>o</Text> - {t('ui:help.shortcuts.sort')}
+          </Text>
+          <Text>
+            <Text color={primaryColor}>←→</Text> - {t('ui:help.shortcuts.fold')}
+          </Text>
+          <Text>
+            <Text color={primaryColor}>[ ]</Text> - {t('ui:help.shortcuts.group')}
+          </Text>
+          <Text>
+            <Text color={primaryColor}>p</Text> - {t('ui:help.shortcuts.preview')}
+          </Text>
           <Text>
             <Text color={primaryColor}>?</Text> - {t('ui:help.shortcuts.help')}
           </Text>
+          <Text>
+            <Text color={primaryColor}>h</Text> - {t('ui:help.shortcuts.history')}
+          </Text>
           <Text>
             <Text color={primaryColor}>Esc</Text> - {t('ui:help.shortcuts.back')}
           </Text>
@@ -0,0 +1,223 @@
+/**
+ * Run history screen component
+ *
+ * Lists past runs and replays their recorded output.
+ * Handles its own keyboard input (including Escape).
+ */
+
+import { type RunRecord, historyManager } from '@/action/history'
+import { t } from '@/i18n/index'
+import { createBookmarkId } from '@/ui/bookmark'
+import { HEADER_HEIGHT } from '@/ui/components/Header'
+import { OutputRenderer } from '@/ui/components/OutputRenderer'
+import { ScrollArea } from '@/ui/components/ScrollArea'
+import { useActionExecution } from '@/ui/hooks/useActionExecution'
+import { useKeyBindingHints } from '@/ui/hooks/useKeyBindingHints'
+import { useKeyBindings } from '@/ui/hooks/useKeyBindings'
+import { usePageMeta } from '@/ui/hooks/usePageMeta'
+import { useTerminalSize } from '@/ui/hooks/useTerminalSize'
+import { useTheme } from '@/ui/hooks/useTheme'
+import { useScreenStore } from '@/ui/stores/screenStore'
+import { useSettingsStore } from '@/ui/stores/settingsStore'
+import { Box, Text, useInput } from 'ink'
+import React from 'react'
+import { useState } from 'react'
+
+/**
+ * Status icon for a recorded run
+ */
+function getStatusIcon(run: RunRecord): string {
+  if (run.cancelled) return '■'
+  return run.success ? '✓' : '✗'
+}
+
+/**
+ * Run history screen component
+ */
+export const HistoryScreen: React.FC = () => {
+  const [runs] = useState(() => historyManager.getAll())
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const [detailRun, setDetailRun] = useState<RunRecord | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const { primaryColor, inactiveColor, successColor, errorColor, warningColor } = useTheme()
+  const { rows } = useTerminalSize()
+
+  const currentActions = useSettingsStore((s) => s.currentActions)
+  const setScreen = useScreenStore((s) => s.setScreen)
+  const { runAction } = useActionExecution()
+  const kbHints = useKeyBindingHints()
+
+  // Calculate visible height
+  const visibleHeight = rows - HEADER_HEIGHT
+
+  usePageMeta({
+    breadcrumb: detailRun
+      ? [t('ui:breadcrumb.home'), t('ui:breadcrumb.history'), detailRun.actionId]
+      : [t('ui:breadcrumb.home'), t('ui:breadcrumb.history')],
+    hint: detailRun ? kbHints.historyDetail() : kbHints.history(),
+  })
+
+  const kb = useKeyBindings()
+
+  const statusColor = (run: RunRecord) => {
+    if (run.cancelled) return warningColor
+    return run.success ? successColor : errorColor
+  }
+
+  // Re-run the action of a recorded run with the same arguments
+  const rerun = (run: RunRecord) => {
+    // The last match is the one not shadowed by another action with the same name
+    const action = [...currentActions].reverse().find((a) => createBookmarkId(a) === run.actionId)
+    if (!action) {
+      setNotice(t('ui:history.action_unavailable', { id: run.actionId }))
+      return
+    }
+    runAction(action, run.args)
+  }
+
+  useInput(
+    (input, key) => {
+      if (kb.global.back(input, key)) {
+        if (detailRun) {
+          setDetailRun(null)
+        } else {
+          setScreen('list')
+        }
+        return
+      }
+
+      const selectedRun = detailRun ?? runs[selectedIndex]
+
+      if (kb.history.rerun(input, key)) {
+        if (selectedRun) {
+          rerun(selectedRun)
+        }
+        return
+      }
+
+      // Detail view only scrolls (handled by ScrollArea)
+      if (detailRun || runs.length === 0) {
+        return
+      }
+
+      if (kb.list.up(input, key)) {
+        setSelectedIndex((prev) => (prev - 1 + runs.length) % runs.length)
+        setNotice(null)
+        return
+      }
+
+      if (kb.list.down(input, key)) {
+        setSelectedIndex((prev) => (prev + 1) % runs.length)
+        setNotice(null)
+        return
+      }
+
+      if (kb.list.select(input, key)) {
+        setDetailRun(runs[selectedIndex] ?? null)
+        return
+      }
+    },
+    { isActive: true },
+  )
+
+  if (detailRun) {
+    const summaryKey = detailRun.cancelled
+      ? 'ui:history.detail_summary_cancelled'
+      : detailRun.success
+        ? 'ui:history.detail_summary_success'
+        : 'ui:history.detail_summary_error'
+
+    return (
+      <ScrollArea height={visibleHeight} enableKeyboardScroll showScrollbar>
+        <Box flexDirection="column" flexGrow={1} padding={1}>
+          {/* Run header */}
+          <Box>
+            <Text color={statusColor(detailRun)}>{getStatusIcon(detailRun)} </Text>
+            <Text bold color={primaryColor}>
+              {detailRun.actionId}
+            </Text>
+            <Text dimColor> {new Date(detailRun.startedAt).toLocaleString()}</Text>
+          </Box>
+          {detailRun.args.length > 0 && (
+            <Box marginLeft={2}>
+              <Text dimColor>{t('ui:history.args', { args: detailRun.args.join(' ') })}</Text>
+            </Box>
+          )}
+
+          {/* Recorded output */}
+          <Box flexDirection="column" marginY={1}>
+            {detailRun.omittedMessages !== undefined && (
+              <Text dimColor>
+                {t('ui:history.omitted_messages', { count: detailRun.omittedMessages })}
+              </Text>
+            )}
+            {detailRun.messages.length > 0 ? (
+              <OutputRenderer messages={detailRun.messages} />
+            ) : (
+              <Text dimColor>{t('ui:history.no_output')}</Text>
+            )}
+          </Box>
+
+          {/* Summary */}
+          <Text color={statusColor(detailRun)}>{t(summaryKey, { ms: detailRun.duration })}</Text>
+          {detailRun.error && <Text color={errorColor}>{detailRun.error}</Text>}
+          {notice && <Text color={warningColor}>{notice}</Text>}
+        </Box>
+      </ScrollArea>
+    )
+  }
+
+  // Calculate followIndex offset (title + margin = 2 lines)
+  const followIndex = 2 + selectedIndex
+
+  return (
+    <ScrollArea height={visibleHeight} followIndex={followIndex} showScrollbar>
+      <Box flexDirection="column" flexGrow={1} padding={1}>
+        {/* Title */}
+        <Box marginBottom={1}>
+          <Text bold color={primaryColor}>
+            {t('ui:history.title')}
+          </Text>
+        </Box>
+
+        {notice && (
+          <Box marginBottom={1}>
+            <Text color={warningColor}>{notice}</Text>
+          </Box>
+        )}
+
+        {/* Run list */}
+        {runs.length === 0 ? (
+          <Text dimColor>{t('ui:history.empty')}</Text>
+        ) : (
+          <Box flexDirection="column">
+            {runs.map((run, index) => {
+              const isSelected = index === selectedIndex
+              return (
+                <Box key={run.id}>
+                  <Box width={2}>
+                    <Text color={isSelected ? primaryColor : inactiveColor}>
+                      {isSelected ? '❯' : ' '}
+                    </Text>
+                  </Box>
+                  <Box width={2}>
+                    <Text color={statusColor(run)}>{getStatusIcon(run)}</Text>
+                  </Box>
+                  <Text bold={isSelected} color={isSelected ? primaryColor : undefined}>
+                    {run.actionId}
+                  </Text>
+                  {run.args.length > 0 && <Text> {run.args.join(' ')}</Text>}
+                  <Text dimColor>
+                    {' '}
+                    {new Date(run.startedAt).toLocaleString()} •{' '}
+                    {t('ui:history.duration', { ms: run.duration })}
+                  </Text>
+                </Box>
+              )
+            })}
+          </Box>
+        )}
+      </Box>
+    </ScrollArea>
+  )
+}
@@ -2,15 +2,20 @@
  * Home screen component
  *
  * Displays the action list or empty state based on available actions.
- * Manages ScrollArea for ActionList.
+ * Manages ScrollArea for ActionList (rows may differ in height in the tree view)
+ * and the preview pane beside it.
  */
 
+import type { Action } from '@/action/types'
 import { ActionList, type ActionListScrollInfo } from '@/ui/components/ActionList'
+import { ActionPreview } from '@/ui/components/ActionPreview'
 import { EmptyState } from '@/ui/components/EmptyState'
 import { HEADER_HEIGHT } from '@/ui/components/Header'
 import { ScrollArea } from '@/ui/components/ScrollArea'
+import { usePreviewPane } from '@/ui/hooks/usePreviewPane'
 import { useTerminalSize } from '@/ui/hooks/useTerminalSize'
 import { useSettingsStore } from '@/ui/stores/settingsStore'
+import { Box } from 'ink'
 import React from 'react'
 import { useState } from 'react'
 
@@ -29,6 +34,8 @@ export const HomeScreen: React.FC = () => {
     selectedIndex: 0,
     itemHeight: 1,
   })
+  const [selectedAction, setSelectedAction] = useState<Action>()
+  const preview = usePreviewPane()
 
   if (currentActions.length === 0) {
     return <EmptyState />
@@ -36,14 +43,31 @@ export const HomeScreen: React.FC = () => {
 
   const visibleHeight = rows - HEADER_HEIGHT
 
+  // The list stays mounted when the preview is toggled, so the selection is kept
   return (
-    <ScrollArea
-      height={visibleHeight}
-      followIndex={scrollInfo.selectedIndex}
-      itemHeight={scrollInfo.itemHeight}
-      showScrollbar
-    >
-      <ActionList onScrollInfoChange={setScrollInfo} />
-    </ScrollArea>
+    <Box flexDirection="row" flexGrow={1}>
+      <Box flexDirection="column" flexGrow={1}>
+        <ScrollArea
+          height={visibleHeight}
+          followIndex={scrollInfo.selectedIndex}
+          itemHeight={scrollInfo.itemHeight}
+          itemHeights={scrollInfo.itemHeights}
+          showScrollbar
+        >
+          <ActionList
+            width={preview.listWidth}
+            onScrollInfoChange={setScrollInfo}
+            onSelectionChange={setSelectedAction}
+          />
+        </ScrollArea>
+      </Box>
+      {preview.isVisible && (
+        <ActionPreview
+          action={selectedAction}
+          width={preview.previewWidth}
+          height={visibleHeight}
+        />
+      )}
+    </Box>
   )
 }
@@ -15,6 +15,7 @@ import { useKeyBindingHints } from '@/ui/hooks/useKeyBindingHints'
 import { useKeyBindings } from '@/ui/hooks/useKeyBindings'
 import { usePageMeta } from '@/ui/hooks/usePageMeta'
 import type { FormField, FormFields, FormPage } from '@/ui/prompts/form/types'
+import { getFieldDefaultValue, getFieldEntries, isEmptyFieldValue } from '@/ui/prompts/form/values'
 import { Box, Text, useInput } from 'ink'
 import React from 'react'
 import { useCallback, useMemo, useState } from 'react'
@@ -28,36 +29,6 @@ export interface FormScreenProps {
   onCancel: () => void
 }
 
-/**
- * Get field entries from form (preserves order)
- */
-function getFieldEntries(fields: FormFields): [string, FormField][] {
-  return Object.entries(fields) as [string, FormField][]
-}
-
-/**
- * Get default value for a field
- */
-function getDefaultValue(field: FormField): unknown {
-  switch (field.type) {
-    case 'text':
-      return field.defaultValue ?? ''
-    case 'password':
-      // PasswordFormField doesn't have defaultValue (security reason)
-      return ''
-    case 'number':
-      return field.defaultValue ?? 0
-    case 'select':
-      return field.defaultValue ?? null
-    case 'confirm':
-      return field.defaultValue ?? false
-    case 'multiSelect':
-      return field.defaultValue ?? []
-    default:
-      return ''
-  }
-}
-
 /**
  * FormScreen component - displays multiple form fields
  */
@@ -78,7 +49,7 @@ export const FormScreen: React.FC<FormScreenProps> = ({ form, onSubmit, onCancel
   const [values, setValues] = useState<Record<string, unknown>>(() => {
     const initial: Record<string, unknown> = {}
     for (const [key, field] of fieldEntries) {
-      initial[key] = getDefaultValue(field)
+      initial[key] = getFieldDefaultValue(field)
     }
     return initial
   })
@@ -108,7 +79,7 @@ export const FormScreen: React.FC<FormScreenProps> = ({ form, onSubmit, onCancel
 
       // Required check
       if (field.required !== false) {
-        if (value === '' || value === null || value === undefined) {
+        if (isEmptyFieldValue(value)) {
           newErrors[key] = `${field.message} is required`
           isValid = false
           continue
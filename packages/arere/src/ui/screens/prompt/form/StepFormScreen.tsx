@@ -15,6 +15,7 @@ import { useKeyBindingHints } from '@/ui/hooks/useKeyBindingHints'
 import { useKeyBindings } from '@/ui/hooks/useKeyBindings'
 import { usePageMeta } from '@/ui/hooks/usePageMeta'
 import type { FormField, FormFields, FormPage, StepFormOptions } from '@/ui/prompts/form/types'
+import { getFieldDefaultValue, getFieldEntries, isEmptyFieldValue } from '@/ui/prompts/form/values'
 import { Box, Text, useInput } from 'ink'
 import React from 'react'
 import { useCallback, useMemo, useState } from 'react'
@@ -31,35 +32,6 @@ export interface StepFormScreenProps {
   onCancel: () => void
 }
 
-/**
- * Get field entries from form (preserves order)
- */
-function getFieldEntries(fields: FormFields): [string, FormField][] {
-  return Object.entries(fields) as [string, FormField][]
-}
-
-/**
- * Get default value for a field
- */
-function getDefaultValue(field: FormField): unknown {
-  switch (field.type) {
-    case 'text':
-      return field.defaultValue ?? ''
-    case 'password':
-      return ''
-    case 'number':
-      return field.defaultValue ?? 0
-    case 'select':
-      return field.defaultValue ?? null
-    case 'confirm':
-      return field.defaultValue ?? false
-    case 'multiSelect':
-      return field.defaultValue ?? []
-    default:
-      return ''
-  }
-}
-
 /**
  * Initialize step values from form definition
  */
@@ -67,7 +39,7 @@ function initializeStepValues(steps: FormPage<FormFields>[]): Record<string, unk
   return steps.map((step) => {
     const values: Record<string, unknown> = {}
     for (const [key, field] of getFieldEntries(step.fields)) {
-      values[key] = getDefaultValue(field)
+      values[key] = getFieldDefaultValue(field)
     }
     return values
   })
@@ -154,7 +126,7 @@ export const StepFormScreen: React.FC<StepFormScreenProps> = ({
 
       // Required check
       if (field.required !== false) {
-        if (value === '' || value === null || value === undefined) {
+        if (isEmptyFieldValue(value)) {
           newErrors[key] = `${field.message} is required`
           isValid = false
           continue
@@ -0,0 +1,67 @@
+/**
+ * Run with arguments screen component
+ *
+ * Shows a form generated from the arguments of the action (plus a line of extra
+ * arguments) and runs the action with them. The entered values are remembered
+ * per action and prefilled the next time.
+ */
+
+import { t } from '@/i18n/index'
+import { createBookmarkId } from '@/ui/bookmark'
+import { useActionExecution } from '@/ui/hooks/useActionExecution'
+import { FormScreen } from '@/ui/screens/prompt/form/FormScreen'
+import { useRunArgsStore } from '@/ui/stores/runArgsStore'
+import { useScreenStore } from '@/ui/stores/screenStore'
+import {
+  buildRunArgs,
+  createRunArgsFields,
+  getPasswordAnswers,
+  getRememberedArgValues,
+  loadActionArgs,
+} from '@/ui/utils/run-args'
+import { Text } from 'ink'
+import React from 'react'
+import { useMemo } from 'react'
+
+/**
+ * Run with arguments screen component
+ */
+export const RunArgsScreen: React.FC = () => {
+  const action = useRunArgsStore((s) => s.action)
+  const returnScreen = useRunArgsStore((s) => s.returnScreen)
+  const lastValues = useRunArgsStore((s) => s.lastValues)
+  const setLastValues = useRunArgsStore((s) => s.setLastValues)
+  const setScreen = useScreenStore((s) => s.setScreen)
+  const { runAction } = useActionExecution()
+
+  // Fields are created once per opened form (later value changes must not reset them)
+  // biome-ignore lint/correctness/useExhaustiveDependencies: lastValues only prefills the form
+  const form = useMemo(() => {
+    if (!action) return null
+    const args = loadActionArgs(action)
+    const remembered = lastValues[createBookmarkId(action)]
+    return {
+      args,
+      page: {
+        title: action.meta.name,
+        description: t(remembered ? 'ui:run_args.description_last' : 'ui:run_args.description'),
+        fields: createRunArgsFields(args, remembered),
+        submitLabel: t('ui:run_args.submit'),
+        cancelLabel: t('ui:run_args.cancel'),
+      },
+    }
+  }, [action])
+
+  if (!action || !form) {
+    return <Text dimColor>{t('ui:run_args.no_action')}</Text>
+  }
+
+  const handleSubmit = (values: Record<string, unknown>) => {
+    setLastValues(createBookmarkId(action), getRememberedArgValues(form.page.fields, values))
+    runAction(action, buildRunArgs(form.args, values), getPasswordAnswers(form.args, values))
+  }
+
+  return (
+    <FormScreen form={form.page} onSubmit={handleSubmit} onCancel={() => setScreen(returnScreen)} />
+  )
+}
@@ -2,25 +2,43 @@
  * Search screen component
  *
  * Displays the fuzzy search interface for actions.
+ * Queries combine field filters (`#tag`, `cat:`, `src:`, `plugin:`, `is:bookmarked`, `-` to negate)
+ * with free text matched against the name and description; matched characters are highlighted.
+ * Results are ranked by match score blended with frecency.
+ * Submitted queries are kept for the session and recalled with the up arrow.
+ * The preview pane is shown beside the results when it is turned on.
  * Uses Zustand stores for state and useActionExecution hook for selection.
  */
 
 import { createActionContext } from '@/action/context'
-import { defaultConfig } from '@/config/schema'
+import type { Action } from '@/action/types'
 import { t } from '@/i18n/index'
+import type { RenderHighlights } from '@/ui/arere-render/types'
+import type { BookmarkId } from '@/ui/bookmark'
 import { ActionList, type ActionListScrollInfo } from '@/ui/components/ActionList'
+import { ActionPreview } from '@/ui/components/ActionPreview'
 import { HEADER_HEIGHT } from '@/ui/components/Header'
 import { ScrollArea } from '@/ui/components/ScrollArea'
 import { TextInput } from '@/ui/components/inputs'
 import { useActionExecution } from '@/ui/hooks/useActionExecution'
+import { useActionSort } from '@/ui/hooks/useActionSort'
+import { useKeyBindings } from '@/ui/hooks/useKeyBindings'
+import { usePreviewPane } from '@/ui/hooks/usePreviewPane'
 import { useTerminalSize } from '@/ui/hooks/useTerminalSize'
 import { useTheme } from '@/ui/hooks/useTheme'
 import { useScreenStore } from '@/ui/stores/screenStore'
+import { useSearchStore } from '@/ui/stores/searchStore'
 import { useSettingsStore } from '@/ui/stores/settingsStore'
 import { evaluateDescription } from '@/ui/utils/action'
-import fuzzysort from 'fuzzysort'
+import {
+  type SearchableAction,
+  fuzzyMatchActions,
+  matchesSearchFilters,
+  parseSearchQuery,
+} from '@/ui/utils/search-query'
+import { rankSearchResults } from '@/ui/utils/sort'
 import { Box, Text, useInput } from 'ink'
-import React, { useState } from 'react'
+import React, { useMemo, useState } from 'react'
 
 /** Height of search input area (input line + marginBottom) */
 const SEARCH_INPUT_HEIGHT = 2
@@ -35,81 +53,154 @@ const SEARCH_INPUT_HEIGHT = 2
  */
 export const SearchScreen: React.FC = () => {
   const actions = useSettingsStore((s) => s.currentActions)
+  const currentConfig = useSettingsStore((s) => s.currentConfig)
   const setScreen = useScreenStore((s) => s.setScreen)
-  const { runAction } = useActionExecution()
+  const queryHistory = useSearchStore((s) => s.queryHistory)
+  const addQuery = useSearchStore((s) => s.addQuery)
+  const { runAction, openArgsForm } = useActionExecution()
+  const { sortedActions, usage } = useActionSort(actions)
   const [query, setQuery] = useState('')
   const [isFocusedOnInput, setIsFocusedOnInput] = useState(true)
+  // Recalled history entry (null while editing) and the query typed before recalling
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null)
+  const [draftQuery, setDraftQuery] = useState('')
   const { primaryColor } = useTheme()
   const { rows } = useTerminalSize()
+  const kb = useKeyBindings()
   const [scrollInfo, setScrollInfo] = useState<ActionListScrollInfo>({
     selectedIndex: 0,
     itemHeight: 1,
   })
+  const [selectedAction, setSelectedAction] = useState<Action>()
+  const preview = usePreviewPane()
 
-  // Prepare searchable items with all metadata
-  const searchableItems = React.useMemo(
+  const bookmarks = currentConfig.bookmarks
+
+  // Prepare searchable fields (descriptions evaluated as shown in the list, so highlights line up)
+  const searchableItems = useMemo<SearchableAction[]>(
     () =>
       actions.map((action) => {
         // Create context to evaluate description function (requires config parameter)
         const { context } = createActionContext({
           actionName: action.meta.name,
-          config: defaultConfig,
+          config: currentConfig,
           pluginNamespace: action.pluginNamespace,
         })
         const description = evaluateDescription(action.meta.description, context, action.meta.name)
 
-        // Build searchable text from all metadata:
-        // - name: Action name
-        // - description: Description text (evaluated if function)
-        // - category: Category (e.g., "plugin:arere-plugin-tutorial")
-        // - tags: Tag array (e.g., ["demo", "output", "api"])
-        const searchText = [
-          action.meta.name,
-          description,
-          action.meta.category || '',
-          ...(action.meta.tags || []),
-        ]
-          .filter(Boolean) // Exclude empty strings
-          .join(' ')
-
-        return {
-          action,
-          searchText,
-        }
+        return { action, name: action.meta.name, description }
       }),
-    [actions],
+    [actions, currentConfig],
   )
 
-  // Perform fuzzy search
-  const results = query
-    ? fuzzysort
-        .go(query, searchableItems, {
-          key: 'searchText',
-        })
-        .map((result) => result.obj.action)
-    : actions
+  const searchQuery = useMemo(() => parseSearchQuery(query), [query])
 
-  // Handle keyboard input
-  useInput(
-    (input, key) => {
-      if (key.escape) {
-        setScreen('list')
+  // Filter, then fuzzy search the free text (without free text, keep the list order)
+  const { results, highlights } = useMemo((): {
+    results: Action[]
+    highlights?: Map<Action, RenderHighlights>
+  } => {
+    const matches = (action: Action) =>
+      matchesSearchFilters(action, searchQuery.filters, (bookmarks ?? []) as BookmarkId[])
+
+    if (!searchQuery.text) {
+      return { results: sortedActions.filter(matches) }
+    }
+
+    const ranked = rankSearchResults(
+      fuzzyMatchActions(
+        searchableItems.filter((item) => matches(item.action)),
+        searchQuery.text,
+      ),
+      (match) => match.action,
+      usage,
+    )
+    return {
+      results: ranked.map((match) => match.action),
+      highlights: new Map(ranked.map((match) => [match.action, match.highlights])),
+    }
+  }, [searchQuery, bookmarks, sortedActions, searchableItems, usage])
+
+  /**
+   * Recall an older (-1) or newer (1) query from the history
+   */
+  const recallQuery = (direction: -1 | 1) => {
+    if (historyIndex === null) {
+      if (direction === 1 || queryHistory.length === 0) {
         return
       }
+      setDraftQuery(query)
+      setHistoryIndex(queryHistory.length - 1)
+      setQuery(queryHistory[queryHistory.length - 1])
+      return
+    }
 
-      // Tab to toggle focus between input and results
-      if (key.tab) {
-        setIsFocusedOnInput((prev) => !prev)
-        return
+    const next = historyIndex + direction
+    if (next >= queryHistory.length) {
+      // Past the newest entry: back to the query being typed
+      setHistoryIndex(null)
+      setQuery(draftQuery)
+      return
+    }
+    const index = Math.max(0, next)
+    setHistoryIndex(index)
+    setQuery(queryHistory[index])
+  }
+
+  const handleSelect = (action: Action) => {
+    addQuery(query)
+    runAction(action)
+  }
+
+  const handleRunWithArgs = (action: Action) => {
+    addQuery(query)
+    openArgsForm(action)
+  }
+
+  // Handle keyboard input
+  useInput((input, key) => {
+    if (key.escape) {
+      // Escape from the results returns to the input, from the input leaves the search
+      if (isFocusedOnInput) {
+        setScreen('list')
+      } else {
+        setIsFocusedOnInput(true)
       }
+      return
+    }
 
-      // Any character input should focus on the input field
-      if (!key.upArrow && !key.downArrow && !key.return && !key.escape && !key.tab && input) {
+    if (!isFocusedOnInput) {
+      // Any character input (except the list's preview and argument keys) focuses the input field
+      if (
+        !key.upArrow &&
+        !key.downArrow &&
+        !key.return &&
+        !key.tab &&
+        input &&
+        !kb.list.preview(input, key) &&
+        !kb.list.runWithArgs(input, key)
+      ) {
         setIsFocusedOnInput(true)
       }
-    },
-    { isActive: isFocusedOnInput },
-  )
+      return
+    }
+
+    // Tab to move focus to the results
+    if (key.tab) {
+      setIsFocusedOnInput(false)
+      return
+    }
+
+    // Recall previous queries
+    if (kb.list.up(input, key)) {
+      recallQuery(-1)
+      return
+    }
+    if (kb.list.down(input, key)) {
+      recallQuery(1)
+      return
+    }
+  })
 
   // Calculate visible height for ActionList
   const listHeight = rows - HEADER_HEIGHT - SEARCH_INPUT_HEIGHT
@@ -123,10 +214,13 @@ export const SearchScreen: React.FC = () => {
           value={query}
           onChange={(value) => {
             setQuery(value)
+            setHistoryIndex(null)
             setIsFocusedOnInput(true)
           }}
           placeholder={t('ui:search.placeholder')}
           onSubmit={() => {
+            addQuery(query)
+            setHistoryIndex(null)
             if (results.length > 0) {
               setIsFocusedOnInput(false)
             }
@@ -144,14 +238,34 @@ export const SearchScreen: React.FC = () => {
       )}
 
       {results.length > 0 && (
-        <ScrollArea
-          height={listHeight}
-          followIndex={scrollInfo.selectedIndex}
-          itemHeight={scrollInfo.itemHeight}
-          showScrollbar
-        >
-          <ActionList actions={results} onSelect={runAction} onScrollInfoChange={setScrollInfo} />
-        </ScrollArea>
+        <Box flexDirection="row" flexGrow={1}>
+          <Box flexDirection="column" flexGrow={1}>
+            <ScrollArea
+              height={listHeight}
+              followIndex={scrollInfo.selectedIndex}
+              itemHeight={scrollInfo.itemHeight}
+              showScrollbar
+            >
+              <ActionList
+                actions={results}
+                highlights={highlights}
+                width={preview.listWidth}
+                onSelect={handleSelect}
+                onRunWithArgs={handleRunWithArgs}
+                onScrollInfoChange={setScrollInfo}
+                onSelectionChange={setSelectedAction}
+                isActive={!isFocusedOnInput}
+              />
+            </ScrollArea>
+          </Box>
+          {preview.isVisible && (
+            <ActionPreview
+              action={selectedAction}
+              width={preview.previewWidth}
+              height={listHeight}
+            />
+          )}
+        </Box>
       )}
     </Box>
   )
@@ -5,6 +5,7 @@
 import { t } from '@/i18n/index'
 import type { LoadedPlugin } from '@/plugin/types'
 import { useTheme } from '@/ui/hooks/useTheme'
+import { formatPluginSource } from '@/ui/utils/plugin'
 import { Box, Text } from 'ink'
 import React from 'react'
 
@@ -70,6 +71,11 @@ export const PluginRow: React.FC<PluginRowProps> = ({ plugin, isSelected }) => {
           {plugin.configSchema && ` • ${t('ui:plugins.list.configurable')}`}
         </Text>
       </Box>
+
+      {/* Where the plugin was loaded from */}
+      <Box marginLeft={7}>
+        <Text dimColor>{formatPluginSource(plugin)}</Text>
+      </Box>
     </Box>
   )
 }
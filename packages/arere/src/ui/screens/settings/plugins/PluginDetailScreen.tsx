@@ -20,6 +20,15 @@ import { usePluginManagement } from '@/ui/hooks/usePluginManagement'
 import { useTerminalSize } from '@/ui/hooks/useTerminalSize'
 import { useScreenStore } from '@/ui/stores/screenStore'
 import { useSettingsStore } from '@/ui/stores/settingsStore'
+import {
+  type FormField,
+  getFieldError,
+  getFieldValue,
+  mergeFieldValues,
+  parseFieldValue,
+  setFieldValue,
+  validateSchemaValues,
+} from '@/ui/utils/schema-to-fields'
 import { Box, useInput } from 'ink'
 import React from 'react'
 import { LayerSelector } from '../components/LayerSelector'
@@ -56,6 +65,8 @@ export const PluginDetailScreen: React.FC = () => {
     setEditingState,
     editedFields,
     setEditedFields,
+    errors,
+    setErrors,
   } = usePluginFormState()
 
   // Get keybinding hints
@@ -67,6 +78,12 @@ export const PluginDetailScreen: React.FC = () => {
     return null
   }
 
+  // Validate values merged over the current config against the whole schema
+  const validate = (newValues: Record<string, unknown>): Record<string, string> => {
+    if (!plugin.configSchema) return {}
+    return validateSchemaValues(plugin.configSchema, mergeFieldValues(plugin.userConfig, newValues))
+  }
+
   // Set page meta based on editing state
   usePageMeta({
     breadcrumb: editingState
@@ -130,27 +147,25 @@ export const PluginDetailScreen: React.FC = () => {
             changedValues[key] = values[key]
           }
 
-          if (Object.keys(changedValues).length > 0) {
-            savePluginConfig(changedValues, currentLayer)
-          } else {
+          if (Object.keys(changedValues).length === 0) {
             setScreen('settings')
+            return
+          }
+
+          // Keep the form open with inline errors if the config would be invalid
+          const validationErrors = validate(changedValues)
+          setErrors(validationErrors)
+          if (Object.keys(validationErrors).length === 0) {
+            savePluginConfig(changedValues, currentLayer)
           }
         } else {
           // Edit field
           const field = fields[focusedFieldIndex]
-          if (field.type === 'string' || field.type === 'number') {
-            setEditingState({
-              field,
-              type: 'text',
-              currentValue: values[field.name],
-            })
-          } else if (field.type === 'enum' || field.type === 'boolean') {
-            setEditingState({
-              field,
-              type: 'select',
-              currentValue: values[field.name],
-            })
-          }
+          setEditingState({
+            field,
+            type: field.type === 'enum' || field.type === 'boolean' ? 'select' : 'text',
+            currentValue: getFieldValue(values, field.name),
+          })
         }
         return
       }
@@ -158,24 +173,35 @@ export const PluginDetailScreen: React.FC = () => {
     { isActive: editingState === null },
   )
 
-  // Handle text input submission
-  const handleTextSubmit = (value: string) => {
-    if (!editingState) return
+  // Update a field value and re-validate
+  const updateField = (field: FormField, value: unknown) => {
+    const newValues = setFieldValue(values, field.name, value)
+    setValues(newValues)
+    setErrors(validate(newValues))
 
-    const field = editingState.field
-    let finalValue: unknown = value
+    // Nested fields are saved with their top-level object
+    setEditedFields((prev) => new Set(prev).add(field.name.split('.')[0]))
+    setEditingState(null)
+  }
+
+  // Validate text input before submission (conversion and field-level schema errors)
+  const validateText = (text: string): string | undefined => {
+    if (!editingState) return undefined
 
-    if (field.type === 'number') {
-      finalValue = Number(value)
+    const field = editingState.field
+    const parsed = parseFieldValue(field, text)
+    if (parsed.error !== undefined) {
+      return parsed.error
     }
 
-    setValues((prev) => ({
-      ...prev,
-      [field.name]: finalValue,
-    }))
+    return getFieldError(validate(setFieldValue(values, field.name, parsed.value)), field.name)
+  }
 
-    setEditedFields((prev) => new Set(prev).add(field.name))
-    setEditingState(null)
+  // Handle text input submission
+  const handleTextSubmit = (value: string) => {
+    if (!editingState) return
+
+    updateField(editingState.field, parseFieldValue(editingState.field, value).value)
   }
 
   const handleTextCancel = () => {
@@ -185,13 +211,7 @@ export const PluginDetailScreen: React.FC = () => {
   const handleSelectSubmit = (value: unknown) => {
     if (!editingState) return
 
-    setValues((prev) => ({
-      ...prev,
-      [editingState.field.name]: value,
-    }))
-
-    setEditedFields((prev) => new Set(prev).add(editingState.field.name))
-    setEditingState(null)
+    updateField(editingState.field, value)
   }
 
   const handleSelectCancel = () => {
@@ -207,6 +227,7 @@ export const PluginDetailScreen: React.FC = () => {
           field={editingState.field}
           type={editingState.type}
           currentValue={editingState.currentValue}
+          validate={validateText}
           onTextSubmit={handleTextSubmit}
           onTextCancel={handleTextCancel}
           onSelectSubmit={handleSelectSubmit}
@@ -241,7 +262,12 @@ export const PluginDetailScreen: React.FC = () => {
 
         {/* Configuration form */}
         {hasConfig ? (
-          <PluginConfigForm fields={fields} values={values} focusedFieldIndex={focusedFieldIndex} />
+          <PluginConfigForm
+            fields={fields}
+            values={values}
+            errors={errors}
+            focusedFieldIndex={focusedFieldIndex}
+          />
         ) : (
           <PluginNoConfig />
         )}
@@ -2,11 +2,17 @@
  * Plugin list screen component
  *
  * Uses Zustand stores and hooks for state management.
+ * Plugins can be installed, removed and updated with the package manager from here.
  */
 
 import { t } from '@/i18n/index'
+import { formatError } from '@/lib/error'
+import type { PluginInstallScope, PluginOperation } from '@/plugin/installer'
+import type { LoadedPlugin } from '@/plugin/types'
 import { HEADER_HEIGHT } from '@/ui/components/Header'
 import { ScrollArea } from '@/ui/components/ScrollArea'
+import { Spinner } from '@/ui/components/Spinner'
+import { ConfirmInput, SelectInput, TextInput } from '@/ui/components/inputs'
 import { useKeyBindingHints } from '@/ui/hooks/useKeyBindingHints'
 import { useKeyBindings } from '@/ui/hooks/useKeyBindings'
 import { usePageMeta } from '@/ui/hooks/usePageMeta'
@@ -15,21 +21,48 @@ import { useTerminalSize } from '@/ui/hooks/useTerminalSize'
 import { useTheme } from '@/ui/hooks/useTheme'
 import { useScreenStore } from '@/ui/stores/screenStore'
 import { useSettingsStore } from '@/ui/stores/settingsStore'
+import { formatPluginSource } from '@/ui/utils/plugin'
 import { Box, Text, useInput } from 'ink'
 import React from 'react'
 import { useState } from 'react'
 
+/**
+ * Package operation in progress on the plugin list
+ */
+type PackageMode =
+  | { type: 'install-name' }
+  | { type: 'install-scope'; spec: string }
+  | { type: 'confirm-remove'; plugin: LoadedPlugin }
+  | { type: 'running'; operation: PluginOperation; name: string }
+
+/**
+ * Result of the last package operation
+ */
+interface PackageStatus {
+  success: boolean
+  message: string
+}
+
+/**
+ * Number of package manager output lines shown while running
+ */
+const OUTPUT_LINES = 5
+
 /**
  * Plugin list screen component
  */
 export const PluginListScreen: React.FC = () => {
   const [selectedIndex, setSelectedIndex] = useState(0)
+  const [mode, setMode] = useState<PackageMode | null>(null)
+  const [status, setStatus] = useState<PackageStatus | null>(null)
+  const [output, setOutput] = useState<string[]>([])
   const { primaryColor, inactiveColor, successColor, errorColor } = useTheme()
   const { rows } = useTerminalSize()
 
   const plugins = useSettingsStore((s) => s.currentPlugins)
   const setScreen = useScreenStore((s) => s.setScreen)
-  const { selectPlugin, togglePlugin } = usePluginManagement()
+  const { selectPlugin, togglePlugin, installPlugin, removePlugin, updatePlugin } =
+    usePluginManagement()
   const kbHints = useKeyBindingHints()
 
   // Calculate visible height
@@ -45,6 +78,43 @@ export const PluginListScreen: React.FC = () => {
 
   const kb = useKeyBindings()
 
+  /**
+   * Run a package operation, showing the package manager output while it runs
+   */
+  const runOperation = async (
+    operation: PluginOperation,
+    name: string,
+    run: (onOutput: (line: string) => void) => Promise<unknown>,
+  ) => {
+    setMode({ type: 'running', operation, name })
+    setOutput([])
+    try {
+      await run((line) => setOutput((prev) => [...prev, line].slice(-OUTPUT_LINES)))
+      setStatus({ success: true, message: t(`ui:plugins.manage.done.${operation}`, { name }) })
+      setSelectedIndex(0)
+    } catch (error) {
+      setStatus({
+        success: false,
+        message: t('ui:plugins.manage.failed', { message: formatError(error) }),
+      })
+    }
+    setMode(null)
+  }
+
+  /**
+   * Plugins from pluginPaths are not managed by a package manager
+   */
+  const isManaged = (plugin: LoadedPlugin): boolean => {
+    if (plugin.source === 'path') {
+      setStatus({
+        success: false,
+        message: t('ui:plugins.manage.path_source', { name: plugin.meta.name }),
+      })
+      return false
+    }
+    return true
+  }
+
   useInput(
     (input, key) => {
       if (kb.global.back(input, key)) {
@@ -76,10 +146,107 @@ export const PluginListScreen: React.FC = () => {
         }
         return
       }
+
+      if (kb.plugins.install(input, key)) {
+        setStatus(null)
+        setMode({ type: 'install-name' })
+        return
+      }
+
+      if (kb.plugins.remove(input, key)) {
+        const plugin = plugins[selectedIndex]
+        if (plugin && isManaged(plugin)) {
+          setStatus(null)
+          setMode({ type: 'confirm-remove', plugin })
+        }
+        return
+      }
+
+      if (kb.plugins.update(input, key)) {
+        const plugin = plugins[selectedIndex]
+        if (plugin && isManaged(plugin)) {
+          runOperation('update', plugin.meta.name, (onOutput) => updatePlugin(plugin, onOutput))
+        }
+        return
+      }
     },
-    { isActive: true },
+    { isActive: mode === null },
   )
 
+  if (mode?.type === 'install-name') {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <TextInput
+          mode="standalone"
+          label={t('ui:plugins.manage.install_label')}
+          format="trim"
+          minLength={1}
+          onSubmit={(spec) => setMode({ type: 'install-scope', spec })}
+          onCancel={() => setMode(null)}
+        />
+      </Box>
+    )
+  }
+
+  if (mode?.type === 'install-scope') {
+    const options: Array<{ label: string; value: PluginInstallScope }> = [
+      { label: t('ui:plugins.manage.scope.global'), value: 'global' },
+      { label: t('ui:plugins.manage.scope.local'), value: 'local' },
+    ]
+    return (
+      <Box flexDirection="column" padding={1}>
+        <SelectInput
+          mode="standalone"
+          label={t('ui:plugins.manage.scope_label', { name: mode.spec })}
+          options={options}
+          onSelect={(scope) =>
+            runOperation('install', mode.spec, (onOutput) =>
+              installPlugin(mode.spec, scope, onOutput),
+            )
+          }
+          onCancel={() => setMode(null)}
+        />
+      </Box>
+    )
+  }
+
+  if (mode?.type === 'confirm-remove') {
+    const { plugin } = mode
+    return (
+      <Box flexDirection="column" padding={1}>
+        <ConfirmInput
+          mode="standalone"
+          message={t('ui:plugins.manage.confirm_remove', { name: plugin.meta.name })}
+          danger
+          onConfirm={(confirmed) => {
+            if (confirmed) {
+              runOperation('remove', plugin.meta.name, (onOutput) => removePlugin(plugin, onOutput))
+            } else {
+              setMode(null)
+            }
+          }}
+        />
+      </Box>
+    )
+  }
+
+  if (mode?.type === 'running') {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Box>
+          <Spinner type="dots" />
+          <Text> {t(`ui:plugins.manage.running.${mode.operation}`, { name: mode.name })}</Text>
+        </Box>
+        {output.map((line, index) => (
+          // biome-ignore lint/suspicious/noArrayIndexKey: Output lines have no stable id
+          <Text key={index} dimColor wrap="truncate-end">
+            {line}
+          </Text>
+        ))}
+      </Box>
+    )
+  }
+
   // Calculate followIndex offset (title + margin = 2 lines)
   const followIndex = 2 + selectedIndex * PLUGIN_ITEM_HEIGHT
 
@@ -98,6 +265,13 @@ export const PluginListScreen: React.FC = () => {
           </Text>
         </Box>
 
+        {/* Result of the last package operation */}
+        {status && (
+          <Box marginBottom={1}>
+            <Text color={status.success ? successColor : errorColor}>{status.message}</Text>
+          </Box>
+        )}
+
         {/* Plugin list */}
         {plugins.length === 0 ? (
           <Box>
@@ -137,6 +311,9 @@ export const PluginListScreen: React.FC = () => {
                         {plugin.configSchema && ` • ${t('ui:plugins.list.configurable')}`}
                       </Text>
                     </Box>
+                    <Box marginLeft={2}>
+                      <Text dimColor>{formatPluginSource(plugin)}</Text>
+                    </Box>
                   </Box>
                 </Box>
               )
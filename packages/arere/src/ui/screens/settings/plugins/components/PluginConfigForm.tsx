@@ -2,31 +2,34 @@
  * PluginConfigForm - Plugin configuration form list
  *
  * Displays list of configuration fields with focus navigation.
- * Uses field.description directly from Zod schema.
+ * Uses field.description directly from Zod schema; validation errors are shown in its place.
  */
 
 import { t } from '@/i18n'
 import { useTheme } from '@/ui/hooks/useTheme'
-import type { FormField } from '@/ui/utils/schema-to-fields'
+import {
+  type FormField,
+  formatFieldValue,
+  getFieldError,
+  getFieldValue,
+} from '@/ui/utils/schema-to-fields'
 import { Box, Text } from 'ink'
 import React from 'react'
 
 export interface PluginConfigFormProps {
   fields: FormField[]
   values: Record<string, unknown>
+  /** Validation errors by field path (`''` for errors on the whole config) */
+  errors?: Record<string, string>
   focusedFieldIndex: number
 }
 
 /**
  * Format value for display
  */
-function formatValue(field: FormField, value: unknown): string {
-  const displayValue = value !== undefined ? value : field.defaultValue
-  if (displayValue === undefined || displayValue === null) return ''
-  if (field.type === 'boolean') {
-    return String(displayValue)
-  }
-  return String(displayValue)
+function formatValue(field: FormField, values: Record<string, unknown>): string {
+  const value = getFieldValue(values, field.name)
+  return formatFieldValue(field, value !== undefined ? value : field.defaultValue)
 }
 
 /**
@@ -37,28 +40,34 @@ function formatValue(field: FormField, value: unknown): string {
  * <PluginConfigForm
  *   fields={fields}
  *   values={values}
+ *   errors={{ timeout: 'Number must be greater than or equal to 1000' }}
  *   focusedFieldIndex={0}
  * />
  * ```
  */
 export const PluginConfigForm: React.FC<PluginConfigFormProps> = React.memo(
-  ({ fields, values, focusedFieldIndex }) => {
-    const { primaryColor, successColor } = useTheme()
+  ({ fields, values, errors = {}, focusedFieldIndex }) => {
+    const { primaryColor, successColor, errorColor } = useTheme()
 
     // Calculate column widths
     const maxNameWidth = Math.max(...fields.map((f) => f.name.length), 0)
     const maxValueWidth = Math.min(
-      Math.max(...fields.map((f) => formatValue(f, values[f.name]).length), 0),
+      Math.max(...fields.map((f) => formatValue(f, values).length), 0),
       20,
     )
 
+    const otherErrors = Object.entries(errors).filter(
+      ([path]) => !fields.some((field) => getFieldError({ [path]: '' }, field.name) !== undefined),
+    )
+
     return (
       <Box flexDirection="column" marginBottom={1}>
         {fields.map((field, index) => {
           const isFocused = focusedFieldIndex === index
-          const value = formatValue(field, values[field.name])
+          const value = formatValue(field, values)
           // Use field.description directly from Zod schema
           const description = field.description || ''
+          const error = getFieldError(errors, field.name)
 
           const namePadded = field.name.padEnd(maxNameWidth + 2)
           const valuePadded = value.padEnd(maxValueWidth + 2)
@@ -69,7 +78,11 @@ export const PluginConfigForm: React.FC<PluginConfigFormProps> = React.memo(
                 {isFocused ? '❯ ' : '  '}
                 {namePadded}
                 {valuePadded}
-                <Text dimColor>{description}</Text>
+                {error ? (
+                  <Text color={errorColor}>✗ {error}</Text>
+                ) : (
+                  <Text dimColor>{description}</Text>
+                )}
               </Text>
             </Box>
           )
@@ -83,6 +96,14 @@ export const PluginConfigForm: React.FC<PluginConfigFormProps> = React.memo(
             {focusedFieldIndex === fields.length ? '❯ ' : '  '}[{t('ui:plugins.detail.save')}]
           </Text>
         </Box>
+        {/* Errors not attached to a listed field (e.g. refinements of nested objects) */}
+        {otherErrors.map(([path, message]) => (
+          <Box key={path}>
+            <Text color={errorColor}>
+              {'  '}✗ {path ? `${path}: ${message}` : message}
+            </Text>
+          </Box>
+        ))}
       </Box>
     )
   },
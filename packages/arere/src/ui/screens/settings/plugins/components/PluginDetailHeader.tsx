@@ -1,11 +1,12 @@
 /**
  * PluginDetailHeader - Plugin information header
  *
- * Displays plugin name, version, and description.
+ * Displays plugin name, version, description, and where the plugin was loaded from.
  */
 
 import type { LoadedPlugin } from '@/plugin/types'
 import { useTheme } from '@/ui/hooks/useTheme'
+import { formatPluginSource } from '@/ui/utils/plugin'
 import { Box, Text } from 'ink'
 import React from 'react'
 
@@ -39,6 +40,9 @@ export const PluginDetailHeader: React.FC<PluginDetailHeaderProps> = React.memo(
           <Text>{plugin.meta.description}</Text>
         </Box>
       )}
+      <Box>
+        <Text dimColor>{formatPluginSource(plugin)}</Text>
+      </Box>
     </Box>
   )
 })
@@ -3,13 +3,15 @@
  *
  * Displays text input or select input for editing a field value.
  * Uses field.description directly from Zod schema.
+ * Arrays are entered as comma-separated lists, records (and arrays of objects) as JSON.
+ * Secret fields are entered with a masked input and never show their current value.
  */
 
 import { t } from '@/i18n'
 import type { LoadedPlugin } from '@/plugin/types'
-import { SelectInput, type SelectOption, TextInput } from '@/ui/components/inputs'
+import { PasswordInput, SelectInput, type SelectOption, TextInput } from '@/ui/components/inputs'
 import { useTheme } from '@/ui/hooks/useTheme'
-import type { FormField } from '@/ui/utils/schema-to-fields'
+import { type FormField, formatFieldValue, isJsonField } from '@/ui/utils/schema-to-fields'
 import { Box, Text } from 'ink'
 import React from 'react'
 
@@ -18,12 +20,36 @@ export interface PluginFieldEditorProps {
   field: FormField
   type: 'text' | 'select'
   currentValue: unknown
+  /** Validate entered text (returns an error message shown inline) */
+  validate?: (value: string) => string | undefined
   onTextSubmit: (value: string) => void
   onTextCancel: () => void
   onSelectSubmit: (value: unknown) => void
   onSelectCancel: () => void
 }
 
+/**
+ * Get input hints for a field (list/JSON format and number bounds)
+ */
+function getFieldHints(field: FormField): string[] {
+  const hints: string[] = []
+  if (field.type === 'array' || field.type === 'record') {
+    hints.push(
+      isJsonField(field) ? t('ui:plugins.detail.format_json') : t('ui:plugins.detail.format_list'),
+    )
+  }
+  if (field.min !== undefined) {
+    hints.push(t('ui:plugins.detail.min', { min: field.min }))
+  }
+  if (field.max !== undefined) {
+    hints.push(t('ui:plugins.detail.max', { max: field.max }))
+  }
+  if (field.secret) {
+    hints.push(t('ui:plugins.detail.secret_hint'))
+  }
+  return hints
+}
+
 /**
  * Plugin field editor component
  *
@@ -47,6 +73,7 @@ export const PluginFieldEditor: React.FC<PluginFieldEditorProps> = React.memo(
     field,
     type,
     currentValue,
+    validate,
     onTextSubmit,
     onTextCancel,
     onSelectSubmit,
@@ -57,8 +84,9 @@ export const PluginFieldEditor: React.FC<PluginFieldEditorProps> = React.memo(
     const { primaryColor } = useTheme()
 
     if (type === 'text') {
-      const initialValue = String(currentValue ?? field.defaultValue ?? '')
+      const initialValue = formatFieldValue(field, currentValue ?? field.defaultValue)
       const label = t('ui:plugins.detail.edit_field', { field: field.name })
+      const hints = getFieldHints(field)
 
       return (
         <Box flexDirection="column" flexGrow={1} padding={1}>
@@ -74,19 +102,31 @@ export const PluginFieldEditor: React.FC<PluginFieldEditorProps> = React.memo(
           <Box marginBottom={1} flexDirection="column">
             <Text>{label}</Text>
             {description && <Text dimColor>{description}</Text>}
+            {hints.length > 0 && <Text dimColor>{hints.join(' / ')}</Text>}
           </Box>
 
           <Box marginBottom={1}>
             <Text dimColor>{t('ui:plugins.detail.current_value')}</Text>
             <Text>{initialValue}</Text>
           </Box>
-          <TextInput
-            mode="standalone"
-            label={t('ui:plugins.detail.new_value')}
-            initialValue={initialValue}
-            onSubmit={onTextSubmit}
-            onCancel={onTextCancel}
-          />
+          {field.secret ? (
+            <PasswordInput
+              mode="standalone"
+              label={t('ui:plugins.detail.new_value')}
+              validate={validate}
+              onSubmit={onTextSubmit}
+              onCancel={onTextCancel}
+            />
+          ) : (
+            <TextInput
+              mode="standalone"
+              label={t('ui:plugins.detail.new_value')}
+              initialValue={initialValue}
+              validate={validate}
+              onSubmit={onTextSubmit}
+              onCancel={onTextCancel}
+            />
+          )}
         </Box>
       )
     }
@@ -101,7 +141,7 @@ export const PluginFieldEditor: React.FC<PluginFieldEditorProps> = React.memo(
           { label: 'false', value: false as unknown },
         ]
       } else if (field.choices) {
-        options = field.choices.map((choice: any) => ({
+        options = field.choices.map((choice) => ({
           label: String(choice.value),
           value: choice.value as unknown,
         }))
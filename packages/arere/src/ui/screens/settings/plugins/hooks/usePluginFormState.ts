@@ -5,13 +5,16 @@
  * - Form field values
  * - Editing state (text/select mode)
  * - Edited fields tracking
+ * - Validation errors
  * - Focus state
  *
  * Uses Zustand stores for state management.
  */
 
+import { deepMerge } from '@/config/utils'
+import { pickSecretValues } from '@/secrets/schema'
 import { useSettingsStore } from '@/ui/stores/settingsStore'
-import { type FormField, schemaToFields } from '@/ui/utils/schema-to-fields'
+import { type FormField, flattenFields, schemaToFields } from '@/ui/utils/schema-to-fields'
 import { useEffect, useState } from 'react'
 
 export type EditingState = null | {
@@ -21,7 +24,7 @@ export type EditingState = null | {
 }
 
 export interface UsePluginFormStateReturn {
-  // Field configuration
+  // Field configuration (nested object fields are flattened)
   fields: FormField[]
   hasConfig: boolean
 
@@ -37,10 +40,14 @@ export interface UsePluginFormStateReturn {
   editingState: EditingState
   setEditingState: React.Dispatch<React.SetStateAction<EditingState>>
 
-  // Edited fields tracking
+  // Edited fields tracking (top-level keys)
   editedFields: Set<string>
   setEditedFields: React.Dispatch<React.SetStateAction<Set<string>>>
 
+  // Validation errors by field path
+  errors: Record<string, string>
+  setErrors: React.Dispatch<React.SetStateAction<Record<string, string>>>
+
   // Helper functions
   getLayerPluginConfig: () => Record<string, unknown> | undefined
 }
@@ -86,41 +93,40 @@ export function usePluginFormState(): UsePluginFormStateReturn {
 
   const [fields] = useState<FormField[]>(() => {
     if (!plugin?.configSchema) return []
-    return schemaToFields(plugin.configSchema)
+    return flattenFields(schemaToFields(plugin.configSchema))
   })
 
-  const [values, setValues] = useState<Record<string, unknown>>(() => {
-    const initialValues: Record<string, unknown> = {}
+  // Get the layer values of the top-level schema keys
+  // (secret fields are not in the layers: their stored values are shown on both)
+  const getLayerValues = (): Record<string, unknown> => {
+    const layerValues: Record<string, unknown> = {}
     const layerConfig = getLayerPluginConfig()
+    const keys = plugin?.configSchema ? Object.keys(plugin.configSchema.shape) : []
 
-    for (const field of fields) {
-      if (layerConfig && field.name in layerConfig) {
-        initialValues[field.name] = layerConfig[field.name]
+    for (const key of keys) {
+      if (layerConfig && key in layerConfig) {
+        layerValues[key] = layerConfig[key]
       }
     }
 
-    return initialValues
-  })
+    if (!plugin?.configSchema) return layerValues
+    return deepMerge(layerValues, pickSecretValues(plugin.configSchema, plugin.userConfig ?? {}))
+  }
+
+  const [values, setValues] = useState<Record<string, unknown>>(getLayerValues)
 
   const [focusedFieldIndex, setFocusedFieldIndex] = useState(0)
   const [editingState, setEditingState] = useState<EditingState>(null)
   const [editedFields, setEditedFields] = useState<Set<string>>(new Set())
+  const [errors, setErrors] = useState<Record<string, string>>({})
 
   const hasConfig = fields.length > 0
 
   // Reset values when layer changes
   useEffect(() => {
-    const layerConfig = getLayerPluginConfig()
-    const newValues: Record<string, unknown> = {}
-
-    for (const field of fields) {
-      if (layerConfig && field.name in layerConfig) {
-        newValues[field.name] = layerConfig[field.name]
-      }
-    }
-
-    setValues(newValues)
+    setValues(getLayerValues())
     setEditedFields(new Set())
+    setErrors({})
   }, [currentLayer])
 
   return {
@@ -134,6 +140,8 @@ export function usePluginFormState(): UsePluginFormStateReturn {
     setEditingState,
     editedFields,
     setEditedFields,
+    errors,
+    setErrors,
     getLayerPluginConfig,
   }
 }
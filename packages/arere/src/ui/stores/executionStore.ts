@@ -2,6 +2,7 @@
  * Execution Store - Action execution state management
  */
 
+import type { StepResult } from '@/action/executor'
 import type { Action } from '@/action/types'
 import type { VisualFeedback } from '@/ui/control/types'
 import type { OutputMessage } from '@/ui/output/types'
@@ -13,7 +14,10 @@ export interface ExecutionStore {
   executionError: Error | null
   executionDuration: number
   outputMessages: OutputMessage[]
+  stepResults: StepResult[]
   visualFeedback: VisualFeedback
+  abortController: AbortController | null
+  isAborting: boolean
 
   // Actions
   setSelectedAction: (action: Action | null) => void
@@ -21,17 +25,23 @@ export interface ExecutionStore {
   setExecutionDuration: (duration: number) => void
   setOutputMessages: (messages: OutputMessage[]) => void
   addOutputMessage: (message: OutputMessage) => void
+  setStepResults: (steps: StepResult[]) => void
   setVisualFeedback: (feedback: VisualFeedback | ((prev: VisualFeedback) => VisualFeedback)) => void
+  setAbortController: (controller: AbortController | null) => void
+  abortExecution: () => void
   resetExecution: () => void
 }
 
-export const useExecutionStore = create<ExecutionStore>((set) => ({
+export const useExecutionStore = create<ExecutionStore>((set, get) => ({
   // Initial state
   selectedAction: null,
   executionError: null,
   executionDuration: 0,
   outputMessages: [],
+  stepResults: [],
   visualFeedback: {},
+  abortController: null,
+  isAborting: false,
 
   // Actions
   setSelectedAction: (action) => set({ selectedAction: action }),
@@ -40,15 +50,27 @@ export const useExecutionStore = create<ExecutionStore>((set) => ({
   setOutputMessages: (messages) => set({ outputMessages: messages }),
   addOutputMessage: (message) =>
     set((state) => ({ outputMessages: [...state.outputMessages, message] })),
+  setStepResults: (steps) => set({ stepResults: steps }),
   setVisualFeedback: (feedback) =>
     set((state) => ({
       visualFeedback: typeof feedback === 'function' ? feedback(state.visualFeedback) : feedback,
     })),
+  setAbortController: (controller) => set({ abortController: controller }),
+  abortExecution: () => {
+    const { abortController } = get()
+    if (abortController && !abortController.signal.aborted) {
+      abortController.abort()
+      set({ isAborting: true })
+    }
+  },
   resetExecution: () =>
     set({
       executionError: null,
       executionDuration: 0,
       outputMessages: [],
+      stepResults: [],
       visualFeedback: {},
+      abortController: null,
+      isAborting: false,
     }),
 }))
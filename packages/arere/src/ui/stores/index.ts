@@ -7,5 +7,7 @@
 
 export { useScreenStore, type ScreenStore } from './screenStore'
 export { useExecutionStore, type ExecutionStore } from './executionStore'
-export { useSettingsStore, type SettingsStore } from './settingsStore'
+export { useSettingsStore, type SettingsStore, type ActionLoadIssue } from './settingsStore'
 export { usePromptStore, type PromptStore } from './promptStore'
+export { useSearchStore, type SearchStore } from './searchStore'
+export { useRunArgsStore, type RunArgsStore } from './runArgsStore'
@@ -0,0 +1,36 @@
+/**
+ * Run Args Store - Argument form of "run with arguments" (values kept for the session only)
+ */
+
+import type { Action } from '@/action/types'
+import type { BookmarkId } from '@/ui/bookmark'
+import type { ScreenState } from '@/ui/types'
+import { create } from 'zustand'
+
+export interface RunArgsStore {
+  // State
+  /** Action whose argument form is open */
+  action: Action | null
+  /** Screen to return to when the form is cancelled */
+  returnScreen: ScreenState
+  /** Last entered form values per action (prefilled for a quick re-run) */
+  lastValues: Record<BookmarkId, Record<string, unknown>>
+
+  // Actions
+  /** Open the argument form of an action */
+  openForm: (action: Action, returnScreen: ScreenState) => void
+  /** Remember the values entered for an action */
+  setLastValues: (actionId: BookmarkId, values: Record<string, unknown>) => void
+}
+
+export const useRunArgsStore = create<RunArgsStore>((set) => ({
+  // Initial state
+  action: null,
+  returnScreen: 'list',
+  lastValues: {},
+
+  // Actions
+  openForm: (action, returnScreen) => set({ action, returnScreen }),
+  setLastValues: (actionId, values) =>
+    set((state) => ({ lastValues: { ...state.lastValues, [actionId]: values } })),
+}))
@@ -0,0 +1,38 @@
+/**
+ * Search Store - Query history of the search screen (kept for the session only)
+ */
+
+import { create } from 'zustand'
+
+/**
+ * Maximum number of remembered queries
+ */
+export const MAX_QUERY_HISTORY = 50
+
+export interface SearchStore {
+  // State
+  /** Submitted queries, oldest first */
+  queryHistory: string[]
+
+  // Actions
+  /** Remember a query (moved to the end if it was already remembered) */
+  addQuery: (query: string) => void
+}
+
+export const useSearchStore = create<SearchStore>((set) => ({
+  // Initial state
+  queryHistory: [],
+
+  // Actions
+  addQuery: (query) => {
+    const trimmed = query.trim()
+    if (!trimmed) {
+      return
+    }
+    set((state) => ({
+      queryHistory: [...state.queryHistory.filter((q) => q !== trimmed), trimmed].slice(
+        -MAX_QUERY_HISTORY,
+      ),
+    }))
+  },
+}))
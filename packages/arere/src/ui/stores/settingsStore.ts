@@ -9,6 +9,24 @@ import type { LoadedPlugin } from '@/plugin/types'
 import type { BookmarkId } from '@/ui/bookmark/types'
 import { create } from 'zustand'
 
+/**
+ * Action file that failed to (re)load
+ */
+export interface ActionLoadIssue {
+  /** Absolute path of the action file */
+  filePath: string
+  /** Formatted error message */
+  message: string
+}
+
+/**
+ * Plugins and actions after plugin packages were installed, removed or updated
+ */
+export interface PluginRescanResult {
+  plugins: LoadedPlugin[]
+  actions: Action[]
+}
+
 export interface SettingsStore {
   // State
   currentConfig: ArereConfig
@@ -19,6 +37,8 @@ export interface SettingsStore {
   userLayerConfig: Partial<ArereConfig> | null
   workspaceLayerConfig: Partial<ArereConfig> | null
   onPluginReload: ((config: ArereConfig) => Promise<Action[]>) | null
+  onPluginRescan: ((config: ArereConfig) => Promise<PluginRescanResult>) | null
+  actionLoadIssues: ActionLoadIssue[]
 
   // Derived state helpers
   getBookmarks: () => BookmarkId[]
@@ -32,6 +52,7 @@ export interface SettingsStore {
   setCurrentLayer: (layer: ConfigLayer) => void
   setUserLayerConfig: (config: Partial<ArereConfig> | null) => void
   setWorkspaceLayerConfig: (config: Partial<ArereConfig> | null) => void
+  setActionLoadIssues: (issues: ActionLoadIssue[]) => void
 
   // Bookmark actions (updates local state only, persistence handled separately)
   addBookmark: (id: BookmarkId) => void
@@ -47,6 +68,7 @@ export interface SettingsStore {
     plugins: LoadedPlugin[],
     actions: Action[],
     onPluginReload: (config: ArereConfig) => Promise<Action[]>,
+    onPluginRescan?: (config: ArereConfig) => Promise<PluginRescanResult>,
   ) => void
 }
 
@@ -60,6 +82,8 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
   userLayerConfig: null,
   workspaceLayerConfig: null,
   onPluginReload: null,
+  onPluginRescan: null,
+  actionLoadIssues: [],
 
   // Derived state helpers
   getBookmarks: () => (get().currentConfig.bookmarks ?? []) as BookmarkId[],
@@ -76,6 +100,7 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
   setCurrentLayer: (layer) => set({ currentLayer: layer }),
   setUserLayerConfig: (config) => set({ userLayerConfig: config }),
   setWorkspaceLayerConfig: (config) => set({ workspaceLayerConfig: config }),
+  setActionLoadIssues: (issues) => set({ actionLoadIssues: issues }),
 
   // Bookmark actions (updates local state only)
   addBookmark: (id) =>
@@ -129,11 +154,12 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
   },
 
   // Initialization
-  initialize: (config, plugins, actions, onPluginReload) =>
+  initialize: (config, plugins, actions, onPluginReload, onPluginRescan) =>
     set({
       currentConfig: config,
       currentPlugins: plugins,
       currentActions: actions,
       onPluginReload,
+      onPluginRescan: onPluginRescan ?? null,
     }),
 }))
@@ -14,10 +14,13 @@ export type ScreenState =
   | 'input'
   | 'error'
   | 'success'
+  | 'cancelled'
   | 'help'
   | 'settings'
   | 'plugin-list'
   | 'plugin-detail'
+  | 'history'
+  | 'run-args'
 
 /**
  * App props
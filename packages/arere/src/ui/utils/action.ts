@@ -2,7 +2,9 @@
  * Action-related utility functions for UI components
  */
 
+import { getActionSelector } from '@/action/registry'
 import type { Action, ActionContext } from '@/action/types'
+import { t } from '@/i18n/index'
 import { logger } from '@/lib/logger'
 import type { PluginMeta } from '@/plugin/types'
 import type { RenderData } from '@/ui/arere-render/types'
@@ -65,13 +67,13 @@ export function formatCategoryLabel(category: string | undefined, pluginMeta?: P
   if (category === 'project') return 'Project'
   if (category === 'global') return 'Global'
 
-  // plugin:xxx → Use plugin.meta.name (with arere-plugin- prefix removed)
+  // plugin:xxx → Use plugin.meta.name (with @scope/arere-plugin- prefix removed)
   if (category.startsWith('plugin:')) {
     const pluginName = category.replace('plugin:', '')
     // Get display name: prefer pluginMeta.name, fallback to pluginName
     const displayName = pluginMeta?.name ?? pluginName
-    // Remove arere-plugin- prefix for cleaner display
-    return displayName.replace(/^arere-plugin-/, '')
+    // Remove (scoped) arere-plugin- prefix for cleaner display
+    return displayName.replace(/^(@[^/]+\/)?arere-plugin-/, '')
   }
 
   return category
@@ -104,6 +106,28 @@ export function formatTags(tags?: string[]): string {
   return tags.map((tag) => `#${tag}`).join(' ')
 }
 
+/**
+ * Find the actions shadowed by a later action with the same name
+ *
+ * @param actions - Actions in registration order (the last one with a name wins)
+ * @returns Shadowed actions mapped to the qualified id (or file path) of the action shadowing them
+ */
+export function getShadowedActions(actions: Action[]): Map<Action, string> {
+  const winners = new Map<string, Action>()
+  for (const action of actions) {
+    winners.set(action.meta.name, action)
+  }
+
+  const shadowed = new Map<Action, string>()
+  for (const action of actions) {
+    const winner = winners.get(action.meta.name)
+    if (winner && winner !== action) {
+      shadowed.set(action, getActionSelector(winner, actions))
+    }
+  }
+  return shadowed
+}
+
 /**
  * Options for creating RenderData from an Action
  */
@@ -118,6 +142,24 @@ export interface ActionToRenderDataOptions {
   isBookmarked?: boolean
   /** Bookmark icon to display */
   bookmarkIcon?: string
+  /** Qualified id of the action shadowing this one (shown after the description) */
+  shadowedBy?: string
+}
+
+/**
+ * Get the source label of an action (label of its action root, or derived from the category)
+ */
+function getActionSource(action: Action): string {
+  if (action.source) {
+    return action.source
+  }
+  if (action.meta.category?.startsWith('plugin:')) {
+    return 'plugin'
+  }
+  if (action.meta.category === 'global' || action.meta.category === 'project') {
+    return action.meta.category
+  }
+  return ''
 }
 
 /**
@@ -139,22 +181,22 @@ export interface ActionToRenderDataOptions {
  * ```
  */
 export function actionToRenderData(options: ActionToRenderDataOptions): RenderData {
-  const { action, context, isSelected = false, isBookmarked = false, bookmarkIcon = '🔖' } = options
+  const {
+    action,
+    context,
+    isSelected = false,
+    isBookmarked = false,
+    bookmarkIcon = '🔖',
+    shadowedBy,
+  } = options
 
-  const description = evaluateDescription(action.meta.description, context, action.meta.name)
+  const evaluated = evaluateDescription(action.meta.description, context, action.meta.name)
+  const description = shadowedBy
+    ? `${evaluated} (${t('ui:action_list.shadowed_by', { id: shadowedBy })})`
+    : evaluated
   const categoryLabel = formatCategoryLabel(action.meta.category, action.pluginMeta)
   const tagsText = formatTags(action.meta.tags)
 
-  // Determine source type
-  let source = ''
-  if (action.meta.category?.startsWith('plugin:')) {
-    source = 'plugin'
-  } else if (action.meta.category === 'global') {
-    source = 'global'
-  } else if (action.meta.category === 'project') {
-    source = 'project'
-  }
-
   return {
     selectIcon: isSelected ? '❯' : '',
     bookmark: isBookmarked ? bookmarkIcon : '',
@@ -163,6 +205,6 @@ export function actionToRenderData(options: ActionToRenderDataOptions): RenderDa
     description,
     tags: tagsText,
     plugin: action.pluginMeta?.name ?? '',
-    source,
+    source: getActionSource(action),
   }
 }
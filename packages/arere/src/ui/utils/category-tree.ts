@@ -0,0 +1,173 @@
+/**
+ * Category tree for the grouped action list
+ *
+ * Actions are folded under their category label; `/` separates nested categories
+ * (`git/branch` is shown as `branch` under `git`).
+ */
+
+import type { Action } from '@/action/types'
+import type { ArereConfig } from '@/config/schema'
+import { formatCategoryLabel } from './action'
+
+/**
+ * Home screen layout (`ui.actionListView`)
+ */
+export type ActionListView = NonNullable<NonNullable<ArereConfig['ui']>['actionListView']>
+
+/**
+ * A category group in the tree
+ */
+export interface CategoryGroup {
+  /** Full category path (`git/branch`), used to remember the expanded state */
+  key: string
+  /** Last path segment (`branch`) */
+  label: string
+  /** Groups and actions in the order they first appear in the list */
+  entries: CategoryTreeEntry[]
+  /** Number of actions in the group and its subgroups */
+  count: number
+}
+
+/**
+ * An entry of a group: a nested group or an action
+ */
+export type CategoryTreeEntry =
+  | { type: 'group'; group: CategoryGroup }
+  | { type: 'action'; action: Action }
+
+/**
+ * A visible row of the grouped action list
+ */
+export type ActionListRow =
+  | {
+      type: 'group'
+      /** Full category path */
+      key: string
+      /** Last path segment */
+      label: string
+      /** Nesting depth (0 for top-level groups) */
+      depth: number
+      /** Number of actions in the group */
+      count: number
+      /** Whether the group is expanded */
+      expanded: boolean
+    }
+  | {
+      type: 'action'
+      action: Action
+      /** Nesting depth (number of enclosing groups) */
+      depth: number
+    }
+
+/**
+ * Get the category path of an action
+ *
+ * @returns Path segments (empty for actions without a category)
+ *
+ * @example
+ * ```typescript
+ * getCategoryPath(action) // category 'git/branch' → ['git', 'branch']
+ * ```
+ */
+export function getCategoryPath(action: Action): string[] {
+  return formatCategoryLabel(action.meta.category, action.pluginMeta)
+    .split('/')
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Build the category tree of actions
+ *
+ * Groups and actions keep the order in which they first appear in `actions`,
+ * so the sort mode (and pinned bookmarks) carry over to the tree.
+ *
+ * @param actions - Actions in display order
+ * @returns Root group (actions without a category are its direct entries)
+ */
+export function buildCategoryTree(actions: Action[]): CategoryGroup {
+  const root: CategoryGroup = { key: '', label: '', entries: [], count: 0 }
+  const groups = new Map<string, CategoryGroup>([['', root]])
+
+  for (const action of actions) {
+    let parent = root
+    parent.count++
+    for (const segment of getCategoryPath(action)) {
+      const key = parent.key ? `${parent.key}/${segment}` : segment
+      let group = groups.get(key)
+      if (!group) {
+        group = { key, label: segment, entries: [], count: 0 }
+        groups.set(key, group)
+        parent.entries.push({ type: 'group', group })
+      }
+      group.count++
+      parent = group
+    }
+    parent.entries.push({ type: 'action', action })
+  }
+
+  return root
+}
+
+/**
+ * Flatten the category tree into visible rows
+ *
+ * @param root - Root group from `buildCategoryTree`
+ * @param collapsed - Keys of collapsed groups (their entries are hidden)
+ * @returns Rows in display order
+ */
+export function flattenCategoryTree(root: CategoryGroup, collapsed: Set<string>): ActionListRow[] {
+  const rows: ActionListRow[] = []
+
+  const visit = (group: CategoryGroup, depth: number) => {
+    for (const entry of group.entries) {
+      if (entry.type === 'action') {
+        rows.push({ type: 'action', action: entry.action, depth })
+        continue
+      }
+      const { key, label, count } = entry.group
+      const expanded = !collapsed.has(key)
+      rows.push({ type: 'group', key, label, depth, count, expanded })
+      if (expanded) {
+        visit(entry.group, depth + 1)
+      }
+    }
+  }
+
+  visit(root, 0)
+  return rows
+}
+
+/**
+ * Find the group row enclosing a row
+ *
+ * @returns Index of the parent group row, or -1 for top-level rows
+ */
+export function findParentGroupRow(rows: ActionListRow[], index: number): number {
+  const depth = rows[index]?.depth ?? 0
+  for (let i = index - 1; i >= 0; i--) {
+    const row = rows[i]
+    if (row.type === 'group' && row.depth < depth) {
+      return i
+    }
+  }
+  return -1
+}
+
+/**
+ * Find the next (or previous) group row, wrapping around
+ *
+ * @param rows - Visible rows
+ * @param index - Current row index
+ * @param direction - 1 for the next group, -1 for the previous one
+ * @returns Index of the group row, or `index` if there is no other group
+ */
+export function findNextGroupRow(rows: ActionListRow[], index: number, direction: 1 | -1): number {
+  for (let step = 1; step < rows.length; step++) {
+    const i = (index + direction * step + rows.length) % rows.length
+    if (rows[i].type === 'group') {
+      return i
+    }
+  }
+  return index
+}
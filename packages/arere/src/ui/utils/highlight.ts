@@ -0,0 +1,174 @@
+/**
+ * Minimal syntax highlighting for TypeScript / JavaScript source
+ *
+ * Good enough for a read-only excerpt: keywords, strings, comments and numbers are
+ * recognized; everything else is plain text. Block comments and template literals
+ * may span lines.
+ */
+
+/**
+ * Kind of a highlighted token
+ */
+export type CodeTokenKind = 'keyword' | 'string' | 'comment' | 'number' | 'plain'
+
+/**
+ * A highlighted piece of a source line
+ */
+export interface CodeToken {
+  text: string
+  kind: CodeTokenKind
+}
+
+const KEYWORDS = new Set([
+  'as',
+  'async',
+  'await',
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'export',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'from',
+  'function',
+  'if',
+  'import',
+  'in',
+  'instanceof',
+  'interface',
+  'let',
+  'new',
+  'null',
+  'of',
+  'return',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'type',
+  'typeof',
+  'undefined',
+  'var',
+  'void',
+  'while',
+  'yield',
+])
+
+/**
+ * Find the end of a string literal (index after the closing quote, or the line length)
+ */
+function findStringEnd(
+  line: string,
+  start: number,
+  quote: string,
+): { end: number; closed: boolean } {
+  for (let i = start; i < line.length; i++) {
+    if (line[i] === '\\') {
+      i++
+    } else if (line[i] === quote) {
+      return { end: i + 1, closed: true }
+    }
+  }
+  return { end: line.length, closed: false }
+}
+
+/**
+ * Highlight source code line by line
+ *
+ * @param source - Source text
+ * @returns Tokens of each line (adjacent tokens of the same kind are merged)
+ *
+ * @example
+ * ```typescript
+ * highlightSource("const a = 'x' // note")
+ * // → [[const(keyword), ' a = '(plain), "'x'"(string), ' '(plain), '// note'(comment)]]
+ * ```
+ */
+export function highlightSource(source: string): CodeToken[][] {
+  // Open multi-line construct carried over from the previous line
+  let open: 'comment' | 'template' | null = null
+
+  return source.split(/\r?\n/).map((line) => {
+    const tokens: CodeToken[] = []
+    const push = (text: string, kind: CodeTokenKind) => {
+      if (!text) return
+      const last = tokens[tokens.length - 1]
+      if (last && last.kind === kind) {
+        last.text += text
+      } else {
+        tokens.push({ text, kind })
+      }
+    }
+
+    let i = 0
+    while (i < line.length) {
+      if (open === 'comment') {
+        const close = line.indexOf('*/', i)
+        const end = close === -1 ? line.length : close + 2
+        push(line.slice(i, end), 'comment')
+        open = close === -1 ? 'comment' : null
+        i = end
+        continue
+      }
+      if (open === 'template') {
+        const { end, closed } = findStringEnd(line, i, '`')
+        push(line.slice(i, end), 'string')
+        open = closed ? null : 'template'
+        i = end
+        continue
+      }
+
+      const rest = line.slice(i)
+      if (rest.startsWith('//')) {
+        push(rest, 'comment')
+        break
+      }
+      if (rest.startsWith('/*')) {
+        open = 'comment'
+        push('/*', 'comment')
+        i += 2
+        continue
+      }
+
+      const char = line[i]
+      if (char === "'" || char === '"' || char === '`') {
+        const { end, closed } = findStringEnd(line, i + 1, char)
+        push(line.slice(i, end), 'string')
+        if (char === '`' && !closed) {
+          open = 'template'
+        }
+        i = end
+        continue
+      }
+
+      const word = /^[A-Za-z_$][\w$]*/.exec(rest)?.[0]
+      if (word) {
+        push(word, KEYWORDS.has(word) ? 'keyword' : 'plain')
+        i += word.length
+        continue
+      }
+
+      const number = /^\d[\d_]*(\.\d+)?n?/.exec(rest)?.[0]
+      if (number) {
+        push(number, 'number')
+        i += number.length
+        continue
+      }
+
+      push(char, 'plain')
+      i++
+    }
+
+    return tokens
+  })
+}
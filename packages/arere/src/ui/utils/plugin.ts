@@ -0,0 +1,23 @@
+/**
+ * Plugin display utilities
+ */
+
+import { t } from '@/i18n/index'
+import { formatHomePath } from '@/lib/path'
+import type { LoadedPlugin } from '@/plugin/types'
+
+/**
+ * Format where a plugin was loaded from (source and path)
+ *
+ * @example
+ * ```typescript
+ * formatPluginSource(plugin)
+ * // → 'Global: ~/.nvm/versions/node/v20.0.0/lib/node_modules/arere-plugin-git'
+ * ```
+ */
+export function formatPluginSource(plugin: Pick<LoadedPlugin, 'path' | 'source'>): string {
+  const path = formatHomePath(plugin.path)
+  return plugin.source
+    ? t('ui:plugins.list.source', { source: t(`ui:plugins.source.${plugin.source}`), path })
+    : path
+}
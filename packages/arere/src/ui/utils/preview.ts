@@ -0,0 +1,100 @@
+/**
+ * Action preview pane (layout and details)
+ */
+
+import { readFileSync } from 'node:fs'
+import type { ArgMeta } from '@/action/args/analyzer'
+import type { Action } from '@/action/types'
+import { type CodeToken, highlightSource } from './highlight'
+import { loadActionArgs } from './run-args'
+
+/**
+ * Terminal width below which the preview collapses
+ */
+export const PREVIEW_MIN_COLUMNS = 100
+
+/**
+ * Share of the terminal width given to the preview
+ */
+const PREVIEW_WIDTH_RATIO = 0.45
+
+/**
+ * Maximum number of source lines in the excerpt
+ */
+const SOURCE_EXCERPT_LINES = 60
+
+/**
+ * Widths of the list and the preview
+ */
+export interface PreviewLayout {
+  /** Columns available to the action list */
+  listWidth: number
+  /** Columns of the preview pane */
+  previewWidth: number
+}
+
+/**
+ * Details shown in the preview that are read from the action file
+ */
+export interface ActionPreviewDetails {
+  /** CLI arguments (declared, then extracted from the action source) */
+  args: ArgMeta[]
+  /** Highlighted source excerpt (null if the file cannot be read) */
+  source: CodeToken[][] | null
+}
+
+/**
+ * Split the terminal width between the action list and the preview
+ *
+ * @param columns - Terminal width
+ * @returns Widths, or null when the terminal is too narrow for a preview
+ *
+ * @example
+ * ```typescript
+ * getPreviewLayout(120) // → { listWidth: 66, previewWidth: 54 }
+ * getPreviewLayout(80)  // → null
+ * ```
+ */
+export function getPreviewLayout(columns: number): PreviewLayout | null {
+  if (columns < PREVIEW_MIN_COLUMNS) {
+    return null
+  }
+  const previewWidth = Math.floor(columns * PREVIEW_WIDTH_RATIO)
+  return { listWidth: columns - previewWidth, previewWidth }
+}
+
+/**
+ * Get the source excerpt of an action
+ *
+ * Starts at the `defineAction(` call when there is one, skipping imports and helpers.
+ *
+ * @param source - Source text of the action file
+ * @param maxLines - Maximum number of lines
+ */
+export function getSourceExcerpt(source: string, maxLines: number = SOURCE_EXCERPT_LINES): string {
+  const lines = source.replace(/\t/g, '  ').split(/\r?\n/)
+  const start = Math.max(
+    0,
+    lines.findIndex((line) => line.includes('defineAction(')),
+  )
+  return lines
+    .slice(start, start + maxLines)
+    .map((line) => line.trimEnd())
+    .join('\n')
+}
+
+/**
+ * Read the arguments and source excerpt of an action
+ */
+export function loadActionPreviewDetails(action: Action): ActionPreviewDetails {
+  const args = loadActionArgs(action)
+
+  let source: CodeToken[][] | null = null
+  try {
+    source = highlightSource(getSourceExcerpt(readFileSync(action.filePath, 'utf-8')))
+  } catch {
+    // Missing or unreadable file: no excerpt
+  }
+
+  return { args, source }
+}
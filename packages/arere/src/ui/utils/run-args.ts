@@ -0,0 +1,296 @@
+/**
+ * "Run with arguments" form (fields from argument metadata, and back to CLI arguments)
+ *
+ * Every field is optional: empty fields are left out of the arguments, so the
+ * action asks for them as usual. Password values never become arguments (which
+ * are kept in the run history); they answer their prompts in memory instead.
+ */
+
+import { type ArgMeta, formatArgDescription, formatArgOption } from '@/action/args/analyzer'
+import type { Answers } from '@/action/args/answers'
+import { cacheManager } from '@/action/cache'
+import { getActionArgsMeta } from '@/action/metadata-cache'
+import type { Action } from '@/action/types'
+import { t } from '@/i18n/index'
+import type { FormField, FormFields } from '@/ui/prompts/form/types'
+
+/**
+ * Key of the free-form extra arguments field (never a valid argument name)
+ */
+export const EXTRA_ARGS_FIELD = '--'
+
+/**
+ * Get the CLI arguments of an action (declared, then extracted from the action source)
+ *
+ * Arguments come from the metadata cache, so unchanged files are not parsed again.
+ */
+export function loadActionArgs(action: Action): ArgMeta[] {
+  return getActionArgsMeta(cacheManager, action.filePath, action.meta.args)?.args ?? []
+}
+
+/**
+ * Get the form field key of an argument
+ *
+ * @example
+ * ```typescript
+ * getArgFieldKey({ name: 'env', type: 'text' })   // → 'env'
+ * getArgFieldKey({ short: 'f', type: 'confirm' }) // → 'f'
+ * getArgFieldKey({ index: 0, type: 'text' })      // → '$0'
+ * ```
+ */
+export function getArgFieldKey(arg: ArgMeta): string {
+  // Not a plain number, so that fields keep the order of the arguments
+  return arg.name ?? arg.short ?? `$${arg.index}`
+}
+
+/**
+ * Arguments with a mapping, without duplicates (the first one wins)
+ *
+ * Password arguments are only kept with a long name: prompt answers are looked
+ * up by that name, and anything else would have to be passed as an argument.
+ */
+function getUniqueArgs(args: ArgMeta[]): ArgMeta[] {
+  const seen = new Set<string>()
+  return args.filter((arg) => {
+    if (arg.name === undefined && arg.short === undefined && arg.index === undefined) {
+      return false
+    }
+    if (arg.type === 'password' && arg.name === undefined) {
+      return false
+    }
+    const key = getArgFieldKey(arg)
+    if (seen.has(key)) {
+      return false
+    }
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Convert an argument to an optional form field
+ *
+ * Numbers are entered as text so that an empty field stays empty. Arguments
+ * with dynamic choices are entered as text (comma-separated for multiSelect).
+ */
+function argToField(arg: ArgMeta, lastValue: unknown): FormField {
+  const base = {
+    message: formatArgOption(arg),
+    description: formatArgDescription(arg) || undefined,
+    required: false,
+  }
+
+  switch (arg.type) {
+    case 'confirm':
+      return {
+        ...base,
+        type: 'confirm',
+        defaultValue: typeof lastValue === 'boolean' ? lastValue : arg.defaultValue === true,
+      }
+    case 'password':
+      // Never prefilled: password values are not remembered
+      return { ...base, type: 'password' }
+    case 'select':
+      if (arg.choices) {
+        return { ...base, type: 'select', choices: arg.choices, defaultValue: lastValue }
+      }
+      break
+    case 'multiSelect':
+      if (arg.choices) {
+        return {
+          ...base,
+          type: 'multiSelect',
+          choices: arg.choices,
+          defaultValue: Array.isArray(lastValue) ? lastValue : undefined,
+        }
+      }
+      break
+    case 'number':
+      return {
+        ...base,
+        type: 'text',
+        defaultValue: typeof lastValue === 'string' ? lastValue : undefined,
+        validate: (value) =>
+          value.trim() === '' || !Number.isNaN(Number(value)) || t('ui:run_args.invalid_number'),
+      }
+  }
+
+  return {
+    ...base,
+    type: 'text',
+    defaultValue: typeof lastValue === 'string' ? lastValue : undefined,
+  }
+}
+
+/**
+ * Create the fields of the argument form
+ *
+ * @param args - Arguments of the action
+ * @param lastValues - Values entered the last time (prefilled)
+ * @returns One optional field per argument, then the extra arguments line
+ */
+export function createRunArgsFields(
+  args: ArgMeta[],
+  lastValues: Record<string, unknown> = {},
+): FormFields {
+  const fields: FormFields = {}
+  for (const arg of getUniqueArgs(args)) {
+    const key = getArgFieldKey(arg)
+    fields[key] = argToField(arg, lastValues[key])
+  }
+  fields[EXTRA_ARGS_FIELD] = {
+    type: 'text',
+    message: t('ui:run_args.extra'),
+    description: t('ui:run_args.extra_description'),
+    required: false,
+    defaultValue:
+      typeof lastValues[EXTRA_ARGS_FIELD] === 'string' ? lastValues[EXTRA_ARGS_FIELD] : undefined,
+  }
+  return fields
+}
+
+/**
+ * Split a line of arguments like a shell
+ *
+ * Whitespace separates arguments; single quotes keep text as-is, double quotes
+ * and backslashes escape. An unclosed quote runs to the end of the line.
+ *
+ * @example
+ * ```typescript
+ * splitArgsLine(`--message "hello world" -v`) // → ['--message', 'hello world', '-v']
+ * ```
+ */
+export function splitArgsLine(line: string): string[] {
+  const result: string[] = []
+  let current = ''
+  let inArg = false
+  let quote: '"' | "'" | null = null
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null
+      } else {
+        current += char
+      }
+    } else if (char === '\\' && i + 1 < line.length) {
+      current += line[++i]
+      inArg = true
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = null
+      } else {
+        current += char
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char
+      inArg = true
+    } else if (/\s/.test(char)) {
+      if (inArg) {
+        result.push(current)
+        current = ''
+        inArg = false
+      }
+    } else {
+      current += char
+      inArg = true
+    }
+  }
+
+  if (inArg) {
+    result.push(current)
+  }
+  return result
+}
+
+/**
+ * Convert the values of the argument form to CLI arguments
+ *
+ * Positional arguments come first and flags last, so that neither is taken as
+ * the value of another option. Boolean flags that are off are passed as
+ * `--no-<name>` (when the flag has a long name), so they are not asked again.
+ * Password arguments are left out (see `getPasswordAnswers`).
+ *
+ * @param args - Arguments of the action
+ * @param values - Values of the argument form
+ * @returns CLI arguments
+ *
+ * @example
+ * ```typescript
+ * buildRunArgs(
+ *   [{ name: 'env', type: 'select', choices: ['dev', 'prod'] }, { name: 'force', type: 'confirm' }],
+ *   { env: 'prod', force: true, '--': 'extra' },
+ * )
+ * // → ['--env=prod', 'extra', '--force']
+ * ```
+ */
+export function buildRunArgs(args: ArgMeta[], values: Record<string, unknown>): string[] {
+  const positional: { index: number; value: string }[] = []
+  const named: string[] = []
+  const flags: string[] = []
+
+  for (const arg of getUniqueArgs(args)) {
+    if (arg.type === 'password') {
+      continue
+    }
+    const value = values[getArgFieldKey(arg)]
+    const text = Array.isArray(value) ? value.join(',') : value == null ? '' : String(value)
+
+    if (arg.name === undefined && arg.short === undefined) {
+      if (text.trim() !== '') {
+        positional.push({ index: arg.index ?? 0, value: text })
+      }
+    } else if (arg.type === 'confirm') {
+      if (value === true) {
+        flags.push(arg.name ? `--${arg.name}` : `-${arg.short}`)
+      } else if (value === false && arg.name) {
+        flags.push(`--no-${arg.name}`)
+      }
+    } else if (text.trim() !== '') {
+      named.push(arg.name ? `--${arg.name}=${text}` : `-${arg.short}=${text}`)
+    }
+  }
+
+  const extra = values[EXTRA_ARGS_FIELD]
+  return [
+    ...positional.sort((a, b) => a.index - b.index).map((p) => p.value),
+    ...named,
+    ...(typeof extra === 'string' ? splitArgsLine(extra) : []),
+    ...flags,
+  ]
+}
+
+/**
+ * Get the password values of the argument form as prompt answers
+ *
+ * They are handed to the run in memory, so they never appear in the arguments
+ * recorded in the run history.
+ *
+ * @param args - Arguments of the action
+ * @param values - Values of the argument form
+ * @returns Answers keyed by argument name
+ */
+export function getPasswordAnswers(args: ArgMeta[], values: Record<string, unknown>): Answers {
+  const answers: Answers = {}
+  for (const arg of getUniqueArgs(args)) {
+    const value = values[getArgFieldKey(arg)]
+    if (arg.type === 'password' && arg.name && typeof value === 'string' && value !== '') {
+      answers[arg.name] = value
+    }
+  }
+  return answers
+}
+
+/**
+ * Values to remember for the next run (password fields are dropped)
+ */
+export function getRememberedArgValues(
+  fields: FormFields,
+  values: Record<string, unknown>,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([key]) => fields[key] && fields[key].type !== 'password'),
+  )
+}
@@ -2,18 +2,26 @@
  * Convert Zod schema to UI form fields
  */
 
+import { deepMerge, getNestedValue, setNestedValue } from '@/config/utils'
+import { t } from '@/i18n/index'
+import { isSecretSchema } from '@/secrets/schema'
 import type { z } from 'zod'
 
 /**
  * Form field types
+ *
+ * - `enum`: `z.enum()`, `z.nativeEnum()` and unions of literals
+ * - `array`: `z.array()` (edited as a comma-separated list, or JSON for non-primitive items)
+ * - `object`: nested `z.object()` (its fields are edited individually)
+ * - `record`: `z.record()` (edited as JSON)
  */
-export type FieldType = 'string' | 'number' | 'boolean' | 'enum'
+export type FieldType = 'string' | 'number' | 'boolean' | 'enum' | 'array' | 'object' | 'record'
 
 /**
  * Form field definition
  */
 export interface FormField {
-  /** Field name (key in the schema) */
+  /** Field name (key in the schema, dot-separated path for nested object fields) */
   name: string
   /** Field type */
   type: FieldType
@@ -27,8 +35,23 @@ export interface FormField {
   required: boolean
   /** For enum type: available choices */
   choices?: Array<{ label: string; value: string | number }>
+  /** For number type: minimum value (from `.min()`/`.gte()`/`.gt()`) */
+  min?: number
+  /** For number type: maximum value (from `.max()`/`.lte()`/`.lt()`) */
+  max?: number
+  /** For array type: item field; for record type: value field (undefined if unsupported) */
+  item?: FormField
+  /** For object type: nested fields */
+  fields?: FormField[]
+  /** Marked with `secret()`: kept in the secret store and edited with a masked input */
+  secret?: boolean
 }
 
+/**
+ * Field types edited as a single comma-separated list item
+ */
+const LIST_ITEM_TYPES: FieldType[] = ['string', 'number', 'boolean', 'enum']
+
 /**
  * Convert a Zod schema object to form fields
  *
@@ -51,13 +74,13 @@ export interface FormField {
  * // ]
  * ```
  */
-export function schemaToFields(schema: z.ZodObject<any>): FormField[] {
+export function schemaToFields(schema: z.AnyZodObject, prefix = ''): FormField[] {
   const fields: FormField[] = []
   const shape = schema.shape
 
   for (const [key, value] of Object.entries(shape)) {
     const fieldDef = value as z.ZodTypeAny
-    const field = parseFieldDefinition(key, fieldDef)
+    const field = parseFieldDefinition(prefix + key, fieldDef)
     if (field) {
       fields.push(field)
     }
@@ -75,6 +98,7 @@ function parseFieldDefinition(name: string, def: z.ZodTypeAny): FormField | null
   let description: string | undefined = undefined
   let required = true
   let choices: Array<{ label: string; value: string | number }> | undefined = undefined
+  const extra: Pick<FormField, 'min' | 'max' | 'item' | 'fields'> = {}
 
   // Unwrap optional/default/nullable
   let current = def
@@ -100,6 +124,12 @@ function parseFieldDefinition(name: string, def: z.ZodTypeAny): FormField | null
       continue
     }
 
+    // Refinements and transforms: the whole schema is validated before saving
+    if (typeName === 'ZodEffects') {
+      current = current._def.schema
+      continue
+    }
+
     break
   }
 
@@ -115,6 +145,7 @@ function parseFieldDefinition(name: string, def: z.ZodTypeAny): FormField | null
     type = 'string'
   } else if (typeName === 'ZodNumber') {
     type = 'number'
+    Object.assign(extra, getNumberBounds(current))
   } else if (typeName === 'ZodBoolean') {
     type = 'boolean'
   } else if (typeName === 'ZodEnum') {
@@ -127,6 +158,21 @@ function parseFieldDefinition(name: string, def: z.ZodTypeAny): FormField | null
     choices = Object.entries(enumObj)
       .filter(([_, value]) => typeof value === 'string' || typeof value === 'number')
       .map(([key, value]) => ({ label: key, value }))
+  } else if (typeName === 'ZodUnion' && isLiteralUnion(current)) {
+    type = 'enum'
+    choices = (current._def.options as z.ZodTypeAny[]).map((option) => ({
+      label: String(option._def.value),
+      value: option._def.value,
+    }))
+  } else if (typeName === 'ZodArray') {
+    type = 'array'
+    extra.item = parseFieldDefinition(name, current._def.type) ?? undefined
+  } else if (typeName === 'ZodObject') {
+    type = 'object'
+    extra.fields = schemaToFields(current as z.AnyZodObject, `${name}.`)
+  } else if (typeName === 'ZodRecord') {
+    type = 'record'
+    extra.item = parseFieldDefinition(name, current._def.valueType) ?? undefined
   } else {
     // Unsupported type, skip
     return null
@@ -140,5 +186,194 @@ function parseFieldDefinition(name: string, def: z.ZodTypeAny): FormField | null
     defaultValue,
     required,
     choices,
+    ...extra,
+    ...(isSecretSchema(def) && { secret: true }),
   }
 }
+
+/**
+ * Get the bounds of a number schema from its checks
+ */
+function getNumberBounds(def: z.ZodTypeAny): Pick<FormField, 'min' | 'max'> {
+  const bounds: Pick<FormField, 'min' | 'max'> = {}
+  for (const check of def._def.checks as Array<{ kind: string; value?: number }>) {
+    if (check.kind === 'min') {
+      bounds.min = check.value
+    } else if (check.kind === 'max') {
+      bounds.max = check.value
+    }
+  }
+  return bounds
+}
+
+/**
+ * Check whether a union only has string or number literal options
+ */
+function isLiteralUnion(def: z.ZodTypeAny): boolean {
+  const options = def._def.options as z.ZodTypeAny[]
+  return options.every(
+    (option) =>
+      option._def.typeName === 'ZodLiteral' &&
+      (typeof option._def.value === 'string' || typeof option._def.value === 'number'),
+  )
+}
+
+/**
+ * Flatten nested object fields into the list of editable fields
+ *
+ * @example
+ * ```typescript
+ * flattenFields(schemaToFields(z.object({ server: z.object({ host: z.string() }) })))
+ * // [{ name: 'server.host', type: 'string', ... }]
+ * ```
+ */
+export function flattenFields(fields: FormField[]): FormField[] {
+  return fields.flatMap((field) =>
+    field.type === 'object' ? flattenFields(field.fields ?? []) : [field],
+  )
+}
+
+/**
+ * Get a field value by its (dot-separated) name
+ */
+export function getFieldValue(values: Record<string, unknown>, name: string): unknown {
+  return getNestedValue(values, name)
+}
+
+/**
+ * Set a field value by its (dot-separated) name, returning new values
+ */
+export function setFieldValue(
+  values: Record<string, unknown>,
+  name: string,
+  value: unknown,
+): Record<string, unknown> {
+  return setNestedValue(values, name, value)
+}
+
+/**
+ * Check whether a field is edited as JSON (records, objects and arrays of non-primitive items)
+ */
+export function isJsonField(field: FormField): boolean {
+  return (
+    field.type === 'record' ||
+    field.type === 'object' ||
+    (field.type === 'array' && (!field.item || !LIST_ITEM_TYPES.includes(field.item.type)))
+  )
+}
+
+/**
+ * Format a field value as text (for display and text editing)
+ *
+ * Arrays of primitives are comma-separated; other arrays, objects and records are JSON.
+ */
+export function formatFieldValue(field: FormField, value: unknown): string {
+  if (value === undefined || value === null) return ''
+  if (field.secret) {
+    return value === '' ? '' : '••••••••'
+  }
+  if (isJsonField(field)) {
+    return JSON.stringify(value)
+  }
+  if (field.type === 'array' && Array.isArray(value)) {
+    return value.map(String).join(', ')
+  }
+  return String(value)
+}
+
+/**
+ * Parse text entered for a field
+ *
+ * @returns The parsed value, or an error message if the text cannot be converted
+ */
+export function parseFieldValue(
+  field: FormField,
+  text: string,
+): { value: unknown; error?: undefined } | { value?: undefined; error: string } {
+  if (isJsonField(field)) {
+    try {
+      return { value: JSON.parse(text) }
+    } catch {
+      return { error: t('ui:plugins.detail.invalid_json') }
+    }
+  }
+
+  if (field.type === 'array' && field.item) {
+    const values: unknown[] = []
+    for (const item of text.split(',').map((part) => part.trim())) {
+      if (item === '') continue
+      const parsed = parseFieldValue(field.item, item)
+      if (parsed.error !== undefined) {
+        return parsed
+      }
+      values.push(parsed.value)
+    }
+    return { value: values }
+  }
+
+  if (field.type === 'number') {
+    const value = Number(text)
+    return text.trim() === '' || Number.isNaN(value)
+      ? { error: t('ui:prompts.errors.number_invalid') }
+      : { value }
+  }
+
+  if (field.type === 'boolean') {
+    return text === 'true' || text === 'false' ? { value: text === 'true' } : { value: text }
+  }
+
+  if (field.type === 'enum') {
+    const choice = field.choices?.find((c) => String(c.value) === text)
+    return { value: choice ? choice.value : text }
+  }
+
+  return { value: text }
+}
+
+/**
+ * Validate values against the whole schema
+ *
+ * @param schema - Config schema (refinements and defaults apply)
+ * @param values - Values to validate
+ * @returns Error messages by dot-separated path (`''` for errors on the whole object)
+ *
+ * @example
+ * ```typescript
+ * validateSchemaValues(z.object({ port: z.number().max(65535) }), { port: 70000 })
+ * // { port: 'Number must be less than or equal to 65535' }
+ * ```
+ */
+export function validateSchemaValues(
+  schema: z.ZodTypeAny,
+  values: Record<string, unknown>,
+): Record<string, string> {
+  const result = schema.safeParse(values)
+  if (result.success) {
+    return {}
+  }
+
+  const errors: Record<string, string> = {}
+  for (const issue of result.error.issues) {
+    const path = issue.path.join('.')
+    errors[path] ??= issue.message
+  }
+  return errors
+}
+
+/**
+ * Get the validation error of a field (including errors of its items or nested values)
+ */
+export function getFieldError(errors: Record<string, string>, name: string): string | undefined {
+  const path = Object.keys(errors).find((key) => key === name || key.startsWith(`${name}.`))
+  return path === undefined ? undefined : errors[path]
+}
+
+/**
+ * Merge edited values over the current config (the candidate validated before saving)
+ */
+export function mergeFieldValues(
+  config: Record<string, unknown> | undefined,
+  values: Record<string, unknown>,
+): Record<string, unknown> {
+  return deepMerge(config ?? {}, values)
+}
@@ -0,0 +1,219 @@
+/**
+ * Search query syntax of the search screen
+ *
+ * A query is a list of space-separated terms:
+ *   - `#tag`           actions with the tag
+ *   - `cat:git`        actions in the category (and its subcategories, `cat:git` matches `git/branch`)
+ *   - `src:plugin`     actions from a source (`plugin`, `global` or `project`)
+ *   - `plugin:timer`   actions of a plugin (with or without the `arere-plugin-` prefix)
+ *   - `is:bookmarked`  bookmarked actions
+ *   - `-#slow`         a leading `-` negates a filter
+ * Any other term is free text, fuzzy-matched against the action name and description.
+ */
+
+import type { Action } from '@/action/types'
+import type { RenderHighlights } from '@/ui/arere-render/types'
+import { type BookmarkId, createBookmarkId } from '@/ui/bookmark'
+import fuzzysort from 'fuzzysort'
+import { getCategoryPath } from './category-tree'
+import type { SearchResult } from './sort'
+
+/**
+ * Field a filter term applies to
+ */
+export type SearchFilterField = 'tag' | 'category' | 'source' | 'plugin' | 'is'
+
+/**
+ * A filter term of a search query
+ */
+export interface SearchFilter {
+  /** Filtered field */
+  field: SearchFilterField
+  /** Expected value (lowercase) */
+  value: string
+  /** Whether matching actions are excluded (`-#slow`) */
+  negate: boolean
+}
+
+/**
+ * Parsed search query
+ */
+export interface SearchQuery {
+  /** Filters every result must satisfy */
+  filters: SearchFilter[]
+  /** Free text (terms that are not filters, joined by spaces) */
+  text: string
+}
+
+/**
+ * Searchable fields of an action
+ */
+export interface SearchableAction {
+  action: Action
+  /** Action name */
+  name: string
+  /** Evaluated description */
+  description: string
+}
+
+/**
+ * A free text match with the matched characters
+ */
+export interface SearchMatch {
+  action: Action
+  /** Matched character indexes of `name` and `description` */
+  highlights: RenderHighlights
+}
+
+/**
+ * Filter prefixes (`cat:git`)
+ */
+const FILTER_PREFIXES: Record<string, SearchFilterField> = {
+  cat: 'category',
+  src: 'source',
+  plugin: 'plugin',
+  is: 'is',
+}
+
+/**
+ * Parse a single term as a filter
+ *
+ * @returns The filter, null for free text, or undefined for an incomplete filter (`cat:`)
+ */
+function parseFilterTerm(term: string): SearchFilter | null | undefined {
+  const negate = term.length > 1 && term.startsWith('-')
+  const body = negate ? term.slice(1) : term
+
+  if (body.startsWith('#')) {
+    const value = body.slice(1).toLowerCase()
+    return value ? { field: 'tag', value, negate } : undefined
+  }
+
+  const separator = body.indexOf(':')
+  const field = separator > 0 ? FILTER_PREFIXES[body.slice(0, separator).toLowerCase()] : undefined
+  if (!field) {
+    return null
+  }
+  const value = body.slice(separator + 1).toLowerCase()
+  return value ? { field, value, negate } : undefined
+}
+
+/**
+ * Parse a search query
+ *
+ * Incomplete filters (`#`, `cat:`) are ignored so the results do not flicker while typing.
+ *
+ * @example
+ * ```typescript
+ * parseSearchQuery('cat:git #branch -#slow new')
+ * // → { filters: [category git, tag branch, not tag slow], text: 'new' }
+ * ```
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const filters: SearchFilter[] = []
+  const words: string[] = []
+
+  for (const term of query.split(/\s+/).filter(Boolean)) {
+    const filter = parseFilterTerm(term)
+    if (filter) {
+      filters.push(filter)
+    } else if (filter === null) {
+      words.push(term)
+    }
+  }
+
+  return { filters, text: words.join(' ') }
+}
+
+/**
+ * Get the source an action was loaded from (same values as `arere list --source`)
+ */
+function getSource(action: Action): string {
+  const { location } = action
+  if (location && typeof location === 'object') {
+    return 'plugin'
+  }
+  return location === 'global' ? 'global' : 'project'
+}
+
+/**
+ * Get the plugin names of an action (package name and display name)
+ */
+function getPluginNames(action: Action): string[] {
+  const { location, meta, pluginMeta } = action
+  const names = [
+    location && typeof location === 'object' ? location.plugin : undefined,
+    meta.category?.startsWith('plugin:') ? meta.category.slice('plugin:'.length) : undefined,
+    pluginMeta?.name,
+  ].filter((name): name is string => Boolean(name))
+
+  return names.flatMap((name) => [
+    name.toLowerCase(),
+    name.replace(/^(@[^/]+\/)?arere-plugin-/, '').toLowerCase(),
+  ])
+}
+
+/**
+ * Check a single filter (ignoring negation)
+ */
+function matchesFilter(action: Action, filter: SearchFilter, bookmarks: BookmarkId[]): boolean {
+  const { value } = filter
+
+  switch (filter.field) {
+    case 'tag':
+      return (action.meta.tags ?? []).some((tag) => tag.toLowerCase() === value)
+    case 'category': {
+      const path = getCategoryPath(action).join('/').toLowerCase()
+      return (
+        path === value ||
+        path.startsWith(`${value}/`) ||
+        action.meta.category?.toLowerCase() === value
+      )
+    }
+    case 'source':
+      return getSource(action) === value
+    case 'plugin':
+      return getPluginNames(action).includes(value)
+    case 'is':
+      return value === 'bookmarked' && bookmarks.includes(createBookmarkId(action))
+  }
+}
+
+/**
+ * Check whether an action satisfies every filter of a query
+ *
+ * @param action - Action to check
+ * @param filters - Filters from `parseSearchQuery`
+ * @param bookmarks - Bookmark ids (for `is:bookmarked`)
+ */
+export function matchesSearchFilters(
+  action: Action,
+  filters: SearchFilter[],
+  bookmarks: BookmarkId[] = [],
+): boolean {
+  return filters.every((filter) => matchesFilter(action, filter, bookmarks) !== filter.negate)
+}
+
+/**
+ * Fuzzy-match free text against the name and description of actions
+ *
+ * @param items - Searchable actions
+ * @param text - Free text of the query
+ * @returns Matches with their fuzzysort score (0 is a perfect match, lower is worse)
+ */
+export function fuzzyMatchActions(
+  items: SearchableAction[],
+  text: string,
+): SearchResult<SearchMatch>[] {
+  return fuzzysort.go(text, items, { keys: ['name', 'description'] }).map((result) => {
+    const highlights: RenderHighlights = {}
+    const [name, description] = result
+    if (name) {
+      highlights.name = fuzzysort.indexes(name) as number[]
+    }
+    if (description) {
+      highlights.description = fuzzysort.indexes(description) as number[]
+    }
+    return { obj: { action: result.obj.action, highlights }, score: result.score }
+  })
+}
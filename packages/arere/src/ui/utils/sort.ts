@@ -0,0 +1,148 @@
+/**
+ * Action list ordering (sort modes, pinned bookmarks and search ranking)
+ */
+
+import type { Action } from '@/action/types'
+import { type ActionUsageMap, calculateFrecency } from '@/action/usage'
+import type { ArereConfig } from '@/config/schema'
+import { type BookmarkId, createBookmarkId } from '@/ui/bookmark'
+
+/**
+ * Action list sort mode (`ui.actionSort`)
+ */
+export type ActionSortMode = NonNullable<NonNullable<ArereConfig['ui']>['actionSort']>
+
+/**
+ * Sort modes in the order the sort key cycles through them
+ */
+export const ACTION_SORT_MODES: ActionSortMode[] = [
+  'registry',
+  'alphabetical',
+  'frecency',
+  'category',
+]
+
+/**
+ * Weight of frecency in search ranking
+ */
+const SEARCH_FRECENCY_WEIGHT = 10
+
+/**
+ * Largest frecency bonus in search ranking (fuzzysort points)
+ *
+ * fuzzysort scores good matches within a few dozen points of 0, so frecency reorders
+ * close matches without lifting weak ones above them.
+ */
+const SEARCH_FRECENCY_MAX_BONUS = 10
+
+/**
+ * Options for sorting actions
+ */
+export interface SortActionsOptions {
+  /** Sort mode */
+  mode: ActionSortMode
+  /** Bookmarked actions (pinned to the top) */
+  bookmarks: BookmarkId[]
+  /** Usage statistics (for frecency) */
+  usage: ActionUsageMap
+  /** Current time (milliseconds since epoch) */
+  now?: number
+}
+
+/**
+ * A fuzzy search result to rank
+ */
+export interface SearchResult<T> {
+  /** Matched item */
+  obj: T
+  /** fuzzysort score (0 is a perfect match, lower is worse) */
+  score: number
+}
+
+/**
+ * Get the sort mode following `mode`
+ */
+export function getNextSortMode(mode: ActionSortMode): ActionSortMode {
+  return ACTION_SORT_MODES[(ACTION_SORT_MODES.indexOf(mode) + 1) % ACTION_SORT_MODES.length]
+}
+
+/**
+ * Sort actions for the action list
+ *
+ * Bookmarked actions are always pinned to the top; both groups keep the order of `mode`.
+ * Actions that compare equal keep their registry order.
+ *
+ * @param actions - Actions in registry order
+ * @param options - Sort mode, bookmarks and usage
+ * @returns New sorted array
+ *
+ * @example
+ * ```typescript
+ * sortActions(actions, { mode: 'frecency', bookmarks: ['local:deploy'], usage: usageManager.getAll() })
+ * ```
+ */
+export function sortActions(actions: Action[], options: SortActionsOptions): Action[] {
+  const { mode, bookmarks, usage, now = Date.now() } = options
+  const frecency = new Map(
+    actions.map((action) => [action, calculateFrecency(usage[createBookmarkId(action)], now)]),
+  )
+
+  const compare = (a: Action, b: Action): number => {
+    switch (mode) {
+      case 'alphabetical':
+        return a.meta.name.localeCompare(b.meta.name)
+      case 'frecency':
+        return (frecency.get(b) ?? 0) - (frecency.get(a) ?? 0)
+      case 'category': {
+        const [categoryA, categoryB] = [a.meta.category, b.meta.category]
+        if (categoryA !== categoryB) {
+          // Uncategorized actions go last
+          if (!categoryA) return 1
+          if (!categoryB) return -1
+          return categoryA.localeCompare(categoryB)
+        }
+        return a.meta.name.localeCompare(b.meta.name)
+      }
+      default:
+        return 0
+    }
+  }
+
+  const pinned = new Set(bookmarks)
+  const isPinned = (action: Action) => pinned.has(createBookmarkId(action))
+
+  return [...actions].sort((a, b) => Number(isPinned(b)) - Number(isPinned(a)) || compare(a, b))
+}
+
+/**
+ * Rank fuzzy search results with frecency blended into the match score
+ *
+ * Exact matches (score 0) always come first. The frecency bonus is capped, so
+ * frequently used actions move up among close matches only.
+ *
+ * @param results - fuzzysort results
+ * @param getAction - Get the action of a result item
+ * @param usage - Usage statistics
+ * @param now - Current time (milliseconds since epoch)
+ * @returns Result items, best first
+ */
+export function rankSearchResults<T>(
+  results: readonly SearchResult<T>[],
+  getAction: (item: T) => Action,
+  usage: ActionUsageMap,
+  now: number = Date.now(),
+): T[] {
+  return results
+    .map((result) => {
+      const frecency = calculateFrecency(usage[createBookmarkId(getAction(result.obj))], now)
+      return {
+        obj: result.obj,
+        exact: result.score === 0,
+        score:
+          result.score +
+          Math.min(SEARCH_FRECENCY_MAX_BONUS, SEARCH_FRECENCY_WEIGHT * Math.log2(1 + frecency)),
+      }
+    })
+    .sort((a, b) => Number(b.exact) - Number(a.exact) || b.score - a.score)
+    .map((result) => result.obj)
+}
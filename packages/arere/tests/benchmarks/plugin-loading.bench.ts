@@ -19,7 +19,7 @@ describe('Plugin Loading Performance', () => {
 
   describe('Plugin detection', () => {
     bench('detect plugins in empty directory', () => {
-      detectPlugins(tempDir)
+      detectPlugins({ searchPath: tempDir })
     })
 
     bench('detect plugins with 1 plugin', () => {
@@ -35,7 +35,7 @@ describe('Plugin Loading Performance', () => {
           keywords: ['arere-plugin'],
         }),
       )
-      detectPlugins(tempDir)
+      detectPlugins({ searchPath: tempDir })
     })
 
     bench('detect plugins with 5 plugins', () => {
@@ -53,7 +53,7 @@ describe('Plugin Loading Performance', () => {
           }),
         )
       }
-      detectPlugins(tempDir)
+      detectPlugins({ searchPath: tempDir })
     })
 
     bench('detect plugins with 10 plugins', () => {
@@ -71,7 +71,7 @@ describe('Plugin Loading Performance', () => {
           }),
         )
       }
-      detectPlugins(tempDir)
+      detectPlugins({ searchPath: tempDir })
     })
   })
 
@@ -126,7 +126,7 @@ describe('Plugin Loading Performance', () => {
   //       writeFileSync(join(pluginDir, 'index.js'), 'module.exports = { actions: [] }')
   //     }
 
-  //     const plugins = detectPlugins(tempDir)
+  //     const plugins = detectPlugins({ searchPath: tempDir })
   //     for (const plugin of plugins) {
   //       resolvePluginPackage(plugin.name, tempDir)
   //     }
@@ -44,7 +44,7 @@ describe('E2E: Plugin System', () => {
       const packagesPath = resolve(process.cwd(), '../')
 
       // Manually detect plugins in packages directory
-      const plugins = await detectPlugins(packagesPath)
+      const plugins = await detectPlugins({ searchPath: packagesPath })
 
       expect(Array.isArray(plugins)).toBe(true)
       expect(plugins.length).toBeGreaterThan(0)
@@ -57,7 +57,7 @@ describe('E2E: Plugin System', () => {
 
     it('should detect plugin metadata correctly', async () => {
       const packagesPath = resolve(process.cwd(), '../')
-      const plugins = await detectPlugins(packagesPath)
+      const plugins = await detectPlugins({ searchPath: packagesPath })
 
       for (const plugin of plugins) {
         expect(plugin.name).toBeDefined()
@@ -72,7 +72,7 @@ describe('E2E: Plugin System', () => {
   describe('Plugin Loading', () => {
     it('should load plugin and actions from arere-plugin-tutorial', async () => {
       const examplesPluginsPath = resolve(process.cwd(), '../')
-      const plugins = await detectPlugins(examplesPluginsPath)
+      const plugins = await detectPlugins({ searchPath: examplesPluginsPath })
 
       const examplePluginInfo = plugins.find((p) => p.name === 'arere-plugin-tutorial')
       expect(examplePluginInfo).toBeDefined()
@@ -89,7 +89,7 @@ describe('E2E: Plugin System', () => {
 
     it('should load actions from plugin', async () => {
       const examplesPluginsPath = resolve(process.cwd(), '../')
-      const plugins = await detectPlugins(examplesPluginsPath)
+      const plugins = await detectPlugins({ searchPath: examplesPluginsPath })
 
       const examplePluginInfo = plugins.find((p) => p.name === 'arere-plugin-tutorial')
       if (!examplePluginInfo) return
@@ -111,7 +111,7 @@ describe('E2E: Plugin System', () => {
 
     it('should assign plugin category to actions', async () => {
       const examplesPluginsPath = resolve(process.cwd(), '../')
-      const plugins = await detectPlugins(examplesPluginsPath)
+      const plugins = await detectPlugins({ searchPath: examplesPluginsPath })
 
       const examplePluginInfo = plugins.find((p) => p.name === 'arere-plugin-tutorial')
       if (!examplePluginInfo) return
@@ -156,7 +156,7 @@ describe('E2E: Plugin System', () => {
   describe('Plugin Action Execution', () => {
     it('should run plugin actions successfully', async () => {
       const examplesPluginsPath = resolve(process.cwd(), '../')
-      const plugins = await detectPlugins(examplesPluginsPath)
+      const plugins = await detectPlugins({ searchPath: examplesPluginsPath })
 
       const examplePluginInfo = plugins.find((p) => p.name === 'arere-plugin-tutorial')
       if (!examplePluginInfo) return
@@ -177,7 +177,7 @@ describe('E2E: Plugin System', () => {
 
     it('should provide correct context to plugin actions', async () => {
       const examplesPluginsPath = resolve(process.cwd(), '../')
-      const plugins = await detectPlugins(examplesPluginsPath)
+      const plugins = await detectPlugins({ searchPath: examplesPluginsPath })
 
       const examplePluginInfo = plugins.find((p) => p.name === 'arere-plugin-tutorial')
       if (!examplePluginInfo) return
@@ -198,7 +198,7 @@ describe('E2E: Plugin System', () => {
   describe('Plugin Dependencies', () => {
     it('should load plugin with external dependencies', async () => {
       const examplesPluginsPath = resolve(process.cwd(), '../')
-      const plugins = await detectPlugins(examplesPluginsPath)
+      const plugins = await detectPlugins({ searchPath: examplesPluginsPath })
 
       const pluginWithDeps = plugins.find((p) => p.name === 'arere-plugin-with-deps')
 
@@ -215,7 +215,7 @@ describe('E2E: Plugin System', () => {
 
     it('should run plugin actions that use external dependencies', async () => {
       const examplesPluginsPath = resolve(process.cwd(), '../')
-      const plugins = await detectPlugins(examplesPluginsPath)
+      const plugins = await detectPlugins({ searchPath: examplesPluginsPath })
 
       const pluginWithDeps = plugins.find((p) => p.name === 'arere-plugin-with-deps')
 
@@ -255,7 +255,7 @@ describe('E2E: Plugin System', () => {
 
     it('should skip invalid actions in plugin', async () => {
       const examplesPluginsPath = resolve(process.cwd(), '../')
-      const plugins = await detectPlugins(examplesPluginsPath)
+      const plugins = await detectPlugins({ searchPath: examplesPluginsPath })
 
       const examplePluginInfo = plugins.find((p) => p.name === 'arere-plugin-tutorial')
       if (!examplePluginInfo) return
@@ -277,7 +277,7 @@ describe('E2E: Plugin System', () => {
 
     it('should handle plugin action execution errors', async () => {
       const examplesPluginsPath = resolve(process.cwd(), '../')
-      const plugins = await detectPlugins(examplesPluginsPath)
+      const plugins = await detectPlugins({ searchPath: examplesPluginsPath })
 
       const examplePluginInfo = plugins.find((p) => p.name === 'arere-plugin-tutorial')
       if (!examplePluginInfo) return
@@ -306,7 +306,7 @@ describe('E2E: Plugin System', () => {
     it('should complete full plugin lifecycle: detect -> load -> run', async () => {
       // 1. Detect plugins
       const examplesPluginsPath = resolve(process.cwd(), '../')
-      const detectedPlugins = await detectPlugins(examplesPluginsPath)
+      const detectedPlugins = await detectPlugins({ searchPath: examplesPluginsPath })
 
       expect(detectedPlugins.length).toBeGreaterThan(0)
 
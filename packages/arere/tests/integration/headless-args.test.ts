@@ -2,8 +2,23 @@
  * Integration tests for headless mode argument mapping
  */
 
+import { AnswerRecorder } from '@/action/args/answers.js'
 import { createPromptAPIWithArgs } from '@/action/args/prompt-wrapper.js'
-import { describe, expect, it } from 'vitest'
+import { form } from '@/ui/prompts/form/index.js'
+import type { FormPage } from '@/ui/prompts/form/types.js'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/ui/prompts/form/index.js', () => ({
+  form: vi.fn(),
+}))
+
+vi.mock('@/ui/prompts/text.js', () => ({
+  text: vi.fn(),
+}))
+
+vi.mock('@/ui/prompts/password.js', () => ({
+  password: vi.fn(),
+}))
 
 describe('Headless mode argument mapping integration', () => {
   describe('createPromptAPIWithArgs', () => {
@@ -195,5 +210,154 @@ describe('Headless mode argument mapping integration', () => {
         ).rejects.toThrow('Required argument --email is missing')
       })
     })
+
+    describe('form prompt with args', () => {
+      const setupPage = {
+        title: 'Setup',
+        fields: {
+          name: { type: 'text', message: 'Name', arg: 'name' },
+          port: { type: 'number', message: 'Port', arg: 'port' },
+        },
+      } satisfies FormPage
+
+      beforeEach(() => {
+        vi.mocked(form).mockReset()
+      })
+
+      it('should skip the form when all fields are answered', async () => {
+        const promptAPI = createPromptAPIWithArgs(['--name=app', '--port=8080'], () => true)
+
+        const result = await promptAPI(setupPage)
+
+        expect(result).toEqual({ name: 'app', port: 8080 })
+        expect(form).not.toHaveBeenCalled()
+      })
+
+      it('should only show unanswered fields', async () => {
+        vi.mocked(form).mockResolvedValue({ port: 3000 })
+        const promptAPI = createPromptAPIWithArgs(['--name=app'], () => true)
+
+        const result = await promptAPI(setupPage)
+
+        expect(result).toEqual({ name: 'app', port: 3000 })
+        const shown = vi.mocked(form).mock.calls[0][0] as FormPage
+        expect(Object.keys(shown.fields)).toEqual(['port'])
+      })
+
+      it('should skip answered steps of a step form', async () => {
+        vi.mocked(form).mockResolvedValue({ confirm: true })
+        const promptAPI = createPromptAPIWithArgs(['--name=app', '--port=1'], () => true)
+
+        const result = await promptAPI([
+          setupPage,
+          { title: 'Confirm', fields: { confirm: { type: 'confirm', message: 'OK?' } } },
+        ])
+
+        expect(result).toEqual({ name: 'app', port: 1, confirm: true })
+        const shown = vi.mocked(form).mock.calls[0][0] as FormPage[]
+        expect(shown.map((step) => step.title)).toEqual(['Confirm'])
+      })
+
+      it('should validate step form values when every step is answered', async () => {
+        const promptAPI = createPromptAPIWithArgs(['--name=app', '--port=1'], () => true)
+
+        await expect(
+          promptAPI([setupPage], { validate: (values) => values.port > 1024 || 'Port too low' }),
+        ).rejects.toThrow('Invalid arguments: Port too low')
+      })
+
+      it('should throw error for missing required field in non-interactive mode', async () => {
+        const promptAPI = createPromptAPIWithArgs(['--name=app'], () => false)
+
+        await expect(promptAPI(setupPage)).rejects.toThrow(
+          'Required argument --port is missing (non-interactive mode)',
+        )
+        expect(form).not.toHaveBeenCalled()
+      })
+
+      it('should reject invalid field values', async () => {
+        const promptAPI = createPromptAPIWithArgs(['--name=app', '--port=abc'], () => false)
+
+        await expect(promptAPI(setupPage)).rejects.toThrow("Invalid value 'abc' for --port")
+      })
+    })
+
+    describe('answers file and environment', () => {
+      beforeEach(() => {
+        vi.mocked(form).mockReset()
+      })
+
+      it('should resolve prompts from answers after CLI args', async () => {
+        const promptAPI = createPromptAPIWithArgs(['--name=cli'], () => false, {
+          answers: { name: 'file', port: 8080, env: 'prod' },
+          env: {},
+        })
+
+        expect(await promptAPI.text('Name', { arg: 'name' })).toBe('cli')
+        expect(await promptAPI.number('Port', { arg: 'port' })).toBe(8080)
+        expect(await promptAPI.select('Env', ['dev', 'prod'], { arg: 'env' })).toBe('prod')
+      })
+
+      it('should fall back to ARERE_ARG_<NAME> variables', async () => {
+        const promptAPI = createPromptAPIWithArgs([], () => false, {
+          env: { ARERE_ARG_DRY_RUN: 'false', ARERE_ARG_FEATURES: 'a,c' },
+        })
+
+        expect(await promptAPI.confirm('Dry run?', { arg: 'dry-run' })).toBe(false)
+        expect(await promptAPI.multiSelect('Features', ['a', 'b', 'c'], { arg: 'features' })).toEqual(
+          ['a', 'c'],
+        )
+      })
+
+      it('should convert and validate answers like CLI args', async () => {
+        const promptAPI = createPromptAPIWithArgs([], () => false, {
+          answers: { port: 'abc' },
+          env: {},
+        })
+
+        await expect(promptAPI.number('Port', { arg: 'port' })).rejects.toThrow(
+          "Invalid value 'abc' for --port",
+        )
+      })
+
+      it('should answer form fields by field key', async () => {
+        const promptAPI = createPromptAPIWithArgs([], () => false, {
+          answers: { title: 'Hello' },
+          env: { ARERE_ARG_COUNT: '3' },
+        })
+
+        const result = await promptAPI({
+          fields: {
+            title: { type: 'text', message: 'Title' },
+            count: { type: 'number', message: 'Count' },
+          },
+        })
+
+        expect(result).toEqual({ title: 'Hello', count: 3 })
+        expect(form).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('recording answers', () => {
+      it('should record answers entered interactively', async () => {
+        const { text } = await import('@/ui/prompts/text.js')
+        const { password } = await import('@/ui/prompts/password.js')
+        vi.mocked(text).mockResolvedValue('typed')
+        vi.mocked(password).mockResolvedValue('secret')
+        vi.mocked(form).mockResolvedValue({ count: 2 })
+        const recorder = new AnswerRecorder()
+        const promptAPI = createPromptAPIWithArgs(['--from-cli=x'], () => true, {
+          recorder,
+          env: {},
+        })
+
+        await promptAPI.text('Name', { arg: 'name' })
+        await promptAPI.text('From CLI', { arg: 'from-cli' })
+        await promptAPI.password('Token', { arg: 'token' })
+        await promptAPI({ fields: { count: { type: 'number', message: 'Count' } } })
+
+        expect(recorder.getAnswers()).toEqual({ name: 'typed', count: 2 })
+      })
+    })
   })
 })
@@ -85,4 +85,50 @@ describe('defineAction', () => {
       }).not.toThrow()
     }
   })
+
+  it('should include dependsOn', () => {
+    const action = defineAction({
+      name: 'build',
+      description: 'Build',
+      dependsOn: ['lint', 'test'],
+      async run() {},
+    })
+
+    expect(action.meta.dependsOn).toEqual(['lint', 'test'])
+  })
+
+  it('should throw if dependsOn is not a list of names', () => {
+    expect(() => {
+      defineAction({
+        name: 'build',
+        description: 'Build',
+        dependsOn: 'lint' as unknown as string[],
+        async run() {},
+      })
+    }).toThrow('dependsOn must be an array of action names')
+  })
+
+  it('should include declared args', () => {
+    const action = defineAction({
+      name: 'deploy',
+      description: 'Deploy',
+      args: { target: { type: 'enum', values: ['dev', 'prod'], short: 't', required: true } },
+      async run() {},
+    })
+
+    expect(action.meta.args).toEqual({
+      target: { type: 'enum', values: ['dev', 'prod'], short: 't', required: true },
+    })
+  })
+
+  it('should throw if args are invalid', () => {
+    expect(() => {
+      defineAction({
+        name: 'deploy',
+        description: 'Deploy',
+        args: { target: { type: 'enum', values: [] } },
+        async run() {},
+      })
+    }).toThrow('Argument "target" must have a non-empty list of string values')
+  })
 })
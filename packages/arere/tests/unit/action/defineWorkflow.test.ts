@@ -0,0 +1,200 @@
+/**
+ * Tests for defineWorkflow function
+ */
+
+import { runAction } from '@/action/executor.js'
+import { ActionRegistry } from '@/action/registry.js'
+import type { Action } from '@/action/types.js'
+import { defineWorkflow } from '@/action/workflow.js'
+import { describe, expect, it, vi } from 'vitest'
+
+describe('defineWorkflow', () => {
+  const createRegistry = (results: Record<string, Error | undefined>, calls: string[]) => {
+    const registry = new ActionRegistry()
+    for (const [name, error] of Object.entries(results)) {
+      registry.register({
+        meta: { name, description: name },
+        filePath: `/test/${name}.ts`,
+        run: async () => {
+          calls.push(name)
+          if (error) {
+            throw error
+          }
+        },
+      })
+    }
+    return registry
+  }
+
+  const run = (workflow: Action, registry: ActionRegistry) => {
+    registry.register(workflow)
+    return runAction(workflow, { registry })
+  }
+
+  it('should create an action from the definition', () => {
+    const workflow = defineWorkflow({
+      name: 'ci',
+      description: 'Run CI',
+      category: 'ci',
+      tags: ['ci'],
+      steps: [{ action: 'lint' }],
+    })
+
+    expect(workflow.meta).toEqual({
+      name: 'ci',
+      description: 'Run CI',
+      category: 'ci',
+      tags: ['ci'],
+    })
+    expect(workflow.filePath).toBe('')
+  })
+
+  it('should validate the definition', () => {
+    expect(() => defineWorkflow({ description: '', steps: [{ action: 'a' }] })).toThrow(
+      'Workflow description is required',
+    )
+    expect(() => defineWorkflow({ description: 'CI', steps: [] })).toThrow(
+      'Workflow must have at least one step',
+    )
+    expect(() => defineWorkflow({ description: 'CI', steps: [{ action: '' }] })).toThrow(
+      'Workflow step must have an "action" name',
+    )
+    expect(() =>
+      defineWorkflow({ name: 'bad name', description: 'CI', steps: [{ action: 'a' }] }),
+    ).toThrow('must contain only alphanumeric characters')
+  })
+
+  it('should run steps in order with their args', async () => {
+    const calls: string[] = []
+    const registry = createRegistry({ lint: undefined }, calls)
+    const test = vi.fn().mockResolvedValue(undefined)
+    registry.register({ meta: { name: 'test', description: 'test' }, filePath: '', run: test })
+
+    const result = await run(
+      defineWorkflow({
+        name: 'ci',
+        description: 'CI',
+        steps: [{ action: 'lint' }, { action: 'test', args: ['--coverage'] }],
+      }),
+      registry,
+    )
+
+    expect(result.success).toBe(true)
+    expect(calls).toEqual(['lint'])
+    expect(test.mock.calls[0][0].args).toEqual(['--coverage'])
+    expect(result.steps?.map((step) => step.name)).toEqual(['lint', 'test'])
+  })
+
+  it('should stop at the first failing step', async () => {
+    const calls: string[] = []
+    const error = new Error('tests failed')
+    const registry = createRegistry({ test: error, build: undefined }, calls)
+
+    const result = await run(
+      defineWorkflow({
+        name: 'ci',
+        description: 'CI',
+        steps: [{ action: 'test' }, { action: 'build' }],
+      }),
+      registry,
+    )
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe(error)
+    expect(calls).toEqual(['test'])
+  })
+
+  it('should continue after a step with continueOnError', async () => {
+    const calls: string[] = []
+    const registry = createRegistry({ lint: new Error('lint failed'), build: undefined }, calls)
+
+    const result = await run(
+      defineWorkflow({
+        name: 'ci',
+        description: 'CI',
+        steps: [{ action: 'lint', continueOnError: true }, { action: 'build' }],
+      }),
+      registry,
+    )
+
+    expect(result.success).toBe(true)
+    expect(calls).toEqual(['lint', 'build'])
+    expect(result.steps?.map((step) => step.success)).toEqual([false, true])
+    expect(result.outputCollector.getMessages().some((m) => m.type === 'warn')).toBe(true)
+  })
+
+  it('should run failure and always steps after a failure', async () => {
+    const calls: string[] = []
+    const error = new Error('deploy failed')
+    const registry = createRegistry(
+      { deploy: error, verify: undefined, notify: undefined, cleanup: undefined },
+      calls,
+    )
+
+    const result = await run(
+      defineWorkflow({
+        name: 'release',
+        description: 'Release',
+        steps: [
+          { action: 'deploy' },
+          { action: 'verify' },
+          { action: 'notify', when: 'failure' },
+          { action: 'cleanup', when: 'always' },
+        ],
+      }),
+      registry,
+    )
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe(error)
+    expect(calls).toEqual(['deploy', 'notify', 'cleanup'])
+  })
+
+  it('should skip failure steps when nothing failed', async () => {
+    const calls: string[] = []
+    const registry = createRegistry({ deploy: undefined, notify: undefined }, calls)
+
+    const result = await run(
+      defineWorkflow({
+        name: 'release',
+        description: 'Release',
+        steps: [{ action: 'deploy' }, { action: 'notify', when: 'failure' }],
+      }),
+      registry,
+    )
+
+    expect(result.success).toBe(true)
+    expect(calls).toEqual(['deploy'])
+    expect(result.outputCollector.getMessages().some((m) => m.type === 'info')).toBe(true)
+  })
+
+  it('should evaluate condition functions with earlier outcomes', async () => {
+    const calls: string[] = []
+    const registry = createRegistry(
+      { lint: new Error('lint failed'), fix: undefined, build: undefined },
+      calls,
+    )
+    const when = vi.fn(
+      (_ctx: unknown, outcomes: { action: string; status: string }[]) =>
+        outcomes[0]?.status === 'failure',
+    )
+
+    await run(
+      defineWorkflow({
+        name: 'ci',
+        description: 'CI',
+        steps: [
+          { action: 'lint', continueOnError: true },
+          { action: 'fix', when },
+          { action: 'build', when: async () => false },
+        ],
+      }),
+      registry,
+    )
+
+    expect(when).toHaveBeenCalledWith(expect.objectContaining({ runAction: expect.any(Function) }), [
+      { action: 'lint', status: 'failure' },
+    ])
+    expect(calls).toEqual(['lint', 'fix'])
+  })
+})
@@ -3,7 +3,16 @@
  */
 
 import { runAction } from '@/action/executor.js'
-import type { Action } from '@/action/types.js'
+import { ActionRegistry } from '@/action/registry.js'
+import type { Action, ActionContext } from '@/action/types.js'
+import {
+  ActionCancelledError,
+  ActionExitError,
+  ActionNotFoundError,
+  CircularDependencyError,
+  InvalidExitCodeError,
+} from '@/lib/error.js'
+import type { LoadedPlugin } from '@/plugin/types.js'
 import { describe, expect, it, vi } from 'vitest'
 
 describe('runAction', () => {
@@ -141,5 +150,365 @@ describe('runAction', () => {
 
       expect(capturedArgs).toEqual(['arg1', 'arg2', '--flag'])
     })
+
+    it('should resolve declared args into ctx.argv', async () => {
+      let capturedArgv: Record<string, unknown> = {}
+      const action: Action = {
+        meta: {
+          name: 'test-action',
+          description: 'Test action',
+          args: {
+            target: { type: 'enum', values: ['dev', 'prod'], short: 't', required: true },
+            count: { type: 'number', default: 1 },
+          },
+        },
+        filePath: '/test/action.ts',
+        run: async (ctx) => {
+          capturedArgv = ctx.argv
+        },
+      }
+
+      await runAction(action, { args: ['-t', 'prod'] })
+
+      expect(capturedArgv).toEqual({ target: 'prod', count: 1 })
+    })
+
+    it('should fail before running when a required declared arg is missing', async () => {
+      const runFn = vi.fn()
+      const action: Action = {
+        meta: {
+          name: 'test-action',
+          description: 'Test action',
+          args: { target: { type: 'string', required: true } },
+        },
+        filePath: '/test/action.ts',
+        run: runFn,
+      }
+
+      const result = await runAction(action)
+
+      expect(result.success).toBe(false)
+      expect(result.error?.message).toContain('Required argument --target is missing')
+      expect(runFn).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('cancellation', () => {
+    it('should record a cancelled result when aborted', async () => {
+      const controller = new AbortController()
+      const action: Action = {
+        meta: {
+          name: 'test-action',
+          description: 'Test action',
+        },
+        filePath: '/test/action.ts',
+        run: async () => {
+          controller.abort()
+          await new Promise(() => {}) // never settles on its own
+        },
+      }
+
+      const result = await runAction(action, { signal: controller.signal })
+
+      expect(result.success).toBe(false)
+      expect(result.cancelled).toBe(true)
+      expect(result.error).toBeInstanceOf(ActionCancelledError)
+    })
+
+    it('should expose the signal on the action context', async () => {
+      const controller = new AbortController()
+      let capturedSignal: AbortSignal | undefined
+      const action: Action = {
+        meta: {
+          name: 'test-action',
+          description: 'Test action',
+        },
+        filePath: '/test/action.ts',
+        run: async (ctx) => {
+          capturedSignal = ctx.signal
+        },
+      }
+
+      await runAction(action, { signal: controller.signal })
+
+      expect(capturedSignal).toBe(controller.signal)
+    })
+
+    it('should not mark regular failures as cancelled', async () => {
+      const action: Action = {
+        meta: {
+          name: 'test-action',
+          description: 'Test action',
+        },
+        filePath: '/test/action.ts',
+        run: vi.fn().mockRejectedValue(new Error('boom')),
+      }
+
+      const result = await runAction(action, { signal: new AbortController().signal })
+
+      expect(result.success).toBe(false)
+      expect(result.cancelled).toBeUndefined()
+    })
+  })
+
+  describe('exit', () => {
+    it('should stop the action and report the exit code', async () => {
+      const afterExit = vi.fn()
+      const action: Action = {
+        meta: {
+          name: 'test-action',
+          description: 'Test action',
+        },
+        filePath: '/test/action.ts',
+        run: async (ctx) => {
+          ctx.exit(3)
+          afterExit()
+        },
+      }
+
+      const result = await runAction(action)
+
+      expect(afterExit).not.toHaveBeenCalled()
+      expect(result.success).toBe(false)
+      expect(result.exitCode).toBe(3)
+      expect(result.error).toBeInstanceOf(ActionExitError)
+    })
+
+    it('should treat exit code 0 as success', async () => {
+      const action: Action = {
+        meta: {
+          name: 'test-action',
+          description: 'Test action',
+        },
+        filePath: '/test/action.ts',
+        run: async (ctx) => {
+          ctx.exit()
+        },
+      }
+
+      const result = await runAction(action)
+
+      expect(result.success).toBe(true)
+      expect(result.exitCode).toBe(0)
+      expect(result.error).toBeUndefined()
+    })
+
+    it.each([-1, 256, 1.5, Number.NaN, '3'])('should fail on the invalid exit code %s', async (code) => {
+      const action: Action = {
+        meta: {
+          name: 'test-action',
+          description: 'Test action',
+        },
+        filePath: '/test/action.ts',
+        run: async (ctx) => {
+          ctx.exit(code as number)
+        },
+      }
+
+      const result = await runAction(action)
+
+      expect(result.success).toBe(false)
+      expect(result.exitCode).toBeUndefined()
+      expect(result.error).toBeInstanceOf(InvalidExitCodeError)
+      expect(result.error?.message).toContain(String(code))
+    })
+  })
+
+  describe('nested actions', () => {
+    const createAction = (
+      name: string,
+      run: (ctx: ActionContext) => Promise<void>,
+      dependsOn?: string[],
+    ): Action => ({
+      meta: { name, description: name, dependsOn },
+      filePath: `/test/${name}.ts`,
+      run,
+    })
+
+    const createRegistry = (...actions: Action[]) => {
+      const registry = new ActionRegistry()
+      for (const action of actions) {
+        registry.register(action)
+      }
+      return registry
+    }
+
+    it('should run dependsOn actions in order before the action', async () => {
+      const calls: string[] = []
+      const lint = createAction('lint', async () => {
+        calls.push('lint')
+      })
+      const test = createAction('test', async () => {
+        calls.push('test')
+      })
+      const build = createAction(
+        'build',
+        async () => {
+          calls.push('build')
+        },
+        ['lint', 'test'],
+      )
+
+      const result = await runAction(build, { registry: createRegistry(lint, test, build) })
+
+      expect(result.success).toBe(true)
+      expect(calls).toEqual(['lint', 'test', 'build'])
+      expect(result.steps?.map((step) => [step.name, step.success, step.depth])).toEqual([
+        ['lint', true, 1],
+        ['test', true, 1],
+      ])
+    })
+
+    it('should stop the chain when a dependency fails', async () => {
+      const error = new Error('lint failed')
+      const build = vi.fn()
+      const registry = createRegistry(
+        createAction('lint', async () => {
+          throw error
+        }),
+        createAction('test', async () => {}),
+      )
+
+      const result = await runAction(createAction('build', build, ['lint', 'test']), {
+        registry,
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe(error)
+      expect(build).not.toHaveBeenCalled()
+      expect(result.steps).toHaveLength(1)
+      expect(result.steps?.[0]).toMatchObject({ name: 'lint', success: false, error })
+    })
+
+    it('should run shared dependencies only once', async () => {
+      const lint = vi.fn().mockResolvedValue(undefined)
+      const registry = createRegistry(
+        createAction('lint', lint),
+        createAction('test', async () => {}, ['lint']),
+      )
+
+      const result = await runAction(createAction('build', async () => {}, ['lint', 'test']), {
+        registry,
+      })
+
+      expect(result.success).toBe(true)
+      expect(lint).toHaveBeenCalledTimes(1)
+    })
+
+    it('should run actions via ctx.runAction with their own args and translations', async () => {
+      const nestedRun = vi.fn(async (ctx: ActionContext) => {
+        ctx.tui.output.log(ctx.t('greeting'))
+      })
+      const registry = createRegistry(createAction('greet', nestedRun))
+
+      const result = await runAction(
+        createAction('main', async (ctx) => {
+          await ctx.runAction('greet', ['--name', 'arere'])
+        }),
+        { registry },
+      )
+
+      expect(result.success).toBe(true)
+      const nestedContext = nestedRun.mock.calls[0][0]
+      expect(nestedContext.args).toEqual(['--name', 'arere'])
+      // Missing keys fall back to the key in the nested action's namespace
+      expect(nestedContext.t('greeting')).toBe('greet:greeting')
+      expect(result.steps?.[0]).toMatchObject({ name: 'greet', success: true, depth: 1 })
+    })
+
+    it('should pass the nested plugin action its own plugin config', async () => {
+      const nestedRun = vi.fn().mockResolvedValue(undefined)
+      const pluginAction: Action = {
+        ...createAction('deploy', nestedRun),
+        pluginNamespace: 'plugin-deploy',
+      }
+      const plugins = [
+        { i18nNamespace: 'plugin-deploy', userConfig: { region: 'eu' } },
+      ] as unknown as LoadedPlugin[]
+
+      await runAction(
+        createAction('main', async (ctx) => {
+          await ctx.runAction('deploy')
+        }),
+        { registry: createRegistry(pluginAction), plugins },
+      )
+
+      expect(nestedRun.mock.calls[0][0].pluginConfig).toEqual({ region: 'eu' })
+    })
+
+    it('should write nested output into a nested section', async () => {
+      const onOutput = vi.fn()
+      const registry = createRegistry(
+        createAction('lint', async (ctx) => {
+          ctx.tui.output.log('linting')
+        }),
+      )
+
+      const result = await runAction(
+        createAction(
+          'build',
+          async (ctx) => {
+            ctx.tui.output.log('building')
+          },
+          ['lint'],
+        ),
+        { registry, onOutput },
+      )
+
+      const messages = result.outputCollector.getMessages()
+      expect(messages.map((m) => [m.type, m.content, m.meta?.depth])).toEqual([
+        ['section', 'lint', undefined],
+        ['log', 'linting', 1],
+        ['log', 'building', undefined],
+      ])
+      expect(onOutput).toHaveBeenCalledTimes(3)
+    })
+
+    it('should fail when a nested action is not registered', async () => {
+      const result = await runAction(createAction('build', async () => {}, ['missing']), {
+        registry: createRegistry(),
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBeInstanceOf(ActionNotFoundError)
+    })
+
+    it('should detect circular dependencies', async () => {
+      const a = createAction('a', async () => {}, ['b'])
+      const b = createAction('b', async () => {}, ['a'])
+
+      const result = await runAction(a, { registry: createRegistry(a, b) })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBeInstanceOf(CircularDependencyError)
+      expect((result.error as CircularDependencyError).chain).toEqual(['a', 'b', 'a'])
+    })
+
+    it('should treat exit code 0 in a nested action as success', async () => {
+      const after = vi.fn()
+      const registry = createRegistry(
+        createAction('check', async (ctx) => {
+          ctx.exit(0)
+        }),
+      )
+
+      const result = await runAction(
+        createAction('main', async (ctx) => {
+          await ctx.runAction('check')
+          after()
+        }),
+        { registry },
+      )
+
+      expect(result.success).toBe(true)
+      expect(after).toHaveBeenCalled()
+      expect(result.steps?.[0].success).toBe(true)
+    })
+
+    it('should not include steps when no nested action ran', async () => {
+      const result = await runAction(createAction('solo', async () => {}))
+
+      expect(result.steps).toBeUndefined()
+    })
   })
 })
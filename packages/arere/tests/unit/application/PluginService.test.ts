@@ -4,6 +4,7 @@
  * Responsible for plugin management business logic
  * - Toggle plugin enabled/disabled state
  * - Save and reload plugin configuration
+ * - Install, remove and update plugin packages
  * - Testable service independent from UI layer
  *
  * Updated to test Repository Pattern
@@ -13,7 +14,11 @@ import { PluginService } from '@/plugin/service.js'
 import type { LoadedPlugin } from '@/plugin/types.js'
 import type { ArereConfig } from '@/config/schema.js'
 import type { ConfigLayer } from '@/config/types.js'
+import { PluginConfigValidationError } from '@/lib/error.js'
+import type { SecretsAPI } from '@/action/types.js'
+import { secret } from '@/secrets/schema.js'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
 
 // Mock Infrastructure dependencies
 vi.mock('@/config/manager.js', () => ({
@@ -36,7 +41,14 @@ vi.mock('@/lib/logger.js', () => ({
   },
 }))
 
+vi.mock('@/plugin/installer.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/plugin/installer.js')>()),
+  getPackageManager: vi.fn(() => 'pnpm'),
+  runPackageManagerCommand: vi.fn(async () => {}),
+}))
+
 import { FileConfigManager } from '@/config/manager.js'
+import { getPackageManager, runPackageManagerCommand } from '@/plugin/installer.js'
 
 describe('PluginService', () => {
   let service: PluginService
@@ -278,6 +290,81 @@ describe('PluginService', () => {
         MockedWriter.mock.results[MockedWriter.mock.results.length - 1].value
       expect(mockWriterInstance.save).not.toHaveBeenCalled()
     })
+
+    it('should validate values merged over the current config before saving', async () => {
+      // Given: A schema with a nested refinement
+      const pluginWithSchema: LoadedPlugin = {
+        ...mockPlugin,
+        userConfig: { retries: 3, range: { min: 1, max: 10 } },
+        configSchema: z.object({
+          retries: z.number().max(5),
+          range: z
+            .object({ min: z.number(), max: z.number() })
+            .refine((range) => range.min <= range.max, { message: 'min > max' }),
+        }),
+      }
+
+      // When/Then: Invalid values are rejected with field-level errors
+      const error = await service
+        .savePluginConfig(pluginWithSchema, { retries: 10 }, 'workspace')
+        .catch((e: unknown) => e)
+      expect(error).toBeInstanceOf(PluginConfigValidationError)
+      expect(Object.keys((error as PluginConfigValidationError).errors)).toEqual(['retries'])
+
+      // Partial nested values are merged over the current config
+      await expect(
+        service.savePluginConfig(pluginWithSchema, { range: { min: 20 } }, 'workspace'),
+      ).rejects.toMatchObject({ errors: { range: 'min > max' } })
+
+      // Then: Nothing is written
+      expect(FileConfigManager).not.toHaveBeenCalled()
+    })
+
+    it('should save secret fields to the secret store instead of the config layer', async () => {
+      // Given: A schema with a secret field and a service with a mocked secrets API
+      const secrets: SecretsAPI = {
+        get: vi.fn(),
+        set: vi.fn(),
+        delete: vi.fn(),
+      }
+      const secretService = new PluginService(secrets)
+      const pluginWithSecret: LoadedPlugin = {
+        ...mockPlugin,
+        configSchema: z.object({
+          token: secret(z.string()).optional(),
+          owner: z.string().optional(),
+        }),
+      }
+
+      // When
+      await secretService.savePluginConfig(
+        pluginWithSecret,
+        { token: 'ghp_secret', owner: 'me' },
+        'user',
+      )
+
+      // Then: The secret goes to the secrets API, other values to the layer
+      expect(secrets.set).toHaveBeenCalledWith('plugins.test-plugin.token', 'ghp_secret')
+      const MockedWriter = vi.mocked(FileConfigManager)
+      const mockWriterInstance =
+        MockedWriter.mock.results[MockedWriter.mock.results.length - 1].value
+      expect(mockWriterInstance.save).toHaveBeenCalledWith(
+        'user',
+        'plugins.test-plugin.config.owner',
+        'me',
+      )
+      expect(mockWriterInstance.save).not.toHaveBeenCalledWith(
+        'user',
+        'plugins.test-plugin.config.token',
+        expect.anything(),
+      )
+
+      // When: The secret is cleared
+      await secretService.savePluginConfig(pluginWithSecret, { token: '' }, 'user')
+
+      // Then: It is deleted from the secret store
+      expect(secrets.delete).toHaveBeenCalledWith('plugins.test-plugin.token')
+    })
   })
 
   describe('updatePluginUserConfig', () => {
@@ -346,5 +433,139 @@ describe('PluginService', () => {
       const updatedPlugin = result.find((p) => p.meta.name === 'test-plugin')
       expect(updatedPlugin?.userConfig).toBeUndefined()
     })
+
+    it('should carry over secret values that are not in the config layers', () => {
+      // Given: A plugin with a stored secret and a newly saved one
+      const pluginWithSecrets: LoadedPlugin = {
+        ...mockPlugin,
+        userConfig: { token: 'old-token', owner: 'me' },
+        configSchema: z.object({
+          token: secret(z.string()).optional(),
+          password: secret(z.string()).optional(),
+          owner: z.string().optional(),
+        }),
+      }
+
+      const mergedConfig: ArereConfig = {
+        locale: 'en',
+        logLevel: 'info',
+        theme: { primaryColor: 'cyan' },
+        actionsDir: '.arere',
+        plugins: {
+          'test-plugin': { enabled: true, config: { owner: 'you' } },
+        },
+      }
+
+      // When
+      const result = service.updatePluginUserConfig(
+        [pluginWithSecrets],
+        mergedConfig,
+        pluginWithSecrets,
+        { password: 'new-password' },
+      )
+
+      // Then: Layer values and both secrets are in userConfig
+      expect(result[0].userConfig).toEqual({
+        owner: 'you',
+        token: 'old-token',
+        password: 'new-password',
+      })
+    })
+  })
+
+  describe('package operations', () => {
+    const mergedConfig: ArereConfig = {
+      locale: 'en',
+      logLevel: 'info',
+      actionsDir: '.arere',
+      plugins: {},
+    }
+    let mockManager: {
+      loadMerged: ReturnType<typeof vi.fn>
+      save: ReturnType<typeof vi.fn>
+      delete: ReturnType<typeof vi.fn>
+    }
+
+    beforeEach(() => {
+      mockManager = {
+        loadMerged: vi.fn().mockResolvedValue(mergedConfig),
+        save: vi.fn(),
+        delete: vi.fn(),
+      }
+      vi.mocked(FileConfigManager).mockImplementation(() => mockManager as any)
+    })
+
+    it('should install with the package manager and enable the plugin in the user layer', async () => {
+      // When
+      const result = await service.installPlugin('git@1.2.0', { scope: 'global' })
+
+      // Then: The package manager installs the prefixed spec
+      expect(runPackageManagerCommand).toHaveBeenCalledWith(
+        { manager: 'pnpm', command: 'pnpm', args: ['add', '--global', 'arere-plugin-git@1.2.0'] },
+        { onOutput: undefined },
+      )
+      // Then: Global plugins are enabled in the user layer
+      expect(mockManager.save).toHaveBeenCalledWith('user', 'plugins.arere-plugin-git.enabled', true)
+      expect(result).toEqual({
+        name: 'arere-plugin-git',
+        command: 'pnpm add --global arere-plugin-git@1.2.0',
+        config: mergedConfig,
+      })
+    })
+
+    it('should remove the package and its workspace settings for local plugins', async () => {
+      // When
+      await service.removePlugin('arere-plugin-git', {
+        scope: 'local',
+        path: '/project/node_modules/arere-plugin-git',
+      })
+
+      // Then
+      expect(getPackageManager).toHaveBeenCalledWith(
+        'local',
+        '/project/node_modules/arere-plugin-git',
+      )
+      expect(vi.mocked(runPackageManagerCommand).mock.calls[0][0].args).toEqual([
+        'remove',
+        'arere-plugin-git',
+      ])
+      expect(mockManager.delete).toHaveBeenCalledWith('workspace', 'plugins.arere-plugin-git')
+    })
+
+    it('should update without touching the settings', async () => {
+      // When
+      await service.updatePlugin('arere-plugin-git', { scope: 'global' })
+
+      // Then
+      expect(vi.mocked(runPackageManagerCommand).mock.calls[0][0].args).toEqual([
+        'add',
+        '--global',
+        'arere-plugin-git@latest',
+      ])
+      expect(mockManager.save).not.toHaveBeenCalled()
+      expect(mockManager.delete).not.toHaveBeenCalled()
+    })
+
+    it('should not save settings when the package manager fails', async () => {
+      // Given
+      vi.mocked(runPackageManagerCommand).mockRejectedValueOnce(new Error('failed'))
+
+      // When/Then
+      await expect(service.installPlugin('git', { scope: 'global' })).rejects.toThrow('failed')
+      expect(mockManager.save).not.toHaveBeenCalled()
+    })
+
+    it('should set the enabled state by name', async () => {
+      // When
+      const config = await service.setPluginEnabled('arere-plugin-git', false, 'workspace')
+
+      // Then
+      expect(mockManager.save).toHaveBeenCalledWith(
+        'workspace',
+        'plugins.arere-plugin-git.enabled',
+        false,
+      )
+      expect(config).toBe(mergedConfig)
+    })
   })
 })
@@ -205,6 +205,76 @@ describe('analyzeActionArgs', () => {
     }
   })
 
+  it('should extract form fields with arg mapping', () => {
+    const content = `
+      import { defineAction } from 'arere'
+      export default defineAction({
+        name: 'setup',
+        async run({ tui }) {
+          const values = await tui.prompt({
+            title: 'Setup',
+            fields: {
+              name: { type: 'text', message: 'Project name', arg: 'name', argShort: 'n' },
+              env: {
+                type: 'select',
+                message: 'Environment',
+                choices: ['dev', 'prod'],
+                arg: 'env',
+                description: 'Target environment',
+              },
+              note: { type: 'text', message: 'Note' },
+            },
+          })
+        }
+      })
+    `
+    const filePath = createTempFile(content)
+    try {
+      const result = analyzeActionArgs(filePath)
+      expect(result?.args).toHaveLength(2)
+      expect(result?.args[0]).toMatchObject({
+        type: 'text',
+        name: 'name',
+        short: 'n',
+        message: 'Project name',
+      })
+      expect(result?.args[1]).toMatchObject({
+        type: 'select',
+        name: 'env',
+        choices: ['dev', 'prod'],
+        description: 'Target environment',
+      })
+    } finally {
+      cleanupTempFile(filePath)
+    }
+  })
+
+  it('should extract fields across step form pages', () => {
+    const content = `
+      import { defineAction } from 'arere'
+      export default defineAction({
+        name: 'wizard',
+        async run({ tui }) {
+          const { prompt } = tui
+          const values = await prompt([
+            { title: 'Step 1', fields: { port: { type: 'number', message: 'Port', argIndex: 0 } } },
+            { title: 'Step 2', fields: { yes: { type: 'confirm', message: 'Confirm', arg: 'yes' } } },
+          ])
+        }
+      })
+    `
+    const filePath = createTempFile(content)
+    try {
+      const result = analyzeActionArgs(filePath)
+      expect(result?.args).toEqual([
+        { type: 'number', index: 0, message: 'Port' },
+        { type: 'confirm', name: 'yes', message: 'Confirm' },
+      ])
+    } finally {
+      cleanupTempFile(filePath)
+    }
+  })
+
   it('should return null for invalid file', () => {
     const result = analyzeActionArgs('/nonexistent/file.ts')
     expect(result).toBeNull()
@@ -282,4 +352,17 @@ describe('formatArgsHelp', () => {
     const help = formatArgsHelp(meta)
     expect(help).toContain('No CLI arguments available')
   })
+
+  it('should show required and default hints of declared arguments', () => {
+    const meta = {
+      args: [
+        { type: 'text' as const, name: 'target', description: 'Target', required: true },
+        { type: 'number' as const, name: 'count', defaultValue: 3 },
+      ],
+    }
+
+    const help = formatArgsHelp(meta)
+    expect(help).toContain('Target (required)')
+    expect(help).toContain('(default: 3)')
+  })
 })
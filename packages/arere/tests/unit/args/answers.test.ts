@@ -0,0 +1,132 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  AnswerRecorder,
+  createAnswerLookup,
+  getAnswerEnvName,
+  loadAnswersFile,
+} from '@/action/args/answers'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+describe('getAnswerEnvName', () => {
+  it('should upper-case the name and replace separators', () => {
+    expect(getAnswerEnvName('target')).toBe('ARERE_ARG_TARGET')
+    expect(getAnswerEnvName('dry-run')).toBe('ARERE_ARG_DRY_RUN')
+    expect(getAnswerEnvName('apiToken')).toBe('ARERE_ARG_APITOKEN')
+  })
+})
+
+describe('createAnswerLookup', () => {
+  it('should return answers as raw strings', () => {
+    const lookup = createAnswerLookup({ port: 8080, yes: true, features: ['a', 'b'] }, {})
+
+    expect(lookup(['port'])).toBe('8080')
+    expect(lookup(['yes'])).toBe('true')
+    expect(lookup(['features'])).toBe('a,b')
+    expect(lookup(['missing'])).toBeUndefined()
+  })
+
+  it('should try names in order', () => {
+    const lookup = createAnswerLookup({ name: 'by-key' }, {})
+
+    expect(lookup(['project-name', 'name'])).toBe('by-key')
+  })
+
+  it('should fall back to ARERE_ARG_<NAME> variables', () => {
+    const lookup = createAnswerLookup({ env: 'from-file' }, {
+      ARERE_ARG_ENV: 'from-env',
+      ARERE_ARG_DRY_RUN: 'yes',
+    })
+
+    expect(lookup(['env'])).toBe('from-file')
+    expect(lookup(['dry-run'])).toBe('yes')
+  })
+
+  it('should ignore null answers and inherited properties', () => {
+    const lookup = createAnswerLookup({ name: null }, {})
+
+    expect(lookup(['name'])).toBeUndefined()
+    expect(lookup(['toString'])).toBeUndefined()
+  })
+})
+
+describe('loadAnswersFile', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'arere-answers-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('should load JSON answers', async () => {
+    const file = path.join(tmpDir, 'answers.json')
+    fs.writeFileSync(file, JSON.stringify({ target: 'prod', port: 8080 }))
+
+    await expect(loadAnswersFile(file)).resolves.toEqual({ target: 'prod', port: 8080 })
+  })
+
+  it('should load YAML answers', async () => {
+    const file = path.join(tmpDir, 'answers.yaml')
+    fs.writeFileSync(file, 'target: prod\nfeatures:\n  - api\n  - web\n')
+
+    await expect(loadAnswersFile(file)).resolves.toEqual({
+      target: 'prod',
+      features: ['api', 'web'],
+    })
+  })
+
+  it('should reject files that are not an object', async () => {
+    const file = path.join(tmpDir, 'answers.json')
+    fs.writeFileSync(file, '["prod"]')
+
+    await expect(loadAnswersFile(file)).rejects.toThrow('expected an object of answers')
+  })
+
+  it('should reject invalid JSON and missing files', async () => {
+    const file = path.join(tmpDir, 'answers.json')
+    fs.writeFileSync(file, '{ target: ')
+
+    await expect(loadAnswersFile(file)).rejects.toThrow('Invalid answers file')
+    await expect(loadAnswersFile(path.join(tmpDir, 'missing.json'))).rejects.toThrow(
+      'Cannot read answers file',
+    )
+  })
+})
+
+describe('AnswerRecorder', () => {
+  it('should record select answers by choice label', () => {
+    const recorder = new AnswerRecorder()
+    const choices = [
+      { label: 'Production', value: { id: 1 } },
+      { label: 'Staging', value: { id: 2 } },
+    ]
+
+    recorder.record('name', 'app')
+    recorder.record('target', choices[1].value, choices)
+    recorder.record('features', ['api', 'web'], ['api', 'web', 'docs'])
+
+    expect(recorder.getAnswers()).toEqual({
+      name: 'app',
+      target: 'Staging',
+      features: ['api', 'web'],
+    })
+  })
+
+  it('should save answers as JSON', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'arere-answers-'))
+    const file = path.join(tmpDir, 'out.json')
+    try {
+      const recorder = new AnswerRecorder()
+      recorder.record('port', 3000)
+      await recorder.save(file)
+
+      expect(JSON.parse(fs.readFileSync(file, 'utf-8'))).toEqual({ port: 3000 })
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true })
+    }
+  })
+})
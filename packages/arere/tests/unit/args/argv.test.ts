@@ -0,0 +1,180 @@
+import {
+  argsSchemaToArgMeta,
+  argsSchemaToFields,
+  assertArgsSchema,
+  parseArgv,
+  resolveArgv,
+} from '@/action/args/argv'
+import { parseArgs } from '@/action/args/parser'
+import { ArgValidationError } from '@/action/args/validator'
+import type { ActionContext, ArgsSchema } from '@/action/types'
+import type { FormFields } from '@/ui/prompts/form/types'
+import { describe, expect, it, vi } from 'vitest'
+
+const schema: ArgsSchema = {
+  target: { type: 'enum', values: ['dev', 'prod'], short: 't', required: true },
+  count: { type: 'number', min: 1, default: 2 },
+  name: { type: 'string', index: 0 },
+  force: { type: 'boolean' },
+}
+
+function createContext(args: string[], interactive: boolean, entered = {}) {
+  const prompt = vi.fn(async (_options: { fields: FormFields }) => entered)
+  const context = {
+    args,
+    tui: { prompt, control: { isInteractive: () => interactive } },
+  } as unknown as Pick<ActionContext, 'args' | 'tui'>
+  return { context, prompt }
+}
+
+describe('assertArgsSchema', () => {
+  it('should accept a valid schema', () => {
+    expect(() => assertArgsSchema(schema)).not.toThrow()
+  })
+
+  it('should reject invalid argument names', () => {
+    expect(() => assertArgsSchema({ 'bad name': { type: 'string' } })).toThrow(
+      'Invalid argument name "bad name"',
+    )
+  })
+
+  it('should reject unknown types', () => {
+    expect(() => assertArgsSchema({ port: { type: 'integer' } })).toThrow(
+      'Argument "port" must have a type',
+    )
+  })
+
+  it('should reject enums without values', () => {
+    expect(() => assertArgsSchema({ env: { type: 'enum', values: [] } })).toThrow(
+      'non-empty list of string values',
+    )
+  })
+
+  it('should reject multi-character short names', () => {
+    expect(() => assertArgsSchema({ env: { type: 'string', short: 'en' } })).toThrow(
+      'must be a single character',
+    )
+  })
+})
+
+describe('argsSchemaToFields', () => {
+  it('should map declared arguments to prompt fields with argument mappings', () => {
+    const fields = argsSchemaToFields(schema)
+
+    expect(fields.target).toMatchObject({
+      type: 'select',
+      choices: ['dev', 'prod'],
+      arg: 'target',
+      argShort: 't',
+      required: true,
+    })
+    expect(fields.count).toMatchObject({ type: 'number', min: 1, defaultValue: 2 })
+    expect(fields.name).toMatchObject({ type: 'text', argIndex: 0, required: false })
+    expect(fields.force).toMatchObject({ type: 'confirm', defaultValue: false })
+  })
+
+  it('should include only the given arguments', () => {
+    expect(Object.keys(argsSchemaToFields(schema, ['count']))).toEqual(['count'])
+  })
+})
+
+describe('argsSchemaToArgMeta', () => {
+  it('should describe declared arguments for help and completion', () => {
+    const meta = argsSchemaToArgMeta(schema)
+
+    expect(meta[0]).toEqual({
+      name: 'target',
+      short: 't',
+      index: undefined,
+      type: 'select',
+      description: undefined,
+      choices: ['dev', 'prod'],
+      required: true,
+    })
+    expect(meta[1]).toMatchObject({ name: 'count', type: 'number', defaultValue: 2 })
+  })
+})
+
+describe('parseArgv', () => {
+  it('should convert arguments and apply defaults', () => {
+    const result = parseArgv(schema, parseArgs(['app', '-t', 'prod', '--force']))
+
+    expect(result).toEqual({
+      values: { target: 'prod', count: 2, name: 'app', force: true },
+      missing: [],
+    })
+  })
+
+  it('should report missing required arguments', () => {
+    const result = parseArgv(schema, parseArgs([]))
+
+    expect(result.missing).toEqual(['target'])
+    expect(result.values).toEqual({ count: 2, name: undefined, force: false })
+  })
+
+  it('should validate values with the argument validators', () => {
+    expect(() => parseArgv(schema, parseArgs(['--target=staging']))).toThrow(ArgValidationError)
+    expect(() => parseArgv(schema, parseArgs(['-t', 'dev', '--count=0']))).toThrow(
+      ArgValidationError,
+    )
+  })
+
+  it('should read answers files and environment variables', () => {
+    const result = parseArgv(schema, parseArgs([]), {
+      answers: { target: 'dev' },
+      env: { ARERE_ARG_COUNT: '5' },
+    })
+
+    expect(result.values).toMatchObject({ target: 'dev', count: 5 })
+  })
+})
+
+describe('resolveArgv', () => {
+  it('should return an empty object without a schema', async () => {
+    const { context } = createContext([], false)
+    expect(await resolveArgv(undefined, context)).toEqual({})
+  })
+
+  it('should throw for missing required arguments in non-interactive mode', async () => {
+    const { context } = createContext([], false)
+    await expect(resolveArgv(schema, context)).rejects.toThrow(
+      'Required argument --target is missing (non-interactive mode)',
+    )
+  })
+
+  it('should ask only for missing arguments in interactive mode', async () => {
+    const { context, prompt } = createContext(['--count=3'], true, { target: 'prod' })
+    const argv = await resolveArgv(schema, context, { title: 'deploy' })
+
+    expect(prompt).toHaveBeenCalledWith({
+      title: 'deploy',
+      fields: { target: expect.objectContaining({ type: 'select' }) },
+    })
+    expect(argv).toEqual({ target: 'prod', count: 3, name: undefined, force: false })
+  })
+
+  it('should not prompt when nothing is missing', async () => {
+    const { context, prompt } = createContext(['-t', 'dev'], true)
+    await resolveArgv(schema, context)
+
+    expect(prompt).not.toHaveBeenCalled()
+  })
+
+  it('should show every argument as a form in "all" mode', async () => {
+    const { context, prompt } = createContext([], true, {
+      target: 'dev',
+      count: 4,
+      name: '',
+      force: true,
+    })
+    const argv = await resolveArgv(schema, context, { mode: 'all' })
+
+    expect(Object.keys(prompt.mock.calls[0][0].fields)).toEqual([
+      'target',
+      'count',
+      'name',
+      'force',
+    ])
+    expect(argv).toEqual({ target: 'dev', count: 4, name: undefined, force: true })
+  })
+})
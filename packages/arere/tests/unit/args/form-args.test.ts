@@ -0,0 +1,149 @@
+import { mergeFormValues, resolveFormArgs } from '@/action/args/form-args'
+import { parseArgs } from '@/action/args/parser'
+import { ArgValidationError } from '@/action/args/validator'
+import type { FormFields, FormPage } from '@/ui/prompts/form/types'
+import { describe, expect, it } from 'vitest'
+
+const page = (fields: FormFields, validate?: FormPage<FormFields>['validate']) =>
+  ({ title: 'Page', fields, validate }) as FormPage<FormFields>
+
+describe('resolveFormArgs', () => {
+  it('should return pages unchanged when no argument matches', () => {
+    const pages = [page({ name: { type: 'text', message: 'Name', arg: 'name' } })]
+    const result = resolveFormArgs(parseArgs([]), pages, true)
+
+    expect(result.values).toEqual({})
+    expect(result.pages).toBe(pages)
+  })
+
+  it('should resolve and convert field values from arguments', () => {
+    const pages = [
+      page({
+        name: { type: 'text', message: 'Name', arg: 'name' },
+        port: { type: 'number', message: 'Port', argShort: 'p' },
+        env: { type: 'select', message: 'Env', choices: ['dev', 'prod'], argIndex: 0 },
+        force: { type: 'confirm', message: 'Force', arg: 'force' },
+      }),
+    ]
+    const result = resolveFormArgs(
+      parseArgs(['prod', '--name=app', '-p', '8080', '--force']),
+      pages,
+      true,
+    )
+
+    expect(result.values).toEqual({ name: 'app', port: 8080, env: 'prod', force: true })
+    expect(result.pages).toEqual([])
+  })
+
+  it('should keep only unanswered fields on partially answered pages', () => {
+    const pages = [
+      page({
+        name: { type: 'text', message: 'Name', arg: 'name' },
+        email: { type: 'text', message: 'Email' },
+      }),
+      page({ port: { type: 'number', message: 'Port', arg: 'port' } }),
+    ]
+    const result = resolveFormArgs(parseArgs(['--name=app', '--port=80']), pages, true)
+
+    expect(result.pages).toHaveLength(1)
+    expect(Object.keys(result.pages[0].fields)).toEqual(['email'])
+  })
+
+  it('should let remaining validators see answered values', () => {
+    const pages = [
+      page(
+        {
+          password: { type: 'text', message: 'Password', arg: 'password' },
+          confirm: {
+            type: 'text',
+            message: 'Confirm',
+            validate: (value, { values }) => value === values.password || 'Mismatch',
+          },
+        },
+        (values) => values.password === values.confirm || 'Form mismatch',
+      ),
+    ]
+    const { pages: remaining } = resolveFormArgs(parseArgs(['--password=abc']), pages, true)
+    const confirmField = remaining[0].fields.confirm
+
+    expect(confirmField.validate?.('abc' as never, { values: { confirm: 'abc' } })).toBe(true)
+    expect(confirmField.validate?.('xyz' as never, { values: { confirm: 'xyz' } })).toBe('Mismatch')
+    expect(remaining[0].validate?.({ confirm: 'abc' } as never)).toBe(true)
+    expect(remaining[0].validate?.({ confirm: 'xyz' } as never)).toBe('Form mismatch')
+  })
+
+  it('should run field validation on answered values', () => {
+    const pages = [
+      page({
+        name: {
+          type: 'text',
+          message: 'Name',
+          arg: 'name',
+          validate: (value) => value.length > 3 || 'Too short',
+        },
+      }),
+    ]
+
+    expect(() => resolveFormArgs(parseArgs(['--name=ab']), pages, true)).toThrow(
+      ArgValidationError,
+    )
+    expect(() => resolveFormArgs(parseArgs(['--name=ab']), pages, true)).toThrow('Too short')
+  })
+
+  it('should run page validation on fully answered pages', () => {
+    const pages = [
+      page(
+        {
+          min: { type: 'number', message: 'Min', arg: 'min' },
+          max: { type: 'number', message: 'Max', arg: 'max' },
+        },
+        (values) => (values.min as number) < (values.max as number) || 'min must be below max',
+      ),
+    ]
+
+    expect(() => resolveFormArgs(parseArgs(['--min=5', '--max=1']), pages, true)).toThrow(
+      'Invalid arguments: min must be below max',
+    )
+  })
+
+  describe('non-interactive mode', () => {
+    it('should throw the missing argument error for required mapped fields', () => {
+      const pages = [page({ name: { type: 'text', message: 'Name', arg: 'name' } })]
+
+      expect(() => resolveFormArgs(parseArgs([]), pages, false)).toThrow(
+        'Required argument --name is missing (non-interactive mode)',
+      )
+    })
+
+    it('should use defaults for fields with a default or required: false', () => {
+      const pages = [
+        page({
+          env: { type: 'text', message: 'Env', arg: 'env', defaultValue: 'dev' },
+          note: { type: 'text', message: 'Note', required: false },
+          verbose: { type: 'confirm', message: 'Verbose', arg: 'verbose', defaultValue: false },
+        }),
+      ]
+      const result = resolveFormArgs(parseArgs([]), pages, false)
+
+      expect(result.values).toEqual({ env: 'dev', note: '', verbose: false })
+      expect(result.pages).toEqual([])
+    })
+  })
+})
+
+describe('mergeFormValues', () => {
+  it('should merge values in field definition order', () => {
+    const pages = [
+      page({ a: { type: 'text', message: 'A' }, b: { type: 'text', message: 'B' } }),
+      page({ c: { type: 'text', message: 'C' } }),
+    ]
+
+    const result = mergeFormValues(pages, { c: '3', a: '1' }, { b: '2' })
+
+    expect(Object.entries(result)).toEqual([
+      ['a', '1'],
+      ['b', '2'],
+      ['c', '3'],
+    ])
+  })
+})
@@ -0,0 +1,58 @@
+/**
+ * Tests for `arere cache`
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { CacheManager } from '@/action/cache.js'
+import { runCacheCommand } from '@/commands/cache.js'
+import { HeadlessExitCode } from '@/modes/headless-mode.js'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+describe('runCacheCommand', () => {
+  let tempDir: string
+  let cache: CacheManager
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'arere-cache-command-test-'))
+    const filePath = join(tempDir, 'action.ts')
+    writeFileSync(filePath, '')
+    cache = new CacheManager(join(tempDir, 'cache'))
+    cache.set('a', 1, filePath)
+    cache.set('b', 2, filePath)
+
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {}) as any
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    cache.flush()
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('should print cache stats', () => {
+    runCacheCommand(['stats'], cache)
+
+    const output = consoleLogSpy.mock.calls.map((call) => call[0]).join('\n')
+    expect(output).toContain(join(tempDir, 'cache', 'metadata.json'))
+    expect(output).toContain('Entries:     2')
+  })
+
+  it('should clear all entries', () => {
+    runCacheCommand(['clear'], cache)
+
+    expect(cache.getStats().totalEntries).toBe(0)
+    expect(consoleLogSpy).toHaveBeenCalledWith('✓ Cleared 2 cache entries')
+  })
+
+  it('should exit with invalid args for unknown subcommands', () => {
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => {}) as never)
+
+    runCacheCommand(['purge'], cache)
+
+    expect(exitSpy).toHaveBeenCalledWith(HeadlessExitCode.INVALID_ARGS)
+  })
+})
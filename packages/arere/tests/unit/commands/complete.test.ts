@@ -0,0 +1,219 @@
+/**
+ * Tests for completion candidates (`arere __complete`)
+ */
+
+import { mkdirSync, rmSync, utimesSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { CacheManager } from '@/action/cache.js'
+import {
+  type CompletionEntry,
+  getCompletionEntries,
+  getCompletions,
+} from '@/commands/complete.js'
+import { defaultConfig } from '@/config/schema.js'
+import { loadActionRegistry } from '@/modes/load-actions.js'
+import { getCachedGlobalNodeModules } from '@/plugin/resolver.js'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Load project actions from a temporary directory instead of the real ones
+const actionDirs = vi.hoisted(() => ({ project: [] as string[] }))
+vi.mock('@/lib/path', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/path')>()),
+  getActionRoots: () =>
+    actionDirs.project.map((path) => ({ path, label: 'project', scope: 'project' })),
+}))
+
+// Keep the action metadata cache out of the home directory
+vi.mock('@/action/cache', async (importOriginal) => {
+  const { mkdtempSync } = await import('node:fs')
+  const { tmpdir } = await import('node:os')
+  const { join } = await import('node:path')
+  const original = await importOriginal<typeof import('@/action/cache')>()
+  return {
+    ...original,
+    cacheManager: new original.CacheManager(mkdtempSync(join(tmpdir(), 'arere-cache-'))),
+  }
+})
+
+// Ignore plugins installed in the workspace or globally
+vi.mock('@/plugin/detector', () => ({ detectPlugins: () => [] }))
+vi.mock('@/plugin/resolver', () => ({
+  getGlobalNodeModules: () => [],
+  getCachedGlobalNodeModules: vi.fn(() => []),
+  clearGlobalNodeModulesCache: () => {},
+}))
+
+vi.mock('@/modes/load-actions', async (importOriginal) => {
+  const original = await importOriginal<typeof import('@/modes/load-actions')>()
+  return { loadActionRegistry: vi.fn(original.loadActionRegistry) }
+})
+
+const entries = new Map<string, CompletionEntry>([
+  [
+    'deploy',
+    {
+      name: 'deploy',
+      category: 'ops',
+      tags: ['ci', 'prod'],
+      args: [
+        { type: 'select', name: 'env', short: 'e', choices: ['dev', 'prod'] },
+        { type: 'confirm', name: 'force' },
+        { type: 'select', index: 0, choices: ['web', 'api'] },
+      ],
+    },
+  ],
+  ['cleanup', { name: 'cleanup', tags: ['ci'], args: [] }],
+])
+
+describe('getCompletions', () => {
+  it('should complete subcommands', () => {
+    expect(getCompletions([''], entries)).toEqual([
+      'run',
+      'list',
+      'info',
+      'completion',
+      'cache',
+      'plugin',
+      '--help',
+      '--version',
+    ])
+    expect(getCompletions(['li'], entries)).toEqual(['list'])
+  })
+
+  it('should complete action names for run and info', () => {
+    expect(getCompletions(['run', ''], entries)).toEqual(['cleanup', 'deploy'])
+    expect(getCompletions(['info', 'de'], entries)).toEqual(['deploy'])
+  })
+
+  it('should complete action flags', () => {
+    expect(getCompletions(['run', 'deploy', '--'], entries)).toEqual([
+      '--help',
+      '--output=',
+      '--answers=',
+      '--record-answers=',
+      '--env',
+      '--force',
+    ])
+    expect(getCompletions(['run', 'deploy', '-'], entries)).toContain('-e')
+  })
+
+  it('should complete choices after --flag= and after the flag', () => {
+    expect(getCompletions(['run', 'deploy', '--env='], entries)).toEqual([
+      '--env=dev',
+      '--env=prod',
+    ])
+    expect(getCompletions(['run', 'deploy', '-e', 'p'], entries)).toEqual(['prod'])
+    expect(getCompletions(['run', 'deploy', '--output='], entries)).toEqual([
+      '--output=json',
+      '--output=ndjson',
+    ])
+  })
+
+  it('should not offer values after confirm flags', () => {
+    expect(getCompletions(['run', 'deploy', '--force', ''], entries)).toEqual(['web', 'api'])
+  })
+
+  it('should complete list filters from action metadata', () => {
+    expect(getCompletions(['list', '--tag='], entries)).toEqual(['--tag=ci', '--tag=prod'])
+    expect(getCompletions(['list', '--category='], entries)).toEqual(['--category=ops'])
+    expect(getCompletions(['list', '--source=p'], entries)).toEqual([
+      '--source=plugin',
+      '--source=project',
+    ])
+  })
+
+  it('should complete shells for completion', () => {
+    expect(getCompletions(['completion', ''], entries)).toEqual(['bash', 'zsh', 'fish'])
+  })
+
+  it('should complete cache subcommands', () => {
+    expect(getCompletions(['cache', ''], entries)).toEqual(['clear', 'stats'])
+  })
+
+  it('should complete plugin subcommands and options', () => {
+    expect(getCompletions(['plugin', 'in'], entries)).toEqual(['install'])
+    expect(getCompletions(['plugin', 'install', 'git', '--'], entries)).toEqual([
+      '--local',
+      '--global',
+    ])
+    expect(getCompletions(['plugin', 'list', ''], entries)).toEqual(['--json'])
+  })
+
+  it('should return nothing for unknown subcommands', () => {
+    expect(getCompletions(['unknown', ''], entries)).toEqual([])
+  })
+})
+
+describe('getCompletionEntries', () => {
+  let testDir: string
+  let actionPath: string
+  let cache: CacheManager
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `arere-complete-test-${Date.now()}`)
+    const actionsDir = join(testDir, 'actions')
+    mkdirSync(actionsDir, { recursive: true })
+    actionDirs.project = [actionsDir]
+
+    actionPath = join(actionsDir, 'deploy.ts')
+    writeFileSync(
+      actionPath,
+      `export default {
+        name: 'deploy',
+        description: 'Deploy',
+        tags: ['ci'],
+        async run({ tui }) {
+          await tui.prompt.select('Env', ['dev', 'prod'], { arg: 'env' })
+        },
+      }
+      `,
+    )
+
+    cache = new CacheManager(join(testDir, 'cache'))
+    vi.mocked(loadActionRegistry).mockClear()
+  })
+
+  afterEach(() => {
+    cache.flush()
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should load actions and extract their arguments on a cache miss', async () => {
+    const result = await getCompletionEntries(defaultConfig, cache)
+
+    expect(loadActionRegistry).toHaveBeenCalledTimes(1)
+    expect(result.get('deploy')).toMatchObject({
+      name: 'deploy',
+      tags: ['ci'],
+      args: [{ type: 'select', name: 'env', choices: ['dev', 'prod'] }],
+    })
+  })
+
+  it('should use the cache without loading actions when files are unchanged', async () => {
+    await getCompletionEntries(defaultConfig, cache)
+    const result = await getCompletionEntries(defaultConfig, cache)
+
+    expect(loadActionRegistry).toHaveBeenCalledTimes(1)
+    expect([...result.keys()]).toEqual(['deploy'])
+  })
+
+  it('should reload when an action file changes', async () => {
+    await getCompletionEntries(defaultConfig, cache)
+    const future = new Date(Date.now() + 60_000)
+    utimesSync(actionPath, future, future)
+
+    await getCompletionEntries(defaultConfig, cache)
+
+    expect(loadActionRegistry).toHaveBeenCalledTimes(2)
+  })
+
+  it('should load actions when the global node_modules directories are not cached', async () => {
+    await getCompletionEntries(defaultConfig, cache)
+    vi.mocked(getCachedGlobalNodeModules).mockReturnValueOnce(null)
+
+    await getCompletionEntries(defaultConfig, cache)
+
+    expect(loadActionRegistry).toHaveBeenCalledTimes(2)
+  })
+})
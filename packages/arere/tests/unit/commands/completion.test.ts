@@ -0,0 +1,29 @@
+/**
+ * Tests for `arere completion`
+ */
+
+import { getCompletionScript } from '@/commands/completion.js'
+import { describe, expect, it } from 'vitest'
+
+describe('getCompletionScript', () => {
+  it.each(['bash', 'zsh', 'fish'] as const)(
+    'should call back into arere for %s candidates',
+    (shell) => {
+      const script = getCompletionScript(shell)
+
+      expect(script).toContain('__complete --')
+      expect(script).toContain('arr')
+    },
+  )
+
+  it('should register the bash completion for both commands', () => {
+    expect(getCompletionScript('bash')).toContain('complete -F _arere_complete arere arr')
+  })
+
+  it('should register the fish completion for both commands', () => {
+    const script = getCompletionScript('fish')
+
+    expect(script).toContain("complete -c arere -f -a '(__arere_complete)'")
+    expect(script).toContain("complete -c arr -f -a '(__arere_complete)'")
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Tests for `arere info`
+ */
+
+import { rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { Action } from '@/action/types.js'
+import { formatActionInfo, getActionInfo } from '@/commands/info.js'
+import { defaultConfig } from '@/config/schema.js'
+import type { LoadedPlugin } from '@/plugin/types.js'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+describe('getActionInfo', () => {
+  let filePath: string
+
+  beforeEach(() => {
+    filePath = join(tmpdir(), `arere-info-test-${Date.now()}.ts`)
+    writeFileSync(
+      filePath,
+      `
+      export default {
+        name: 'deploy',
+        async run({ tui }) {
+          await tui.prompt.select('Environment', ['dev', 'prod'], {
+            arg: 'env',
+            argShort: 'e',
+            description: 'Target environment',
+          })
+          await tui.prompt.confirm('Force?', { arg: 'force' })
+        },
+      }
+      `,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(filePath, { force: true })
+  })
+
+  function createAction(overrides: Partial<Action> = {}): Action {
+    return {
+      meta: { name: 'deploy', description: 'Deploy app', category: 'ops', tags: ['ci'] },
+      filePath,
+      location: 'project',
+      run: async () => {},
+      ...overrides,
+    }
+  }
+
+  it('should include the arguments extracted from the action file', () => {
+    const info = getActionInfo(createAction(), defaultConfig)
+
+    expect(info).toMatchObject({
+      name: 'deploy',
+      source: 'project',
+      plugin: null,
+      pluginVersion: null,
+      filePath,
+    })
+    expect(info.args).toEqual([
+      expect.objectContaining({ type: 'select', name: 'env', short: 'e', choices: ['dev', 'prod'] }),
+      expect.objectContaining({ type: 'confirm', name: 'force' }),
+    ])
+  })
+
+  it('should resolve the plugin version from loaded plugins', () => {
+    const plugins = [
+      { meta: { name: 'arere-plugin-deploy', version: '1.2.0' } },
+    ] as unknown as LoadedPlugin[]
+
+    const info = getActionInfo(
+      createAction({ location: { plugin: 'arere-plugin-deploy' } }),
+      defaultConfig,
+      plugins,
+    )
+
+    expect(info.plugin).toBe('arere-plugin-deploy')
+    expect(info.pluginVersion).toBe('1.2.0')
+  })
+
+  it('should mark bookmarked actions from config', () => {
+    const info = getActionInfo(createAction(), { ...defaultConfig, bookmarks: ['local:deploy'] })
+
+    expect(info.bookmarked).toBe(true)
+  })
+
+  it('should format details and arguments as text', () => {
+    const text = formatActionInfo(getActionInfo(createAction(), defaultConfig))
+
+    expect(text).toContain('Name:        deploy')
+    expect(text).toContain(`File:        ${filePath}`)
+    expect(text).toContain('Location:    project')
+    expect(text).toContain('Tags:        ci')
+    expect(text).toContain('-e, --env <dev|prod>')
+    expect(text).toContain('Target environment')
+    expect(text).toContain('--force')
+    expect(text).not.toContain('Plugin:')
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * Tests for `arere list`
+ */
+
+import type { Action } from '@/action/types.js'
+import {
+  filterActions,
+  formatActionTable,
+  getActionSource,
+  parseListArgs,
+  toActionSummary,
+} from '@/commands/list.js'
+import { defaultConfig } from '@/config/schema.js'
+import { describe, expect, it } from 'vitest'
+
+function createAction(overrides: Partial<Action> & { meta: Action['meta'] }): Action {
+  return {
+    filePath: `/actions/${overrides.meta.name}.ts`,
+    location: 'project',
+    run: async () => {},
+    ...overrides,
+  }
+}
+
+const deploy = createAction({
+  meta: { name: 'deploy', description: 'Deploy app', category: 'ops', tags: ['ci', 'prod'] },
+})
+const cleanup = createAction({
+  meta: { name: 'cleanup', description: 'Clean up', tags: ['ci'] },
+  location: 'global',
+})
+const timer = createAction({
+  meta: { name: 'timer', description: () => 'Start timer', category: 'plugin:arere-plugin-timer' },
+  location: { plugin: 'arere-plugin-timer' },
+})
+const actions = [deploy, cleanup, timer]
+
+describe('parseListArgs', () => {
+  it('should parse filters in both --name=value and --name value forms', () => {
+    const options = parseListArgs(['--category=ops', '--tag', 'ci', '--tag=prod', '--json'])
+
+    expect(options).toEqual({
+      filter: { category: 'ops', tags: ['ci', 'prod'], bookmarked: false },
+      json: true,
+    })
+  })
+
+  it('should parse --source and --bookmarked', () => {
+    const { filter } = parseListArgs(['--source=plugin', '--bookmarked'])
+
+    expect(filter.source).toBe('plugin')
+    expect(filter.bookmarked).toBe(true)
+  })
+
+  it('should reject an invalid source', () => {
+    expect(() => parseListArgs(['--source=remote'])).toThrow('Invalid --source "remote"')
+  })
+
+  it('should reject unknown options and missing values', () => {
+    expect(() => parseListArgs(['--verbose'])).toThrow('Unknown option: --verbose')
+    expect(() => parseListArgs(['--tag'])).toThrow('Option --tag requires a value')
+  })
+})
+
+describe('getActionSource', () => {
+  it('should derive the source from the action location', () => {
+    expect(getActionSource(deploy)).toBe('project')
+    expect(getActionSource(cleanup)).toBe('global')
+    expect(getActionSource(timer)).toBe('plugin')
+  })
+})
+
+describe('filterActions', () => {
+  const noFilter = { tags: [], bookmarked: false }
+
+  it('should return every action without filters', () => {
+    expect(filterActions(actions, noFilter)).toEqual(actions)
+  })
+
+  it('should filter by category', () => {
+    expect(filterActions(actions, { ...noFilter, category: 'ops' })).toEqual([deploy])
+  })
+
+  it('should require every tag', () => {
+    expect(filterActions(actions, { ...noFilter, tags: ['ci'] })).toEqual([deploy, cleanup])
+    expect(filterActions(actions, { ...noFilter, tags: ['ci', 'prod'] })).toEqual([deploy])
+  })
+
+  it('should filter by source', () => {
+    expect(filterActions(actions, { ...noFilter, source: 'plugin' })).toEqual([timer])
+  })
+
+  it('should filter by bookmark', () => {
+    const bookmarks = ['arere-plugin-timer:timer']
+
+    expect(filterActions(actions, { ...noFilter, bookmarked: true }, bookmarks)).toEqual([timer])
+  })
+})
+
+describe('toActionSummary', () => {
+  it('should evaluate function descriptions and resolve the plugin', () => {
+    const summary = toActionSummary(timer, defaultConfig, ['arere-plugin-timer:timer'])
+
+    expect(summary).toEqual({
+      id: 'arere-plugin-timer:timer',
+      name: 'timer',
+      description: 'Start timer',
+      category: 'plugin:arere-plugin-timer',
+      tags: [],
+      source: 'plugin',
+      plugin: 'arere-plugin-timer',
+      filePath: '/actions/timer.ts',
+      bookmarked: true,
+    })
+  })
+})
+
+describe('formatActionTable', () => {
+  it('should align names and sources into columns', () => {
+    const table = formatActionTable(
+      [deploy, timer].map((action) => toActionSummary(action, defaultConfig)),
+    )
+
+    expect(table.split('\n')).toEqual([
+      'deploy  project             Deploy app  #ci #prod',
+      'timer   arere-plugin-timer  Start timer',
+    ])
+  })
+})
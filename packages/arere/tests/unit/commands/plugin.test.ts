@@ -0,0 +1,209 @@
+/**
+ * Tests for `arere plugin`
+ */
+
+import {
+  formatPluginTable,
+  parsePluginArgs,
+  runPluginCommand,
+  toPluginSummary,
+} from '@/commands/plugin.js'
+import { defaultConfig } from '@/config/schema.js'
+import { HeadlessExitCode } from '@/modes/headless-mode.js'
+import type { PluginPackageInfo } from '@/plugin/detector.js'
+import type { PluginService } from '@/plugin/service.js'
+import type { LoadedPlugin } from '@/plugin/types.js'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+function createPlugin(overrides: Partial<LoadedPlugin> = {}): LoadedPlugin {
+  return {
+    meta: { name: 'arere-plugin-git', version: '1.0.0', description: 'Git' },
+    path: '/global/node_modules/arere-plugin-git',
+    actionPaths: [],
+    i18nNamespace: 'plugin-git',
+    enabled: true,
+    source: 'global',
+    ...overrides,
+  }
+}
+
+function createPackageInfo(name: string, source: PluginPackageInfo['source']): PluginPackageInfo {
+  return { name, path: `/plugins/${name}`, source, packageJson: { name, version: '1.0.0' } }
+}
+
+describe('parsePluginArgs', () => {
+  it('should parse names and the scope', () => {
+    expect(parsePluginArgs(['install', 'git', 'docker@2', '--local'])).toEqual({
+      subcommand: 'install',
+      names: ['git', 'docker@2'],
+      scope: 'local',
+      json: false,
+    })
+  })
+
+  it('should parse list --json', () => {
+    expect(parsePluginArgs(['list', '--json'])).toMatchObject({ subcommand: 'list', json: true })
+  })
+
+  it('should reject unknown subcommands and options', () => {
+    expect(() => parsePluginArgs(['upgrade'])).toThrow('Unknown plugin command "upgrade"')
+    expect(() => parsePluginArgs(['list', '--all'])).toThrow('Unknown option: --all')
+  })
+
+  it('should reject conflicting scopes and missing names', () => {
+    expect(() => parsePluginArgs(['install', 'git', '--local', '--global'])).toThrow(
+      'cannot be used together',
+    )
+    expect(() => parsePluginArgs(['remove'])).toThrow('Missing plugin name')
+  })
+
+  it('should allow update without names', () => {
+    expect(parsePluginArgs(['update']).names).toEqual([])
+  })
+})
+
+describe('toPluginSummary', () => {
+  it('should mark plugins with a newer published version as outdated', () => {
+    expect(toPluginSummary(createPlugin(), '1.2.0')).toMatchObject({
+      version: '1.0.0',
+      latest: '1.2.0',
+      outdated: true,
+    })
+    expect(toPluginSummary(createPlugin(), '1.0.0').outdated).toBe(false)
+  })
+
+  it('should not be outdated when the latest version is unknown', () => {
+    expect(toPluginSummary(createPlugin())).toMatchObject({ latest: null, outdated: false })
+  })
+})
+
+describe('formatPluginTable', () => {
+  it('should align columns and show the latest version of outdated plugins', () => {
+    const table = formatPluginTable([
+      toPluginSummary(createPlugin(), '1.2.0'),
+      toPluginSummary(
+        createPlugin({
+          meta: { name: 'arere-plugin-docker', version: '2.0.0' },
+          path: '/project/node_modules/arere-plugin-docker',
+          enabled: false,
+          source: 'local',
+        }),
+        '2.0.0',
+      ),
+    ])
+
+    const lines = table.split('\n')
+    expect(lines[0]).toMatch(/^arere-plugin-git\s+1\.0\.0\s+→ 1\.2\.0\s+enabled\s+global/)
+    expect(lines[1]).toMatch(/^arere-plugin-docker\s+2\.0\.0\s+disabled\s+local/)
+    expect(lines[0].indexOf('1.0.0')).toBe(lines[1].indexOf('2.0.0'))
+  })
+})
+
+describe('runPluginCommand', () => {
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>
+  let exitSpy: ReturnType<typeof vi.spyOn>
+  let service: Record<
+    'installPlugin' | 'removePlugin' | 'updatePlugin' | 'setPluginEnabled',
+    ReturnType<typeof vi.fn<any[], Promise<unknown>>>
+  >
+  const installed = [
+    createPackageInfo('arere-plugin-git', 'global'),
+    createPackageInfo('arere-plugin-docker', 'local'),
+    createPackageInfo('arere-plugin-dev', 'path'),
+  ]
+
+  const run = (args: string[]) =>
+    runPluginCommand(defaultConfig, args, {
+      service: service as unknown as PluginService,
+      detectPlugins: () => installed,
+      loadPlugins: async () => [createPlugin()],
+      getLatestVersion: async () => '1.1.0',
+    })
+
+  beforeEach(() => {
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {}) as any
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => {}) as never) as any
+    service = {
+      installPlugin: vi.fn(async (spec: string): Promise<unknown> => ({ name: `arere-plugin-${spec}` })),
+      removePlugin: vi.fn(async (): Promise<unknown> => ({})),
+      updatePlugin: vi.fn(async (): Promise<unknown> => ({})),
+      setPluginEnabled: vi.fn(async (): Promise<unknown> => ({})),
+    }
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should list plugins as JSON', async () => {
+    await run(['list', '--json'])
+
+    const summaries = JSON.parse(consoleLogSpy.mock.calls[0][0] as string)
+    expect(summaries).toEqual([
+      expect.objectContaining({ name: 'arere-plugin-git', latest: '1.1.0', outdated: true }),
+    ])
+  })
+
+  it('should install globally by default', async () => {
+    await run(['install', 'git'])
+
+    expect(service.installPlugin).toHaveBeenCalledWith('git', { scope: 'global' })
+  })
+
+  it('should install locally with --local', async () => {
+    await run(['install', 'git', '--local'])
+
+    expect(service.installPlugin).toHaveBeenCalledWith('git', { scope: 'local' })
+  })
+
+  it('should remove plugins from the scope they are installed in', async () => {
+    await run(['remove', 'docker'])
+
+    expect(service.removePlugin).toHaveBeenCalledWith('arere-plugin-docker', {
+      scope: 'local',
+      path: '/plugins/arere-plugin-docker',
+    })
+  })
+
+  it('should update every installed plugin except pluginPaths ones', async () => {
+    await run(['update'])
+
+    expect(service.updatePlugin.mock.calls.map((call) => call[0])).toEqual([
+      'arere-plugin-git',
+      'arere-plugin-docker',
+    ])
+  })
+
+  it('should refuse to remove plugins loaded from pluginPaths', async () => {
+    await run(['remove', 'dev'])
+
+    expect(service.removePlugin).not.toHaveBeenCalled()
+    expect(exitSpy).toHaveBeenCalledWith(HeadlessExitCode.RUNTIME_ERROR)
+  })
+
+  it('should enable plugins in the layer matching their scope', async () => {
+    await run(['enable', 'git', 'docker'])
+    await run(['disable', 'git', '--local'])
+
+    expect(service.setPluginEnabled.mock.calls).toEqual([
+      ['arere-plugin-git', true, 'user'],
+      ['arere-plugin-docker', true, 'workspace'],
+      ['arere-plugin-git', false, 'workspace'],
+    ])
+  })
+
+  it('should exit with INVALID_ARGS on invalid arguments', async () => {
+    await run(['install']).catch(() => {})
+
+    expect(exitSpy).toHaveBeenCalledWith(HeadlessExitCode.INVALID_ARGS)
+  })
+
+  it('should exit with RUNTIME_ERROR when the package manager fails', async () => {
+    service.installPlugin.mockRejectedValue(new Error('npm failed'))
+
+    await run(['install', 'git'])
+
+    expect(exitSpy).toHaveBeenCalledWith(HeadlessExitCode.RUNTIME_ERROR)
+  })
+})
@@ -28,6 +28,7 @@ describe('CacheManager', () => {
 
   afterEach(() => {
     // Clean up
+    cacheManager.flush()
     if (existsSync(testCacheDir)) {
       rmSync(testCacheDir, { recursive: true, force: true })
     }
@@ -89,6 +90,28 @@ describe('CacheManager', () => {
     })
   })
 
+  describe('flush', () => {
+    const readCacheFile = () => new CacheManager(testCacheDir).getStats().totalEntries
+
+    it('should write pending changes in one batch', () => {
+      cacheManager.set('key1', 'value1', testFilePath)
+      cacheManager.set('key2', 'value2', testFilePath)
+      expect(readCacheFile()).toBe(0)
+
+      cacheManager.flush()
+
+      expect(readCacheFile()).toBe(2)
+    })
+
+    it('should write pending changes on the next event loop turn', async () => {
+      cacheManager.set('key1', 'value1', testFilePath)
+
+      await new Promise((resolve) => setImmediate(resolve))
+
+      expect(readCacheFile()).toBe(1)
+    })
+  })
+
   describe('clear', () => {
     it('should clear all cache entries', () => {
       cacheManager.set('key1', 'value1', testFilePath)
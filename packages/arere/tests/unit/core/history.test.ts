@@ -0,0 +1,229 @@
+/**
+ * Tests for run history
+ */
+
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { CacheManager } from '@/action/cache.js'
+import type { RunResult } from '@/action/executor.js'
+import {
+  HistoryManager,
+  MAX_RECORDED_OUTPUT,
+  type RunRecord,
+  createRunRecord,
+} from '@/action/history.js'
+import type { Action } from '@/action/types.js'
+import { ShellError } from '@/lib/error.js'
+import { OutputCollector } from '@/ui/output/collector.js'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+function createRecord(overrides: Partial<RunRecord> = {}): RunRecord {
+  return {
+    id: `run-${Math.random()}`,
+    actionId: 'local:deploy',
+    args: [],
+    startedAt: Date.now(),
+    duration: 10,
+    success: true,
+    messages: [],
+    ...overrides,
+  }
+}
+
+describe('HistoryManager', () => {
+  let testHistoryDir: string
+  let historyManager: HistoryManager
+
+  beforeEach(() => {
+    testHistoryDir = join(tmpdir(), `arere-history-test-${Date.now()}`)
+    historyManager = new HistoryManager(testHistoryDir)
+  })
+
+  afterEach(() => {
+    if (existsSync(testHistoryDir)) {
+      rmSync(testHistoryDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should start empty when no history file exists', () => {
+    expect(historyManager.getAll()).toEqual([])
+  })
+
+  it('should store runs newest first', () => {
+    historyManager.add(createRecord({ id: 'first' }))
+    historyManager.add(createRecord({ id: 'second' }))
+
+    expect(historyManager.getAll().map((run) => run.id)).toEqual(['second', 'first'])
+  })
+
+  it('should persist runs to disk', () => {
+    historyManager.add(createRecord({ id: 'persisted', args: ['--env', 'prod'] }))
+
+    const reloaded = new HistoryManager(testHistoryDir)
+    expect(reloaded.get('persisted')?.args).toEqual(['--env', 'prod'])
+  })
+
+  it('should keep runs added by another process', () => {
+    // A long-running TUI reads the history first
+    expect(historyManager.getAll()).toEqual([])
+
+    new HistoryManager(testHistoryDir).add(createRecord({ id: 'headless' }))
+    historyManager.add(createRecord({ id: 'tui' }))
+
+    expect(new HistoryManager(testHistoryDir).getAll().map((run) => run.id)).toEqual([
+      'tui',
+      'headless',
+    ])
+  })
+
+  it('should keep at most 100 runs', () => {
+    for (let i = 0; i < 105; i++) {
+      historyManager.add(createRecord({ id: `run-${i}` }))
+    }
+
+    const runs = historyManager.getAll()
+    expect(runs).toHaveLength(100)
+    expect(runs[0].id).toBe('run-104')
+    expect(runs[99].id).toBe('run-5')
+  })
+
+  it('should clear all runs', () => {
+    historyManager.add(createRecord())
+    historyManager.clear()
+
+    expect(historyManager.getAll()).toEqual([])
+    expect(new HistoryManager(testHistoryDir).getAll()).toEqual([])
+  })
+
+  it('should ignore a corrupted history file', () => {
+    mkdirSync(testHistoryDir, { recursive: true })
+    writeFileSync(join(testHistoryDir, 'runs.json'), '{ not json')
+
+    expect(historyManager.getAll()).toEqual([])
+  })
+})
+
+describe('createRunRecord', () => {
+  const action = {
+    meta: { name: 'deploy', description: 'Deploy' },
+    filePath: '/tmp/deploy.ts',
+    run: async () => {},
+  } as unknown as Action
+
+  function createResult(overrides: Partial<RunResult> = {}): RunResult {
+    return {
+      success: true,
+      duration: 42,
+      outputCollector: new OutputCollector(),
+      ...overrides,
+    }
+  }
+
+  it('should record action id, args and output', () => {
+    const result = createResult()
+    result.outputCollector.log('hello')
+
+    const record = createRunRecord(action, ['--env', 'prod'], 1000, result)
+
+    expect(record).toMatchObject({
+      actionId: 'local:deploy',
+      args: ['--env', 'prod'],
+      startedAt: 1000,
+      duration: 42,
+      success: true,
+      messages: [{ type: 'log', content: 'hello' }],
+    })
+    expect(record.error).toBeUndefined()
+    expect(record.cancelled).toBeUndefined()
+  })
+
+  it('should leave password arguments out of the recorded args', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'arere-history-args-'))
+    try {
+      const filePath = join(dir, 'login.ts')
+      writeFileSync(
+        filePath,
+        `export default {
+  name: 'login',
+  run: async ({ tui }) => {
+    await tui.prompt.password('Token', { arg: 'token', argShort: 't' })
+    await tui.prompt.password('Key', { argIndex: 1 })
+    await tui.prompt.text('Env', { arg: 'env' })
+  },
+}
+`,
+      )
+      const login = { ...action, meta: { name: 'login' }, filePath } as Action
+      const cache = new CacheManager(join(dir, 'cache'))
+
+      const record = createRunRecord(
+        login,
+        ['site', 'key-value', '--token=abc', '--env', 'prod', '-t', 'xyz', '--token', 'def'],
+        1000,
+        createResult(),
+        cache,
+      )
+      cache.flush()
+
+      expect(record.args).toEqual(['site', '--env', 'prod'])
+      expect(JSON.stringify(record)).not.toMatch(/abc|xyz|def|key-value/)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should record formatted errors and cancellation', () => {
+    const error = new ShellError('false', { stdout: '', stderr: '', exitCode: 1 })
+    const record = createRunRecord(
+      action,
+      [],
+      1000,
+      createResult({ success: false, cancelled: true, error }),
+    )
+
+    expect(record.success).toBe(false)
+    expect(record.cancelled).toBe(true)
+    expect(record.error).toContain('[SHELL_ERROR]')
+  })
+
+  it('should keep only the latest output of a long run', () => {
+    const result = createResult()
+    const line = 'x'.repeat(1000)
+    for (let i = 0; i < 100; i++) {
+      result.outputCollector.log(`${i} ${line}`)
+    }
+
+    const record = createRunRecord(action, [], 1000, result)
+
+    expect(JSON.stringify(record.messages).length).toBeLessThanOrEqual(MAX_RECORDED_OUTPUT)
+    expect(record.omittedMessages).toBe(100 - record.messages.length)
+    expect(record.messages.at(-1)?.content).toBe(`99 ${line}`)
+  })
+
+  it('should store output that cannot be serialized as a string', () => {
+    const circular: Record<string, unknown> = {}
+    circular.self = circular
+
+    const result = createResult()
+    result.outputCollector.json(circular)
+
+    const record = createRunRecord(action, [], 1000, result)
+
+    expect(record.messages[0].content).toBe('[object Object]')
+    expect(() => JSON.stringify(record)).not.toThrow()
+  })
+
+  it('should be readable back as JSON', () => {
+    const dir = join(tmpdir(), `arere-history-json-${Date.now()}`)
+    try {
+      const manager = new HistoryManager(dir)
+      manager.add(createRunRecord(action, [], 1000, createResult()))
+
+      const content = JSON.parse(readFileSync(join(dir, 'runs.json'), 'utf-8'))
+      expect(content.runs).toHaveLength(1)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -2,10 +2,14 @@
  * Tests for action loader
  */
 
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
 import { join } from 'node:path'
+import { CacheManager } from '@/action/cache.js'
 import { loadAction, loadActions } from '@/action/loader.js'
+import { getCachedActionMeta } from '@/action/metadata-cache.js'
 import { ActionLoadError } from '@/lib/error.js'
-import { describe, expect, it } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
 describe('Action loader', () => {
   const fixturesDir = join(process.cwd(), 'tests', 'fixtures', 'actions')
@@ -45,6 +49,90 @@ describe('Action loader', () => {
       const actionPath = join(fixturesDir, 'invalid.ts')
       await expect(loadAction(actionPath)).rejects.toThrow(ActionLoadError)
     })
+
+    it('should re-evaluate an edited file when fresh is set', async () => {
+      const tempDir = mkdtempSync(join(tmpdir(), 'arere-loader-test-'))
+      const actionPath = join(tempDir, 'editable.ts')
+      const writeAction = (description: string) =>
+        writeFileSync(
+          actionPath,
+          `export default { name: 'editable', description: '${description}', run: async () => {} }`,
+        )
+
+      try {
+        writeAction('before')
+        expect((await loadAction(actionPath)).meta.description).toBe('before')
+
+        writeAction('after')
+        expect((await loadAction(actionPath, { fresh: true })).meta.description).toBe('after')
+      } finally {
+        rmSync(tempDir, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe('loadAction with a metadata cache', () => {
+    let tempDir: string
+    let cache: CacheManager
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'arere-loader-cache-test-'))
+      cache = new CacheManager(join(tempDir, 'cache'))
+    })
+
+    afterEach(() => {
+      cache.flush()
+      rmSync(tempDir, { recursive: true, force: true })
+    })
+
+    it('should cache the metadata of a loaded action', async () => {
+      const actionPath = join(tempDir, 'cached.ts')
+      writeFileSync(
+        actionPath,
+        `export default { name: 'cached', description: 'Cached', tags: ['a'], run: async () => {} }`,
+      )
+
+      await loadAction(actionPath, { cache })
+
+      expect(getCachedActionMeta(cache, actionPath)).toEqual({
+        name: 'cached',
+        description: 'Cached',
+        tags: ['a'],
+      })
+    })
+
+    it('should return a lazy action from cached metadata and load it on run', async () => {
+      const actionPath = join(tempDir, 'lazy.ts')
+      writeFileSync(
+        actionPath,
+        `export default {
+          name: 'lazy',
+          description: 'From file',
+          run: async () => { globalThis.__arereLazyRan = true },
+        }`,
+      )
+      // Metadata that differs from the file proves the module was not compiled
+      cache.set('action-meta:' + actionPath, { name: 'lazy', description: 'From cache' }, actionPath)
+
+      const action = await loadAction(actionPath, { cache })
+      expect(action.meta.description).toBe('From cache')
+
+      await action.run({} as never)
+      expect((globalThis as Record<string, unknown>).__arereLazyRan).toBe(true)
+    })
+
+    it('should not use the cache when fresh is set', async () => {
+      const actionPath = join(tempDir, 'fresh.ts')
+      writeFileSync(
+        actionPath,
+        `export default { name: 'fresh', description: 'From file', run: async () => {} }`,
+      )
+      cache.set('action-meta:' + actionPath, { name: 'fresh', description: 'From cache' }, actionPath)
+
+      const action = await loadAction(actionPath, { cache, fresh: true })
+
+      expect(action.meta.description).toBe('From file')
+    })
   })
 
   describe('loadActions', () => {
@@ -66,6 +154,15 @@ describe('Action loader', () => {
       expect(actions.length).toBe(2) // Should skip the non-existent one
     })
 
+    it('should report failed actions via onError', async () => {
+      const onError = vi.fn()
+      const paths = [join(fixturesDir, 'simple.ts'), '/non-existent/action.ts']
+
+      await loadActions(paths, onError)
+      expect(onError).toHaveBeenCalledTimes(1)
+      expect(onError).toHaveBeenCalledWith('/non-existent/action.ts', expect.any(ActionLoadError))
+    })
+
     it('should return empty array for empty input', async () => {
       const actions = await loadActions([])
       expect(actions).toEqual([])
@@ -0,0 +1,142 @@
+/**
+ * Tests for cached action metadata and lazy actions
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { CacheManager } from '@/action/cache.js'
+import {
+  cacheActionMeta,
+  createLazyAction,
+  getActionArgsMeta,
+  getCachedActionMeta,
+} from '@/action/metadata-cache.js'
+import type { Action, ActionContext } from '@/action/types.js'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+describe('action metadata cache', () => {
+  let tempDir: string
+  let actionPath: string
+  let cache: CacheManager
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'arere-metadata-cache-test-'))
+    actionPath = join(tempDir, 'deploy.ts')
+    writeFileSync(
+      actionPath,
+      `export default {
+        name: 'deploy',
+        async run({ tui }) {
+          await tui.prompt.select('Env', ['dev', 'prod'], { arg: 'env' })
+        },
+      }`,
+    )
+    cache = new CacheManager(join(tempDir, 'cache'))
+  })
+
+  afterEach(() => {
+    cache.flush()
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  function createAction(description: Action['meta']['description']): Action {
+    return {
+      meta: { name: 'deploy', description, category: 'ops', tags: ['ci'] },
+      filePath: actionPath,
+      run: async () => {},
+    }
+  }
+
+  describe('cacheActionMeta', () => {
+    it('should cache static metadata', () => {
+      cacheActionMeta(cache, createAction('Deploy'))
+
+      expect(getCachedActionMeta(cache, actionPath)).toEqual({
+        name: 'deploy',
+        description: 'Deploy',
+        category: 'ops',
+        tags: ['ci'],
+      })
+    })
+
+    it('should not cache actions with a description function', () => {
+      cacheActionMeta(cache, createAction('Deploy'))
+      cacheActionMeta(
+        cache,
+        createAction(() => 'Deploy'),
+      )
+
+      expect(getCachedActionMeta(cache, actionPath)).toBeNull()
+    })
+  })
+
+  describe('createLazyAction', () => {
+    const context = {} as ActionContext
+
+    it('should load the action once and delegate run', async () => {
+      const run = vi.fn(async () => {})
+      const load = vi.fn(async () => ({ ...createAction('Deploy'), run }))
+      const action = createLazyAction(actionPath, { name: 'deploy', description: 'Deploy' }, load)
+
+      expect(load).not.toHaveBeenCalled()
+
+      await action.run(context)
+      await action.run(context)
+
+      expect(load).toHaveBeenCalledTimes(1)
+      expect(run).toHaveBeenCalledTimes(2)
+      expect(run).toHaveBeenCalledWith(context)
+    })
+
+    it('should retry loading after a failure', async () => {
+      const load = vi
+        .fn<[], Promise<Action>>()
+        .mockRejectedValueOnce(new Error('syntax error'))
+        .mockResolvedValueOnce(createAction('Deploy'))
+      const action = createLazyAction(actionPath, { name: 'deploy', description: 'Deploy' }, load)
+
+      await expect(action.run(context)).rejects.toThrow('syntax error')
+      await expect(action.run(context)).resolves.toBeUndefined()
+      expect(load).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('getActionArgsMeta', () => {
+    it('should analyze the file and cache the result', () => {
+      const meta = getActionArgsMeta(cache, actionPath)
+
+      expect(meta?.args).toEqual([
+        expect.objectContaining({ type: 'select', name: 'env', choices: ['dev', 'prod'] }),
+      ])
+      cache.flush()
+      expect(new CacheManager(join(tempDir, 'cache')).getStats().totalEntries).toBe(1)
+    })
+
+    it('should return cached argument metadata for an unchanged file', () => {
+      cache.set(`action-args:${actionPath}`, { args: [{ type: 'text', name: 'cached' }] }, actionPath)
+
+      expect(getActionArgsMeta(cache, actionPath)?.args).toEqual([{ type: 'text', name: 'cached' }])
+    })
+
+    it('should list declared arguments before analyzed ones without duplicates', () => {
+      const meta = getActionArgsMeta(cache, actionPath, {
+        target: { type: 'enum', values: ['a', 'b'], required: true },
+        env: { type: 'string' },
+      })
+
+      expect(meta?.args.map((arg) => [arg.name, arg.type])).toEqual([
+        ['target', 'select'],
+        ['env', 'text'],
+      ])
+    })
+
+    it('should return declared arguments when the file cannot be analyzed', () => {
+      const meta = getActionArgsMeta(cache, join(tempDir, 'missing.ts'), {
+        env: { type: 'string' },
+      })
+
+      expect(meta?.args).toEqual([expect.objectContaining({ name: 'env', type: 'text' })])
+    })
+  })
+})
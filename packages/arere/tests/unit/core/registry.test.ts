@@ -2,8 +2,10 @@
  * Tests for ActionRegistry
  */
 
-import { ActionRegistry } from '@/action/registry.js'
-import type { Action } from '@/action/types.js'
+import { join } from 'node:path'
+import { ActionRegistry, getQualifiedActionId } from '@/action/registry.js'
+import type { Action, ActionLocation } from '@/action/types.js'
+import { AmbiguousActionError } from '@/lib/error.js'
 import { beforeEach, describe, expect, it } from 'vitest'
 
 describe('ActionRegistry', () => {
@@ -23,6 +25,11 @@ describe('ActionRegistry', () => {
     run: async () => {},
   })
 
+  const createLocatedAction = (name: string, location: ActionLocation): Action => ({
+    ...createMockAction(name),
+    location,
+  })
+
   describe('register', () => {
     it('should register an action', () => {
       const action = createMockAction('test-action')
@@ -138,4 +145,100 @@ describe('ActionRegistry', () => {
       expect(registry.getAll()).toEqual([])
     })
   })
+
+  describe('qualified ids', () => {
+    it('should build qualified ids from the action location', () => {
+      expect(getQualifiedActionId(createLocatedAction('deploy', { plugin: 'arere-plugin-k8s' }))).toBe(
+        'plugin:arere-plugin-k8s/deploy',
+      )
+      expect(getQualifiedActionId(createLocatedAction('deploy', 'global'))).toBe('global/deploy')
+      expect(getQualifiedActionId(createLocatedAction('deploy', 'project'))).toBe('project/deploy')
+      expect(getQualifiedActionId(createMockAction('deploy'))).toBe('project/deploy')
+    })
+
+    it('should keep actions with the same name from different sources', () => {
+      const plugin = createLocatedAction('deploy', { plugin: 'arere-plugin-k8s' })
+      const project = createLocatedAction('deploy', 'project')
+
+      registry.register(plugin)
+      registry.register(project)
+
+      expect(registry.count).toBe(2)
+      expect(registry.getAll()).toEqual([project])
+      expect(registry.getAllIncludingShadowed()).toEqual([plugin, project])
+      expect(registry.getByName('deploy')).toBe(project)
+      expect(registry.getByName('plugin:arere-plugin-k8s/deploy')).toBe(plugin)
+      expect(registry.getShadowingAction(plugin)).toBe(project)
+      expect(registry.getShadowingAction(project)).toBeUndefined()
+    })
+
+    it('should resolve unique short names and qualified ids', () => {
+      const global = createLocatedAction('lint', 'global')
+      registry.register(global)
+
+      expect(registry.resolve('lint')).toBe(global)
+      expect(registry.resolve('global/lint')).toBe(global)
+      expect(registry.resolve('project/lint')).toBeUndefined()
+    })
+
+    it('should throw on ambiguous short names', () => {
+      registry.register(createLocatedAction('deploy', 'global'))
+      registry.register(createLocatedAction('deploy', 'project'))
+
+      expect(() => registry.resolve('deploy')).toThrow(AmbiguousActionError)
+      expect(() => registry.resolve('deploy')).toThrow('global/deploy, project/deploy')
+    })
+
+    describe('same qualified id from several action roots', () => {
+      const createRootAction = (root: string): Action => ({
+        ...createLocatedAction('deploy', 'project'),
+        filePath: join(process.cwd(), root, '.arere', 'actions', 'deploy.ts'),
+      })
+
+      it('should keep the earlier action as shadowed', () => {
+        const repositoryRoot = createRootAction('repo')
+        const current = createRootAction(join('repo', 'app'))
+
+        registry.register(repositoryRoot)
+        registry.register(current)
+
+        expect(registry.count).toBe(2)
+        expect(registry.getAll()).toEqual([current])
+        expect(registry.getAllIncludingShadowed()).toEqual([repositoryRoot, current])
+        expect(registry.getByName('project/deploy')).toBe(current)
+        expect(registry.getShadowingAction(repositoryRoot)).toBe(current)
+      })
+
+      it('should list the file paths in ambiguity errors', () => {
+        registry.register(createRootAction('repo'))
+        registry.register(createRootAction(join('repo', 'app')))
+
+        const candidates = [
+          join('repo', '.arere', 'actions', 'deploy.ts'),
+          join('repo', 'app', '.arere', 'actions', 'deploy.ts'),
+        ].join(', ')
+        expect(() => registry.resolve('deploy')).toThrow(candidates)
+        expect(() => registry.resolve('project/deploy')).toThrow(AmbiguousActionError)
+        expect(() => registry.resolve('project/deploy')).toThrow(candidates)
+      })
+
+      it('should resolve the actions by file path', () => {
+        const repositoryRoot = createRootAction('repo')
+        registry.register(repositoryRoot)
+        registry.register(createRootAction(join('repo', 'app')))
+
+        expect(registry.resolve(join('repo', '.arere', 'actions', 'deploy.ts'))).toBe(repositoryRoot)
+        expect(registry.resolve(repositoryRoot.filePath)).toBe(repositoryRoot)
+      })
+
+      it('should still overwrite an action file registered again', () => {
+        registry.register(createRootAction('repo'))
+        const reloaded = createRootAction('repo')
+        registry.register(reloaded)
+
+        expect(registry.count).toBe(1)
+        expect(registry.resolve('project/deploy')).toBe(reloaded)
+      })
+    })
+  })
 })
@@ -0,0 +1,96 @@
+/**
+ * Tests for action usage statistics
+ */
+
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { UsageManager, calculateFrecency } from '@/action/usage.js'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+describe('UsageManager', () => {
+  let testUsageDir: string
+  let usageManager: UsageManager
+
+  beforeEach(() => {
+    testUsageDir = join(tmpdir(), `arere-usage-test-${Date.now()}`)
+    usageManager = new UsageManager(testUsageDir)
+  })
+
+  afterEach(() => {
+    if (existsSync(testUsageDir)) {
+      rmSync(testUsageDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should start empty when no usage file exists', () => {
+    expect(usageManager.getAll()).toEqual({})
+    expect(usageManager.get('local:deploy')).toBeUndefined()
+  })
+
+  it('should count runs and keep the latest run time', () => {
+    usageManager.record('local:deploy', 2000)
+    usageManager.record('local:deploy', 1000)
+
+    expect(usageManager.get('local:deploy')).toEqual({ count: 2, lastUsedAt: 2000 })
+  })
+
+  it('should persist usage to disk', () => {
+    usageManager.record('plugin-git:status', 1000)
+
+    const reloaded = new UsageManager(testUsageDir)
+    expect(reloaded.getAll()).toEqual({ 'plugin-git:status': { count: 1, lastUsedAt: 1000 } })
+  })
+
+  it('should keep runs recorded by another process', () => {
+    // A long-running TUI reads the usage first
+    usageManager.record('local:deploy', 1000)
+
+    new UsageManager(testUsageDir).record('local:deploy', 2000)
+    usageManager.record('local:build', 3000)
+
+    expect(new UsageManager(testUsageDir).getAll()).toEqual({
+      'local:deploy': { count: 2, lastUsedAt: 2000 },
+      'local:build': { count: 1, lastUsedAt: 3000 },
+    })
+  })
+
+  it('should clear usage', () => {
+    usageManager.record('local:deploy')
+    usageManager.clear()
+
+    expect(new UsageManager(testUsageDir).getAll()).toEqual({})
+  })
+
+  it('should start empty when the usage file is corrupted', () => {
+    mkdirSync(testUsageDir, { recursive: true })
+    writeFileSync(join(testUsageDir, 'usage.json'), '{ invalid', 'utf-8')
+
+    expect(usageManager.getAll()).toEqual({})
+  })
+})
+
+describe('calculateFrecency', () => {
+  const now = 10 * DAY
+
+  it('should be 0 for actions that were never run', () => {
+    expect(calculateFrecency(undefined, now)).toBe(0)
+  })
+
+  it('should weight the run count by recency', () => {
+    const score = (age: number) => calculateFrecency({ count: 3, lastUsedAt: now - age }, now)
+
+    expect(score(HOUR / 2)).toBeGreaterThan(score(HOUR * 2))
+    expect(score(HOUR * 2)).toBeGreaterThan(score(DAY * 2))
+    expect(score(DAY * 2)).toBeGreaterThan(score(DAY * 8))
+  })
+
+  it('should rank frequent actions above rare ones run at a similar time', () => {
+    expect(calculateFrecency({ count: 10, lastUsedAt: now - DAY * 2 }, now)).toBeGreaterThan(
+      calculateFrecency({ count: 1, lastUsedAt: now - HOUR * 2 }, now),
+    )
+  })
+})
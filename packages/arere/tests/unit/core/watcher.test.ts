@@ -0,0 +1,118 @@
+/**
+ * Tests for ActionWatcher
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, unlinkSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { ActionWatcher } from '@/action/watcher.js'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+describe('ActionWatcher', () => {
+  let tempDir: string
+  let watcher: ActionWatcher | undefined
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'arere-watcher-test-'))
+  })
+
+  afterEach(() => {
+    watcher?.close()
+    watcher = undefined
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('should report added and modified action files', async () => {
+    const onChange = vi.fn()
+    watcher = new ActionWatcher({ directories: [tempDir], onChange, debounceMs: 20 })
+    watcher.start()
+
+    const actionPath = join(tempDir, 'hello.ts')
+    writeFileSync(actionPath, 'export default {}')
+
+    await vi.waitFor(() => {
+      expect(onChange).toHaveBeenCalled()
+    })
+    expect(onChange.mock.calls.flat(2)).toContain(actionPath)
+  })
+
+  it('should report deleted action files', async () => {
+    const actionPath = join(tempDir, 'hello.ts')
+    writeFileSync(actionPath, 'export default {}')
+
+    const onChange = vi.fn()
+    watcher = new ActionWatcher({ directories: [tempDir], onChange, debounceMs: 20 })
+    watcher.start()
+
+    unlinkSync(actionPath)
+
+    await vi.waitFor(() => {
+      expect(onChange).toHaveBeenCalled()
+    })
+    expect(onChange.mock.calls.flat(2)).toContain(actionPath)
+  })
+
+  it('should ignore non-action files and excluded directories', async () => {
+    const onChange = vi.fn()
+    watcher = new ActionWatcher({ directories: [tempDir], onChange, debounceMs: 20 })
+    watcher.start()
+
+    mkdirSync(join(tempDir, 'node_modules'))
+    writeFileSync(join(tempDir, 'node_modules', 'dep.ts'), '')
+    writeFileSync(join(tempDir, 'notes.md'), '')
+    const actionPath = join(tempDir, 'real.ts')
+    writeFileSync(actionPath, 'export default {}')
+
+    await vi.waitFor(() => {
+      expect(onChange).toHaveBeenCalled()
+    })
+    expect(onChange.mock.calls.flat(2)).toEqual([actionPath])
+  })
+
+  it('should only report watched files for file targets', async () => {
+    const watchedPath = join(tempDir, 'watched.ts')
+    writeFileSync(watchedPath, '')
+
+    const onChange = vi.fn()
+    watcher = new ActionWatcher({ directories: [], files: [watchedPath], onChange, debounceMs: 20 })
+    watcher.start()
+
+    writeFileSync(join(tempDir, 'other.ts'), '')
+    writeFileSync(watchedPath, 'export default {}')
+
+    await vi.waitFor(() => {
+      expect(onChange).toHaveBeenCalled()
+    })
+    expect(onChange.mock.calls.flat(2)).toEqual([watchedPath])
+  })
+
+  it('should watch the new files after setFiles', async () => {
+    const oldPath = join(tempDir, 'old.ts')
+    const newDir = join(tempDir, 'plugin')
+    const newPath = join(newDir, 'new.ts')
+    writeFileSync(oldPath, '')
+    mkdirSync(newDir)
+    writeFileSync(newPath, '')
+
+    const onChange = vi.fn()
+    watcher = new ActionWatcher({ directories: [], files: [oldPath], onChange, debounceMs: 20 })
+    watcher.start()
+    watcher.setFiles([newPath])
+
+    writeFileSync(oldPath, 'export default {}')
+    writeFileSync(newPath, 'export default {}')
+
+    await vi.waitFor(() => {
+      expect(onChange).toHaveBeenCalled()
+    })
+    expect(onChange.mock.calls.flat(2)).toEqual([newPath])
+  })
+
+  it('should skip missing directories without throwing', () => {
+    watcher = new ActionWatcher({
+      directories: [join(tempDir, 'missing')],
+      onChange: vi.fn(),
+    })
+    expect(() => watcher?.start()).not.toThrow()
+  })
+})
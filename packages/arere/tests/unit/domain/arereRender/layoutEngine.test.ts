@@ -4,6 +4,7 @@ import {
   calculateMaxWidths,
   padText,
   parseFormat,
+  splitHighlights,
   truncateText,
 } from '@/ui/arere-render'
 
@@ -242,3 +243,42 @@ describe(':width(N) modifier', () => {
     expect(result.tokens[0].width).toBe(2)
   })
 })
+
+describe('splitHighlights', () => {
+  const layoutOf = (format: string, text: string, width: number) =>
+    calculateLayout(parseFormat(format), { name: text }, width, { name: width }).tokens[0]
+
+  it('splits left-aligned text into highlighted segments', () => {
+    const token = layoutOf('${name:max}', 'deploy', 8)
+
+    expect(splitHighlights(token, [0, 1, 4])).toEqual([
+      { text: 'de', highlighted: true },
+      { text: 'pl', highlighted: false },
+      { text: 'o', highlighted: true },
+      { text: 'y  ', highlighted: false },
+    ])
+  })
+
+  it('shifts highlights by the alignment padding', () => {
+    const token = layoutOf('${name:max:right}', 'deploy', 8)
+
+    expect(token.textOffset).toBe(2)
+    expect(splitHighlights(token, [0])).toEqual([
+      { text: '  ', highlighted: false },
+      { text: 'd', highlighted: true },
+      { text: 'eploy', highlighted: false },
+    ])
+  })
+
+  it('does not highlight truncated characters', () => {
+    const token = layoutOf('${name:width(4)}', 'deploy', 80)
+
+    expect(token.displayText).toBe('dep…')
+    expect(token.visibleLength).toBe(3)
+    expect(splitHighlights(token, [2, 3, 4])).toEqual([
+      { text: 'de', highlighted: false },
+      { text: 'p', highlighted: true },
+      { text: '…', highlighted: false },
+    ])
+  })
+})
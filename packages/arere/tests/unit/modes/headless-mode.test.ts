@@ -2,10 +2,42 @@
  * Tests for headless mode execution
  */
 
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 import type { ArereConfig } from '@/config/schema.js'
-import { HeadlessMode } from '@/modes/headless-mode.js'
+import { HeadlessExitCode, HeadlessMode } from '@/modes/headless-mode.js'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
+// Load project actions from a temporary directory instead of the real ones
+const actionDirs = vi.hoisted(() => ({ project: [] as string[] }))
+vi.mock('@/lib/path', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/path')>()),
+  getActionRoots: () =>
+    actionDirs.project.map((path) => ({ path, label: 'project', scope: 'project' })),
+}))
+
+// Keep the action metadata cache out of the home directory
+vi.mock('@/action/cache', async (importOriginal) => {
+  const { mkdtempSync } = await import('node:fs')
+  const { tmpdir } = await import('node:os')
+  const { join } = await import('node:path')
+  const original = await importOriginal<typeof import('@/action/cache')>()
+  return {
+    ...original,
+    cacheManager: new original.CacheManager(mkdtempSync(join(tmpdir(), 'arere-cache-'))),
+  }
+})
+
+// Do not write run history or usage to the home directory
+vi.mock('@/action/history', () => ({
+  createRunRecord: vi.fn(() => ({})),
+  historyManager: { add: vi.fn() },
+}))
+vi.mock('@/action/usage', () => ({
+  usageManager: { record: vi.fn() },
+}))
+
 describe('HeadlessMode', () => {
   let config: ArereConfig
   let consoleLogSpy: ReturnType<typeof vi.spyOn>
@@ -59,13 +91,233 @@ describe('HeadlessMode', () => {
 
       expect(consoleErrorSpy).toHaveBeenCalledWith('Error: Action "non-existent-action" not found')
       expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Available actions:'))
-      expect(processExitSpy).toHaveBeenCalledWith(1)
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.ACTION_NOT_FOUND)
     })
 
     // Note: Testing successful execution requires fixture actions and full integration
     // This will be covered in integration tests
   })
 
+  describe('exit codes', () => {
+    let projectDir: string
+
+    const writeAction = (name: string, body: string) => {
+      writeFileSync(
+        join(projectDir, `${name}.ts`),
+        `export default { name: '${name}', description: '${name}', ${body} }\n`,
+      )
+    }
+
+    beforeEach(() => {
+      projectDir = join(tmpdir(), `arere-headless-test-${Date.now()}`)
+      mkdirSync(projectDir, { recursive: true })
+      actionDirs.project = [projectDir]
+    })
+
+    afterEach(() => {
+      actionDirs.project = []
+      rmSync(projectDir, { recursive: true, force: true })
+    })
+
+    it('should exit with 0 when the action succeeds', async () => {
+      writeAction('ok', 'run: async () => {}')
+
+      await new HeadlessMode(config).run('ok')
+
+      expect(consoleLogSpy).toHaveBeenCalledWith('✓ Action "ok" completed successfully')
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.SUCCESS)
+    })
+
+    it('should exit with a runtime error code when the action throws', async () => {
+      writeAction('boom', "run: async () => { throw new Error('boom') }")
+
+      await new HeadlessMode(config).run('boom')
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Action "boom" failed:')
+      expect(consoleLogSpy).not.toHaveBeenCalledWith(expect.stringContaining('successfully'))
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.RUNTIME_ERROR)
+    })
+
+    it('should exit with an argument error code on invalid argument values', async () => {
+      writeAction(
+        'port',
+        "run: async ({ tui }) => { await tui.prompt.number('Port', { arg: 'port' }) }",
+      )
+
+      await new HeadlessMode(config).run('port', ['--port=abc'])
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('--port'))
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.INVALID_ARGS)
+    })
+
+    it('should exit with the code passed to ctx.exit()', async () => {
+      writeAction('lint', 'run: async ({ exit }) => { exit(3) }')
+
+      await new HeadlessMode(config).run('lint')
+
+      expect(processExitSpy).toHaveBeenCalledWith(3)
+    })
+
+    it('should treat ctx.exit(0) as success', async () => {
+      writeAction('early', 'run: async ({ exit }) => { exit(0) }')
+
+      await new HeadlessMode(config).run('early')
+
+      expect(consoleLogSpy).toHaveBeenCalledWith('✓ Action "early" completed successfully')
+      expect(processExitSpy).toHaveBeenCalledWith(0)
+    })
+  })
+
+  describe('--output', () => {
+    let projectDir: string
+    let stdoutWriteSpy: ReturnType<typeof vi.spyOn>
+
+    beforeEach(() => {
+      projectDir = join(tmpdir(), `arere-headless-output-test-${Date.now()}`)
+      mkdirSync(projectDir, { recursive: true })
+      actionDirs.project = [projectDir]
+      writeFileSync(
+        join(projectDir, 'report.ts'),
+        `export default {
+  name: 'report',
+  description: 'report',
+  run: async ({ tui, args }) => {
+    tui.output.table([{ name: 'a', size: 1 }])
+    tui.output.log(args.join(' '))
+  },
+}
+`,
+      )
+      stdoutWriteSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true) as any
+    })
+
+    afterEach(() => {
+      actionDirs.project = []
+      rmSync(projectDir, { recursive: true, force: true })
+    })
+
+    const writtenRecords = () =>
+      stdoutWriteSpy.mock.calls
+        .map(([chunk]) => String(chunk))
+        .join('')
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line))
+
+    it('should emit ndjson records and a summary without banners', async () => {
+      await new HeadlessMode(config).run('report', ['--output=ndjson', 'extra'])
+
+      const records = writtenRecords()
+      expect(records).toHaveLength(3)
+      expect(records[0]).toMatchObject({ type: 'table', content: [{ name: 'a', size: 1 }] })
+      expect(records[0].timestamp).toEqual(expect.any(Number))
+      expect(records[1]).toMatchObject({ type: 'log', content: 'extra' })
+      expect(records[2]).toMatchObject({
+        type: 'summary',
+        action: 'report',
+        success: true,
+        exitCode: 0,
+        error: null,
+      })
+      expect(consoleLogSpy).not.toHaveBeenCalled()
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.SUCCESS)
+    })
+
+    it('should emit a single json document with --output json', async () => {
+      await new HeadlessMode(config).run('report', ['--output', 'json'])
+
+      const chunks = stdoutWriteSpy.mock.calls.map(([chunk]) => String(chunk))
+      expect(chunks).toHaveLength(1)
+      const document = JSON.parse(chunks[0])
+      expect(document).toMatchObject({ action: 'report', success: true, exitCode: 0 })
+      expect(document.messages.map((m: { type: string }) => m.type)).toEqual(['table', 'log'])
+    })
+
+    it('should end with a failed summary when the action is not found', async () => {
+      await new HeadlessMode(config).run('missing', ['--output=ndjson'])
+
+      expect(writtenRecords()).toEqual([
+        {
+          type: 'summary',
+          action: 'missing',
+          success: false,
+          duration: 0,
+          exitCode: HeadlessExitCode.ACTION_NOT_FOUND,
+          cancelled: false,
+          error: 'Action "missing" not found',
+        },
+      ])
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.ACTION_NOT_FOUND)
+    })
+
+    it('should end with a failed summary when the answers file cannot be read', async () => {
+      await new HeadlessMode(config).run('report', [
+        '--output=json',
+        `--answers=${join(projectDir, 'missing.json')}`,
+      ])
+
+      const chunks = stdoutWriteSpy.mock.calls.map(([chunk]) => String(chunk))
+      expect(chunks).toHaveLength(1)
+      expect(JSON.parse(chunks[0])).toMatchObject({
+        action: 'report',
+        success: false,
+        exitCode: HeadlessExitCode.INVALID_ARGS,
+        error: expect.any(String),
+        messages: [],
+      })
+    })
+
+    it('should pass launcher options after -- to the action', async () => {
+      await new HeadlessMode(config).run('report', [
+        '--output=ndjson',
+        '--',
+        '--output=dist',
+        '--answers',
+      ])
+
+      const records = writtenRecords()
+      expect(records[1]).toMatchObject({ type: 'log', content: '--output=dist --answers' })
+      expect(records[2]).toMatchObject({ type: 'summary', success: true })
+    })
+
+    it('should report a cancelled run with the cancel exit code', async () => {
+      // Cancel the run from inside the action as Ctrl+C would
+      writeFileSync(
+        join(projectDir, 'slow.ts'),
+        `export default {
+  name: 'slow',
+  description: 'slow',
+  run: async () => {
+    process.emit('SIGINT')
+    await new Promise(() => {})
+  },
+}
+`,
+      )
+
+      await new HeadlessMode(config).run('slow', ['--output=json'])
+
+      const chunks = stdoutWriteSpy.mock.calls.map(([chunk]) => String(chunk))
+      expect(JSON.parse(chunks[0])).toMatchObject({
+        action: 'slow',
+        success: false,
+        cancelled: true,
+        exitCode: HeadlessExitCode.CANCELLED,
+      })
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.CANCELLED)
+    })
+
+    it('should reject unknown formats', async () => {
+      await new HeadlessMode(config).run('report', ['--output=xml'])
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Error: Unknown output format "xml" (expected: json, ndjson)',
+      )
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.INVALID_ARGS)
+      expect(stdoutWriteSpy).not.toHaveBeenCalled()
+    })
+  })
+
   describe('output rendering', () => {
     it('should use PlainTextRenderer for output', async () => {
       // This is implicitly tested by the fact that console.log is called
@@ -86,7 +338,7 @@ describe('HeadlessMode', () => {
       // Try to run a non-existent action which will trigger error path
       await mode.run('non-existent-action')
 
-      expect(processExitSpy).toHaveBeenCalledWith(1)
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.ACTION_NOT_FOUND)
     })
   })
 
@@ -98,7 +350,7 @@ describe('HeadlessMode', () => {
       await mode.run('non-existent-action', ['arg1', 'arg2'])
 
       // Verify it ran (will fail because action doesn't exist, but args should be accepted)
-      expect(processExitSpy).toHaveBeenCalledWith(1)
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.ACTION_NOT_FOUND)
     })
 
     it('should default args to empty array', async () => {
@@ -107,7 +359,7 @@ describe('HeadlessMode', () => {
       // run() with only action name should work
       await mode.run('non-existent-action')
 
-      expect(processExitSpy).toHaveBeenCalledWith(1)
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.ACTION_NOT_FOUND)
     })
 
     it('should accept empty args array', async () => {
@@ -115,7 +367,7 @@ describe('HeadlessMode', () => {
 
       await mode.run('non-existent-action', [])
 
-      expect(processExitSpy).toHaveBeenCalledWith(1)
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.ACTION_NOT_FOUND)
     })
   })
 
@@ -128,7 +380,28 @@ describe('HeadlessMode', () => {
 
       // Should exit with error because action doesn't exist
       expect(consoleErrorSpy).toHaveBeenCalledWith('Error: Action "non-existent-action" not found')
-      expect(processExitSpy).toHaveBeenCalledWith(1)
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.ACTION_NOT_FOUND)
+    })
+
+    it('should pass --help after -- to the action', async () => {
+      const projectDir = join(tmpdir(), `arere-headless-help-test-${Date.now()}`)
+      mkdirSync(projectDir, { recursive: true })
+      actionDirs.project = [projectDir]
+      writeFileSync(
+        join(projectDir, 'echo.ts'),
+        "export default { name: 'echo', description: 'echo', run: async ({ tui, args }) => { tui.output.log(args.join(' ')) } }\n",
+      )
+
+      try {
+        await new HeadlessMode(config).run('echo', ['--', '--help'])
+      } finally {
+        actionDirs.project = []
+        rmSync(projectDir, { recursive: true, force: true })
+      }
+
+      expect(consoleLogSpy).toHaveBeenCalledWith('--help')
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.SUCCESS)
+      expect(processExitSpy).toHaveBeenCalledTimes(1)
     })
 
     it('should detect -h flag in args', async () => {
@@ -138,7 +411,7 @@ describe('HeadlessMode', () => {
 
       // Should exit with error because action doesn't exist
       expect(consoleErrorSpy).toHaveBeenCalledWith('Error: Action "non-existent-action" not found')
-      expect(processExitSpy).toHaveBeenCalledWith(1)
+      expect(processExitSpy).toHaveBeenCalledWith(HeadlessExitCode.ACTION_NOT_FOUND)
     })
   })
 })
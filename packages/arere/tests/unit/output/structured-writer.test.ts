@@ -0,0 +1,89 @@
+/**
+ * Tests for StructuredOutputWriter
+ */
+
+import {
+  type RunSummary,
+  StructuredOutputWriter,
+  serializeMessage,
+} from '@/ui/output/structured-writer.js'
+import type { OutputMessage } from '@/ui/output/types.js'
+import { describe, expect, it } from 'vitest'
+
+const summary: RunSummary = {
+  action: 'report',
+  success: true,
+  duration: 12,
+  exitCode: 0,
+  cancelled: false,
+  error: null,
+}
+
+const tableMessage: OutputMessage = {
+  type: 'table',
+  content: [{ name: 'a', size: 1 }],
+  timestamp: 1000,
+}
+
+describe('StructuredOutputWriter', () => {
+  describe('ndjson', () => {
+    it('should write each message as a line as it arrives', () => {
+      const chunks: string[] = []
+      const writer = new StructuredOutputWriter('ndjson', (text) => chunks.push(text))
+
+      writer.message(tableMessage)
+
+      expect(chunks).toEqual([`${JSON.stringify(tableMessage)}\n`])
+    })
+
+    it('should finish with a summary record', () => {
+      const chunks: string[] = []
+      const writer = new StructuredOutputWriter('ndjson', (text) => chunks.push(text))
+
+      writer.message({ type: 'log', content: 'hello', timestamp: 1 })
+      writer.finish(summary)
+
+      const records = chunks.join('').trim().split('\n').map((line) => JSON.parse(line))
+      expect(records).toEqual([
+        { type: 'log', content: 'hello', timestamp: 1 },
+        { type: 'summary', ...summary },
+      ])
+    })
+  })
+
+  describe('json', () => {
+    it('should write a single document when the run finishes', () => {
+      const chunks: string[] = []
+      const writer = new StructuredOutputWriter('json', (text) => chunks.push(text))
+
+      writer.message(tableMessage)
+      expect(chunks).toEqual([])
+
+      writer.finish({ ...summary, success: false, exitCode: 1, error: 'boom' })
+
+      expect(chunks).toHaveLength(1)
+      expect(JSON.parse(chunks[0])).toEqual({
+        ...summary,
+        success: false,
+        exitCode: 1,
+        error: 'boom',
+        messages: [tableMessage],
+      })
+    })
+  })
+})
+
+describe('serializeMessage', () => {
+  it('should keep JSON-compatible messages as they are', () => {
+    expect(serializeMessage(tableMessage)).toEqual(tableMessage)
+  })
+
+  it('should stringify content that cannot be serialized', () => {
+    const circular: Record<string, unknown> = {}
+    circular.self = circular
+
+    const message = serializeMessage({ type: 'json', content: circular, timestamp: 1 })
+
+    expect(message.content).toBe('[object Object]')
+  })
+})
@@ -3,6 +3,7 @@
  */
 
 import { definePlugin } from '@/plugin/define.js'
+import { secret } from '@/secrets/schema.js'
 import { describe, expect, it } from 'vitest'
 import { z } from 'zod'
 
@@ -73,6 +74,17 @@ describe('definePlugin', () => {
 
       expect(plugin.meta.name).toBe('arere-plugin-test123')
     })
+
+    it('should accept scoped plugin names', () => {
+      const plugin = definePlugin({
+        meta: {
+          name: '@acme/arere-plugin-deploy',
+        },
+        actions: ['actions/test.ts'],
+      })
+
+      expect(plugin.meta.name).toBe('@acme/arere-plugin-deploy')
+    })
   })
 
   describe('validation errors - required fields', () => {
@@ -116,6 +128,17 @@ describe('definePlugin', () => {
       ).toThrow("Plugin name must start with 'arere-plugin-'")
     })
 
+    it('should throw error if a scoped plugin name does not use the arere-plugin- prefix', () => {
+      expect(() =>
+        definePlugin({
+          meta: {
+            name: '@acme/deploy',
+          },
+          actions: ['actions/test.ts'],
+        }),
+      ).toThrow("Plugin name must start with 'arere-plugin-' or '@scope/arere-plugin-'")
+    })
+
     it('should throw error if plugin name contains uppercase letters', () => {
       expect(() =>
         definePlugin({
@@ -197,5 +220,20 @@ describe('definePlugin', () => {
         }),
       ).toThrow('Plugin locales must be a string path')
     })
+
+    it('should throw error if a secret config field is not a string', () => {
+      expect(() =>
+        definePlugin({
+          meta: {
+            name: 'arere-plugin-test',
+          },
+          actions: ['actions/test.ts'],
+          configSchema: z.object({
+            // @ts-expect-error secret() only accepts string schemas
+            port: secret(z.number()).optional(),
+          }),
+        }),
+      ).toThrow('Secret config field must be a string: port')
+    })
   })
 })
@@ -2,8 +2,11 @@
  * Tests for plugin detector
  */
 
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
 import { detectPlugins } from '@/plugin/detector.js'
-import { describe, expect, it } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
 
 describe('detectPlugins', () => {
   it('should return an array', () => {
@@ -29,7 +32,66 @@ describe('detectPlugins', () => {
     const plugins = detectPlugins()
 
     for (const plugin of plugins) {
-      expect(plugin.name).toMatch(/^arere-plugin-/)
+      expect(plugin.name).toMatch(/^(@[^/]+\/)?arere-plugin-/)
     }
   })
 })
+
+describe('detectPlugins with a directory layout', () => {
+  let tmpDir: string
+
+  /**
+   * Create a package directory with a package.json
+   */
+  function createPackage(dir: string, name: string) {
+    fs.mkdirSync(dir, { recursive: true })
+    fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name, version: '1.0.0' }))
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'arere-detector-')))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('should detect scoped arere-plugin-* packages', () => {
+    const nodeModules = path.join(tmpDir, 'node_modules')
+    createPackage(path.join(nodeModules, 'arere-plugin-git'), 'arere-plugin-git')
+    createPackage(path.join(nodeModules, '@acme', 'arere-plugin-deploy'), '@acme/arere-plugin-deploy')
+    createPackage(path.join(nodeModules, '@acme', 'utils'), '@acme/utils')
+    createPackage(path.join(nodeModules, 'lodash'), 'lodash')
+
+    const plugins = detectPlugins({ searchPath: nodeModules })
+
+    expect(plugins.map((plugin) => plugin.name).sort()).toEqual([
+      '@acme/arere-plugin-deploy',
+      'arere-plugin-git',
+    ])
+    expect(plugins.find((plugin) => plugin.name === '@acme/arere-plugin-deploy')?.path).toBe(
+      path.join(nodeModules, '@acme', 'arere-plugin-deploy'),
+    )
+  })
+
+  it('should load pluginPaths relative to the project root before node_modules', () => {
+    const project = path.join(tmpDir, 'project')
+    fs.mkdirSync(path.join(project, '.git'), { recursive: true })
+    createPackage(path.join(project, 'plugins', 'deploy'), 'arere-plugin-deploy')
+    createPackage(
+      path.join(project, 'node_modules', 'arere-plugin-deploy'),
+      'arere-plugin-deploy',
+    )
+    createPackage(path.join(project, 'node_modules', 'arere-plugin-git'), 'arere-plugin-git')
+    fs.mkdirSync(path.join(project, 'src'))
+
+    const plugins = detectPlugins({
+      pluginPaths: ['plugins/deploy', 'plugins/missing'],
+      cwd: path.join(project, 'src'),
+    })
+
+    const deploy = plugins.find((plugin) => plugin.name === 'arere-plugin-deploy')
+    expect(deploy).toMatchObject({ source: 'path', path: path.join(project, 'plugins', 'deploy') })
+    expect(plugins.find((plugin) => plugin.name === 'arere-plugin-git')?.source).toBe('local')
+  })
+})
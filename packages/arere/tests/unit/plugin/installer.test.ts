@@ -0,0 +1,171 @@
+/**
+ * Tests for plugin installer
+ *
+ * Package manager commands are built per manager and scope; global plugins
+ * use the manager owning their directory (resolver is mocked).
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/plugin/resolver.js', () => ({
+  getGlobalNodeModules: vi.fn(() => [
+    { manager: 'npm', path: '/usr/local/lib/node_modules' },
+    { manager: 'pnpm', path: '/home/me/.local/share/pnpm/global/5/node_modules' },
+  ]),
+}))
+
+import {
+  compareVersions,
+  detectProjectPackageManager,
+  getPackageManager,
+  getPackageManagerCommand,
+  getPluginInstallScope,
+  parsePluginSpec,
+} from '@/plugin/installer.js'
+import { getGlobalNodeModules } from '@/plugin/resolver.js'
+
+describe('parsePluginSpec', () => {
+  it('should add the plugin prefix to short names', () => {
+    expect(parsePluginSpec('git')).toEqual({ name: 'arere-plugin-git', spec: 'arere-plugin-git' })
+  })
+
+  it('should keep versions', () => {
+    expect(parsePluginSpec('git@^1.2.0')).toEqual({
+      name: 'arere-plugin-git',
+      spec: 'arere-plugin-git@^1.2.0',
+    })
+    expect(parsePluginSpec('arere-plugin-git@latest').name).toBe('arere-plugin-git')
+  })
+
+  it('should keep scoped names as they are', () => {
+    expect(parsePluginSpec('@acme/arere-plugin-deploy@2.0.0')).toEqual({
+      name: '@acme/arere-plugin-deploy',
+      spec: '@acme/arere-plugin-deploy@2.0.0',
+    })
+  })
+})
+
+describe('getPackageManagerCommand', () => {
+  it('should build npm commands', () => {
+    expect(getPackageManagerCommand('npm', 'install', 'arere-plugin-git', 'global').args).toEqual([
+      'install',
+      '--global',
+      'arere-plugin-git',
+    ])
+    expect(getPackageManagerCommand('npm', 'install', 'arere-plugin-git', 'local').args).toEqual([
+      'install',
+      '--save-dev',
+      'arere-plugin-git',
+    ])
+    expect(getPackageManagerCommand('npm', 'remove', 'arere-plugin-git', 'local').args).toEqual([
+      'uninstall',
+      'arere-plugin-git',
+    ])
+  })
+
+  it('should build pnpm, yarn and bun commands', () => {
+    expect(getPackageManagerCommand('pnpm', 'remove', 'arere-plugin-git', 'global')).toEqual({
+      manager: 'pnpm',
+      command: 'pnpm',
+      args: ['remove', '--global', 'arere-plugin-git'],
+    })
+    expect(getPackageManagerCommand('yarn', 'install', 'arere-plugin-git', 'global').args).toEqual([
+      'global',
+      'add',
+      'arere-plugin-git',
+    ])
+    expect(getPackageManagerCommand('yarn', 'install', 'arere-plugin-git', 'local').args).toEqual([
+      'add',
+      '--dev',
+      'arere-plugin-git',
+    ])
+    expect(getPackageManagerCommand('bun', 'install', 'arere-plugin-git', 'local').args).toEqual([
+      'add',
+      '--dev',
+      'arere-plugin-git',
+    ])
+  })
+
+  it('should install the latest version on update', () => {
+    expect(
+      getPackageManagerCommand('npm', 'update', 'arere-plugin-git@1.0.0', 'global').args,
+    ).toEqual(['install', '--global', 'arere-plugin-git@latest'])
+  })
+})
+
+describe('getPackageManager', () => {
+  it('should use the manager owning the directory of a global plugin', () => {
+    expect(
+      getPackageManager(
+        'global',
+        '/home/me/.local/share/pnpm/global/5/node_modules/arere-plugin-git',
+      ),
+    ).toBe('pnpm')
+  })
+
+  it('should use the first global manager for new plugins', () => {
+    expect(getPackageManager('global')).toBe('npm')
+  })
+
+  it('should fall back to npm without global directories', () => {
+    vi.mocked(getGlobalNodeModules).mockReturnValueOnce([])
+
+    expect(getPackageManager('global')).toBe('npm')
+  })
+})
+
+describe('detectProjectPackageManager', () => {
+  let testDir: string
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'arere-installer-'))
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should detect the package manager from the lockfile', () => {
+    writeFileSync(join(testDir, 'pnpm-lock.yaml'), '')
+
+    expect(detectProjectPackageManager(testDir)).toBe('pnpm')
+  })
+
+  it('should prefer the lockfile closest to cwd within the repository', () => {
+    mkdirSync(join(testDir, '.git'))
+    writeFileSync(join(testDir, 'yarn.lock'), '')
+    mkdirSync(join(testDir, 'packages', 'app'), { recursive: true })
+    writeFileSync(join(testDir, 'packages', 'app', 'bun.lock'), '')
+
+    expect(detectProjectPackageManager(join(testDir, 'packages', 'app'))).toBe('bun')
+    expect(detectProjectPackageManager(join(testDir, 'packages'))).toBe('yarn')
+  })
+
+  it('should default to npm', () => {
+    expect(detectProjectPackageManager(testDir)).toBe('npm')
+  })
+})
+
+describe('getPluginInstallScope', () => {
+  it('should only map package manager sources', () => {
+    expect(getPluginInstallScope('global')).toBe('global')
+    expect(getPluginInstallScope('local')).toBe('local')
+    expect(getPluginInstallScope('path')).toBeUndefined()
+    expect(getPluginInstallScope(undefined)).toBeUndefined()
+  })
+})
+
+describe('compareVersions', () => {
+  it('should compare major, minor and patch numbers', () => {
+    expect(compareVersions('1.2.3', '1.10.0')).toBeLessThan(0)
+    expect(compareVersions('2.0.0', '1.9.9')).toBeGreaterThan(0)
+    expect(compareVersions('v1.0.0', '1.0.0')).toBe(0)
+  })
+
+  it('should ignore pre-release tags', () => {
+    expect(compareVersions('1.0.0-beta.1', '1.0.0')).toBe(0)
+  })
+})
@@ -56,6 +56,12 @@ describe('PluginManager', () => {
     expect(mockDeps.detectPlugins).toHaveBeenCalled()
   })
 
+  it('should pass pluginPaths from config to detectPlugins', async () => {
+    await manager.loadAll({ pluginPaths: ['~/src/arere-plugin-deploy'] })
+
+    expect(mockDeps.detectPlugins).toHaveBeenCalledWith(['~/src/arere-plugin-deploy'])
+  })
+
   it('should load plugins and actions', async () => {
     const mockPackageInfo = {
       name: 'arere-plugin-test',
@@ -1,187 +1,216 @@
 /**
  * Tests for plugin resolver
  *
- * Goal: Improve coverage from 54.65% to 80%+
- * Testing fallback paths when npm root -g fails (lines 40-78)
- *
- * Note: Full mocking of platform-specific paths is complex and brittle.
- * We focus on testing the actual logic paths that can be reliably tested.
+ * Global node_modules directories are asked from npm, pnpm, yarn and bun when
+ * they are on PATH. Commands are mocked; PATH and the cache use a temporary directory.
  */
 
 import * as childProcess from 'node:child_process'
-import * as fs from 'node:fs'
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import { CacheManager } from '@/action/cache.js'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
 // Set up mocks before importing
 vi.mock('node:child_process')
-vi.mock('node:fs')
 
 // Import after mocks
 import {
   clearGlobalNodeModulesCache,
+  getCachedGlobalNodeModules,
   getGlobalNodeModules,
 } from '@/plugin/resolver.js'
 
 describe('getGlobalNodeModules', () => {
+  let testDir: string
+  let binDir: string
+  let cache: CacheManager
+  const originalPath = process.env.PATH
+
+  /**
+   * Put package manager executables on PATH
+   */
+  function installManagers(...names: string[]) {
+    for (const name of names) {
+      const file = join(binDir, name)
+      writeFileSync(file, '#!/bin/sh\n')
+      chmodSync(file, 0o755)
+    }
+  }
+
+  /**
+   * Mock the output of package manager commands (other commands fail)
+   */
+  function mockCommands(outputs: Record<string, string>) {
+    vi.mocked(childProcess.execSync).mockImplementation(((command: string) => {
+      if (command in outputs) {
+        return `${outputs[command]}\n`
+      }
+      throw new Error(`${command}: failed`)
+    }) as typeof childProcess.execSync)
+  }
+
+  /**
+   * Create a directory under the test directory and return its path
+   */
+  function createDir(...segments: string[]): string {
+    const path = join(testDir, ...segments)
+    mkdirSync(path, { recursive: true })
+    return path
+  }
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'arere-resolver-'))
+    binDir = createDir('bin')
+    process.env.PATH = binDir
+    cache = new CacheManager(join(testDir, 'cache'))
+  })
+
   afterEach(() => {
+    cache.flush()
+    process.env.PATH = originalPath
     clearGlobalNodeModulesCache()
     vi.clearAllMocks()
+    rmSync(testDir, { recursive: true, force: true })
   })
 
-  describe('Basic functionality', () => {
-    it('should return a string or null', () => {
-      const result = getGlobalNodeModules()
-      expect(result === null || typeof result === 'string').toBe(true)
-    })
-
-    it('should cache the result', () => {
-      const first = getGlobalNodeModules()
-      const second = getGlobalNodeModules()
-      expect(first).toBe(second)
+  it('should ask every package manager for its global directory', () => {
+    installManagers('npm', 'pnpm', 'yarn', 'bun')
+    const npm = createDir('npm', 'node_modules')
+    const pnpm = createDir('pnpm', 'global', '5', 'node_modules')
+    const yarn = createDir('yarn', 'global', 'node_modules')
+    const bun = createDir('bun', 'install', 'global', 'node_modules')
+    mockCommands({
+      'npm root -g': npm,
+      'pnpm root -g': pnpm,
+      'yarn global dir': join(testDir, 'yarn', 'global'),
+      'bun pm bin -g': join(testDir, 'bun', 'bin'),
     })
 
-    it('should clear cache and fetch again', () => {
-      const first = getGlobalNodeModules()
-      clearGlobalNodeModulesCache()
-
-      // Mock to return different path on second call
-      vi.mocked(childProcess.execSync).mockReturnValueOnce('/different/path' as any)
-      vi.mocked(fs.existsSync).mockReturnValue(true)
-
-      const second = getGlobalNodeModules()
-
-      // Both should be valid, but cache was cleared so function was called again
-      expect(first === null || typeof first === 'string').toBe(true)
-      expect(second === null || typeof second === 'string').toBe(true)
-    })
+    expect(getGlobalNodeModules(cache)).toEqual([
+      { manager: 'npm', path: resolve(npm) },
+      { manager: 'pnpm', path: resolve(pnpm) },
+      { manager: 'yarn', path: resolve(yarn) },
+      { manager: 'bun', path: resolve(bun) },
+    ])
   })
 
-  describe('npm root -g success paths', () => {
-    beforeEach(() => {
-      clearGlobalNodeModulesCache()
-    })
-
-    it('should use npm root -g result when it exists', () => {
-      vi.mocked(childProcess.execSync).mockReturnValue('/usr/local/lib/node_modules\n' as any)
-      vi.mocked(fs.existsSync).mockReturnValue(true)
+  it('should only run package managers found on PATH', () => {
+    installManagers('pnpm')
+    const pnpm = createDir('pnpm', 'node_modules')
+    mockCommands({ 'npm root -g': createDir('npm'), 'pnpm root -g': pnpm })
 
-      const result = getGlobalNodeModules()
+    expect(getGlobalNodeModules(cache)).toEqual([{ manager: 'pnpm', path: resolve(pnpm) }])
+    expect(childProcess.execSync).toHaveBeenCalledTimes(1)
+    expect(childProcess.execSync).toHaveBeenCalledWith('pnpm root -g', expect.anything())
+  })
 
-      expect(result).toBe('/usr/local/lib/node_modules')
-      expect(childProcess.execSync).toHaveBeenCalledWith('npm root -g', { encoding: 'utf-8' })
+  it('should skip directories that do not exist and duplicates', () => {
+    installManagers('npm', 'pnpm', 'yarn')
+    const shared = createDir('shared', 'node_modules')
+    mockCommands({
+      'npm root -g': shared,
+      'pnpm root -g': shared,
+      'yarn global dir': join(testDir, 'missing'),
     })
 
-    it('should handle npm root -g with whitespace', () => {
-      vi.mocked(childProcess.execSync).mockReturnValue('  /usr/lib/node_modules  \n' as any)
-      vi.mocked(fs.existsSync).mockReturnValue(true)
-
-      const result = getGlobalNodeModules()
+    expect(getGlobalNodeModules(cache)).toEqual([{ manager: 'npm', path: resolve(shared) }])
+  })
 
-      expect(result).toBe('/usr/lib/node_modules')
-    })
+  it('should use the last line of the command output', () => {
+    installManagers('npm')
+    const npm = createDir('node_modules')
+    mockCommands({ 'npm root -g': `npm notice: update available\n${npm}` })
 
-    it('should skip npm result if path does not exist', () => {
-      vi.mocked(childProcess.execSync).mockReturnValue('/nonexistent/path' as any)
-      vi.mocked(fs.existsSync).mockReturnValue(false)
+    expect(getGlobalNodeModules(cache)).toEqual([{ manager: 'npm', path: resolve(npm) }])
+  })
 
-      const result = getGlobalNodeModules()
+  it('should return an empty array if no package manager is found', () => {
+    mockCommands({})
 
-      // Should return null or find a fallback path
-      expect(result === null || typeof result === 'string').toBe(true)
-    })
+    expect(getGlobalNodeModules(cache)).toEqual([])
+    expect(childProcess.execSync).not.toHaveBeenCalled()
   })
 
-  describe('Fallback when npm root -g fails', () => {
-    beforeEach(() => {
-      clearGlobalNodeModulesCache()
-      // Mock npm root -g to fail
-      vi.mocked(childProcess.execSync).mockImplementation(() => {
-        throw new Error('Command failed: npm root -g')
-      })
-    })
+  it('should cache the result until the cache is cleared', () => {
+    installManagers('npm')
+    mockCommands({ 'npm root -g': createDir('npm') })
 
-    it('should try fallback paths when npm fails', () => {
-      // Mock that one of the fallback paths exists
-      vi.mocked(fs.existsSync).mockImplementation((path: any) => {
-        return path.toString().includes('node_modules')
-      })
+    const first = getGlobalNodeModules(cache)
+    const second = getGlobalNodeModules(cache)
+    expect(second).toBe(first)
+    expect(childProcess.execSync).toHaveBeenCalledTimes(1)
 
-      const result = getGlobalNodeModules()
+    clearGlobalNodeModulesCache()
+    cache.clear()
+    const different = createDir('different')
+    mockCommands({ 'npm root -g': different })
 
-      // Should find a fallback path
-      expect(typeof result === 'string' || result === null).toBe(true)
-      expect(fs.existsSync).toHaveBeenCalled()
-    })
+    expect(getGlobalNodeModules(cache)).toEqual([{ manager: 'npm', path: resolve(different) }])
+  })
 
-    it('should return null when no fallback paths exist', () => {
-      // All paths don't exist
-      vi.mocked(fs.existsSync).mockReturnValue(false)
+  it('should reuse command results from the cache in later processes', () => {
+    installManagers('npm', 'yarn')
+    const npm = createDir('npm')
+    mockCommands({ 'npm root -g': npm })
 
-      const result = getGlobalNodeModules()
+    getGlobalNodeModules(cache)
+    cache.flush()
+    clearGlobalNodeModulesCache()
+    vi.mocked(childProcess.execSync).mockClear()
 
-      expect(result).toBeNull()
-      expect(fs.existsSync).toHaveBeenCalled()
-    })
+    // Failed commands are cached as well
+    expect(getGlobalNodeModules(new CacheManager(join(testDir, 'cache')))).toEqual([
+      { manager: 'npm', path: resolve(npm) },
+    ])
+    expect(childProcess.execSync).not.toHaveBeenCalled()
+  })
 
-    it('should check multiple fallback paths', () => {
-      // Mock that only the third path exists
-      let callCount = 0
-      vi.mocked(fs.existsSync).mockImplementation(() => {
-        callCount++
-        return callCount === 3
-      })
+  it('should ask again when the package manager executable changes', () => {
+    installManagers('npm')
+    mockCommands({ 'npm root -g': createDir('old') })
+    getGlobalNodeModules(cache)
+    clearGlobalNodeModulesCache()
 
-      const result = getGlobalNodeModules()
+    const upgraded = new Date(Date.now() + 10_000)
+    utimesSync(join(binDir, 'npm'), upgraded, upgraded)
+    const updated = createDir('new')
+    mockCommands({ 'npm root -g': updated })
 
-      // Should have tried multiple paths
-      expect(fs.existsSync).toHaveBeenCalledTimes(3)
-      expect(typeof result === 'string' || result === null).toBe(true)
-    })
+    expect(getGlobalNodeModules(cache)).toEqual([{ manager: 'npm', path: resolve(updated) }])
   })
 
-  describe('Edge cases', () => {
-    beforeEach(() => {
-      clearGlobalNodeModulesCache()
-    })
-
-    it('should handle empty string from npm root -g', () => {
-      vi.mocked(childProcess.execSync).mockReturnValue('' as any)
-      vi.mocked(fs.existsSync).mockReturnValue(false)
-
-      const result = getGlobalNodeModules()
+  describe('getCachedGlobalNodeModules', () => {
+    it('should return null without running commands when nothing is cached', () => {
+      installManagers('npm')
+      mockCommands({ 'npm root -g': createDir('npm') })
 
-      expect(result === null || typeof result === 'string').toBe(true)
+      expect(getCachedGlobalNodeModules(cache)).toBeNull()
+      expect(childProcess.execSync).not.toHaveBeenCalled()
     })
 
-    it('should handle npm returning non-existent path', () => {
-      vi.mocked(childProcess.execSync).mockReturnValue('/fake/path' as any)
-      vi.mocked(fs.existsSync).mockImplementation((path: any) => {
-        return !path.toString().includes('/fake/path')
-      })
-
-      const result = getGlobalNodeModules()
+    it('should return the directories cached by getGlobalNodeModules', () => {
+      installManagers('npm', 'pnpm')
+      const npm = createDir('npm')
+      mockCommands({ 'npm root -g': npm })
+      getGlobalNodeModules(cache)
+      clearGlobalNodeModulesCache()
+      vi.mocked(childProcess.execSync).mockClear()
 
-      expect(result === null || typeof result === 'string').toBe(true)
+      expect(getCachedGlobalNodeModules(cache)).toEqual([{ manager: 'npm', path: resolve(npm) }])
+      expect(childProcess.execSync).not.toHaveBeenCalled()
     })
 
-    it('should not cache null result (implementation limitation)', () => {
-      // Note: The current implementation does not cache null results
-      // because of the check `if (cachedGlobalNodeModules)` which is false for null
+    it('should return null when a package manager was installed since', () => {
+      installManagers('npm')
+      mockCommands({ 'npm root -g': createDir('npm') })
+      getGlobalNodeModules(cache)
       clearGlobalNodeModulesCache()
 
-      vi.mocked(childProcess.execSync).mockImplementation(() => {
-        throw new Error('npm not found')
-      })
-      vi.mocked(fs.existsSync).mockReturnValue(false)
-
-      const first = getGlobalNodeModules()
-      const second = getGlobalNodeModules()
-
-      expect(first).toBeNull()
-      expect(second).toBeNull()
+      installManagers('bun')
 
-      // Since null is not cached, execSync is called twice
-      expect(childProcess.execSync).toHaveBeenCalledTimes(2)
+      expect(getCachedGlobalNodeModules(cache)).toBeNull()
     })
   })
 })
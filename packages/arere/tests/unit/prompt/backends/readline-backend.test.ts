@@ -2,8 +2,29 @@
  * Tests for ReadLine prompt backend
  */
 
+import { PassThrough } from 'node:stream'
 import { createReadLineBackend } from '@/ui/prompts/backends/readline-backend.js'
-import { describe, expect, it } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Answers returned by rl.question(), in order
+const answers: string[] = []
+const questions: string[] = []
+
+vi.mock('node:readline/promises', () => ({
+  default: {
+    createInterface: () => ({
+      question: async (query: string) => {
+        questions.push(query)
+        const answer = answers.shift()
+        if (answer === undefined) {
+          throw new Error(`Unexpected question: ${query}`)
+        }
+        return answer
+      },
+      close: () => {},
+    }),
+  },
+}))
 
 describe('ReadLineBackend', () => {
   describe('createReadLineBackend', () => {
@@ -29,4 +50,146 @@ describe('ReadLineBackend', () => {
       await expect(backend({ type: 'unknown-type' as any })).rejects.toThrow('Unknown prompt type')
     })
   })
+
+  describe('form', () => {
+    const output = new PassThrough()
+    const backend = createReadLineBackend({ output })
+
+    beforeEach(() => {
+      answers.length = 0
+      questions.length = 0
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should ask each field in order and return the values', async () => {
+      answers.push('app', '8080', '2', 'y', '1,3')
+
+      const result = await backend({
+        type: 'form',
+        form: {
+          title: 'Setup',
+          fields: {
+            name: { type: 'text', message: 'Name' },
+            port: { type: 'number', message: 'Port' },
+            env: { type: 'select', message: 'Env', choices: ['dev', 'prod'] },
+            force: { type: 'confirm', message: 'Force' },
+            features: { type: 'multiSelect', message: 'Features', choices: ['a', 'b', 'c'] },
+          },
+        },
+      })
+
+      expect(result).toEqual({
+        name: 'app',
+        port: 8080,
+        env: 'prod',
+        force: true,
+        features: ['a', 'c'],
+      })
+    })
+
+    it('should re-ask required and invalid fields', async () => {
+      answers.push('', 'abc', 'xyz', 'abc')
+
+      const result = await backend({
+        type: 'form',
+        form: {
+          fields: {
+            password: { type: 'text', message: 'Password' },
+            confirm: {
+              type: 'text',
+              message: 'Confirm',
+              validate: (value, { values }) => value === values.password || 'Mismatch',
+            },
+          },
+        },
+      })
+
+      expect(result).toEqual({ password: 'abc', confirm: 'abc' })
+      expect(console.error).toHaveBeenCalledWith('✗ Password is required')
+      expect(console.error).toHaveBeenCalledWith('✗ Mismatch')
+    })
+
+    it('should accept empty optional fields', async () => {
+      answers.push('')
+
+      const result = await backend({
+        type: 'form',
+        form: { fields: { note: { type: 'text', message: 'Note', required: false } } },
+      })
+
+      expect(result).toEqual({ note: '' })
+    })
+
+    it('should re-ask the page when page validation fails', async () => {
+      answers.push('5', '1', '1', '5')
+
+      const result = await backend({
+        type: 'form',
+        form: {
+          fields: {
+            min: { type: 'number', message: 'Min' },
+            max: { type: 'number', message: 'Max' },
+          },
+          validate: (values) => values.min < values.max || 'min must be below max',
+        },
+      })
+
+      expect(result).toEqual({ min: 1, max: 5 })
+      expect(console.error).toHaveBeenCalledWith('✗ min must be below max')
+    })
+  })
+
+  describe('stepForm', () => {
+    const output = new PassThrough()
+    const backend = createReadLineBackend({ output })
+    const steps = [
+      { title: 'Project', fields: { name: { type: 'text', message: 'Name' } } },
+      { title: 'Server', fields: { port: { type: 'number', message: 'Port' } } },
+    ] as const
+
+    beforeEach(() => {
+      answers.length = 0
+      questions.length = 0
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should merge the values of all steps', async () => {
+      answers.push('app', '8080', '')
+
+      const result = await backend({ type: 'stepForm', steps: [...steps] })
+
+      expect(result).toEqual({ name: 'app', port: 8080 })
+    })
+
+    it('should go back to the previous step keeping entered values', async () => {
+      // Step 2 → back → keep name (default) → port again → submit
+      answers.push('app', '80', 'b', '', '8080', '')
+
+      const result = await backend({ type: 'stepForm', steps: [...steps] })
+
+      expect(result).toEqual({ name: 'app', port: 8080 })
+      expect(questions).toContain('Name (default: app): ')
+    })
+
+    it('should run cross-step validation on submit', async () => {
+      answers.push('app', '80', '', '8080', '')
+
+      const result = await backend({
+        type: 'stepForm',
+        steps: [...steps],
+        options: { validate: (values) => (values.port as number) > 1024 || 'Port too low' },
+      })
+
+      expect(result).toEqual({ name: 'app', port: 8080 })
+      expect(console.error).toHaveBeenCalledWith('✗ Port too low')
+    })
+  })
 })
@@ -0,0 +1,50 @@
+/**
+ * Tests for prompt renderer
+ */
+
+import {
+  clearPromptHandler,
+  rejectPendingPrompts,
+  renderPrompt,
+  setPromptHandler,
+} from '@/ui/prompts/renderer.js'
+import { afterEach, describe, expect, it } from 'vitest'
+
+describe('renderPrompt', () => {
+  afterEach(() => {
+    clearPromptHandler()
+  })
+
+  it('should throw when no prompt handler is set', async () => {
+    await expect(renderPrompt({ type: 'text', message: 'Name' })).rejects.toThrow(
+      'Prompt handler not set',
+    )
+  })
+
+  it('should resolve with the handler result', async () => {
+    setPromptHandler(async () => 'answer')
+
+    await expect(renderPrompt({ type: 'text', message: 'Name' })).resolves.toBe('answer')
+  })
+
+  describe('rejectPendingPrompts', () => {
+    it('should reject prompts that are waiting for an answer', async () => {
+      // Handler that never answers (like a user who never responds)
+      setPromptHandler(() => new Promise(() => {}))
+
+      const pending = renderPrompt({ type: 'confirm', message: 'Continue?' })
+      rejectPendingPrompts(new Error('cancelled'))
+
+      await expect(pending).rejects.toThrow('cancelled')
+    })
+
+    it('should not affect prompts that already completed', async () => {
+      setPromptHandler(async () => true)
+
+      const result = await renderPrompt({ type: 'confirm', message: 'Continue?' })
+      rejectPendingPrompts(new Error('cancelled'))
+
+      expect(result).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,62 @@
+/**
+ * Tests for the secrets API (ctx.secrets)
+ */
+
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { createSecretsAPI, getSecretEnvName } from '@/secrets/api.js'
+import { SecretStore } from '@/secrets/store.js'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+describe('getSecretEnvName', () => {
+  it('should convert secret names to environment variable names', () => {
+    expect(getSecretEnvName('GITHUB_TOKEN')).toBe('ARERE_SECRET_GITHUB_TOKEN')
+    expect(getSecretEnvName('plugins.arere-plugin-github.token')).toBe(
+      'ARERE_SECRET_PLUGINS_ARERE_PLUGIN_GITHUB_TOKEN',
+    )
+  })
+})
+
+describe('createSecretsAPI', () => {
+  let tmpDir: string
+  let store: SecretStore
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'arere-secrets-api-'))
+    store = new SecretStore({ dir: tmpDir })
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('should set, get and delete secrets in the store', async () => {
+    const secrets = createSecretsAPI({ store })
+
+    await secrets.set('GITHUB_TOKEN', 'ghp_secret')
+    expect(await secrets.get('GITHUB_TOKEN')).toBe('ghp_secret')
+    expect(store.get('GITHUB_TOKEN')).toBe('ghp_secret')
+    expect(await secrets.delete('GITHUB_TOKEN')).toBe(true)
+    expect(await secrets.get('GITHUB_TOKEN')).toBeUndefined()
+  })
+
+  it('should read secrets from the environment before the store', async () => {
+    store.set('GITHUB_TOKEN', 'stored')
+    store.set('NPM_TOKEN', 'stored')
+    const secrets = createSecretsAPI({ store, env: { ARERE_SECRET_GITHUB_TOKEN: 'from-env' } })
+
+    expect(await secrets.get('GITHUB_TOKEN')).toBe('from-env')
+    expect(await secrets.get('NPM_TOKEN')).toBe('stored')
+  })
+
+  it('should ignore the environment when none is given', async () => {
+    process.env.ARERE_SECRET_GITHUB_TOKEN = 'from-env'
+    try {
+      expect(await createSecretsAPI({ store }).get('GITHUB_TOKEN')).toBeUndefined()
+    } finally {
+      // biome-ignore lint/performance/noDelete: process.env must not contain the key
+      delete process.env.ARERE_SECRET_GITHUB_TOKEN
+    }
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Tests for secret fields of plugin config schemas
+ */
+
+import type { SecretsAPI } from '@/action/types.js'
+import {
+  assertStringSecretFields,
+  getSecretFieldPaths,
+  isSecretSchema,
+  loadPluginSecrets,
+  pickSecretValues,
+  savePluginSecrets,
+  secret,
+  splitSecretValues,
+} from '@/secrets/schema.js'
+import { describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+
+const schema = z.object({
+  token: secret(z.string()).optional().describe('API token'),
+  owner: z.string().default('me'),
+  server: z.object({
+    url: z.string(),
+    password: secret(z.string()).optional(),
+  }),
+})
+
+function createMemorySecrets(initial: Record<string, string> = {}): SecretsAPI {
+  const values = new Map(Object.entries(initial))
+  return {
+    get: vi.fn(async (name: string) => values.get(name)),
+    set: vi.fn(async (name: string, value: string) => {
+      values.set(name, value)
+    }),
+    delete: vi.fn(async (name: string) => values.delete(name)),
+  }
+}
+
+describe('secret', () => {
+  it('should mark a schema as secret through wrappers', () => {
+    expect(isSecretSchema(schema.shape.token)).toBe(true)
+    expect(isSecretSchema(schema.shape.owner)).toBe(false)
+    expect(schema.shape.token.parse('abc')).toBe('abc')
+  })
+
+  it('should not mark the original schema', () => {
+    const base = z.string()
+    secret(base)
+    expect(isSecretSchema(base)).toBe(false)
+  })
+
+  it('should list secret field paths including nested objects', () => {
+    expect(getSecretFieldPaths(schema)).toEqual(['token', 'server.password'])
+  })
+})
+
+describe('assertStringSecretFields', () => {
+  it('should accept string, enum and string literal secrets', () => {
+    expect(() =>
+      assertStringSecretFields(
+        z.object({
+          token: secret(z.string().min(1)).optional(),
+          region: secret(z.enum(['eu', 'us'])).default('eu'),
+          mode: secret(z.literal('live')).optional(),
+          server: schema.shape.server,
+        }),
+      ),
+    ).not.toThrow()
+  })
+
+  it('should reject secrets that are not strings', () => {
+    // @ts-expect-error secret() only accepts string schemas
+    const port = secret(z.number())
+    // @ts-expect-error secret() only accepts string schemas
+    const enabled = secret(z.boolean())
+
+    expect(() => assertStringSecretFields(z.object({ port }))).toThrow(
+      'Secret config field must be a string: port',
+    )
+    expect(() =>
+      assertStringSecretFields(z.object({ server: z.object({ enabled: enabled.optional() }) })),
+    ).toThrow('Secret config field must be a string: server.enabled')
+  })
+})
+
+describe('splitSecretValues', () => {
+  it('should separate secret values from the config', () => {
+    const result = splitSecretValues(schema, {
+      token: 'abc',
+      owner: 'you',
+      server: { url: 'https://example.com', password: '' },
+    })
+
+    expect(result.config).toEqual({ owner: 'you', server: { url: 'https://example.com' } })
+    expect([...result.secrets]).toEqual([
+      ['token', 'abc'],
+      ['server.password', ''],
+    ])
+  })
+
+  it('should only include secrets present in the config', () => {
+    expect(splitSecretValues(schema, { owner: 'you' }).secrets.size).toBe(0)
+  })
+})
+
+describe('pickSecretValues', () => {
+  it('should keep only set secret values', () => {
+    expect(
+      pickSecretValues(schema, { token: '', owner: 'you', server: { url: 'x', password: 'pw' } }),
+    ).toEqual({ server: { password: 'pw' } })
+  })
+})
+
+describe('loadPluginSecrets / savePluginSecrets', () => {
+  it('should save and load secrets under the plugin name', async () => {
+    const secrets = createMemorySecrets()
+
+    await savePluginSecrets(
+      'arere-plugin-example',
+      new Map([
+        ['token', 'abc'],
+        ['server.password', 'pw'],
+      ]),
+      secrets,
+    )
+
+    expect(secrets.set).toHaveBeenCalledWith('plugins.arere-plugin-example.token', 'abc')
+    expect(await loadPluginSecrets(schema, 'arere-plugin-example', secrets)).toEqual({
+      token: 'abc',
+      server: { password: 'pw' },
+    })
+  })
+
+  it('should delete secrets saved as empty values', async () => {
+    const secrets = createMemorySecrets({ 'plugins.arere-plugin-example.token': 'abc' })
+
+    await savePluginSecrets('arere-plugin-example', new Map([['token', '']]), secrets)
+
+    expect(secrets.delete).toHaveBeenCalledWith('plugins.arere-plugin-example.token')
+    expect(await loadPluginSecrets(schema, 'arere-plugin-example', secrets)).toEqual({})
+  })
+
+  it('should skip secrets that cannot be read', async () => {
+    const secrets = createMemorySecrets()
+    vi.mocked(secrets.get).mockRejectedValue(new Error('locked'))
+
+    expect(await loadPluginSecrets(schema, 'arere-plugin-example', secrets)).toEqual({})
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Tests for the encrypted secret store
+ */
+
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { SecretStoreError } from '@/lib/error.js'
+import { SecretStore } from '@/secrets/store.js'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+describe('SecretStore', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'arere-secrets-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('should return undefined when nothing is stored', () => {
+    const store = new SecretStore({ dir: tmpDir })
+    expect(store.get('GITHUB_TOKEN')).toBeUndefined()
+    expect(store.list()).toEqual([])
+    expect(fs.existsSync(path.join(tmpDir, 'secrets.json'))).toBe(false)
+  })
+
+  it('should store, list and delete secrets', () => {
+    const store = new SecretStore({ dir: tmpDir })
+    store.set('GITHUB_TOKEN', 'ghp_secret')
+    store.set('NPM_TOKEN', 'npm_secret')
+
+    expect(store.get('GITHUB_TOKEN')).toBe('ghp_secret')
+    expect(store.list()).toEqual(['GITHUB_TOKEN', 'NPM_TOKEN'])
+    expect(store.delete('GITHUB_TOKEN')).toBe(true)
+    expect(store.delete('GITHUB_TOKEN')).toBe(false)
+    expect(new SecretStore({ dir: tmpDir }).list()).toEqual(['NPM_TOKEN'])
+  })
+
+  it('should encrypt the store with a user-only key file', () => {
+    new SecretStore({ dir: tmpDir }).set('GITHUB_TOKEN', 'ghp_secret')
+
+    const storeFile = path.join(tmpDir, 'secrets.json')
+    const keyFile = path.join(tmpDir, 'secrets.key')
+    expect(fs.readFileSync(storeFile, 'utf-8')).not.toContain('ghp_secret')
+    expect(JSON.parse(fs.readFileSync(storeFile, 'utf-8')).key).toBe('keyfile')
+    if (process.platform !== 'win32') {
+      expect(fs.statSync(storeFile).mode & 0o777).toBe(0o600)
+      expect(fs.statSync(keyFile).mode & 0o777).toBe(0o600)
+    }
+  })
+
+  it('should throw if the key file of an existing store is missing', () => {
+    new SecretStore({ dir: tmpDir }).set('GITHUB_TOKEN', 'ghp_secret')
+    fs.rmSync(path.join(tmpDir, 'secrets.key'))
+
+    expect(() => new SecretStore({ dir: tmpDir }).get('GITHUB_TOKEN')).toThrow(SecretStoreError)
+  })
+
+  it('should derive the key from a passphrase', () => {
+    new SecretStore({ dir: tmpDir, passphrase: 'correct horse' }).set('GITHUB_TOKEN', 'ghp_secret')
+
+    expect(fs.existsSync(path.join(tmpDir, 'secrets.key'))).toBe(false)
+    expect(new SecretStore({ dir: tmpDir, passphrase: 'correct horse' }).get('GITHUB_TOKEN')).toBe(
+      'ghp_secret',
+    )
+  })
+
+  it('should throw with a wrong or missing passphrase', () => {
+    new SecretStore({ dir: tmpDir, passphrase: 'correct horse' }).set('GITHUB_TOKEN', 'ghp_secret')
+
+    const wrong = new SecretStore({ dir: tmpDir, passphrase: 'battery staple' })
+    expect(() => wrong.get('GITHUB_TOKEN')).toThrow(SecretStoreError)
+
+    const originalPassphrase = process.env.ARERE_SECRETS_PASSPHRASE
+    // biome-ignore lint/performance/noDelete: process.env must not contain the key
+    delete process.env.ARERE_SECRETS_PASSPHRASE
+    try {
+      expect(() => new SecretStore({ dir: tmpDir }).get('GITHUB_TOKEN')).toThrow(SecretStoreError)
+    } finally {
+      if (originalPassphrase !== undefined) {
+        process.env.ARERE_SECRETS_PASSPHRASE = originalPassphrase
+      }
+    }
+  })
+})
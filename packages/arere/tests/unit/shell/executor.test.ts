@@ -2,8 +2,12 @@
  * Tests for shell executor
  */
 
+import { realpathSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { ShellError } from '@/lib/error.js'
 import { createShellExecutor } from '@/shell/executor.js'
-import { describe, expect, it } from 'vitest'
+import type { OutputAPI } from '@/ui/output/types.js'
+import { describe, expect, it, vi } from 'vitest'
 
 describe('createShellExecutor', () => {
   it('should create a shell executor function', () => {
@@ -84,4 +88,133 @@ describe('createShellExecutor', () => {
     expect(result.stderr).toBe('')
     expect(result.exitCode).toBe(0)
   })
+
+  it('should terminate the command and reject when aborted', async () => {
+    const controller = new AbortController()
+    const $ = createShellExecutor({ signal: controller.signal })
+
+    const start = Date.now()
+    const pending = $`sleep 10`
+    setTimeout(() => controller.abort(new Error('aborted')), 50)
+
+    await expect(pending).rejects.toThrow('aborted')
+    expect(Date.now() - start).toBeLessThan(5000)
+  })
+
+  it('should reject immediately when the signal is already aborted', async () => {
+    const controller = new AbortController()
+    controller.abort(new Error('already aborted'))
+    const $ = createShellExecutor({ signal: controller.signal })
+
+    await expect($`echo never`).rejects.toThrow('already aborted')
+  })
+
+  describe('options', () => {
+    it('should run in the given cwd', async () => {
+      const $ = createShellExecutor()
+
+      const result = await $({ cwd: tmpdir() })`pwd`
+
+      expect(realpathSync(result.stdout)).toBe(realpathSync(tmpdir()))
+    })
+
+    it('should merge env over process.env', async () => {
+      const $ = createShellExecutor()
+
+      const result = await $({ env: { ARERE_TEST_VAR: 'hello' } })`echo "$ARERE_TEST_VAR $HOME"`
+
+      expect(result.stdout).toBe(`hello ${process.env.HOME}`)
+    })
+
+    it('should remove env variables set to undefined', async () => {
+      const $ = createShellExecutor()
+
+      const result = await $({ env: { HOME: undefined } })`echo "[$HOME]"`
+
+      expect(result.stdout).toBe('[]')
+    })
+
+    it('should merge env across chained option calls', async () => {
+      const $ = createShellExecutor()
+
+      const result = await $({ env: { A: '1' } })({ env: { B: '2' } })`echo "$A$B"`
+
+      expect(result.stdout).toBe('12')
+    })
+
+    it('should write input to stdin', async () => {
+      const $ = createShellExecutor()
+
+      const result = await $({ input: 'line1\nline2\n' })`wc -l`
+
+      expect(result.stdout.trim()).toBe('2')
+    })
+
+    it('should kill the command after timeout', async () => {
+      const $ = createShellExecutor()
+
+      const result = await $({ timeout: 50 })`sleep 10`
+
+      expect(result.timedOut).toBe(true)
+      expect(result.exitCode).not.toBe(0)
+    })
+
+    it('should stream output lines to the output API (stderr as warnings)', async () => {
+      const log = vi.fn()
+      const warn = vi.fn()
+      const $ = createShellExecutor({ output: { log, warn } as unknown as OutputAPI })
+
+      const result = await $({ stream: true })`echo one; echo two >&2; printf three`
+
+      expect(log.mock.calls.map((call) => call[0])).toEqual(['one', 'three'])
+      expect(warn.mock.calls.map((call) => call[0])).toEqual(['two'])
+      expect(result.stdout).toBe('one\nthree')
+    })
+
+    it('should not stream output by default', async () => {
+      const log = vi.fn()
+      const $ = createShellExecutor({ output: { log } as unknown as OutputAPI })
+
+      await $`echo quiet`
+
+      expect(log).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('throwOnError', () => {
+    it('should throw ShellError carrying the result on non-zero exit', async () => {
+      const $ = createShellExecutor()
+
+      const error = await $.throwOnError`echo oops >&2; exit 3`.catch((e) => e)
+
+      expect(error).toBeInstanceOf(ShellError)
+      expect(error.command).toBe('echo oops >&2; exit 3')
+      expect(error.result).toEqual({ stdout: '', stderr: 'oops', exitCode: 3 })
+    })
+
+    it('should resolve on success', async () => {
+      const $ = createShellExecutor()
+
+      const result = await $.throwOnError`echo ok`
+
+      expect(result.stdout).toBe('ok')
+    })
+
+    it('should throw ShellError on timeout', async () => {
+      const $ = createShellExecutor()
+
+      const error = await $({ timeout: 50, throwOnError: true })`sleep 10`.catch((e) => e)
+
+      expect(error).toBeInstanceOf(ShellError)
+      expect(error.result.timedOut).toBe(true)
+    })
+
+    it('should allow opting out with nothrow', async () => {
+      const $ = createShellExecutor({ throwOnError: true })
+
+      const result = await $.nothrow`exit 2`
+
+      expect(result.exitCode).toBe(2)
+    })
+  })
 })
@@ -3,6 +3,7 @@
  */
 
 import type { Action, ActionLocation } from '@/action/types.js'
+import type { ActionUsageMap } from '@/action/usage.js'
 import { ActionList } from '@/ui/components/ActionList.js'
 import { useSettingsStore } from '@/ui/stores/settingsStore.js'
 import { defaultConfig, type ArereConfig } from '@/config/schema.js'
@@ -36,6 +37,19 @@ vi.mock('@/ui/hooks/useMouseScroll', () => ({
   useMouseScroll: () => {},
 }))
 
+// Do not write settings to the working directory
+const mockSaveConfig = vi.fn()
+vi.mock('@/ui/hooks/useConfigManagement', () => ({
+  useConfigManagement: () => ({ saveConfig: mockSaveConfig, resetConfig: vi.fn() }),
+}))
+
+// Control usage statistics instead of reading the home directory
+let mockUsage: ActionUsageMap = {}
+vi.mock('@/action/usage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/action/usage')>()),
+  usageManager: { getAll: () => mockUsage },
+}))
+
 describe('ActionList', () => {
   const createMockAction = (
     name: string,
@@ -56,6 +70,7 @@ describe('ActionList', () => {
   beforeEach(() => {
     capturedHandler = null
     mockColumns = 120 // Reset to wide terminal
+    mockUsage = {}
     vi.clearAllMocks()
     // Reset settingsStore with defaultConfig (includes ui.actionListFormat, etc.)
     useSettingsStore.setState({
@@ -348,6 +363,35 @@ describe('ActionList', () => {
       expect(onSelect).toHaveBeenCalledWith(actions[2])
     })
 
+    it('should tell apart actions with the same id from different files', async () => {
+      const shadowed = {
+        ...createMockAction('deploy', 'Global deploy', undefined, 'project'),
+        filePath: '/home/.arere/deploy.ts',
+      }
+      const shadowing = {
+        ...createMockAction('deploy', 'Project deploy', undefined, 'project'),
+        filePath: '/repo/.arere/deploy.ts',
+      }
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const onSelect = vi.fn()
+      const { lastFrame } = render(<ActionList actions={[shadowed, shadowing]} onSelect={onSelect} />)
+
+      await act(async () => {
+        capturedHandler?.('', { downArrow: true })
+      })
+      await act(async () => {
+        capturedHandler?.('', { return: true })
+      })
+
+      expect(lastFrame()).toContain('Global deploy')
+      expect(lastFrame()).toContain('Project deploy')
+      expect(onSelect).toHaveBeenCalledWith(shadowing)
+      // No duplicate React keys
+      expect(consoleErrorSpy.mock.calls.flat().join('\n')).not.toContain('same key')
+      consoleErrorSpy.mockRestore()
+    })
+
     it('should handle empty actions array gracefully', () => {
       const onSelect = vi.fn()
       render(<ActionList actions={[]} onSelect={onSelect} />)
@@ -572,4 +616,284 @@ describe('ActionList', () => {
       expect(bookmarks).not.toContain('local:action3')
     })
   })
+
+  describe('Sorting', () => {
+    const storeActions = () => [
+      createMockAction('deploy', 'Deploy', undefined, 'project'),
+      createMockAction('build', 'Build', undefined, 'project'),
+      createMockAction('lint', 'Lint', undefined, 'project'),
+    ]
+    const renderedNames = (frame: string | undefined) =>
+      (frame ?? '')
+        .split('\n')
+        .map((line) => line.match(/(deploy|build|lint)/)?.[1])
+        .filter(Boolean)
+
+    it('should show store actions in registry order by default', () => {
+      useSettingsStore.setState({ currentActions: storeActions() })
+
+      const { lastFrame } = render(<ActionList />)
+
+      expect(renderedNames(lastFrame())).toEqual(['deploy', 'build', 'lint'])
+    })
+
+    it('should sort store actions by the configured sort mode', () => {
+      mockUsage = { 'local:lint': { count: 3, lastUsedAt: Date.now() } }
+      useSettingsStore.setState({
+        currentActions: storeActions(),
+        currentConfig: { ...defaultConfig, ui: { ...defaultConfig.ui, actionSort: 'frecency' } },
+      })
+
+      const { lastFrame } = render(<ActionList />)
+
+      expect(renderedNames(lastFrame())).toEqual(['lint', 'deploy', 'build'])
+    })
+
+    it('should pin bookmarked actions to the top', () => {
+      useSettingsStore.setState({
+        currentActions: storeActions(),
+        currentConfig: {
+          ...defaultConfig,
+          ui: { ...defaultConfig.ui, actionSort: 'alphabetical' },
+          bookmarks: ['local:lint'],
+        },
+      })
+
+      const { lastFrame } = render(<ActionList />)
+
+      expect(renderedNames(lastFrame())).toEqual(['lint', 'build', 'deploy'])
+    })
+
+    it('should keep the selected action selected when it is pinned', async () => {
+      useSettingsStore.setState({ currentActions: storeActions() })
+      const onSelect = vi.fn()
+      render(<ActionList onSelect={onSelect} />)
+
+      // Bookmark "lint" (moves to the top), then run the selection
+      await act(async () => {
+        capturedHandler?.('', { downArrow: true })
+        capturedHandler?.('', { downArrow: true })
+      })
+      await act(async () => {
+        capturedHandler?.('', { tab: true })
+      })
+      await act(async () => {
+        capturedHandler?.('', { return: true })
+      })
+
+      expect(onSelect).toHaveBeenCalledWith(expect.objectContaining({ meta: expect.objectContaining({ name: 'lint' }) }))
+    })
+
+    it('should save the next sort mode when the sort key is pressed', async () => {
+      useSettingsStore.setState({ currentActions: storeActions() })
+      render(<ActionList />)
+
+      await act(async () => {
+        capturedHandler?.('o', {})
+      })
+
+      expect(mockSaveConfig).toHaveBeenCalledWith('ui.actionSort', 'alphabetical', 'workspace')
+    })
+
+    it('should keep the given actions in order and ignore the sort key', async () => {
+      useSettingsStore.setState({
+        currentActions: storeActions(),
+        currentConfig: { ...defaultConfig, ui: { ...defaultConfig.ui, actionSort: 'alphabetical' } },
+      })
+      const { lastFrame } = render(<ActionList actions={storeActions()} onSelect={vi.fn()} />)
+
+      await act(async () => {
+        capturedHandler?.('o', {})
+      })
+
+      expect(renderedNames(lastFrame())).toEqual(['deploy', 'build', 'lint'])
+      expect(mockSaveConfig).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Tree view', () => {
+    const createCategorized = (name: string, category?: string): Action => ({
+      ...createMockAction(name, `${name} action`),
+      meta: { name, description: `${name} action`, category },
+    })
+    const treeActions = () => [
+      createCategorized('status', 'git'),
+      createCategorized('checkout', 'git/branch'),
+      createCategorized('deploy', 'ops'),
+    ]
+    const setTreeConfig = (collapsedCategories: string[] = []) => {
+      useSettingsStore.setState({
+        currentActions: treeActions(),
+        currentConfig: {
+          ...defaultConfig,
+          ui: { ...defaultConfig.ui, actionListView: 'tree', collapsedCategories },
+        },
+      })
+    }
+    const press = async (input: string, key: Record<string, boolean> = {}) => {
+      await act(async () => {
+        capturedHandler?.(input, key)
+      })
+    }
+
+    it('should fold actions under category headers', () => {
+      setTreeConfig()
+
+      const { lastFrame } = render(<ActionList />)
+      const lines = (lastFrame() ?? '').split('\n').filter((line) => line.trim())
+
+      expect(lines[0]).toMatch(/▾ git \(2\)/)
+      expect(lines[1]).toContain('status')
+      expect(lines[2]).toMatch(/▾ branch \(1\)/)
+      expect(lines[3]).toContain('checkout')
+      expect(lines[4]).toMatch(/▾ ops \(1\)/)
+    })
+
+    it('should hide remembered collapsed groups', () => {
+      setTreeConfig(['git'])
+
+      const { lastFrame } = render(<ActionList />)
+
+      expect(lastFrame()).toMatch(/▸ git \(2\)/)
+      expect(lastFrame()).not.toContain('checkout')
+    })
+
+    it('should collapse the selected group and remember it', async () => {
+      setTreeConfig()
+      const { lastFrame } = render(<ActionList />)
+
+      await press('', { leftArrow: true })
+
+      expect(lastFrame()).not.toContain('status')
+      expect(useSettingsStore.getState().currentConfig.ui?.collapsedCategories).toEqual(['git'])
+      expect(mockSaveConfig).toHaveBeenCalledWith('ui.collapsedCategories', ['git'], 'workspace')
+
+      await press('', { rightArrow: true })
+
+      expect(lastFrame()).toContain('status')
+      expect(mockSaveConfig).toHaveBeenLastCalledWith('ui.collapsedCategories', [], 'workspace')
+    })
+
+    it('should toggle groups with Enter and run actions', async () => {
+      setTreeConfig()
+      const onSelect = vi.fn()
+      render(<ActionList onSelect={onSelect} />)
+
+      await press('', { downArrow: true })
+      await press('', { return: true })
+      expect(onSelect).toHaveBeenCalledWith(
+        expect.objectContaining({ meta: expect.objectContaining({ name: 'status' }) }),
+      )
+
+      await press('', { upArrow: true })
+      await press('', { return: true })
+      expect(useSettingsStore.getState().currentConfig.ui?.collapsedCategories).toEqual(['git'])
+    })
+
+    it('should jump between groups and to the enclosing group', async () => {
+      setTreeConfig()
+      const onSelect = vi.fn()
+      render(<ActionList onSelect={onSelect} />)
+
+      // git → branch → ops
+      await press(']')
+      await press(']')
+      await press('', { downArrow: true })
+      await press('', { return: true })
+      expect(onSelect).toHaveBeenLastCalledWith(
+        expect.objectContaining({ meta: expect.objectContaining({ name: 'deploy' }) }),
+      )
+
+      // deploy → ops (parent), then back to branch
+      await press('', { leftArrow: true })
+      await press('[')
+      await press('', { downArrow: true })
+      await press('', { return: true })
+      expect(onSelect).toHaveBeenLastCalledWith(
+        expect.objectContaining({ meta: expect.objectContaining({ name: 'checkout' }) }),
+      )
+    })
+
+    it('should report row heights for group headers separated by a blank line', async () => {
+      setTreeConfig()
+      const onScrollInfoChange = vi.fn()
+
+      await act(async () => {
+        render(<ActionList onScrollInfoChange={onScrollInfoChange} />)
+      })
+
+      expect(onScrollInfoChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ itemHeights: [1, 1, 1, 1, 2, 1] }),
+      )
+    })
+  })
+
+  describe('Preview', () => {
+    const storeActions = () => [
+      createMockAction('deploy', 'Deploy', undefined, 'project'),
+      createMockAction('build', 'Build', undefined, 'project'),
+    ]
+
+    it('should report the selected action', async () => {
+      useSettingsStore.setState({ currentActions: storeActions() })
+      const onSelectionChange = vi.fn()
+      await act(async () => {
+        render(<ActionList onSelectionChange={onSelectionChange} />)
+      })
+
+      await act(async () => {
+        capturedHandler?.('', { downArrow: true })
+      })
+
+      expect(onSelectionChange).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ meta: expect.objectContaining({ name: 'deploy' }) }),
+      )
+      expect(onSelectionChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ meta: expect.objectContaining({ name: 'build' }) }),
+      )
+    })
+
+    it('should save the toggled preview when the preview key is pressed', async () => {
+      useSettingsStore.setState({ currentActions: storeActions() })
+      render(<ActionList />)
+
+      await act(async () => {
+        capturedHandler?.('p', {})
+      })
+
+      expect(mockSaveConfig).toHaveBeenCalledWith('ui.actionPreview', true, 'workspace')
+    })
+
+    it('should fit the rows into the given width', () => {
+      useSettingsStore.setState({
+        currentActions: storeActions(),
+        currentConfig: { ...defaultConfig, ui: { ...defaultConfig.ui, actionListFormat: '${name} ${description:grow}|' } },
+      })
+
+      const { lastFrame } = render(<ActionList width={40} />)
+
+      const row = (lastFrame() ?? '').split('\n').find((line) => line.includes('deploy')) ?? ''
+      expect(row.trimEnd()).toHaveLength(38)
+    })
+  })
+
+  describe('Run with arguments', () => {
+    it('should open the argument form of the selected action', async () => {
+      const actions = [createMockAction('deploy', 'Deploy'), createMockAction('build', 'Build')]
+      const onRunWithArgs = vi.fn()
+      const onSelect = vi.fn()
+      render(<ActionList actions={actions} onSelect={onSelect} onRunWithArgs={onRunWithArgs} />)
+
+      await act(async () => {
+        capturedHandler?.('', { downArrow: true })
+      })
+      await act(async () => {
+        capturedHandler?.('a', {})
+      })
+
+      expect(onRunWithArgs).toHaveBeenCalledWith(actions[1])
+      expect(onSelect).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -0,0 +1,102 @@
+/**
+ * Tests for ActionPreview component
+ */
+
+import type { Action } from '@/action/types.js'
+import { defaultConfig } from '@/config/schema.js'
+import { ActionPreview, PREVIEW_LOAD_DELAY } from '@/ui/components/ActionPreview.js'
+import { useSettingsStore } from '@/ui/stores/settingsStore.js'
+import type { ActionPreviewDetails } from '@/ui/utils/preview.js'
+import { cleanup, render } from 'ink-testing-library'
+import React, { act } from 'react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Return fixed details instead of reading the action file
+const mockLoadDetails = vi.fn(
+  (): ActionPreviewDetails => ({
+    args: [{ name: 'env', type: 'select', choices: ['dev', 'prod'], description: 'Target' }],
+    source: [[{ text: 'const', kind: 'keyword' }, { text: ' target = env', kind: 'plain' }]],
+  }),
+)
+vi.mock('@/ui/utils/preview', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/ui/utils/preview')>()),
+  loadActionPreviewDetails: () => mockLoadDetails(),
+}))
+
+const waitForDetails = () =>
+  act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, PREVIEW_LOAD_DELAY + 20))
+  })
+
+describe('ActionPreview', () => {
+  const action: Action = {
+    meta: {
+      name: 'deploy',
+      description: () => 'Deploy to production',
+      tags: ['ops', 'slow'],
+    },
+    filePath: '/project/.arere/actions/deploy.ts',
+    pluginMeta: { name: 'arere-plugin-ops' },
+    run: async () => {},
+  }
+
+  beforeEach(() => {
+    mockLoadDetails.mockClear()
+    useSettingsStore.setState({
+      currentConfig: defaultConfig,
+      currentPlugins: [
+        {
+          meta: { name: 'arere-plugin-ops', version: '1.2.0' },
+          path: '/plugins/ops',
+          i18nNamespace: 'arere-plugin-ops',
+          actionPaths: [],
+          enabled: true,
+        } as any,
+      ],
+    })
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('should show the description, tags, plugin version and file', () => {
+    const { lastFrame } = render(<ActionPreview action={action} width={80} height={20} />)
+
+    const frame = lastFrame() ?? ''
+    expect(frame).toContain('deploy')
+    expect(frame).toContain('Deploy to production')
+    expect(frame).toContain('#ops #slow')
+    expect(frame).toContain('arere-plugin-ops@1.2.0')
+    expect(frame).toContain('/project/.arere/actions/deploy.ts')
+  })
+
+  it('should show the arguments and source once the selection settles', async () => {
+    const { lastFrame } = render(<ActionPreview action={action} width={80} height={20} />)
+    expect(lastFrame()).not.toContain('--env')
+
+    await waitForDetails()
+
+    expect(mockLoadDetails).toHaveBeenCalledTimes(1)
+    expect(lastFrame()).toContain('--env <dev|prod>')
+    expect(lastFrame()).toContain('Target')
+    expect(lastFrame()).toContain('const target = env')
+  })
+
+  it('should not read actions that are passed over quickly', async () => {
+    const other: Action = { ...action, meta: { ...action.meta, name: 'build' } }
+    const { rerender } = render(<ActionPreview action={action} width={80} height={20} />)
+    rerender(<ActionPreview action={other} width={80} height={20} />)
+
+    await waitForDetails()
+
+    expect(mockLoadDetails).toHaveBeenCalledTimes(1)
+  })
+
+  it('should show a placeholder without an action', () => {
+    const { lastFrame } = render(<ActionPreview width={80} height={10} />)
+
+    expect(lastFrame()).not.toContain('deploy')
+    expect(mockLoadDetails).not.toHaveBeenCalled()
+  })
+})
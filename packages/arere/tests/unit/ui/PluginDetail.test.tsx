@@ -240,6 +240,44 @@ describe('PluginDetail', () => {
     expect(output).toContain('timeout')
   })
 
+  it('should list nested object fields and format array values', () => {
+    const pluginWithNested: LoadedPlugin = {
+      ...mockPluginWithConfig,
+      configSchema: z.object({
+        server: z.object({
+          host: z.string().default('localhost'),
+          port: z.number().min(1).max(65535).default(8080),
+        }),
+        branches: z.array(z.string()).default(['main', 'develop']),
+      }),
+    }
+
+    useSettingsStore.setState({ selectedPlugin: pluginWithNested })
+
+    const { lastFrame } = render(<PluginDetail />)
+
+    const output = lastFrame()
+    expect(output).toContain('server.host')
+    expect(output).toContain('server.port')
+    expect(output).toContain('main, develop')
+  })
+
+  it('should show the value of a nested field from the layer config', () => {
+    useSettingsStore.setState({
+      selectedPlugin: {
+        ...mockPluginWithConfig,
+        configSchema: z.object({ server: z.object({ port: z.number() }) }),
+      },
+      workspaceLayerConfig: {
+        plugins: { 'arere-plugin-git': { enabled: true, config: { server: { port: 3000 } } } },
+      },
+    })
+
+    const { lastFrame } = render(<PluginDetail />)
+
+    expect(lastFrame()).toContain('3000')
+  })
+
   it('should handle disabled plugin', () => {
     const disabledPlugin: LoadedPlugin = {
       ...mockPluginWithConfig,
@@ -455,6 +493,23 @@ describe('PluginDetail', () => {
       expect(output).toContain('main')
     })
 
+    it('should show number bounds when editing a number field', () => {
+      useSettingsStore.setState({
+        selectedPlugin: {
+          ...mockPluginWithConfig,
+          configSchema: z.object({ timeout: z.number().min(1000).max(30000) }),
+        },
+      })
+
+      const { lastFrame } = render(<PluginDetail />)
+
+      capturedHandler?.('', { return: true })
+
+      const output = lastFrame()
+      expect(output).toContain('1000')
+      expect(output).toContain('30000')
+    })
+
     it('should display plugin info in editing mode', () => {
       useSettingsStore.setState({ selectedPlugin: mockPluginWithConfig })
 
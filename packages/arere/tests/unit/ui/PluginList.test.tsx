@@ -4,6 +4,7 @@
  * PluginListScreen uses Zustand stores for state, so tests mock the stores.
  */
 
+import { t } from '@/i18n/index.js'
 import type { LoadedPlugin } from '@/plugin/types.js'
 import type { ArereConfig } from '@/config/schema.js'
 import { PluginListScreen as PluginList } from '@/ui/screens/settings/plugins/PluginListScreen.js'
@@ -256,6 +257,50 @@ describe('PluginList', () => {
       expect(capturedHandler).toBeDefined()
     })
 
+    it('should open the install prompt when i is pressed', async () => {
+      useSettingsStore.setState({ currentPlugins: mockPlugins })
+
+      const { lastFrame } = render(<PluginList />)
+
+      capturedHandler?.('i', {})
+
+      await vi.waitFor(() => {
+        expect(lastFrame()).toContain('arere-plugin-git, git@1.2.0')
+      })
+      expect(lastFrame()).not.toContain('arere-plugin-docker')
+    })
+
+    it('should ask for confirmation before removing a plugin', async () => {
+      useSettingsStore.setState({ currentPlugins: mockPlugins })
+
+      const { lastFrame } = render(<PluginList />)
+
+      capturedHandler?.('d', {})
+
+      await vi.waitFor(() => {
+        expect(lastFrame()).toContain('arere-plugin-git')
+        expect(lastFrame()).not.toContain('arere-plugin-docker')
+      })
+    })
+
+    it('should not remove plugins loaded from pluginPaths', async () => {
+      useSettingsStore.setState({
+        currentPlugins: [{ ...mockPlugins[0], source: 'path' }, mockPlugins[1]],
+      })
+
+      const { lastFrame } = render(<PluginList />)
+
+      capturedHandler?.('d', {})
+
+      await vi.waitFor(() => {
+        expect(lastFrame()).toContain(
+          t('ui:plugins.manage.path_source', { name: 'arere-plugin-git' }),
+        )
+      })
+      // Still on the list
+      expect(lastFrame()).toContain('arere-plugin-docker')
+    })
+
     it('should not select when plugin list is empty', () => {
       useSettingsStore.setState({ currentPlugins: [] })
 
@@ -0,0 +1,90 @@
+/**
+ * Tests for RunArgsScreen component
+ *
+ * The form itself is FormScreen's job, so tests capture the props passed to it.
+ */
+
+import type { ArgMeta } from '@/action/args/analyzer.js'
+import type { Action } from '@/action/types.js'
+import { RunArgsScreen } from '@/ui/screens/run-args/RunArgsScreen.js'
+import { useRunArgsStore } from '@/ui/stores/runArgsStore.js'
+import { useScreenStore } from '@/ui/stores/screenStore.js'
+import { EXTRA_ARGS_FIELD } from '@/ui/utils/run-args.js'
+import { render } from 'ink-testing-library'
+import React from 'react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Arguments of the action instead of analyzing a file
+let mockArgs: ArgMeta[] = []
+vi.mock('@/action/cache', () => ({ cacheManager: {} }))
+vi.mock('@/action/metadata-cache', () => ({
+  getActionArgsMeta: () => ({ args: mockArgs }),
+}))
+
+const mockRunAction = vi.fn()
+vi.mock('@/ui/hooks/useActionExecution', () => ({
+  useActionExecution: () => ({ runAction: mockRunAction, openArgsForm: vi.fn() }),
+}))
+
+// Props passed to the last rendered form
+let formProps: any = null
+vi.mock('@/ui/screens/prompt/form/FormScreen', () => ({
+  FormScreen: (props: any) => {
+    formProps = props
+    return React.createElement('form-screen')
+  },
+}))
+
+describe('RunArgsScreen', () => {
+  const action: Action = {
+    meta: { name: 'deploy', description: 'Deploy' },
+    filePath: '/project/.arere/actions/deploy.ts',
+    run: async () => {},
+  }
+
+  beforeEach(() => {
+    formProps = null
+    mockRunAction.mockClear()
+    mockArgs = [
+      { name: 'env', type: 'select', choices: ['dev', 'prod'] },
+      { name: 'token', type: 'password' },
+    ]
+    useRunArgsStore.setState({ action, returnScreen: 'search', lastValues: {} })
+    useScreenStore.setState({ screen: 'run-args' })
+  })
+
+  it('should show a form of the action arguments', () => {
+    render(<RunArgsScreen />)
+
+    expect(formProps.form.title).toBe('deploy')
+    expect(Object.keys(formProps.form.fields)).toEqual(['env', 'token', EXTRA_ARGS_FIELD])
+  })
+
+  it('should run the action with the entered arguments and remember them', () => {
+    render(<RunArgsScreen />)
+
+    formProps.onSubmit({ env: 'prod', token: 'secret', [EXTRA_ARGS_FIELD]: '-v' })
+
+    expect(mockRunAction).toHaveBeenCalledWith(action, ['--env=prod', '-v'], { token: 'secret' })
+    expect(useRunArgsStore.getState().lastValues).toEqual({
+      'local:deploy': { env: 'prod', [EXTRA_ARGS_FIELD]: '-v' },
+    })
+  })
+
+  it('should prefill the arguments used last time', () => {
+    useRunArgsStore.setState({ lastValues: { 'local:deploy': { env: 'dev' } } })
+
+    render(<RunArgsScreen />)
+
+    expect(formProps.form.fields.env.defaultValue).toBe('dev')
+  })
+
+  it('should return to the previous screen when cancelled', () => {
+    render(<RunArgsScreen />)
+
+    formProps.onCancel()
+
+    expect(useScreenStore.getState().screen).toBe('search')
+    expect(mockRunAction).not.toHaveBeenCalled()
+  })
+})
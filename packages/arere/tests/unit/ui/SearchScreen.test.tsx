@@ -5,20 +5,35 @@
  */
 
 import type { Action } from '@/action/types.js'
+import type { ActionUsageMap } from '@/action/usage.js'
 import type { ArereConfig } from '@/config/schema.js'
 import { SearchScreen } from '@/ui/screens/search/SearchScreen.js'
 import { useScreenStore } from '@/ui/stores/screenStore.js'
+import { useSearchStore } from '@/ui/stores/searchStore.js'
 import { useSettingsStore } from '@/ui/stores/settingsStore.js'
 import { render } from 'ink-testing-library'
 import React from 'react'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 // Store callbacks for testing
-let searchInputCallbacks: { onChange?: any; onSubmit?: any } = {}
+let searchInputCallbacks: { onChange?: any; onSubmit?: any; value?: string } = {}
+
+// Props passed to the last rendered ActionList
+let listedActions: Action[] = []
+let listedHighlights: Map<Action, Record<string, readonly number[]>> | undefined
+
+// Control usage statistics instead of reading the home directory
+let mockUsage: ActionUsageMap = {}
+vi.mock('@/action/usage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/action/usage')>()),
+  usageManager: { getAll: () => mockUsage },
+}))
 
 // Mock child components to isolate SearchScreen logic
 vi.mock('@/ui/components/ActionList.js', () => ({
-  ActionList: ({ actions, onSelect }: any) => {
+  ActionList: ({ actions, highlights }: any) => {
+    listedActions = actions
+    listedHighlights = highlights
     return React.createElement('action-list', {
       'data-testid': 'action-list',
       'data-count': actions.length,
@@ -29,7 +44,7 @@ vi.mock('@/ui/components/ActionList.js', () => ({
 vi.mock('@/ui/components/inputs/TextInput.js', () => ({
   TextInput: ({ value, onChange, onSubmit, isFocused, placeholder, mode }: any) => {
     // Store callbacks for testing
-    searchInputCallbacks = { onChange, onSubmit }
+    searchInputCallbacks = { onChange, onSubmit, value }
     return React.createElement('text-input', {
       'data-testid': 'text-input',
       'data-value': value,
@@ -157,6 +172,10 @@ describe('SearchScreen', () => {
   beforeEach(() => {
     capturedHandler = null
     searchInputCallbacks = {}
+    listedActions = []
+    listedHighlights = undefined
+    mockUsage = {}
+    useSearchStore.setState({ queryHistory: [] })
     vi.clearAllMocks()
     resetStores()
   })
@@ -412,16 +431,16 @@ describe('SearchScreen', () => {
       expect(frame).not.toContain('結果が見つかりません')
     })
 
-    it('should search by partial category name', () => {
+    it('should filter by category label', () => {
       useSettingsStore.setState({ currentActions: extendedMockActions })
 
       const { lastFrame } = render(<SearchScreen />)
 
-      // Search by partial category
-      searchInputCallbacks.onChange?.('tutorial')
+      // Category label of plugin:arere-plugin-tutorial
+      searchInputCallbacks.onChange?.('cat:tutorial')
 
       const frame = lastFrame()
-      // Should find actions with "tutorial" in category or tags
+      // Should find actions in the "tutorial" category
       expect(frame).toBeTruthy()
       expect(frame).not.toContain('結果が見つかりません')
     })
@@ -440,13 +459,13 @@ describe('SearchScreen', () => {
       expect(frame).not.toContain('結果が見つかりません')
     })
 
-    it('should search by multiple tags', () => {
+    it('should filter by multiple tags', () => {
       useSettingsStore.setState({ currentActions: extendedMockActions })
 
       const { lastFrame } = render(<SearchScreen />)
 
-      // Search by multiple tags (fuzzy search will match if any tag matches)
-      searchInputCallbacks.onChange?.('api output')
+      // Search by multiple tags (every tag must match)
+      searchInputCallbacks.onChange?.('#api #output')
 
       const frame = lastFrame()
       // Should find actions with matching tags
@@ -485,8 +504,8 @@ describe('SearchScreen', () => {
 
       const { lastFrame } = render(<SearchScreen />)
 
-      // Search by category
-      searchInputCallbacks.onChange?.('test-category')
+      // Filter by category
+      searchInputCallbacks.onChange?.('cat:test-category')
 
       const frame = lastFrame()
       expect(frame).toBeTruthy()
@@ -510,8 +529,8 @@ describe('SearchScreen', () => {
 
       const { lastFrame } = render(<SearchScreen />)
 
-      // Search by tag
-      searchInputCallbacks.onChange?.('testing')
+      // Filter by tag
+      searchInputCallbacks.onChange?.('#testing')
 
       const frame = lastFrame()
       expect(frame).toBeTruthy()
@@ -613,4 +632,137 @@ describe('SearchScreen', () => {
       expect(lastFrame()).toBeTruthy()
     })
   })
+
+  describe('Ranking', () => {
+    const names = () => listedActions.map((action) => action.meta.name)
+
+    it('should pin bookmarked actions without a query', () => {
+      useSettingsStore.setState({
+        currentConfig: { ...mockConfig, bookmarks: ['local:demo-action'] },
+      })
+
+      render(<SearchScreen />)
+
+      expect(names()).toEqual(['demo-action', 'test-action-1', 'example-action'])
+    })
+
+    it('should rank frequently used actions first among close matches', () => {
+      const { rerender } = render(<SearchScreen />)
+      searchInputCallbacks.onChange?.('action')
+      rerender(<SearchScreen />)
+      const byScore = names()
+
+      mockUsage = { 'local:example-action': { count: 20, lastUsedAt: Date.now() } }
+      const { rerender: rerenderWithUsage } = render(<SearchScreen />)
+      searchInputCallbacks.onChange?.('action')
+      rerenderWithUsage(<SearchScreen />)
+
+      expect(byScore[0]).not.toBe('example-action')
+      expect(names()[0]).toBe('example-action')
+    })
+  })
+
+  describe('Query syntax', () => {
+    const names = () => listedActions.map((action) => action.meta.name)
+
+    it('should combine filters with free text', () => {
+      useSettingsStore.setState({ currentActions: extendedMockActions })
+
+      const { rerender } = render(<SearchScreen />)
+      searchInputCallbacks.onChange?.('#demo -plugin:tutorial api')
+      rerender(<SearchScreen />)
+
+      expect(names()).toEqual(['api-test'])
+    })
+
+    it('should keep the list order for filters without free text', () => {
+      useSettingsStore.setState({
+        currentActions: extendedMockActions,
+        currentConfig: { ...mockConfig, bookmarks: ['local:git-status'] },
+      })
+
+      const { rerender } = render(<SearchScreen />)
+      searchInputCallbacks.onChange?.('is:bookmarked')
+      rerender(<SearchScreen />)
+
+      expect(names()).toEqual(['git-status'])
+      expect(listedHighlights).toBeUndefined()
+    })
+
+    it('should not match tags with free text', () => {
+      useSettingsStore.setState({ currentActions: extendedMockActions })
+
+      const { lastFrame, rerender } = render(<SearchScreen />)
+      searchInputCallbacks.onChange?.('vcs')
+      rerender(<SearchScreen />)
+
+      expect(lastFrame()).toContain('結果が見つかりません')
+    })
+
+    it('should pass matched characters to the list', () => {
+      const { rerender } = render(<SearchScreen />)
+      searchInputCallbacks.onChange?.('demo')
+      rerender(<SearchScreen />)
+
+      expect(names()[0]).toBe('demo-action')
+      expect(listedHighlights?.get(listedActions[0])?.name).toEqual([0, 1, 2, 3])
+    })
+  })
+
+  describe('Query history', () => {
+    const submit = (query: string, rerender: (tree: React.ReactElement) => void) => {
+      searchInputCallbacks.onChange?.(query)
+      rerender(<SearchScreen />)
+      searchInputCallbacks.onSubmit?.()
+      rerender(<SearchScreen />)
+    }
+
+    it('should remember submitted queries', () => {
+      const { rerender } = render(<SearchScreen />)
+      submit('demo', rerender)
+      submit('  ', rerender)
+
+      expect(useSearchStore.getState().queryHistory).toEqual(['demo'])
+    })
+
+    it('should recall queries with the up and down arrows', () => {
+      useSearchStore.setState({ queryHistory: ['demo', 'cat:git'] })
+
+      const { rerender } = render(<SearchScreen />)
+      searchInputCallbacks.onChange?.('ex')
+      rerender(<SearchScreen />)
+
+      capturedHandler?.('', { upArrow: true })
+      rerender(<SearchScreen />)
+      expect(searchInputCallbacks.value).toBe('cat:git')
+
+      capturedHandler?.('', { upArrow: true })
+      rerender(<SearchScreen />)
+      capturedHandler?.('', { upArrow: true })
+      rerender(<SearchScreen />)
+      expect(searchInputCallbacks.value).toBe('demo')
+
+      capturedHandler?.('', { downArrow: true })
+      rerender(<SearchScreen />)
+      expect(searchInputCallbacks.value).toBe('cat:git')
+
+      // Past the newest entry, the typed query comes back
+      capturedHandler?.('', { downArrow: true })
+      rerender(<SearchScreen />)
+      expect(searchInputCallbacks.value).toBe('ex')
+    })
+
+    it('should keep the history across search screens', () => {
+      const { rerender, unmount } = render(<SearchScreen />)
+      submit('demo', rerender)
+      unmount()
+
+      const { rerender: rerenderNext } = render(<SearchScreen />)
+      expect(searchInputCallbacks.value).toBe('')
+      capturedHandler?.('', { upArrow: true })
+      rerenderNext(<SearchScreen />)
+
+      expect(searchInputCallbacks.value).toBe('demo')
+    })
+  })
 })
@@ -35,6 +35,19 @@ describe('ArereRender', () => {
     expect(lastFrame()).toContain('hi')
   })
 
+  it('renders highlighted characters without changing the text', () => {
+    const { lastFrame } = render(
+      <ArereRender
+        format="[${category}] ${name}"
+        data={{ category: 'git', name: 'checkout' }}
+        width={80}
+        highlights={{ name: [0, 5], category: [0] }}
+      />,
+    )
+
+    expect(lastFrame()).toContain('[git] checkout')
+  })
+
   it('renders selected state with primary color', () => {
     const { lastFrame } = render(
       <ArereRender
@@ -0,0 +1,62 @@
+/**
+ * Tests for useActionExecution hook
+ */
+
+import type { RunRecord } from '@/action/history.js'
+import type { Action } from '@/action/types.js'
+import { defaultConfig } from '@/config/schema.js'
+import { useActionExecution } from '@/ui/hooks/useActionExecution.js'
+import { useSettingsStore } from '@/ui/stores/settingsStore.js'
+import { buildRunArgs, getPasswordAnswers } from '@/ui/utils/run-args.js'
+import { Text } from 'ink'
+import { render } from 'ink-testing-library'
+import React from 'react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Capture run records instead of writing the home directory
+const recorded: RunRecord[] = []
+vi.mock('@/action/history', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/action/history')>()),
+  historyManager: { add: (record: RunRecord) => recorded.push(record) },
+}))
+vi.mock('@/action/usage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/action/usage')>()),
+  usageManager: { record: () => {} },
+}))
+
+let execution: ReturnType<typeof useActionExecution>
+const TestComponent: React.FC = () => {
+  execution = useActionExecution()
+  return <Text>test</Text>
+}
+
+describe('useActionExecution', () => {
+  beforeEach(() => {
+    recorded.length = 0
+    useSettingsStore.setState({ currentConfig: defaultConfig, currentPlugins: [], currentActions: [] })
+  })
+
+  it('should answer password prompts without recording the password', async () => {
+    let token: string | undefined
+    const action: Action = {
+      meta: { name: 'publish', description: 'Publish' },
+      filePath: '/project/.arere/actions/publish.ts',
+      run: async ({ tui }) => {
+        token = await tui.prompt.password('Token', { arg: 'token' })
+      },
+    }
+    const args = [
+      { name: 'env', type: 'text' as const },
+      { name: 'token', type: 'password' as const },
+    ]
+    const values = { env: 'prod', token: 's3cret' }
+    render(<TestComponent />)
+
+    await execution.runAction(action, buildRunArgs(args, values), getPasswordAnswers(args, values))
+
+    expect(token).toBe('s3cret')
+    expect(recorded).toHaveLength(1)
+    expect(recorded[0].args).toEqual(['--env=prod'])
+    expect(JSON.stringify(recorded[0])).not.toContain('s3cret')
+  })
+})
@@ -10,6 +10,8 @@
  * - Escape navigation
  * - '?' for help
  * - 's' for settings
+ * - 'h' for run history
+ * - Ctrl+X to abort the running action
  */
 
 import type { UseKeyboardInputProps } from '@/ui/hooks/app/useKeyboardInput.js'
@@ -244,6 +246,107 @@ describe('useKeyboardInput', () => {
     })
   })
 
+  describe('Abort on executing screen', () => {
+    it('should call onAbort when Ctrl+X is pressed while executing', () => {
+      const onAbort = vi.fn()
+      render(
+        <TestComponent
+          screen="executing"
+          setScreen={setScreen}
+          setSelectedAction={setSelectedAction}
+          setSelectedPlugin={setSelectedPlugin}
+          setExecutionError={setExecutionError}
+          onAbort={onAbort}
+          onExit={onExit}
+        />,
+      )
+
+      capturedHandler?.('x', { ctrl: true })
+      expect(onAbort).toHaveBeenCalledTimes(1)
+      expect(setScreen).not.toHaveBeenCalled()
+    })
+
+    it('should not abort with Escape (it goes back)', () => {
+      const onAbort = vi.fn()
+      render(
+        <TestComponent
+          screen="executing"
+          setScreen={setScreen}
+          setSelectedAction={setSelectedAction}
+          setSelectedPlugin={setSelectedPlugin}
+          setExecutionError={setExecutionError}
+          onAbort={onAbort}
+          onExit={onExit}
+        />,
+      )
+
+      capturedHandler?.('', { escape: true })
+      expect(onAbort).not.toHaveBeenCalled()
+    })
+
+    it('should call onAbort while the running action waits on a prompt', () => {
+      const onAbort = vi.fn()
+      render(
+        <TestComponent
+          screen="input"
+          setScreen={setScreen}
+          setSelectedAction={setSelectedAction}
+          setSelectedPlugin={setSelectedPlugin}
+          setExecutionError={setExecutionError}
+          isExecuting
+          onAbort={onAbort}
+          onExit={onExit}
+        />,
+      )
+
+      // Other keys are left to the prompt
+      capturedHandler?.('q', {})
+      capturedHandler?.('', { escape: true })
+      expect(onExit).not.toHaveBeenCalled()
+      expect(onAbort).not.toHaveBeenCalled()
+
+      capturedHandler?.('x', { ctrl: true })
+      expect(onAbort).toHaveBeenCalledTimes(1)
+      expect(setScreen).not.toHaveBeenCalled()
+    })
+
+    it('should not call onAbort on other screens', () => {
+      const onAbort = vi.fn()
+      render(
+        <TestComponent
+          screen="help"
+          setScreen={setScreen}
+          setSelectedAction={setSelectedAction}
+          setSelectedPlugin={setSelectedPlugin}
+          setExecutionError={setExecutionError}
+          onAbort={onAbort}
+          onExit={onExit}
+        />,
+      )
+
+      capturedHandler?.('x', { ctrl: true })
+      capturedHandler?.('', { escape: true })
+      expect(onAbort).not.toHaveBeenCalled()
+      expect(setScreen).toHaveBeenCalledWith('list')
+    })
+
+    it('should return to list from cancelled screen', () => {
+      render(
+        <TestComponent
+          screen="cancelled"
+          setScreen={setScreen}
+          setSelectedAction={setSelectedAction}
+          setSelectedPlugin={setSelectedPlugin}
+          setExecutionError={setExecutionError}
+          onExit={onExit}
+        />,
+      )
+
+      capturedHandler?.('', { return: true })
+      expect(setScreen).toHaveBeenCalledWith('list')
+    })
+  })
+
   describe('Escape navigation', () => {
     // Note: plugin-detail screen now handles its own Escape key internally (in PluginDetail.tsx)
     // so this test has been removed
@@ -390,6 +493,40 @@ describe('useKeyboardInput', () => {
     })
   })
 
+  describe('h for history', () => {
+    it('should navigate to history when h is pressed on list', () => {
+      render(
+        <TestComponent
+          screen="list"
+          setScreen={setScreen}
+          setSelectedAction={setSelectedAction}
+          setSelectedPlugin={setSelectedPlugin}
+          setExecutionError={setExecutionError}
+          onExit={onExit}
+        />,
+      )
+
+      capturedHandler?.('h', {})
+      expect(setScreen).toHaveBeenCalledWith('history')
+    })
+
+    it('should leave Escape on history to the history screen', () => {
+      render(
+        <TestComponent
+          screen="history"
+          setScreen={setScreen}
+          setSelectedAction={setSelectedAction}
+          setSelectedPlugin={setSelectedPlugin}
+          setExecutionError={setExecutionError}
+          onExit={onExit}
+        />,
+      )
+
+      capturedHandler?.('', { escape: true })
+      expect(setScreen).not.toHaveBeenCalled()
+    })
+  })
+
   describe('isActive condition', () => {
     it('should not handle input on input screen', () => {
       render(
@@ -2,7 +2,17 @@
  * Schema to fields conversion tests
  */
 
-import { schemaToFields } from '@/ui/utils/schema-to-fields.js'
+import { secret } from '@/secrets/schema.js'
+import {
+  flattenFields,
+  formatFieldValue,
+  getFieldError,
+  getFieldValue,
+  parseFieldValue,
+  schemaToFields,
+  setFieldValue,
+  validateSchemaValues,
+} from '@/ui/utils/schema-to-fields.js'
 import { describe, expect, it } from 'vitest'
 import { z } from 'zod'
 
@@ -192,4 +202,156 @@ describe('Schema to Fields Conversion', () => {
     expect(fields[1].name).toBe('second')
     expect(fields[2].name).toBe('third')
   })
+
+  it('should extract number bounds from checks', () => {
+    const schema = z.object({
+      port: z.number().int().min(1).max(65535),
+    })
+
+    const fields = schemaToFields(schema)
+
+    expect(fields[0]).toMatchObject({ type: 'number', min: 1, max: 65535 })
+  })
+
+  it('should convert a union of literals to an enum field', () => {
+    const schema = z.object({
+      level: z.union([z.literal('low'), z.literal('high'), z.literal(3)]),
+      mixed: z.union([z.literal('a'), z.string()]),
+    })
+
+    const fields = schemaToFields(schema)
+
+    expect(fields).toHaveLength(1)
+    expect(fields[0].type).toBe('enum')
+    expect(fields[0].choices).toEqual([
+      { label: 'low', value: 'low' },
+      { label: 'high', value: 'high' },
+      { label: '3', value: 3 },
+    ])
+  })
+
+  it('should convert array and record fields with their item field', () => {
+    const schema = z.object({
+      tags: z.array(z.string()).default([]),
+      env: z.record(z.string()),
+    })
+
+    const fields = schemaToFields(schema)
+
+    expect(fields[0]).toMatchObject({
+      name: 'tags',
+      type: 'array',
+      defaultValue: [],
+      item: { type: 'string' },
+    })
+    expect(fields[1]).toMatchObject({ name: 'env', type: 'record', item: { type: 'string' } })
+  })
+
+  it('should convert nested objects and flatten them to editable fields', () => {
+    const schema = z.object({
+      server: z.object({
+        host: z.string(),
+        port: z.number().optional(),
+      }),
+      debug: z.boolean(),
+    })
+
+    const fields = schemaToFields(schema)
+
+    expect(fields[0].type).toBe('object')
+    expect(fields[0].fields?.map((field) => field.name)).toEqual(['server.host', 'server.port'])
+    expect(flattenFields(fields).map((field) => field.name)).toEqual([
+      'server.host',
+      'server.port',
+      'debug',
+    ])
+  })
+
+  it('should mark secret fields and mask their values', () => {
+    const schema = z.object({
+      token: secret(z.string()).optional().describe('API token'),
+      owner: z.string(),
+    })
+
+    const [token, owner] = schemaToFields(schema)
+
+    expect(token).toMatchObject({ name: 'token', type: 'string', required: false, secret: true })
+    expect(owner.secret).toBeUndefined()
+    expect(formatFieldValue(token, 'ghp_secret')).toBe('••••••••')
+    expect(formatFieldValue(token, '')).toBe('')
+  })
+})
+
+describe('Field values', () => {
+  const fields = schemaToFields(
+    z.object({
+      ports: z.array(z.number()),
+      headers: z.record(z.string()),
+      timeout: z.number(),
+      level: z.union([z.literal(1), z.literal(2)]),
+    }),
+  )
+  const [ports, headers, timeout, level] = fields
+
+  it('should get and set values by dot-separated name', () => {
+    const values = setFieldValue({ server: { host: 'a' } }, 'server.port', 80)
+
+    expect(values).toEqual({ server: { host: 'a', port: 80 } })
+    expect(getFieldValue(values, 'server.port')).toBe(80)
+    expect(getFieldValue(values, 'missing.port')).toBeUndefined()
+  })
+
+  it('should format arrays as lists and records as JSON', () => {
+    expect(formatFieldValue(ports, [80, 443])).toBe('80, 443')
+    expect(formatFieldValue(headers, { a: 'b' })).toBe('{"a":"b"}')
+    expect(formatFieldValue(timeout, undefined)).toBe('')
+  })
+
+  it('should parse entered text for the field type', () => {
+    expect(parseFieldValue(ports, '80, 443,')).toEqual({ value: [80, 443] })
+    expect(parseFieldValue(headers, '{"a":"b"}')).toEqual({ value: { a: 'b' } })
+    expect(parseFieldValue(timeout, '1000')).toEqual({ value: 1000 })
+    expect(parseFieldValue(level, '2')).toEqual({ value: 2 })
+  })
+
+  it('should report text that cannot be converted', () => {
+    expect(parseFieldValue(ports, '80, abc').error).toBeDefined()
+    expect(parseFieldValue(headers, '{a}').error).toBeDefined()
+    expect(parseFieldValue(timeout, '').error).toBeDefined()
+  })
+})
+
+describe('validateSchemaValues', () => {
+  const schema = z
+    .object({
+      server: z.object({ port: z.number().max(65535) }),
+      tags: z.array(z.string()),
+      min: z.number().default(0),
+      max: z.number().default(10),
+    })
+    .refine((config) => config.min <= config.max, { message: 'min must not exceed max' })
+
+  it('should return no errors for valid values', () => {
+    expect(validateSchemaValues(schema, { server: { port: 80 }, tags: [] })).toEqual({})
+  })
+
+  it('should return the first error of each path', () => {
+    const errors = validateSchemaValues(schema, { server: { port: 70000 }, tags: ['a', 1] })
+
+    expect(Object.keys(errors)).toEqual(['server.port', 'tags.1'])
+    expect(getFieldError(errors, 'server.port')).toBe(errors['server.port'])
+    expect(getFieldError(errors, 'tags')).toBe(errors['tags.1'])
+    expect(getFieldError(errors, 'min')).toBeUndefined()
+  })
+
+  it('should report refinements of the whole schema under an empty path', () => {
+    const errors = validateSchemaValues(schema, {
+      server: { port: 80 },
+      tags: [],
+      min: 5,
+      max: 1,
+    })
+
+    expect(errors).toEqual({ '': 'min must not exceed max' })
+  })
 })
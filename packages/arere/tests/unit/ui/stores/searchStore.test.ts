@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { MAX_QUERY_HISTORY, useSearchStore } from '@/ui/stores/searchStore'
+
+describe('searchStore - query history', () => {
+  beforeEach(() => {
+    useSearchStore.setState({ queryHistory: [] })
+  })
+
+  it('remembers trimmed queries and skips empty ones', () => {
+    const { addQuery } = useSearchStore.getState()
+    addQuery(' #git ')
+    addQuery('   ')
+
+    expect(useSearchStore.getState().queryHistory).toEqual(['#git'])
+  })
+
+  it('moves a repeated query to the end', () => {
+    const { addQuery } = useSearchStore.getState()
+    addQuery('deploy')
+    addQuery('#git')
+    addQuery('deploy')
+
+    expect(useSearchStore.getState().queryHistory).toEqual(['#git', 'deploy'])
+  })
+
+  it('keeps the most recent queries only', () => {
+    const { addQuery } = useSearchStore.getState()
+    for (let i = 0; i <= MAX_QUERY_HISTORY; i++) {
+      addQuery(`query-${i}`)
+    }
+
+    const { queryHistory } = useSearchStore.getState()
+    expect(queryHistory).toHaveLength(MAX_QUERY_HISTORY)
+    expect(queryHistory[0]).toBe('query-1')
+  })
+})
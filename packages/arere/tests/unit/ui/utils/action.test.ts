@@ -1,5 +1,5 @@
-import type { Action, ActionContext, TuiAPI } from '@/action/types'
-import { actionToRenderData, formatTags } from '@/ui/utils/action'
+import type { Action, ActionContext, SecretsAPI, ShellExecutor, TuiAPI } from '@/action/types'
+import { actionToRenderData, formatTags, getShadowedActions } from '@/ui/utils/action'
 import { describe, expect, it } from 'vitest'
 
 describe('formatTags', () => {
@@ -36,13 +36,20 @@ describe('actionToRenderData', () => {
 
   const createMockContext = (): ActionContext => ({
     t: (key: string) => key,
-    $: async () => ({ stdout: '', stderr: '', exitCode: 0 }),
+    $: (async () => ({ stdout: '', stderr: '', exitCode: 0 })) as unknown as ShellExecutor,
     tui: {} as TuiAPI,
     env: {},
     cwd: '/test',
     config: {},
     pluginConfig: {},
+    secrets: {} as SecretsAPI,
     args: [],
+    argv: {},
+    signal: new AbortController().signal,
+    exit: () => {
+      throw new Error('exit')
+    },
+    runAction: async () => {},
   })
 
   it('creates RenderData with selectIcon for selected item', () => {
@@ -132,6 +139,27 @@ describe('actionToRenderData', () => {
     expect(result.plugin).toBe('Demo Plugin')
   })
 
+  it('shows the action shadowing this one after the description', () => {
+    const action = createMockAction({ meta: { name: 'test', description: 'Test' } })
+    const context = createMockContext()
+
+    const result = actionToRenderData({ action, context, shadowedBy: 'project/test' })
+
+    expect(result.description).toMatch(/^Test \(.*project\/test.*\)$/)
+  })
+
+  it('uses the action root label as source', () => {
+    const action = createMockAction({
+      meta: { name: 'test', description: 'Test', category: 'project' },
+      source: 'tools',
+    })
+    const context = createMockContext()
+
+    const result = actionToRenderData({ action, context })
+
+    expect(result.source).toBe('tools')
+  })
+
   it('includes action name', () => {
     const action = createMockAction({ meta: { name: 'my-action', description: 'Test' } })
     const context = createMockContext()
@@ -168,3 +196,26 @@ describe('actionToRenderData', () => {
     expect(result.tags).toBe('')
   })
 })
+
+describe('getShadowedActions', () => {
+  const createAction = (name: string, location: Action['location']): Action => ({
+    meta: { name, description: name },
+    filePath: `/test/${name}.ts`,
+    location,
+    run: async () => {},
+  })
+
+  it('maps earlier actions with the same name to the action shadowing them', () => {
+    const plugin = createAction('deploy', { plugin: 'arere-plugin-k8s' })
+    const global = createAction('deploy', 'global')
+    const project = createAction('deploy', 'project')
+    const lint = createAction('lint', 'global')
+
+    const shadowed = getShadowedActions([plugin, global, lint, project])
+
+    expect(shadowed.get(plugin)).toBe('project/deploy')
+    expect(shadowed.get(global)).toBe('project/deploy')
+    expect(shadowed.has(project)).toBe(false)
+    expect(shadowed.has(lint)).toBe(false)
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Tests for the category tree of the grouped action list
+ */
+
+import type { Action } from '@/action/types.js'
+import {
+  type ActionListRow,
+  buildCategoryTree,
+  findNextGroupRow,
+  findParentGroupRow,
+  flattenCategoryTree,
+  getCategoryPath,
+} from '@/ui/utils/category-tree.js'
+import { describe, expect, it } from 'vitest'
+
+function createAction(name: string, category?: string): Action {
+  return {
+    meta: { name, description: name, category },
+    filePath: `/project/.arere/actions/${name}.ts`,
+    run: async () => {},
+  }
+}
+
+const actions = [
+  createAction('status', 'git'),
+  createAction('checkout', 'git/branch'),
+  createAction('build'),
+  createAction('deploy', 'ops'),
+  createAction('create', 'git/branch'),
+]
+
+/** Rows as readable strings (`▾ git (3)`, `  status`) */
+const describeRows = (rows: ActionListRow[]) =>
+  rows.map((row) =>
+    row.type === 'group'
+      ? `${'  '.repeat(row.depth)}${row.expanded ? '▾' : '▸'} ${row.label} (${row.count})`
+      : `${'  '.repeat(row.depth)}${row.action.meta.name}`,
+  )
+
+describe('getCategoryPath', () => {
+  it('should split nested categories', () => {
+    expect(getCategoryPath(createAction('a', 'git/branch'))).toEqual(['git', 'branch'])
+    expect(getCategoryPath(createAction('a', ' git / branch /'))).toEqual(['git', 'branch'])
+  })
+
+  it('should use the category label of plugin actions', () => {
+    expect(getCategoryPath(createAction('a', 'plugin:arere-plugin-docker'))).toEqual(['docker'])
+  })
+
+  it('should be empty without a category', () => {
+    expect(getCategoryPath(createAction('a'))).toEqual([])
+  })
+})
+
+describe('flattenCategoryTree', () => {
+  it('should fold actions under nested groups in list order', () => {
+    const rows = flattenCategoryTree(buildCategoryTree(actions), new Set())
+
+    expect(describeRows(rows)).toEqual([
+      '▾ git (3)',
+      '  status',
+      '  ▾ branch (2)',
+      '    checkout',
+      '    create',
+      'build',
+      '▾ ops (1)',
+      '  deploy',
+    ])
+  })
+
+  it('should hide the entries of collapsed groups', () => {
+    const rows = flattenCategoryTree(buildCategoryTree(actions), new Set(['git/branch', 'ops']))
+
+    expect(describeRows(rows)).toEqual([
+      '▾ git (3)',
+      '  status',
+      '  ▸ branch (2)',
+      'build',
+      '▸ ops (1)',
+    ])
+  })
+})
+
+describe('group navigation', () => {
+  const rows = flattenCategoryTree(buildCategoryTree(actions), new Set())
+
+  it('should find the enclosing group', () => {
+    expect(findParentGroupRow(rows, 3)).toBe(2) // checkout → branch
+    expect(findParentGroupRow(rows, 2)).toBe(0) // branch → git
+    expect(findParentGroupRow(rows, 5)).toBe(-1) // build is top-level
+  })
+
+  it('should jump to the next and previous group with wrap-around', () => {
+    expect(findNextGroupRow(rows, 0, 1)).toBe(2)
+    expect(findNextGroupRow(rows, 3, 1)).toBe(6)
+    expect(findNextGroupRow(rows, 6, 1)).toBe(0)
+    expect(findNextGroupRow(rows, 0, -1)).toBe(6)
+  })
+
+  it('should stay in place without other groups', () => {
+    const flat = flattenCategoryTree(buildCategoryTree([createAction('a'), createAction('b')]), new Set())
+
+    expect(findNextGroupRow(flat, 1, 1)).toBe(1)
+  })
+})
@@ -0,0 +1,56 @@
+/**
+ * Tests for the source excerpt highlighting
+ */
+
+import { type CodeToken, highlightSource } from '@/ui/utils/highlight.js'
+import { describe, expect, it } from 'vitest'
+
+/** Tokens as `kind:text` strings */
+const describeLine = (tokens: CodeToken[]) => tokens.map((token) => `${token.kind}:${token.text}`)
+
+describe('highlightSource', () => {
+  it('should highlight keywords, strings, numbers and comments', () => {
+    const [line] = highlightSource("const retries = 3 // 'not a string'")
+
+    expect(describeLine(line)).toEqual([
+      'keyword:const',
+      'plain: retries = ',
+      'number:3',
+      'plain: ',
+      "comment:// 'not a string'",
+    ])
+  })
+
+  it('should keep escaped quotes inside strings', () => {
+    const [line] = highlightSource("say('it\\'s', \"ok\")")
+
+    expect(describeLine(line)).toEqual([
+      'plain:say(',
+      "string:'it\\'s'",
+      'plain:, ',
+      'string:"ok"',
+      'plain:)',
+    ])
+  })
+
+  it('should not treat keywords inside identifiers as keywords', () => {
+    const [line] = highlightSource('important_if')
+
+    expect(describeLine(line)).toEqual(['plain:important_if'])
+  })
+
+  it('should carry block comments and template literals across lines', () => {
+    const lines = highlightSource('/* a\nb */ x\nconst s = `1\n2` + y')
+
+    expect(lines.map(describeLine)).toEqual([
+      ['comment:/* a'],
+      ['comment:b */', 'plain: x'],
+      ['keyword:const', 'plain: s = ', 'string:`1'],
+      ['string:2`', 'plain: + y'],
+    ])
+  })
+
+  it('should keep empty lines', () => {
+    expect(highlightSource('a\n\nb')).toHaveLength(3)
+  })
+})
@@ -0,0 +1,28 @@
+/**
+ * Tests for plugin display utilities
+ */
+
+import os from 'node:os'
+import path from 'node:path'
+import { t } from '@/i18n/index.js'
+import { formatPluginSource } from '@/ui/utils/plugin.js'
+import { describe, expect, it } from 'vitest'
+
+describe('formatPluginSource', () => {
+  const pluginPath = path.join(os.homedir(), 'src', 'arere-plugin-deploy')
+
+  it('should show the source and the path relative to the home directory', () => {
+    expect(formatPluginSource({ path: pluginPath, source: 'path' })).toBe(
+      t('ui:plugins.list.source', {
+        source: t('ui:plugins.source.path'),
+        path: path.join('~', 'src', 'arere-plugin-deploy'),
+      }),
+    )
+  })
+
+  it('should show only the path when the source is unknown', () => {
+    expect(formatPluginSource({ path: '/opt/plugins/arere-plugin-git' })).toBe(
+      '/opt/plugins/arere-plugin-git',
+    )
+  })
+})
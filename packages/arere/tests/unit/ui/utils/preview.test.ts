@@ -0,0 +1,87 @@
+/**
+ * Tests for the action preview layout and details
+ */
+
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { Action } from '@/action/types.js'
+import {
+  PREVIEW_MIN_COLUMNS,
+  getPreviewLayout,
+  getSourceExcerpt,
+  loadActionPreviewDetails,
+} from '@/ui/utils/preview.js'
+import { describe, expect, it, vi } from 'vitest'
+
+// Keep the action metadata cache out of the home directory
+vi.mock('@/action/cache', async (importOriginal) => {
+  const { mkdtempSync } = await import('node:fs')
+  const { tmpdir } = await import('node:os')
+  const { join } = await import('node:path')
+  const original = await importOriginal<typeof import('@/action/cache')>()
+  return {
+    ...original,
+    cacheManager: new original.CacheManager(mkdtempSync(join(tmpdir(), 'arere-cache-'))),
+  }
+})
+
+const createAction = (filePath: string): Action => ({
+  meta: { name: 'greet', description: 'Greet someone' },
+  filePath,
+  run: async () => {},
+})
+
+describe('getPreviewLayout', () => {
+  it('should split the width between the list and the preview', () => {
+    const layout = getPreviewLayout(120)
+
+    expect(layout).toEqual({ listWidth: 66, previewWidth: 54 })
+  })
+
+  it('should collapse on narrow terminals', () => {
+    expect(getPreviewLayout(PREVIEW_MIN_COLUMNS - 1)).toBeNull()
+    expect(getPreviewLayout(PREVIEW_MIN_COLUMNS)).not.toBeNull()
+  })
+})
+
+describe('getSourceExcerpt', () => {
+  it('should start at the defineAction call', () => {
+    const source = "import { defineAction } from 'arere'\n\nexport default defineAction({\n\tname: 'greet',\n})\n"
+
+    expect(getSourceExcerpt(source)).toBe("export default defineAction({\n  name: 'greet',\n})\n")
+  })
+
+  it('should start at the top without a defineAction call and limit the lines', () => {
+    expect(getSourceExcerpt('a\nb\nc', 2)).toBe('a\nb')
+  })
+})
+
+describe('loadActionPreviewDetails', () => {
+  it('should read the arguments and source of an action', () => {
+    const filePath = join(mkdtempSync(join(tmpdir(), 'arere-preview-')), 'greet.ts')
+    writeFileSync(
+      filePath,
+      [
+        'export default defineAction({',
+        '  run: async ({ tui }) => {',
+        "    await tui.prompt.text('Name?', { arg: 'name', description: 'Who to greet' })",
+        '  },',
+        '})',
+      ].join('\n'),
+    )
+
+    const details = loadActionPreviewDetails(createAction(filePath))
+
+    expect(details.args).toEqual([
+      expect.objectContaining({ name: 'name', type: 'text', description: 'Who to greet' }),
+    ])
+    expect(details.source).toHaveLength(5)
+  })
+
+  it('should have no source for a missing file', () => {
+    const details = loadActionPreviewDetails(createAction('/missing/greet.ts'))
+
+    expect(details).toEqual({ args: [], source: null })
+  })
+})
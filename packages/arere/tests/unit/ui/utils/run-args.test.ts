@@ -0,0 +1,160 @@
+/**
+ * Tests for the "run with arguments" form helpers
+ */
+
+import type { ArgMeta } from '@/action/args/analyzer.js'
+import {
+  EXTRA_ARGS_FIELD,
+  buildRunArgs,
+  createRunArgsFields,
+  getPasswordAnswers,
+  getRememberedArgValues,
+  splitArgsLine,
+} from '@/ui/utils/run-args.js'
+import { describe, expect, it } from 'vitest'
+
+const args: ArgMeta[] = [
+  { name: 'env', short: 'e', type: 'select', choices: ['dev', 'prod'], description: 'Target' },
+  { name: 'count', type: 'number' },
+  { name: 'force', short: 'f', type: 'confirm' },
+  { short: 'v', type: 'confirm' },
+  { index: 0, type: 'text' },
+  { index: 1, type: 'text' },
+  { name: 'token', type: 'password' },
+  { name: 'tags', type: 'multiSelect', choices: ['a', 'b'] },
+]
+
+describe('createRunArgsFields', () => {
+  it('should create an optional field per argument and the extra arguments line', () => {
+    const fields = createRunArgsFields(args)
+
+    expect(Object.keys(fields)).toEqual([
+      'env',
+      'count',
+      'force',
+      'v',
+      '$0',
+      '$1',
+      'token',
+      'tags',
+      EXTRA_ARGS_FIELD,
+    ])
+    expect(Object.values(fields).every((field) => field.required === false)).toBe(true)
+    expect(fields.env).toMatchObject({
+      type: 'select',
+      message: '-e, --env <dev|prod>',
+      description: 'Target',
+      choices: ['dev', 'prod'],
+    })
+    expect(fields.count.type).toBe('text')
+    expect(fields.token.type).toBe('password')
+  })
+
+  it('should prefill the last values', () => {
+    const fields = createRunArgsFields(args, { env: 'prod', force: true, [EXTRA_ARGS_FIELD]: '-x' })
+
+    expect(fields.env).toMatchObject({ defaultValue: 'prod' })
+    expect(fields.force).toMatchObject({ defaultValue: true })
+    expect(fields[EXTRA_ARGS_FIELD]).toMatchObject({ defaultValue: '-x' })
+  })
+
+  it('should enter dynamic choices as text and skip duplicate arguments', () => {
+    const fields = createRunArgsFields([
+      { name: 'branch', type: 'select', choices: null },
+      { name: 'branch', type: 'text' },
+    ])
+
+    expect(Object.keys(fields)).toEqual(['branch', EXTRA_ARGS_FIELD])
+    expect(fields.branch.type).toBe('text')
+  })
+
+  it('should reject numbers that are not numeric', () => {
+    const { count } = createRunArgsFields(args)
+    const validate = count.validate as (value: string, ctx: { values: object }) => boolean | string
+
+    expect(validate('3', { values: {} })).toBe(true)
+    expect(validate('', { values: {} })).toBe(true)
+    expect(validate('three', { values: {} })).toEqual(expect.any(String))
+  })
+})
+
+describe('buildRunArgs', () => {
+  it('should put positional arguments first and flags last', () => {
+    const argv = buildRunArgs(args, {
+      env: 'prod',
+      count: '3',
+      force: true,
+      v: true,
+      $1: 'second',
+      $0: 'first',
+      tags: ['a', 'b'],
+      [EXTRA_ARGS_FIELD]: '--message "hello world"',
+    })
+
+    expect(argv).toEqual([
+      'first',
+      'second',
+      '--env=prod',
+      '--count=3',
+      '--tags=a,b',
+      '--message',
+      'hello world',
+      '--force',
+      '-v',
+    ])
+  })
+
+  it('should leave out empty fields and negate flags that are off', () => {
+    const argv = buildRunArgs(args, {
+      env: null,
+      count: '',
+      force: false,
+      v: false,
+      $0: '  ',
+      tags: [],
+      [EXTRA_ARGS_FIELD]: '',
+    })
+
+    expect(argv).toEqual(['--no-force'])
+  })
+})
+
+describe('getPasswordAnswers', () => {
+  it('should keep password values out of the arguments', () => {
+    const values = { env: 'prod', token: 'secret' }
+
+    expect(buildRunArgs(args, values)).toEqual(['--env=prod'])
+    expect(getPasswordAnswers(args, values)).toEqual({ token: 'secret' })
+    expect(getPasswordAnswers(args, { token: '' })).toEqual({})
+  })
+
+  it('should leave out password arguments without a long name', () => {
+    const fields = createRunArgsFields([{ short: 'p', type: 'password' }])
+
+    expect(Object.keys(fields)).toEqual([EXTRA_ARGS_FIELD])
+  })
+})
+
+describe('splitArgsLine', () => {
+  it('should split on whitespace', () => {
+    expect(splitArgsLine('  -a  b\tc ')).toEqual(['-a', 'b', 'c'])
+  })
+
+  it('should keep quoted text together', () => {
+    expect(splitArgsLine(`--name="Jane Doe" 'it''s' ""`)).toEqual(['--name=Jane Doe', 'its', ''])
+  })
+
+  it('should handle escapes and unclosed quotes', () => {
+    expect(splitArgsLine('a\\ b "c \\"d\\"" \'e\\n')).toEqual(['a b', 'c "d"', 'e\\n'])
+  })
+})
+
+describe('getRememberedArgValues', () => {
+  it('should drop password fields', () => {
+    const fields = createRunArgsFields(args)
+
+    expect(getRememberedArgValues(fields, { env: 'prod', token: 'secret' })).toEqual({
+      env: 'prod',
+    })
+  })
+})
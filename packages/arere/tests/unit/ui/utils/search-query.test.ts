@@ -0,0 +1,119 @@
+/**
+ * Tests for the search query syntax
+ */
+
+import type { Action } from '@/action/types.js'
+import type { BookmarkId } from '@/ui/bookmark/index.js'
+import {
+  fuzzyMatchActions,
+  matchesSearchFilters,
+  parseSearchQuery,
+} from '@/ui/utils/search-query.js'
+import { describe, expect, it } from 'vitest'
+
+function createAction(name: string, meta: Partial<Action['meta']> = {}, extra: Partial<Action> = {}): Action {
+  return {
+    meta: { name, description: `${name} description`, ...meta },
+    filePath: `/project/.arere/actions/${name}.ts`,
+    run: async () => {},
+    ...extra,
+  }
+}
+
+const status = createAction('status', { category: 'git', tags: ['vcs'] })
+const checkout = createAction('checkout', { category: 'git/branch', tags: ['vcs', 'Branch'] })
+const cleanup = createAction('cleanup', { tags: ['slow'] }, { location: 'global' })
+const timer = createAction(
+  'timer-start',
+  { category: 'plugin:arere-plugin-timer' },
+  { location: { plugin: 'arere-plugin-timer' } },
+)
+const actions = [status, checkout, cleanup, timer]
+
+/** Names of the actions matching a query */
+const filterNames = (query: string, bookmarks: BookmarkId[] = []) =>
+  actions
+    .filter((action) => matchesSearchFilters(action, parseSearchQuery(query).filters, bookmarks))
+    .map((action) => action.meta.name)
+
+describe('parseSearchQuery', () => {
+  it('should separate filters from free text', () => {
+    expect(parseSearchQuery('cat:git #Branch  -#slow new  branch')).toEqual({
+      filters: [
+        { field: 'category', value: 'git', negate: false },
+        { field: 'tag', value: 'branch', negate: false },
+        { field: 'tag', value: 'slow', negate: true },
+      ],
+      text: 'new branch',
+    })
+  })
+
+  it('should parse every filter field', () => {
+    const fields = parseSearchQuery('src:plugin plugin:timer is:bookmarked').filters.map(
+      (filter) => filter.field,
+    )
+
+    expect(fields).toEqual(['source', 'plugin', 'is'])
+  })
+
+  it('should ignore incomplete filters while typing', () => {
+    expect(parseSearchQuery('# cat: -')).toEqual({ filters: [], text: '-' })
+  })
+
+  it('should treat unknown prefixes as free text', () => {
+    expect(parseSearchQuery('foo:bar')).toEqual({ filters: [], text: 'foo:bar' })
+  })
+})
+
+describe('matchesSearchFilters', () => {
+  it('should match tags case-insensitively', () => {
+    expect(filterNames('#branch')).toEqual(['checkout'])
+    expect(filterNames('#vcs -#branch')).toEqual(['status'])
+  })
+
+  it('should match subcategories', () => {
+    expect(filterNames('cat:git')).toEqual(['status', 'checkout'])
+    expect(filterNames('cat:git/branch')).toEqual(['checkout'])
+    expect(filterNames('cat:timer')).toEqual(['timer-start'])
+  })
+
+  it('should match the source and plugin', () => {
+    expect(filterNames('src:global')).toEqual(['cleanup'])
+    expect(filterNames('src:plugin')).toEqual(['timer-start'])
+    expect(filterNames('plugin:timer')).toEqual(['timer-start'])
+    expect(filterNames('plugin:arere-plugin-timer')).toEqual(['timer-start'])
+  })
+
+  it('should match bookmarked actions', () => {
+    expect(filterNames('is:bookmarked', ['local:cleanup'])).toEqual(['cleanup'])
+    expect(filterNames('-is:bookmarked', ['local:cleanup'])).toEqual([
+      'status',
+      'checkout',
+      'timer-start',
+    ])
+  })
+
+  it('should match nothing for unknown is: values', () => {
+    expect(filterNames('is:slow')).toEqual([])
+  })
+})
+
+describe('fuzzyMatchActions', () => {
+  const items = actions.map((action) => ({
+    action,
+    name: action.meta.name,
+    description: `${action.meta.name} description`,
+  }))
+
+  it('should match the name and description with matched characters', () => {
+    const [match] = fuzzyMatchActions(items, 'checkout')
+
+    expect(match.obj.action).toBe(checkout)
+    expect(match.obj.highlights.name).toEqual([0, 1, 2, 3, 4, 5, 6, 7])
+    expect(match.obj.highlights.description).toEqual([0, 1, 2, 3, 4, 5, 6, 7])
+  })
+
+  it('should not match tags or categories', () => {
+    expect(fuzzyMatchActions(items, 'vcs')).toEqual([])
+  })
+})
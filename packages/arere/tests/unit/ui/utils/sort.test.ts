@@ -0,0 +1,162 @@
+/**
+ * Tests for action list ordering
+ */
+
+import type { Action } from '@/action/types.js'
+import type { ActionUsageMap } from '@/action/usage.js'
+import {
+  ACTION_SORT_MODES,
+  getNextSortMode,
+  rankSearchResults,
+  sortActions,
+} from '@/ui/utils/sort.js'
+import { describe, expect, it } from 'vitest'
+
+function createAction(name: string, category?: string): Action {
+  return {
+    meta: { name, description: name, category },
+    filePath: `/project/.arere/actions/${name}.ts`,
+    location: 'project',
+    run: async () => {},
+  }
+}
+
+const now = 1_000_000_000
+const actions = [
+  createAction('deploy', 'ops'),
+  createAction('build'),
+  createAction('test', 'dev'),
+  createAction('lint', 'dev'),
+]
+const usage: ActionUsageMap = {
+  'local:lint': { count: 5, lastUsedAt: now - 1000 },
+  'local:build': { count: 1, lastUsedAt: now - 1000 },
+}
+const names = (list: Action[]) => list.map((action) => action.meta.name)
+
+describe('sortActions', () => {
+  it('should keep the registry order', () => {
+    expect(names(sortActions(actions, { mode: 'registry', bookmarks: [], usage, now }))).toEqual([
+      'deploy',
+      'build',
+      'test',
+      'lint',
+    ])
+  })
+
+  it('should sort alphabetically', () => {
+    expect(
+      names(sortActions(actions, { mode: 'alphabetical', bookmarks: [], usage, now })),
+    ).toEqual(['build', 'deploy', 'lint', 'test'])
+  })
+
+  it('should sort by frecency and keep the registry order of unused actions', () => {
+    expect(names(sortActions(actions, { mode: 'frecency', bookmarks: [], usage, now }))).toEqual([
+      'lint',
+      'build',
+      'deploy',
+      'test',
+    ])
+  })
+
+  it('should group by category with uncategorized actions last', () => {
+    expect(names(sortActions(actions, { mode: 'category', bookmarks: [], usage, now }))).toEqual([
+      'lint',
+      'test',
+      'deploy',
+      'build',
+    ])
+  })
+
+  it('should pin bookmarked actions to the top in every mode', () => {
+    for (const mode of ACTION_SORT_MODES) {
+      const sorted = sortActions(actions, {
+        mode,
+        bookmarks: ['local:test', 'local:deploy'],
+        usage,
+        now,
+      })
+      expect(names(sorted.slice(0, 2)).sort()).toEqual(['deploy', 'test'])
+    }
+  })
+
+  it('should not modify the given array', () => {
+    sortActions(actions, { mode: 'alphabetical', bookmarks: [], usage, now })
+
+    expect(names(actions)).toEqual(['deploy', 'build', 'test', 'lint'])
+  })
+})
+
+describe('getNextSortMode', () => {
+  it('should cycle through the sort modes', () => {
+    expect(getNextSortMode('registry')).toBe('alphabetical')
+    expect(getNextSortMode('alphabetical')).toBe('frecency')
+    expect(getNextSortMode('frecency')).toBe('category')
+    expect(getNextSortMode('category')).toBe('registry')
+  })
+})
+
+describe('rankSearchResults', () => {
+  const [deploy, build, , lint] = actions
+
+  it('should lift frequently used actions among close matches', () => {
+    const results = [
+      { obj: deploy, score: -10 },
+      { obj: lint, score: -15 },
+    ]
+
+    expect(names(rankSearchResults(results, (action) => action, usage, now))).toEqual([
+      'lint',
+      'deploy',
+    ])
+  })
+
+  it('should not lift weak matches above good ones', () => {
+    const results = [
+      { obj: deploy, score: -10 },
+      { obj: build, score: -2000 },
+    ]
+
+    expect(names(rankSearchResults(results, (action) => action, usage, now))).toEqual([
+      'deploy',
+      'build',
+    ])
+  })
+
+  it('should keep exact matches above frequently used partial matches', () => {
+    const results = [
+      { obj: lint, score: -4 },
+      { obj: deploy, score: 0 },
+    ]
+
+    expect(names(rankSearchResults(results, (action) => action, usage, now))).toEqual([
+      'deploy',
+      'lint',
+    ])
+  })
+
+  it('should cap the frecency bonus', () => {
+    const frequent: ActionUsageMap = { 'local:lint': { count: 10_000, lastUsedAt: now - 1000 } }
+    const results = [
+      { obj: deploy, score: -10 },
+      { obj: lint, score: -25 },
+    ]
+
+    expect(names(rankSearchResults(results, (action) => action, frequent, now))).toEqual([
+      'deploy',
+      'lint',
+    ])
+  })
+
+  it('should keep the match order without usage', () => {
+    const results = [
+      { obj: build, score: -5 },
+      { obj: deploy, score: -10 },
+    ]
+
+    expect(names(rankSearchResults(results, (action) => action, {}, now))).toEqual([
+      'build',
+      'deploy',
+    ])
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Tests for action root discovery (actionDirs, git root walk-up)
+ */
+
+import { mkdirSync, mkdtempSync, realpathSync, rmSync } from 'node:fs'
+import { homedir, tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  expandHome,
+  findActionRoot,
+  findGitRoot,
+  getActionRoots,
+  getGlobalActionsDir,
+  getProjectDirectories,
+} from '@/lib/path.js'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+describe('action roots', () => {
+  let repo: string
+  let subdir: string
+
+  beforeEach(() => {
+    repo = realpathSync(mkdtempSync(join(tmpdir(), 'arere-roots-test-')))
+    subdir = join(repo, 'packages', 'web')
+    mkdirSync(join(repo, '.git'))
+    mkdirSync(subdir, { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true })
+  })
+
+  describe('expandHome', () => {
+    it('should expand a leading ~', () => {
+      expect(expandHome('~')).toBe(homedir())
+      expect(expandHome('~/actions')).toBe(join(homedir(), 'actions'))
+      expect(expandHome('./~/actions')).toBe('./~/actions')
+    })
+  })
+
+  describe('findGitRoot', () => {
+    it('should find the git root from a subdirectory', () => {
+      expect(findGitRoot(subdir)).toBe(repo)
+    })
+  })
+
+  describe('getProjectDirectories', () => {
+    it('should list directories from the git root down to cwd', () => {
+      expect(getProjectDirectories(subdir)).toEqual([repo, join(repo, 'packages'), subdir])
+    })
+  })
+
+  describe('getActionRoots', () => {
+    it('should include global and project roots up to the git root', () => {
+      expect(getActionRoots({}, subdir)).toEqual([
+        { path: getGlobalActionsDir(), label: 'global', scope: 'global' },
+        { path: join(repo, '.arere', 'actions'), label: 'project', scope: 'project' },
+        {
+          path: join(repo, 'packages', '.arere', 'actions'),
+          label: 'project',
+          scope: 'project',
+        },
+        { path: join(subdir, '.arere', 'actions'), label: 'project', scope: 'project' },
+      ])
+    })
+
+    it('should honor actionsDir', () => {
+      const roots = getActionRoots({ actionsDir: './tools' }, repo)
+      expect(roots.map((root) => root.path)).toContain(join(repo, 'tools', 'actions'))
+    })
+
+    it('should resolve actionDirs relative to the project root, with labels', () => {
+      const roots = getActionRoots(
+        { actionDirs: ['scripts', { path: '/opt/actions', label: 'shared' }] },
+        subdir,
+      )
+
+      expect(roots.slice(1, 3)).toEqual([
+        { path: join(repo, 'scripts'), label: 'scripts', scope: 'project' },
+        { path: '/opt/actions', label: 'shared', scope: 'global' },
+      ])
+    })
+
+    it('should expand globs to existing directories', () => {
+      mkdirSync(join(repo, 'services', 'api', 'actions'), { recursive: true })
+      mkdirSync(join(repo, 'services', 'web', 'actions'), { recursive: true })
+
+      const roots = getActionRoots({ actionDirs: ['services/*/actions'] }, repo)
+
+      expect(roots.slice(1, 3).map((root) => [root.path, root.label])).toEqual([
+        [join(repo, 'services', 'api', 'actions'), join('services', 'api', 'actions')],
+        [join(repo, 'services', 'web', 'actions'), join('services', 'web', 'actions')],
+      ])
+    })
+
+    it('should not list a directory twice', () => {
+      const roots = getActionRoots({ actionDirs: ['.arere/actions'] }, repo)
+      const paths = roots.map((root) => root.path)
+      expect(paths).toEqual([...new Set(paths)])
+    })
+  })
+
+  describe('findActionRoot', () => {
+    it('should return the innermost root containing a file', () => {
+      const roots = getActionRoots({ actionDirs: ['.arere'] }, repo)
+      const filePath = join(repo, '.arere', 'actions', 'deploy.ts')
+
+      expect(findActionRoot(filePath, roots)?.path).toBe(join(repo, '.arere', 'actions'))
+      expect(findActionRoot('/elsewhere/deploy.ts', roots)).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * Tests for JSON files shared between processes
+ */
+
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { JsonFileStore } from '@/lib/json-store.js'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+interface Counts {
+  counts: Record<string, number>
+}
+
+const parseCounts = (data: unknown): Counts => ({
+  counts: (data as Partial<Counts> | undefined)?.counts ?? {},
+})
+
+describe('JsonFileStore', () => {
+  let dir: string
+  let file: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'arere-json-store-'))
+    file = join(dir, 'nested', 'counts.json')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const increment = (store: JsonFileStore<Counts>, key: string) =>
+    store.update((current) => ({
+      counts: { ...current.counts, [key]: (current.counts[key] ?? 0) + 1 },
+    }))
+
+  it('should start from the parsed empty value without a file', () => {
+    expect(new JsonFileStore(file, 'counts', parseCounts).read()).toEqual({ counts: {} })
+    expect(existsSync(file)).toBe(false)
+  })
+
+  it('should create the directory and leave no temporary file', () => {
+    increment(new JsonFileStore(file, 'counts', parseCounts), 'a')
+
+    expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual({ counts: { a: 1 } })
+    expect(readdirSync(join(dir, 'nested'))).toEqual(['counts.json'])
+  })
+
+  it('should merge updates written by another store since the first read', () => {
+    const first = new JsonFileStore(file, 'counts', parseCounts)
+    const second = new JsonFileStore(file, 'counts', parseCounts)
+    first.read()
+
+    increment(second, 'a')
+    increment(first, 'a')
+    increment(first, 'b')
+
+    expect(new JsonFileStore(file, 'counts', parseCounts).read()).toEqual({
+      counts: { a: 2, b: 1 },
+    })
+  })
+
+  it('should treat a corrupted file as empty', () => {
+    increment(new JsonFileStore(file, 'counts', parseCounts), 'a')
+    writeFileSync(file, '{ not json')
+
+    expect(new JsonFileStore(file, 'counts', parseCounts).read()).toEqual({ counts: {} })
+  })
+})
@@ -5,6 +5,7 @@
  * Testing:
  * - getGlobalNodeModules with different env configs
  * - resolveActionPath with various path types
+ * - isWithin
  */
 
 import * as fs from 'node:fs'
@@ -19,6 +20,7 @@ import {
   getGlobalActionsDir,
   getGlobalNodeModules,
   getProjectActionsDir,
+  isWithin,
   resolveActionPath,
 } from '@/lib/path.js'
 
@@ -223,4 +225,21 @@ describe('Path utilities', () => {
       expect(calls[2]).toContain(homedir())
     })
   })
+
+  describe('isWithin', () => {
+    it('should accept the directory itself and paths inside it', () => {
+      expect(isWithin('/project', '/project')).toBe(true)
+      expect(isWithin('/project/.arere/actions', '/project')).toBe(true)
+    })
+
+    it('should treat names starting with .. as inside', () => {
+      expect(isWithin('/project/..cache', '/project')).toBe(true)
+    })
+
+    it('should reject parents and siblings', () => {
+      expect(isWithin('/', '/project')).toBe(false)
+      expect(isWithin('/other', '/project')).toBe(false)
+      expect(isWithin('/project-other', '/project')).toBe(false)
+    })
+  })
 })